@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "pending_messages" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pending_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pending_messages_recipientId_createdAt_idx" ON "pending_messages"("recipientId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "pending_messages_expiresAt_idx" ON "pending_messages"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "pending_messages" ADD CONSTRAINT "pending_messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pending_messages" ADD CONSTRAINT "pending_messages_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
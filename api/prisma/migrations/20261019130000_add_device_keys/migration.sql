@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "chats" DROP COLUMN "lastMessage";
+
+-- CreateTable
+CREATE TABLE "device_keys" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "identityKey" TEXT NOT NULL,
+
+    CONSTRAINT "device_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "device_keys_userId_idx" ON "device_keys"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_keys_userId_deviceId_key" ON "device_keys"("userId", "deviceId");
+
+-- AddForeignKey
+ALTER TABLE "device_keys" ADD CONSTRAINT "device_keys_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "pending_messages" ADD COLUMN "messageId" TEXT;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "AttachmentStatus" AS ENUM ('UPLOADING', 'READY');
+
+-- CreateTable
+CREATE TABLE "attachments" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "uploaderId" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "status" "AttachmentStatus" NOT NULL DEFAULT 'UPLOADING',
+    "receivedBytes" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+
+    CONSTRAINT "attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attachments_chatId_idx" ON "attachments"("chatId");
+
+-- CreateIndex
+CREATE INDEX "attachments_uploaderId_idx" ON "attachments"("uploaderId");
+
+-- CreateIndex
+CREATE INDEX "attachments_status_expiresAt_idx" ON "attachments"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_uploaderId_fkey" FOREIGN KEY ("uploaderId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "chats"("id") ON DELETE CASCADE ON UPDATE CASCADE;
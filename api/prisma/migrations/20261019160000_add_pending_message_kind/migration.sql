@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PendingMessageKind" AS ENUM ('MESSAGE', 'EDIT', 'DELETE');
+
+-- AlterTable
+ALTER TABLE "pending_messages" ADD COLUMN "kind" "PendingMessageKind" NOT NULL DEFAULT 'MESSAGE';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PendingMessageKind" ADD VALUE 'REACTION';
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "ChatType" AS ENUM ('DIRECT', 'GROUP');
+
+-- CreateEnum
+CREATE TYPE "ChatMemberRole" AS ENUM ('ADMIN', 'MEMBER');
+
+-- AlterTable
+ALTER TABLE "chats" ADD COLUMN     "type" "ChatType" NOT NULL DEFAULT 'DIRECT',
+ADD COLUMN     "title" TEXT,
+ADD COLUMN     "avatarUrl" TEXT,
+ADD COLUMN     "createdById" TEXT,
+ALTER COLUMN "userId1" DROP NOT NULL,
+ALTER COLUMN "userId2" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "chat_members" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "ChatMemberRole" NOT NULL DEFAULT 'MEMBER',
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "chat_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_members_chatId_userId_key" ON "chat_members"("chatId", "userId");
+
+-- CreateIndex
+CREATE INDEX "chat_members_userId_idx" ON "chat_members"("userId");
+
+-- AddForeignKey
+ALTER TABLE "chats" ADD CONSTRAINT "chats_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_members" ADD CONSTRAINT "chat_members_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "chats"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_members" ADD CONSTRAINT "chat_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
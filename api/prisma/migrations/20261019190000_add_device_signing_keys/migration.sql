@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "device_keys" ADD COLUMN "signingKey" TEXT;
@@ -6,6 +6,9 @@ import rateLimit from '@fastify/rate-limit';
 import dbPlugin from './plugins/db.plugin.js';
 import authPlugin from './plugins/auth.plugin.js';
 import socketPlugin from './plugins/socket.plugin.js';
+import idempotencyPlugin from './plugins/idempotency.plugin.js';
+import trackerPlugin from './plugins/tracker.plugin.js';
+import pushPlugin from './plugins/push.plugin.js';
 
 // Routes
 import authRoutes from './routes/auth.routes.js';
@@ -13,8 +16,12 @@ import userRoutes from './routes/user.routes.js';
 import livekitRoutes from './routes/livekit.routes.js';
 import contactRoutes from './routes/contact.routes.js';
 import messageRoutes from './routes/message.routes.js';
+import groupRoutes from './routes/group.routes.js';
 import callRoutes from './routes/call.routes.js';
 import turnRoutes from './routes/turn.routes.js';
+import attachmentRoutes from './routes/attachment.routes.js';
+import trackerRoutes from './routes/tracker.routes.js';
+import notificationRoutes from './routes/notification.routes.js';
 
 /**
  * Build and configure the Fastify application
@@ -52,7 +59,10 @@ export async function buildApp(): Promise<FastifyInstance> {
   // Register plugins
   await app.register(dbPlugin);
   await app.register(authPlugin);
+  await app.register(pushPlugin);
   await app.register(socketPlugin);
+  await app.register(idempotencyPlugin);
+  await app.register(trackerPlugin);
 
   // Health check endpoint
   app.get('/api/health', async () => {
@@ -78,8 +88,12 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(livekitRoutes, { prefix: '/api/livekit' });
   await app.register(contactRoutes, { prefix: '/api/contacts' });
   await app.register(messageRoutes, { prefix: '/api/chats' });
+  await app.register(groupRoutes, { prefix: '/api/chats/groups' });
   await app.register(callRoutes, { prefix: '/api/calls' });
   await app.register(turnRoutes, { prefix: '/api' });
+  await app.register(attachmentRoutes, { prefix: '/api/attachments' });
+  await app.register(trackerRoutes, { prefix: '/api/trackers' });
+  await app.register(notificationRoutes, { prefix: '/api/notifications' });
 
   return app;
 }
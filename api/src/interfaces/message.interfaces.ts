@@ -0,0 +1,272 @@
+/**
+ * Messaging Interfaces
+ *
+ * Type definitions for chat messages, edits, deletions and delivery receipts
+ * exchanged via Socket.io. Message content is end-to-end encrypted and opaque to the server.
+ *
+ * In 1-on-1 chats the client names the recipient (`to`) and sends one
+ * envelope. In group chats it omits `to` and sends `envelopes`, the content
+ * encrypted separately for every other member; each member receives their
+ * own envelope, with `isGroup` set on the relayed event.
+ *
+ * @module interfaces/message.interfaces
+ */
+
+/**
+ * Message Send Payload
+ *
+ * Sent by the client with the `message-send` event.
+ */
+export interface MessageSendPayload {
+  /**
+   * Recipient user ID (1-on-1 chats)
+   */
+  to?: string;
+
+  /**
+   * Chat ID
+   */
+  chatId: string;
+
+  /**
+   * Client-generated message ID
+   * Used by both sides to match receipts to the stored message.
+   */
+  messageId: string;
+
+  /**
+   * Encrypted message envelope (1-on-1 chats)
+   * Replies carry the quoted message ID and snippet inside the envelope.
+   */
+  message?: string;
+
+  /**
+   * Encrypted envelopes by member user ID (group chats)
+   */
+  envelopes?: Record<string, string>;
+
+  /**
+   * Client timestamp (ISO 8601)
+   */
+  timestamp: string;
+}
+
+/**
+ * Message Send Acknowledgement
+ *
+ * Returned to the sender once the server has relayed or queued the message.
+ */
+export interface MessageSendAck {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Message Receipt Payload
+ *
+ * Sent by the recipient with `message-delivered` and `message-read`.
+ */
+export interface MessageReceiptPayload {
+  /**
+   * Original sender user ID (receives the status update)
+   */
+  to: string;
+
+  /**
+   * Chat ID of the messages (both users must be in it)
+   */
+  chatId: string;
+
+  /**
+   * Client-generated IDs of the acknowledged messages
+   */
+  messageIds: string[];
+}
+
+/**
+ * Message Status Update
+ *
+ * Relayed to the original sender with the `message-status` event.
+ */
+export interface MessageStatusUpdate {
+  /**
+   * Recipient user ID (who delivered/read the messages)
+   */
+  from: string;
+
+  /**
+   * Client-generated message IDs
+   */
+  messageIds: string[];
+
+  /**
+   * New status of the messages
+   */
+  status: 'DELIVERED' | 'READ';
+}
+
+/**
+ * Message Edit Payload
+ *
+ * Sent by the author with the `message-edit` event.
+ */
+export interface MessageEditPayload {
+  /**
+   * Recipient user ID (1-on-1 chats)
+   */
+  to?: string;
+
+  /**
+   * Chat ID
+   */
+  chatId: string;
+
+  /**
+   * Client-generated ID of the edited message
+   */
+  messageId: string;
+
+  /**
+   * Encrypted envelope with the new content (1-on-1 chats)
+   */
+  message?: string;
+
+  /**
+   * Encrypted envelopes by member user ID (group chats)
+   */
+  envelopes?: Record<string, string>;
+
+  /**
+   * Client timestamp of the edit (ISO 8601)
+   */
+  editedAt: string;
+}
+
+/**
+ * Message Delete Payload
+ *
+ * Sent by the author with the `message-delete` event.
+ */
+export interface MessageDeletePayload {
+  /**
+   * Recipient user ID (1-on-1 chats; all members of a group otherwise)
+   */
+  to?: string;
+
+  /**
+   * Chat ID
+   */
+  chatId: string;
+
+  /**
+   * Client-generated ID of the deleted message
+   */
+  messageId: string;
+
+  /**
+   * Client timestamp of the deletion (ISO 8601)
+   */
+  deletedAt: string;
+}
+
+/**
+ * Message Edited Event
+ *
+ * Relayed to the recipient with the `message-edited` event.
+ */
+export interface MessageEditedEvent
+  extends Omit<MessageEditPayload, 'to' | 'message' | 'envelopes'> {
+  /**
+   * Author user ID
+   */
+  from: string;
+
+  /**
+   * Encrypted envelope with the new content (for this recipient)
+   */
+  message: string;
+
+  /**
+   * Set when the message belongs to a group chat
+   */
+  isGroup?: boolean;
+}
+
+/**
+ * Message Deleted Event
+ *
+ * Relayed to the recipient with the `message-deleted` event.
+ */
+export interface MessageDeletedEvent extends Omit<MessageDeletePayload, 'to'> {
+  /**
+   * Author user ID
+   */
+  from: string;
+
+  /**
+   * Set when the message belongs to a group chat
+   */
+  isGroup?: boolean;
+}
+
+/**
+ * Message React Payload
+ *
+ * Sent with the `message-react` event when a user sets or removes their
+ * reaction to a message.
+ */
+export interface MessageReactPayload {
+  /**
+   * Other participant of the chat (1-on-1 chats)
+   */
+  to?: string;
+
+  /**
+   * Chat ID
+   */
+  chatId: string;
+
+  /**
+   * Client-generated ID of the message reacted to
+   */
+  messageId: string;
+
+  /**
+   * Encrypted envelope with the emoji (empty emoji removes the reaction)
+   * (1-on-1 chats)
+   */
+  reaction?: string;
+
+  /**
+   * Encrypted envelopes by member user ID (group chats)
+   */
+  envelopes?: Record<string, string>;
+
+  /**
+   * Client timestamp of the reaction (ISO 8601)
+   */
+  reactedAt: string;
+}
+
+/**
+ * Message Reaction Event
+ *
+ * Relayed to the other participant with the `message-reaction` event.
+ */
+export interface MessageReactionEvent
+  extends Omit<MessageReactPayload, 'to' | 'reaction' | 'envelopes'> {
+  /**
+   * Reacting user ID
+   */
+  from: string;
+
+  /**
+   * Encrypted envelope with the emoji (for this recipient)
+   */
+  reaction: string;
+
+  /**
+   * Set when the message belongs to a group chat
+   */
+  isGroup?: boolean;
+}
@@ -0,0 +1,26 @@
+/**
+ * Socket.io Interfaces
+ *
+ * Type definitions for data attached to authenticated Socket.io connections.
+ *
+ * @module interfaces/socket.interfaces
+ */
+
+/**
+ * Authenticated Socket Data
+ *
+ * Stored in `socket.data` by the handshake middleware after the JWT
+ * has been verified. Handlers must use this identity instead of any
+ * client-supplied user ID.
+ */
+export interface AuthenticatedSocketData {
+  /**
+   * Verified user ID (from JWT payload)
+   */
+  userId: string;
+
+  /**
+   * Verified username (from JWT payload)
+   */
+  username: string;
+}
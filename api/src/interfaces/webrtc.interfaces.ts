@@ -111,3 +111,159 @@ export interface SignalIceCandidatePayload {
   candidate: WebRTCIceCandidate;
 }
 
+
+/**
+ * Call Initiate Payload
+ *
+ * Sent by the caller to start a call (`call-initiate` event); the server
+ * creates the call and rings the receiver's devices.
+ */
+export interface CallInitiatePayload {
+  /**
+   * User ID of the receiver
+   */
+  to: string;
+
+  /**
+   * Call type
+   */
+  callType: 'AUDIO' | 'VIDEO';
+
+  /**
+   * Call ID generated by the caller (calls also recorded locally)
+   */
+  callId?: string;
+}
+
+/**
+ * Call Initiate Acknowledgement
+ */
+export interface CallInitiateAck {
+  /**
+   * Whether the receiver is ringing
+   */
+  success: boolean;
+
+  /**
+   * ID of the created call (also when the receiver is busy)
+   */
+  callId?: string;
+
+  /**
+   * The receiver is in another call
+   */
+  busy?: boolean;
+
+  /**
+   * Error message if the call was not started
+   */
+  error?: string;
+}
+
+/**
+ * Call Action Payload
+ *
+ * Answer, decline or hang up a call (`call-accept`, `call-reject`,
+ * `call-end` events).
+ */
+export interface CallActionPayload {
+  /**
+   * User ID of the other participant
+   */
+  to: string;
+
+  /**
+   * Call ID
+   */
+  callId: string;
+}
+
+/**
+ * Call Signal Payload
+ *
+ * Unified signaling message used by the dual-channel signaling manager
+ * (`call-signal` event). Mirrors `SignalingMessage` on the frontend.
+ */
+export interface CallSignalPayload {
+  /**
+   * Signal type
+   */
+  type: 'offer' | 'answer' | 'ice-candidate' | 'call-end';
+
+  /**
+   * User ID of the caller
+   */
+  callerId: string;
+
+  /**
+   * User ID of the receiver
+   */
+  receiverId: string;
+
+  /**
+   * SDP string (required for offer and answer)
+   */
+  sdp?: string;
+
+  /**
+   * ICE candidate (required for ice-candidate)
+   */
+  candidate?: WebRTCIceCandidate;
+
+  /**
+   * Channel the sender used ('socket' for this relay)
+   */
+  channel: 'socket' | 'webtorrent';
+}
+
+/**
+ * Device Link Signal Payload
+ *
+ * Signaling message between two devices of the same user while chat
+ * history is moved from one to the other (`device-link-signal` event).
+ * Relayed to the user's other devices; only the device that knows the
+ * session answers.
+ */
+export interface DeviceLinkSignalPayload {
+  /**
+   * Session ID derived from the link code (the code itself never reaches
+   * the server)
+   */
+  sessionId: string;
+
+  /**
+   * Signal type
+   * - 'join': the new device asks the linking device to connect
+   * - 'offer' / 'answer' / 'ice-candidate': WebRTC negotiation
+   * - 'cancel': either device gave up the session
+   */
+  type: 'join' | 'offer' | 'answer' | 'ice-candidate' | 'cancel';
+
+  /**
+   * SDP string (required for offer and answer)
+   */
+  sdp?: string;
+
+  /**
+   * ICE candidate (required for ice-candidate)
+   */
+  candidate?: WebRTCIceCandidate;
+}
+
+/**
+ * Call Signal Acknowledgement
+ *
+ * Sent back to the emitter of a `call-signal` or `device-link-signal`
+ * event.
+ */
+export interface CallSignalAck {
+  /**
+   * Whether the signal was forwarded to the recipient
+   */
+  success: boolean;
+
+  /**
+   * Error message if the signal was not forwarded
+   */
+  error?: string;
+}
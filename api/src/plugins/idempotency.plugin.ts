@@ -0,0 +1,172 @@
+/**
+ * Idempotency Plugin
+ *
+ * Lets clients retry mutating requests safely. A POST, PUT, PATCH or
+ * DELETE request of an authenticated user may carry an `Idempotency-Key`
+ * header; the response to the first request with a key is kept, and
+ * requests repeating the key get the same response (with an
+ * `Idempotent-Replayed: true` header) instead of being applied again.
+ *
+ * The offline outbox of the web client sends one key per queued action, so
+ * an action whose response was lost on a flaky connection is not applied
+ * twice when it is replayed.
+ *
+ * Keys are scoped to the user, method and URL. Responses are kept in memory
+ * for 24 hours; server errors (5xx) are not kept, so the request can be
+ * retried.
+ *
+ * @module plugins/idempotency.plugin
+ */
+
+import { FastifyInstance, FastifyPluginAsync, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { JWTPayload } from '../services/auth.service.js';
+
+/**
+ * How long a response is replayed for a key
+ */
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum number of kept responses (the oldest are dropped first)
+ */
+const MAX_ENTRIES = 10000;
+
+/**
+ * Maximum length of an idempotency key
+ */
+const MAX_KEY_LENGTH = 128;
+
+/**
+ * Methods whose requests may carry a key
+ */
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Request with a key: in progress, or its kept response
+ */
+interface IdempotencyEntry {
+  createdAt: number;
+  response: {
+    statusCode: number;
+    contentType: string | undefined;
+    payload: string;
+  } | null; // Null while the first request is in progress
+}
+
+/**
+ * Extend Fastify request with the idempotency key being handled
+ */
+declare module 'fastify' {
+  interface FastifyRequest {
+    idempotencyKey?: string;
+  }
+}
+
+/**
+ * Idempotency Plugin
+ *
+ * Registers a preHandler hook (after route authentication) that replays
+ * kept responses, and an onSend hook that keeps them.
+ */
+const idempotencyPlugin: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  // Insertion order is creation order, so the oldest entries come first
+  const entries = new Map<string, IdempotencyEntry>();
+
+  const removeExpired = () => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (
+        now - entry.createdAt < IDEMPOTENCY_TTL_MS &&
+        entries.size <= MAX_ENTRIES
+      ) {
+        break;
+      }
+      entries.delete(key);
+    }
+  };
+
+  const getEntryKey = (request: FastifyRequest): string | null => {
+    const header = request.headers['idempotency-key'];
+    const user = request.user as JWTPayload | undefined;
+    if (
+      typeof header !== 'string' ||
+      !header ||
+      header.length > MAX_KEY_LENGTH ||
+      !user?.userId ||
+      !MUTATING_METHODS.has(request.method)
+    ) {
+      return null;
+    }
+    return `${user.userId}:${request.method}:${request.url}:${header}`;
+  };
+
+  fastify.addHook('preHandler', async (request, reply) => {
+    const key = getEntryKey(request);
+    if (!key) return;
+
+    removeExpired();
+    const entry = entries.get(key);
+
+    if (!entry) {
+      entries.set(key, { createdAt: Date.now(), response: null });
+      request.idempotencyKey = key;
+      return;
+    }
+
+    if (!entry.response) {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: 'A request with this idempotency key is in progress',
+      });
+    }
+
+    if (entry.response.contentType) {
+      reply.header('content-type', entry.response.contentType);
+    }
+    return reply
+      .status(entry.response.statusCode)
+      .header('idempotent-replayed', 'true')
+      .send(entry.response.payload);
+  });
+
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const key = request.idempotencyKey;
+    if (!key) return payload;
+
+    if (reply.statusCode >= 500 || typeof payload !== 'string') {
+      entries.delete(key);
+      return payload;
+    }
+
+    const contentType = reply.getHeader('content-type');
+    entries.set(key, {
+      createdAt: Date.now(),
+      response: {
+        statusCode: reply.statusCode,
+        contentType: typeof contentType === 'string' ? contentType : undefined,
+        payload,
+      },
+    });
+    return payload;
+  });
+
+  // A request that failed before a response was sent can be retried
+  fastify.addHook('onResponse', async (request) => {
+    const key = request.idempotencyKey;
+    if (key && entries.get(key)?.response === null) {
+      entries.delete(key);
+    }
+  });
+};
+
+/**
+ * Export plugin wrapped with fastify-plugin
+ * This ensures the hooks apply to the routes of every scope
+ */
+export default fp(idempotencyPlugin, {
+  name: 'idempotency-plugin',
+  dependencies: ['auth-plugin'],
+});
@@ -0,0 +1,106 @@
+/**
+ * Push Plugin
+ *
+ * Sets up Web Push (see services/push.service). The VAPID key pair comes
+ * from `VAPID_PUBLIC_KEY` and `VAPID_PRIVATE_KEY`, or is generated on first
+ * start and stored in the database, so subscriptions stay valid across
+ * restarts and instances.
+ *
+ * Subscriptions must be on the push service of a browser;
+ * `PUSH_ENDPOINT_HOSTS` adds hosts (comma-separated) and
+ * `PUSH_ALLOW_INSECURE_ENDPOINTS` accepts http://, for a local push service
+ * in development.
+ *
+ * Decorates `fastify.push` and `fastify.sendPush`, which sends in the
+ * background and logs failures, for events of users without a connected
+ * device (incoming and missed calls, contact requests, messages).
+ *
+ * @module plugins/push.plugin
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import {
+  PushService,
+  PushNotification,
+  PushOptions,
+  getOrCreateVapidKeys,
+} from '../services/push.service.js';
+
+/**
+ * Extend Fastify instance with Web Push
+ */
+declare module 'fastify' {
+  interface FastifyInstance {
+    push: PushService;
+    sendPush: (
+      userId: string,
+      notification: PushNotification,
+      options?: PushOptions
+    ) => void;
+  }
+}
+
+/**
+ * Push Plugin
+ *
+ * Loads the VAPID key pair and decorates the push service.
+ */
+const pushPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey !== !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set together');
+  }
+
+  const vapidKeys =
+    publicKey && privateKey
+      ? { publicKey, privateKey }
+      : await getOrCreateVapidKeys(fastify.prisma);
+
+  const subject =
+    process.env.VAPID_SUBJECT ||
+    (process.env.DOMAIN ? `https://${process.env.DOMAIN}` : 'mailto:admin@localhost');
+
+  const push = new PushService(fastify.prisma, vapidKeys, subject, {
+    extraHosts: (process.env.PUSH_ENDPOINT_HOSTS || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    allowInsecure: process.env.PUSH_ALLOW_INSECURE_ENDPOINTS === 'true',
+  });
+  fastify.decorate('push', push);
+
+  fastify.decorate(
+    'sendPush',
+    (userId: string, notification: PushNotification, options?: PushOptions) => {
+      push
+        .sendToUser(userId, notification, options)
+        .then((deliveries) => {
+          for (const delivery of deliveries) {
+            if (delivery.status === null || delivery.status >= 400) {
+              fastify.log.warn(
+                { delivery, type: notification.type },
+                'Push notification not delivered'
+              );
+            }
+          }
+        })
+        .catch((error) => {
+          fastify.log.error({ error }, 'Error sending push notification');
+        });
+    }
+  );
+
+  fastify.log.info(
+    `Push plugin registered (${publicKey ? 'configured' : 'stored'} VAPID keys)`
+  );
+};
+
+/**
+ * Export plugin wrapped with fastify-plugin
+ */
+export default fp(pushPlugin, {
+  name: 'push-plugin',
+  dependencies: ['db-plugin'],
+});
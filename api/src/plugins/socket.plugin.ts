@@ -11,19 +11,245 @@ import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import fp from 'fastify-plugin';
 import fastifySocketIO from 'fastify-socket.io';
 import { Server as SocketIOServer, Socket } from 'socket.io';
+import { z } from 'zod';
 import { MessageService } from '../services/message.service.js';
+import { AuthService } from '../services/auth.service.js';
+import { ContactService } from '../services/contact.service.js';
+import { MAX_GROUP_MEMBERS } from '../services/group.service.js';
+import {
+  PresenceService,
+  DEFAULT_PRESENCE_GRACE_PERIOD_MS,
+} from '../services/presence.service.js';
+import {
+  MessageQueueService,
+  EnqueueMessageData,
+  DEFAULT_PENDING_MESSAGE_TTL_SECONDS,
+  MAX_PENDING_PAYLOAD_LENGTH,
+} from '../services/message-queue.service.js';
+import {
+  CallSessionService,
+  DEFAULT_CALL_RING_TIMEOUT_MS,
+} from '../services/call-session.service.js';
+import { PushNotification, PushOptions } from '../services/push.service.js';
+import { AuthenticatedSocketData } from '../interfaces/socket.interfaces.js';
+import {
+  MessageSendPayload,
+  MessageSendAck,
+  MessageReceiptPayload,
+  MessageStatusUpdate,
+  MessageEditPayload,
+  MessageDeletePayload,
+  MessageEditedEvent,
+  MessageDeletedEvent,
+  MessageReactPayload,
+  MessageReactionEvent,
+} from '../interfaces/message.interfaces.js';
 import {
   SignalOfferPayload,
   SignalAnswerPayload,
   SignalIceCandidatePayload,
+  CallInitiatePayload,
+  CallInitiateAck,
+  CallActionPayload,
+  CallSignalPayload,
+  CallSignalAck,
+  DeviceLinkSignalPayload,
 } from '../interfaces/webrtc.interfaces.js';
 
+/**
+ * Call signal schema (dual-channel `call-signal` event)
+ *
+ * Offers and answers must carry an SDP, ICE candidates must carry a candidate.
+ */
+const callSignalSchema = z
+  .object({
+    type: z.enum(['offer', 'answer', 'ice-candidate', 'call-end']),
+    callerId: z.string().min(1),
+    receiverId: z.string().min(1),
+    sdp: z.string().min(1).optional(),
+    candidate: z
+      .object({
+        candidate: z.string(),
+        sdpMid: z.string().nullable(),
+        sdpMLineIndex: z.number().nullable(),
+        usernameFragment: z.string().nullable().optional(),
+      })
+      .optional(),
+    channel: z.enum(['socket', 'webtorrent']),
+  })
+  .refine(
+    (msg) => (msg.type === 'offer' || msg.type === 'answer' ? !!msg.sdp : true),
+    { message: 'SDP is required for offer and answer' }
+  )
+  .refine((msg) => (msg.type === 'ice-candidate' ? !!msg.candidate : true), {
+    message: 'Candidate is required for ice-candidate',
+  });
+
+/**
+ * Call initiate schema (`call-initiate` event)
+ */
+const callInitiateSchema = z.object({
+  to: z.string().min(1),
+  callType: z.enum(['AUDIO', 'VIDEO']),
+  callId: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{1,64}$/)
+    .optional(),
+});
+
+/**
+ * Call action schema (`call-accept`, `call-reject` and `call-end` events)
+ */
+const callActionSchema = z.object({
+  to: z.string().min(1),
+  callId: z.string().min(1).max(64),
+});
+
+/**
+ * Device link signal schema (`device-link-signal` event)
+ */
+const deviceLinkSignalSchema = z
+  .object({
+    sessionId: z.string().regex(/^[0-9a-f]{32}$/),
+    type: z.enum(['join', 'offer', 'answer', 'ice-candidate', 'cancel']),
+    sdp: z.string().min(1).max(20000).optional(),
+    candidate: z
+      .object({
+        candidate: z.string(),
+        sdpMid: z.string().nullable(),
+        sdpMLineIndex: z.number().nullable(),
+        usernameFragment: z.string().nullable().optional(),
+      })
+      .optional(),
+  })
+  .refine(
+    (msg) => (msg.type === 'offer' || msg.type === 'answer' ? !!msg.sdp : true),
+    { message: 'SDP is required for offer and answer' }
+  )
+  .refine((msg) => (msg.type === 'ice-candidate' ? !!msg.candidate : true), {
+    message: 'Candidate is required for ice-candidate',
+  });
+
+/**
+ * Encrypted envelopes of a group chat event, by member user ID
+ */
+const envelopesSchema = z
+  .record(z.string().min(1), z.string().min(1).max(MAX_PENDING_PAYLOAD_LENGTH))
+  .refine((envelopes) => Object.keys(envelopes).length < MAX_GROUP_MEMBERS, {
+    message: 'Too many envelopes',
+  });
+
+/**
+ * 1-on-1 events name the recipient and carry one envelope; group events
+ * carry envelopes instead
+ */
+const hasRecipients =
+  <T extends { to?: string; envelopes?: unknown }>(
+    content: (data: T) => unknown
+  ) =>
+  (data: T): boolean =>
+    data.to ? !!content(data) && !data.envelopes : !!data.envelopes;
+
+/**
+ * Message send schema (`message-send` event)
+ */
+const messageSendSchema = z
+  .object({
+    to: z.string().min(1).optional(),
+    chatId: z.string().min(1),
+    messageId: z.string().min(1).max(128),
+    message: z.string().min(1).max(MAX_PENDING_PAYLOAD_LENGTH).optional(),
+    envelopes: envelopesSchema.optional(),
+    timestamp: z.string(),
+  })
+  .refine(
+    hasRecipients((data) => data.message),
+    { message: 'Recipient and message, or envelopes, are required' }
+  );
+
+/**
+ * Message edit schema (`message-edit` event)
+ */
+const messageEditSchema = z
+  .object({
+    to: z.string().min(1).optional(),
+    chatId: z.string().min(1),
+    messageId: z.string().min(1).max(128),
+    message: z.string().min(1).max(MAX_PENDING_PAYLOAD_LENGTH).optional(),
+    envelopes: envelopesSchema.optional(),
+    editedAt: z.string(),
+  })
+  .refine(
+    hasRecipients((data) => data.message),
+    { message: 'Recipient and message, or envelopes, are required' }
+  );
+
+/**
+ * Message delete schema (`message-delete` event)
+ *
+ * Without `to`, the deletion reaches every member of the group.
+ */
+const messageDeleteSchema = z.object({
+  to: z.string().min(1).optional(),
+  chatId: z.string().min(1),
+  messageId: z.string().min(1).max(128),
+  deletedAt: z.string(),
+});
+
+/**
+ * Message reaction schema (`message-react` event)
+ */
+const messageReactSchema = z
+  .object({
+    to: z.string().min(1).optional(),
+    chatId: z.string().min(1),
+    messageId: z.string().min(1).max(128),
+    reaction: z.string().min(1).max(16 * 1024).optional(),
+    envelopes: envelopesSchema.optional(),
+    reactedAt: z.string(),
+  })
+  .refine(
+    hasRecipients((data) => data.reaction),
+    { message: 'Recipient and reaction, or envelopes, are required' }
+  );
+
+/**
+ * Message receipt schema (`message-delivered` and `message-read` events)
+ */
+const messageReceiptSchema = z.object({
+  to: z.string().min(1),
+  chatId: z.string().min(1),
+  messageIds: z.array(z.string().min(1).max(128)).min(1).max(500),
+});
+
+/**
+ * Message acknowledgement schema (`message-ack` event)
+ */
+const messageAckSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(500),
+});
+
+/**
+ * Interval between purges of expired queued messages (ms) - 1 hour
+ */
+const PENDING_MESSAGE_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Time an unanswered call rings before it is missed (ms)
+ */
+const CALL_RING_TIMEOUT_MS = parseInt(
+  process.env.CALL_RING_TIMEOUT_MS || String(DEFAULT_CALL_RING_TIMEOUT_MS),
+  10
+);
+
 /**
  * Extend Fastify instance with Socket.io server
  */
 declare module 'fastify' {
   interface FastifyInstance {
     io: SocketIOServer;
+    presence: PresenceService;
+    callSessions: CallSessionService;
   }
 }
 
@@ -33,6 +259,41 @@ declare module 'fastify' {
  * Initializes Socket.io server and sets up event handlers for signaling.
  * Handles WebRTC signaling for 1-on-1 calls (offer, answer, ICE candidates).
  *
+ * Every connection must present a valid JWT in the handshake
+ * (`auth.token` or `Authorization: Bearer <token>`). The verified user ID
+ * is stored in `socket.data` and the socket joins that user's room
+ * automatically; relayed events always carry this ID as `from`.
+ *
+ * Messages for users with no connected device are queued and flushed as a
+ * `messages-pending` batch when the user connects again. Queued messages are
+ * deleted once the client confirms them with `message-ack`, which also
+ * sends the next batch.
+ *
+ * `message-send` is acknowledged once the message is relayed or queued
+ * (SENT). Recipients report `message-delivered` and `message-read`, which
+ * reach the sender as `message-status`.
+ *
+ * Authors can change sent messages with `message-edit` (new encrypted
+ * content) and `message-delete`; recipients get `message-edited` and
+ * `message-deleted`, or the queued equivalent when they are offline.
+ * Either participant can react to a message with `message-react` (the
+ * emoji is encrypted); the other one gets `message-reaction`.
+ *
+ * In group chats these events carry one envelope per member instead of a
+ * recipient. The server checks that the sender is a member and fans the
+ * event out to every other member's room (or queue), flagged `isGroup`.
+ * The server cannot see message content or authorship, so recipients only
+ * apply edits and deletions to messages the `from` user actually sent them.
+ *
+ * Calls are started with `call-initiate` and then answered, declined or
+ * hung up with `call-accept`, `call-reject` and `call-end`. The server owns
+ * their state (see services/call-session.service): it rings every device of
+ * the receiver, misses the call after the ring timeout, answers busy users
+ * for the caller and tells the other devices when one has answered.
+ *
+ * Users with no connected device get a push notification (see
+ * plugins/push.plugin) for incoming and missed calls and for new messages.
+ *
  * @example
  * ```typescript
  * // In app.ts
@@ -54,141 +315,916 @@ const socketPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     transports: ['websocket', 'polling'],
   });
 
-  // Initialize message service
+  // Initialize services
   const messageService = new MessageService(fastify.prisma);
+  const authService = new AuthService(fastify);
+  const contactService = new ContactService(fastify.prisma);
+
+  // Presence: push online/offline changes to each user's accepted contacts
+  const presenceService = new PresenceService(
+    fastify.prisma,
+    (recipientIds, update) => {
+      if (recipientIds.length === 0) return;
+      fastify.io.to(recipientIds).emit('presence-changed', {
+        userId: update.userId,
+        isOnline: update.isOnline,
+        lastSeenAt: update.lastSeenAt.toISOString(),
+      });
+    },
+    parseInt(
+      process.env.PRESENCE_GRACE_PERIOD_MS ||
+        String(DEFAULT_PRESENCE_GRACE_PERIOD_MS),
+      10
+    )
+  );
+  await presenceService.resetAll();
+  fastify.decorate('presence', presenceService);
+
+  // Call sessions: lifecycle of 1-on-1 calls
+  const callSessionService = new CallSessionService(
+    fastify.prisma,
+    (to, event, payload, exceptSocketId) => {
+      (exceptSocketId
+        ? fastify.io.to(to).except(exceptSocketId)
+        : fastify.io.to(to)
+      ).emit(event, payload);
+    },
+    (session) => {
+      // Replaces the incoming call notification
+      if (presenceService.isConnected(session.receiverId)) return;
+
+      fastify.push
+        .getUserName(session.callerId)
+        .then((name) =>
+          fastify.sendPush(session.receiverId, {
+            type: 'missed-call',
+            title: 'Missed call',
+            body: `${name} called you`,
+            tag: `call-${session.callerId}`,
+            url: '/calls',
+            data: { callerId: session.callerId, callId: session.callId },
+          })
+        )
+        .catch((error) => {
+          fastify.log.error({ error }, 'Error sending push notification');
+        });
+    },
+    CALL_RING_TIMEOUT_MS
+  );
+  const interruptedCalls = await callSessionService.resetAll();
+  if (interruptedCalls > 0) {
+    fastify.log.info(`Closed ${interruptedCalls} calls interrupted by a restart`);
+  }
+  fastify.decorate('callSessions', callSessionService);
+
+  // Store-and-forward queue for offline recipients
+  const messageQueueService = new MessageQueueService(
+    fastify.prisma,
+    parseInt(
+      process.env.PENDING_MESSAGE_TTL_SECONDS ||
+        String(DEFAULT_PENDING_MESSAGE_TTL_SECONDS),
+      10
+    )
+  );
+
+  const purgeTimer = setInterval(() => {
+    messageQueueService
+      .purgeExpired()
+      .then((count) => {
+        if (count > 0) {
+          fastify.log.info(`Purged ${count} expired pending messages`);
+        }
+      })
+      .catch((error) => {
+        fastify.log.error({ error }, 'Error purging pending messages');
+      });
+  }, PENDING_MESSAGE_PURGE_INTERVAL_MS);
+  purgeTimer.unref();
+
+  fastify.addHook('onClose', async () => {
+    presenceService.shutdown();
+    callSessionService.shutdown();
+    clearInterval(purgeTimer);
+  });
+
+  // Handshake authentication: reject connections without a valid JWT
+  fastify.io.use(async (socket, next) => {
+    const token =
+      (typeof socket.handshake.auth?.token === 'string'
+        ? socket.handshake.auth.token
+        : null) ||
+      authService.extractTokenFromHeader(
+        socket.handshake.headers.authorization
+      );
+
+    if (!token) {
+      fastify.log.warn(`Socket ${socket.id} rejected: missing token`);
+      return next(new Error('Unauthorized'));
+    }
+
+    try {
+      const payload = await authService.verifyToken(token);
+      const data: AuthenticatedSocketData = {
+        userId: payload.userId,
+        username: payload.username,
+      };
+      socket.data = data;
+      next();
+    } catch {
+      fastify.log.warn(`Socket ${socket.id} rejected: invalid token`);
+      next(new Error('Unauthorized'));
+    }
+  });
 
   // Socket.io connection handler
   fastify.io.on('connection', (socket: Socket) => {
-    fastify.log.info(`Socket connected: ${socket.id}`);
+    const { userId } = socket.data as AuthenticatedSocketData;
 
-    // User joins with their user ID
-    socket.on('join', (userId: string) => {
-      socket.join(userId);
-      fastify.log.debug(`User ${userId} joined room`);
+    // Join the user's personal room (all devices of a user share it)
+    socket.join(userId);
+    fastify.log.info(`Socket connected: ${socket.id} (user ${userId})`);
+
+    presenceService.handleConnect(userId).catch((error) => {
+      fastify.log.error({ error }, 'Error updating presence on connect');
     });
 
+    /**
+     * Deliver the next batch of messages queued while the user was offline
+     *
+     * Called on connect and after each acknowledged batch, until the queue
+     * is empty.
+     */
+    const flushPending = (): void => {
+      messageQueueService
+        .getPending(userId)
+        .then(async (pending) => {
+          if (pending.length === 0) return;
+
+          const groupChatIds = await messageService.getGroupChatIds([
+            ...new Set(pending.map((m) => m.chatId)),
+          ]);
+
+          fastify.log.debug(
+            `Flushing ${pending.length} pending messages to ${socket.id}`
+          );
+          socket.emit('messages-pending', {
+            messages: pending.map((m) => ({
+              id: m.id,
+              kind: m.kind,
+              from: m.senderId,
+              chatId: m.chatId,
+              messageId: m.messageId ?? m.id,
+              message: m.payload,
+              timestamp: m.sentAt.toISOString(),
+              ...(groupChatIds.has(m.chatId) ? { isGroup: true } : {}),
+            })),
+          });
+        })
+        .catch((error) => {
+          fastify.log.error({ error }, 'Error flushing pending messages');
+        });
+    };
+
+    flushPending();
+
+    // Ring this device too if a call is ringing for the user, with the
+    // offer first so the incoming call can be answered
+    const ringingCall = callSessionService.getRingingCall(userId);
+    if (ringingCall) {
+      if (ringingCall.offer) {
+        socket.emit('signal-offer', {
+          from: ringingCall.callerId,
+          offer: ringingCall.offer,
+        });
+      }
+      socket.emit('call-incoming', {
+        from: ringingCall.callerId,
+        callId: ringingCall.callId,
+        callType: ringingCall.type,
+      });
+    }
+
     // WebRTC signaling: offer
     socket.on('signal-offer', (data: SignalOfferPayload) => {
-      fastify.log.debug(`Signal offer from ${socket.id} to ${data.to}`);
+      fastify.log.debug(`Signal offer from ${userId} to ${data.to}`);
+      callSessionService.setOffer(userId, data.to, data.offer);
       socket.to(data.to).emit('signal-offer', {
-        from: socket.id,
+        from: userId,
         offer: data.offer,
       });
     });
 
     // WebRTC signaling: answer
     socket.on('signal-answer', (data: SignalAnswerPayload) => {
-      fastify.log.debug(`Signal answer from ${socket.id} to ${data.to}`);
+      fastify.log.debug(`Signal answer from ${userId} to ${data.to}`);
       socket.to(data.to).emit('signal-answer', {
-        from: socket.id,
+        from: userId,
         answer: data.answer,
       });
     });
 
     // WebRTC signaling: ICE candidate
     socket.on('signal-ice-candidate', (data: SignalIceCandidatePayload) => {
-      fastify.log.debug(`ICE candidate from ${socket.id} to ${data.to}`);
+      fastify.log.debug(`ICE candidate from ${userId} to ${data.to}`);
       socket.to(data.to).emit('signal-ice-candidate', {
-        from: socket.id,
+        from: userId,
         candidate: data.candidate,
       });
     });
 
-    // Call initiation
-    socket.on('call-initiate', (data: { to: string; callType: string }) => {
-      fastify.log.info(`Call initiated from ${socket.id} to ${data.to}`);
-      socket.to(data.to).emit('call-incoming', {
-        from: socket.id,
-        callType: data.callType,
-      });
-    });
+    // Dual-channel signaling: unified signal with acknowledgement
+    socket.on(
+      'call-signal',
+      async (
+        payload: CallSignalPayload,
+        ack?: (response: CallSignalAck) => void
+      ) => {
+        const respond = (response: CallSignalAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
 
-    // Call accepted
-    socket.on('call-accept', (data: { to: string }) => {
-      fastify.log.info(`Call accepted by ${socket.id}`);
-      socket.to(data.to).emit('call-accepted', {
-        from: socket.id,
-      });
-    });
+        try {
+          const result = callSignalSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid signaling message: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const message = result.data;
+
+          // Sender must be one of the call participants
+          if (message.callerId !== userId && message.receiverId !== userId) {
+            return respond({
+              success: false,
+              error: 'Sender is not a participant in this call',
+            });
+          }
+
+          const recipientId =
+            message.callerId === userId ? message.receiverId : message.callerId;
+
+          if (await contactService.isBlocked(recipientId, userId)) {
+            return respond({
+              success: false,
+              error: 'Recipient has blocked you',
+            });
+          }
+
+          const recipientSockets = await fastify.io
+            .in(recipientId)
+            .fetchSockets();
+          if (recipientSockets.length === 0) {
+            return respond({ success: false, error: 'Recipient is offline' });
+          }
+
+          fastify.log.debug(
+            `Call signal (${message.type}) from ${userId} to ${recipientId}`
+          );
+          socket.to(recipientId).emit('call-signal', message);
+
+          respond({ success: true });
+        } catch (error) {
+          fastify.log.error({ error }, 'Error handling call-signal');
+          respond({ success: false, error: 'Failed to relay signal' });
+        }
+      }
+    );
+
+    // Device link: signaling between two devices of the same user (chat
+    // history is then moved peer-to-peer, never through the server)
+    socket.on(
+      'device-link-signal',
+      async (
+        payload: DeviceLinkSignalPayload,
+        ack?: (response: CallSignalAck) => void
+      ) => {
+        const respond = (response: CallSignalAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
+
+        try {
+          const result = deviceLinkSignalSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid signaling message: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const otherDevices = (
+            await fastify.io.in(userId).fetchSockets()
+          ).filter((other) => other.id !== socket.id);
+          if (otherDevices.length === 0) {
+            return respond({
+              success: false,
+              error: 'No other device is online',
+            });
+          }
+
+          fastify.log.debug(
+            `Device link signal (${result.data.type}) from ${socket.id}`
+          );
+          socket.to(userId).emit('device-link-signal', result.data);
+
+          respond({ success: true });
+        } catch (error) {
+          fastify.log.error({ error }, 'Error handling device-link-signal');
+          respond({ success: false, error: 'Failed to relay signal' });
+        }
+      }
+    );
+
+    /**
+     * Send a push notification from this user to a user with no connected
+     * device
+     */
+    const pushIfOffline = (
+      to: string,
+      createNotification: (name: string) => PushNotification,
+      options?: PushOptions
+    ): void => {
+      if (presenceService.isConnected(to)) return;
+
+      fastify.push
+        .getUserName(userId)
+        .then((name) => fastify.sendPush(to, createNotification(name), options))
+        .catch((error) => {
+          fastify.log.error({ error }, 'Error sending push notification');
+        });
+    };
+
+    // Call initiation (acknowledged with the call ID)
+    socket.on(
+      'call-initiate',
+      async (
+        payload: CallInitiatePayload,
+        ack?: (response: CallInitiateAck) => void
+      ) => {
+        const respond = (response: CallInitiateAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
+
+        try {
+          const result = callInitiateSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid call: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const data = result.data;
+
+          if (await contactService.isBlocked(data.to, userId)) {
+            return respond({
+              success: false,
+              error: 'Recipient has blocked you',
+            });
+          }
+
+          const { call, busy } = await callSessionService.initiate(
+            userId,
+            socket.id,
+            data.to,
+            data.callType,
+            data.callId
+          );
+
+          if (busy) {
+            fastify.log.info(`Call ${call.id} from ${userId}: ${data.to} is busy`);
+            return respond({
+              success: false,
+              callId: call.id,
+              busy: true,
+              error: 'User is busy',
+            });
+          }
+
+          fastify.log.info(`Call ${call.id} initiated from ${userId} to ${data.to}`);
+          respond({ success: true, callId: call.id });
+
+          pushIfOffline(
+            data.to,
+            (name) => ({
+              type: 'incoming-call',
+              title: 'Incoming call',
+              body: `${name} is calling...`,
+              tag: `call-${userId}`,
+              url: '/home',
+              data: { callerId: userId, callId: call.id, callType: data.callType },
+            }),
+            { ttl: Math.ceil(CALL_RING_TIMEOUT_MS / 1000), urgency: 'high' }
+          );
+        } catch (error) {
+          if (
+            error instanceof Error &&
+            (error.message === 'Cannot call yourself' ||
+              error.message === 'Caller is already in a call' ||
+              error.message === 'Call ID already in use')
+          ) {
+            return respond({ success: false, error: error.message });
+          }
+
+          fastify.log.error({ error }, 'Error handling call-initiate');
+          respond({ success: false, error: 'Failed to start call' });
+        }
+      }
+    );
+
+    /**
+     * Handle a call action of this device (answer, decline, hang up)
+     */
+    const handleCallAction =
+      (
+        event: string,
+        action: (callId: string, userId: string, socketId: string) => Promise<unknown>
+      ) =>
+      async (payload: CallActionPayload) => {
+        const result = callActionSchema.safeParse(payload);
+        if (!result.success) {
+          fastify.log.warn(`Invalid ${event} from ${userId}`);
+          return;
+        }
+
+        try {
+          const call = await action(result.data.callId, userId, socket.id);
+          fastify.log.info(
+            call
+              ? `Call ${result.data.callId}: ${event} by ${userId}`
+              : `Call ${result.data.callId}: ${event} by ${userId} ignored`
+          );
+        } catch (error) {
+          fastify.log.error({ error }, `Error handling ${event}`);
+        }
+      };
+
+    // Call accepted (the receiver's other devices stop ringing)
+    socket.on(
+      'call-accept',
+      handleCallAction('call-accept', (...args) => callSessionService.answer(...args))
+    );
 
     // Call rejected
-    socket.on('call-reject', (data: { to: string }) => {
-      fastify.log.info(`Call rejected by ${socket.id}`);
-      socket.to(data.to).emit('call-rejected', {
-        from: socket.id,
-      });
-    });
+    socket.on(
+      'call-reject',
+      handleCallAction('call-reject', (...args) => callSessionService.reject(...args))
+    );
 
-    // Call ended
-    socket.on('call-end', (data: { to: string }) => {
-      fastify.log.info(`Call ended by ${socket.id}`);
-      socket.to(data.to).emit('call-ended', {
-        from: socket.id,
-      });
-    });
+    // Call ended (or cancelled while ringing)
+    socket.on(
+      'call-end',
+      handleCallAction('call-end', (...args) => callSessionService.end(...args))
+    );
 
-    // Call missed (timeout)
-    socket.on('call-missed', (data: { callId: string; to: string }) => {
-      fastify.log.info(`Call ${data.callId} missed`);
-      socket.to(data.to).emit('call-missed', {
-        from: socket.id,
-        callId: data.callId,
-      });
-    });
+    /**
+     * Parse a client timestamp, falling back to the current time
+     */
+    const parseTimestamp = (value: string): Date => {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? new Date() : date;
+    };
+
+    /**
+     * Resolve the recipients of a message event, each with their envelope
+     *
+     * 1-on-1 events go to `to`, the other participant, with their single
+     * envelope. Group events name no recipient: they go to every other
+     * member with the envelope encrypted for them (members without one are
+     * skipped); events without content reach all members.
+     *
+     * @throws Error if the chat does not exist, the sender is not in it or
+     *   `to` is not the other participant
+     */
+    const resolveRecipients = async (
+      data: {
+        to?: string;
+        chatId: string;
+        envelopes?: Record<string, string>;
+      },
+      content?: string
+    ): Promise<{ to: string; content: string }[]> => {
+      const chat = await messageService.getChatUserIds(data.chatId);
+      if (!chat.userIds.includes(userId)) {
+        throw new Error('User is not a participant in this chat');
+      }
+
+      if (chat.isGroup === !!data.to) {
+        throw new Error('Invalid recipient for this chat');
+      }
+
+      if (data.to) {
+        if (data.to === userId || !chat.userIds.includes(data.to)) {
+          throw new Error('Invalid recipient for this chat');
+        }
+        return [{ to: data.to, content: content ?? '' }];
+      }
 
-    // Message sent
+      return chat.userIds
+        .filter((memberId) => memberId !== userId)
+        .flatMap((memberId) => {
+          if (!data.envelopes) return [{ to: memberId, content: '' }];
+          const envelope = data.envelopes[memberId];
+          return envelope ? [{ to: memberId, content: envelope }] : [];
+        });
+    };
+
+    /**
+     * Whether an error means the sender may not post to the chat
+     */
+    const isRecipientError = (error: unknown): error is Error =>
+      error instanceof Error &&
+      (error.message === 'Chat not found' ||
+        error.message === 'User is not a participant in this chat' ||
+        error.message === 'Invalid recipient for this chat');
+
+    /**
+     * Flag relayed events of group chats
+     */
+    const groupFlag = (data: { to?: string }): { isGroup?: true } =>
+      data.to ? {} : { isGroup: true };
+
+    /**
+     * Relay a message event to a recipient, or queue it while they have no
+     * connected device
+     */
+    const relayOrQueue = async (
+      to: string,
+      event: string,
+      data: object,
+      queued: Omit<EnqueueMessageData, 'senderId' | 'recipientId'>
+    ): Promise<void> => {
+      if (!presenceService.isConnected(to)) {
+        await messageQueueService.enqueue({
+          ...queued,
+          senderId: userId,
+          recipientId: to,
+        });
+        return;
+      }
+
+      socket.to(to).emit(event, { from: userId, ...data });
+    };
+
+    // Message sent (acknowledged so the sender can mark it SENT)
     socket.on(
       'message-send',
-      async (data: {
-        to: string;
-        chatId: string;
-        message: string;
-        timestamp: string;
-      }) => {
+      async (
+        payload: MessageSendPayload,
+        ack?: (response: MessageSendAck) => void
+      ) => {
+        const respond = (response: MessageSendAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
+
         try {
+          const result = messageSendSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid message: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const data = result.data;
+          const recipients = await resolveRecipients(data, data.message);
+
+          if (data.to && (await contactService.isBlocked(data.to, userId))) {
+            return respond({
+              success: false,
+              error: 'Recipient has blocked you',
+            });
+          }
+
           fastify.log.debug(
-            `Message from ${socket.id} to ${data.to} in chat ${data.chatId}`
+            `Message from ${userId} to ${recipients.length} recipient(s) in chat ${data.chatId}`
           );
 
-          // Get sender's userId from socket (set during 'join' event)
-          // For now, we'll use socket.id as a placeholder
-          // In production, you should store userId in socket.data during authentication
-          const fromUserId = socket.id;
+          // Update chat metadata (message content is encrypted, no preview)
+          await messageService.updateChatMetadata(data.chatId, userId);
 
-          // Update chat metadata
-          await messageService.updateChatMetadata(
-            data.chatId,
-            data.message.substring(0, 100), // Preview (first 100 chars)
-            fromUserId
-          );
+          // Forward to each recipient, or queue until they reconnect
+          for (const recipient of recipients) {
+            await relayOrQueue(
+              recipient.to,
+              'message-received',
+              {
+                chatId: data.chatId,
+                messageId: data.messageId,
+                message: recipient.content,
+                timestamp: data.timestamp,
+                ...groupFlag(data),
+              },
+              {
+                chatId: data.chatId,
+                messageId: data.messageId,
+                payload: recipient.content,
+                sentAt: parseTimestamp(data.timestamp),
+              }
+            );
 
-          // Forward message to recipient
-          socket.to(data.to).emit('message-received', {
-            from: fromUserId,
-            chatId: data.chatId,
-            message: data.message,
-            timestamp: data.timestamp,
-          });
+            // Content is end-to-end encrypted: the notification has none
+            pushIfOffline(recipient.to, (name) => ({
+              type: 'message',
+              title: name,
+              body: data.to ? 'New message' : 'New message in a group',
+              tag: `chat-${data.chatId}`,
+              url: `/chats/${data.chatId}`,
+              data: { chatId: data.chatId },
+            }));
+          }
+
+          respond({ success: true });
         } catch (error) {
+          if (isRecipientError(error)) {
+            return respond({ success: false, error: error.message });
+          }
+
           fastify.log.error({ error }, 'Error handling message-send');
+          respond({ success: false, error: 'Failed to send message' });
+        }
+      }
+    );
+
+    // Message edited by its author
+    socket.on(
+      'message-edit',
+      async (
+        payload: MessageEditPayload,
+        ack?: (response: MessageSendAck) => void
+      ) => {
+        const respond = (response: MessageSendAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
+
+        try {
+          const result = messageEditSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid edit: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const { to: _to, envelopes: _envelopes, ...data } = result.data;
+          const recipients = await resolveRecipients(
+            result.data,
+            data.message
+          );
+
+          if (
+            result.data.to &&
+            (await contactService.isBlocked(result.data.to, userId))
+          ) {
+            return respond({
+              success: false,
+              error: 'Recipient has blocked you',
+            });
+          }
+
+          for (const recipient of recipients) {
+            const event: Omit<MessageEditedEvent, 'from'> = {
+              ...data,
+              message: recipient.content,
+              ...groupFlag(result.data),
+            };
+
+            await relayOrQueue(recipient.to, 'message-edited', event, {
+              chatId: data.chatId,
+              kind: 'EDIT',
+              messageId: data.messageId,
+              payload: recipient.content,
+              sentAt: parseTimestamp(data.editedAt),
+            });
+          }
+
+          respond({ success: true });
+        } catch (error) {
+          if (isRecipientError(error)) {
+            return respond({ success: false, error: error.message });
+          }
+
+          fastify.log.error({ error }, 'Error handling message-edit');
+          respond({ success: false, error: 'Failed to edit message' });
+        }
+      }
+    );
+
+    // Message unsent by its author
+    socket.on(
+      'message-delete',
+      async (
+        payload: MessageDeletePayload,
+        ack?: (response: MessageSendAck) => void
+      ) => {
+        const respond = (response: MessageSendAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
+
+        try {
+          const result = messageDeleteSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid deletion: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const { to: _to, ...data } = result.data;
+          const event: Omit<MessageDeletedEvent, 'from'> = {
+            ...data,
+            ...groupFlag(result.data),
+          };
+          const recipients = await resolveRecipients(result.data);
+
+          if (
+            result.data.to &&
+            (await contactService.isBlocked(result.data.to, userId))
+          ) {
+            return respond({
+              success: false,
+              error: 'Recipient has blocked you',
+            });
+          }
+
+          for (const recipient of recipients) {
+            await relayOrQueue(recipient.to, 'message-deleted', event, {
+              chatId: data.chatId,
+              kind: 'DELETE',
+              messageId: data.messageId,
+              payload: '',
+              sentAt: parseTimestamp(data.deletedAt),
+            });
+          }
+
+          respond({ success: true });
+        } catch (error) {
+          if (isRecipientError(error)) {
+            return respond({ success: false, error: error.message });
+          }
+
+          fastify.log.error({ error }, 'Error handling message-delete');
+          respond({ success: false, error: 'Failed to delete message' });
         }
       }
     );
 
+    // Reaction set or removed by either participant
+    socket.on(
+      'message-react',
+      async (
+        payload: MessageReactPayload,
+        ack?: (response: MessageSendAck) => void
+      ) => {
+        const respond = (response: MessageSendAck) => {
+          if (typeof ack === 'function') {
+            ack(response);
+          }
+        };
+
+        try {
+          const result = messageReactSchema.safeParse(payload);
+          if (!result.success) {
+            return respond({
+              success: false,
+              error: `Invalid reaction: ${result.error.errors[0].message}`,
+            });
+          }
+
+          const { to: _to, envelopes: _envelopes, ...data } = result.data;
+          const recipients = await resolveRecipients(
+            result.data,
+            data.reaction
+          );
+
+          if (
+            result.data.to &&
+            (await contactService.isBlocked(result.data.to, userId))
+          ) {
+            return respond({
+              success: false,
+              error: 'Recipient has blocked you',
+            });
+          }
+
+          for (const recipient of recipients) {
+            const event: Omit<MessageReactionEvent, 'from'> = {
+              ...data,
+              reaction: recipient.content,
+              ...groupFlag(result.data),
+            };
+
+            await relayOrQueue(recipient.to, 'message-reaction', event, {
+              chatId: data.chatId,
+              kind: 'REACTION',
+              messageId: data.messageId,
+              payload: recipient.content,
+              sentAt: parseTimestamp(data.reactedAt),
+            });
+          }
+
+          respond({ success: true });
+        } catch (error) {
+          if (isRecipientError(error)) {
+            return respond({ success: false, error: error.message });
+          }
+
+          fastify.log.error({ error }, 'Error handling message-react');
+          respond({ success: false, error: 'Failed to send reaction' });
+        }
+      }
+    );
+
+    // Delivery and read receipts: relay to the original sender, if both
+    // are in the chat and the sender has not blocked the user
+    // (not queued: a sender offline at that moment keeps the previous state)
+    const relayReceipt =
+      (status: MessageStatusUpdate['status']) =>
+      async (payload: MessageReceiptPayload) => {
+        try {
+          const result = messageReceiptSchema.safeParse(payload);
+          if (!result.success) {
+            fastify.log.warn(`Invalid ${status} receipt from ${userId}`);
+            return;
+          }
+
+          const { to, chatId, messageIds } = result.data;
+          const chat = await messageService.getChatUserIds(chatId);
+          if (
+            to === userId ||
+            !chat.userIds.includes(userId) ||
+            !chat.userIds.includes(to) ||
+            (await contactService.isBlocked(to, userId))
+          ) {
+            fastify.log.warn(`Rejected ${status} receipt from ${userId} to ${to}`);
+            return;
+          }
+
+          const update: MessageStatusUpdate = {
+            from: userId,
+            messageIds,
+            status,
+          };
+          socket.to(to).emit('message-status', update);
+        } catch (error) {
+          fastify.log.error({ error }, `Error relaying ${status} receipt`);
+        }
+      };
+
+    socket.on('message-delivered', relayReceipt('DELIVERED'));
+    socket.on('message-read', relayReceipt('READ'));
+
+    // Queued messages stored by the client: remove them from the queue
+    socket.on('message-ack', async (payload: { ids: string[] }) => {
+      try {
+        const result = messageAckSchema.safeParse(payload);
+        if (!result.success) {
+          fastify.log.warn(`Invalid message-ack from ${userId}`);
+          return;
+        }
+
+        const count = await messageQueueService.acknowledge(
+          userId,
+          result.data.ids
+        );
+        fastify.log.debug(`User ${userId} acknowledged ${count} messages`);
+
+        // Continue with the next batch once this one is stored
+        if (count > 0) {
+          flushPending();
+        }
+      } catch (error) {
+        fastify.log.error({ error }, 'Error handling message-ack');
+      }
+    });
+
     // Typing started
     socket.on('typing-start', (data: { to: string; chatId: string }) => {
-      fastify.log.debug(`Typing started by ${socket.id} in chat ${data.chatId}`);
+      fastify.log.debug(`Typing started by ${userId} in chat ${data.chatId}`);
       socket.to(data.to).emit('typing-start', {
-        from: socket.id,
+        from: userId,
         chatId: data.chatId,
       });
     });
 
     // Typing stopped
     socket.on('typing-stop', (data: { to: string; chatId: string }) => {
-      fastify.log.debug(`Typing stopped by ${socket.id} in chat ${data.chatId}`);
+      fastify.log.debug(`Typing stopped by ${userId} in chat ${data.chatId}`);
       socket.to(data.to).emit('typing-stop', {
-        from: socket.id,
+        from: userId,
         chatId: data.chatId,
       });
     });
@@ -196,11 +1232,11 @@ const socketPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
     // Chat read notification
     socket.on('chat-read', async (data: { chatId: string; to: string }) => {
       try {
-        fastify.log.debug(`Chat ${data.chatId} marked as read by ${socket.id}`);
+        fastify.log.debug(`Chat ${data.chatId} marked as read by ${userId}`);
 
         // Notify the other participant that chat was read
         socket.to(data.to).emit('chat-read', {
-          from: socket.id,
+          from: userId,
           chatId: data.chatId,
         });
       } catch (error) {
@@ -210,7 +1246,12 @@ const socketPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
 
     // Disconnect handler
     socket.on('disconnect', () => {
-      fastify.log.info(`Socket disconnected: ${socket.id}`);
+      fastify.log.info(`Socket disconnected: ${socket.id} (user ${userId})`);
+      presenceService.handleDisconnect(userId);
+
+      callSessionService.handleDisconnect(userId, socket.id).catch((error) => {
+        fastify.log.error({ error }, 'Error ending call on disconnect');
+      });
     });
   });
 
@@ -222,6 +1263,6 @@ const socketPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
  */
 export default fp(socketPlugin, {
   name: 'socket-plugin',
-  dependencies: ['db-plugin', 'auth-plugin'],
+  dependencies: ['db-plugin', 'auth-plugin', 'push-plugin'],
 });
 
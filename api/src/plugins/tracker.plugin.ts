@@ -0,0 +1,150 @@
+/**
+ * Tracker Plugin
+ *
+ * Serves the private WebTorrent tracker (see services/tracker.service) as a
+ * WebSocket endpoint at `/api/tracker`, on the API's HTTP server next to
+ * Socket.io. Upgrades of other paths are left to Socket.io.
+ *
+ * Set `TRACKER_REQUIRE_TOKEN=true` to reject connections without a valid
+ * announce token (`/api/tracker?token=...`); clients get tokens with the
+ * tracker list (GET /api/trackers).
+ *
+ * @module plugins/tracker.plugin
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import { WebSocket, WebSocketServer } from 'ws';
+import { TrackerService } from '../services/tracker.service.js';
+
+/**
+ * Path of the WebSocket endpoint
+ */
+export const TRACKER_PATH = '/api/tracker';
+
+/**
+ * Default lifetime of announce tokens: long enough to last through an
+ * outage, as clients cache them for Emergency mode
+ */
+const DEFAULT_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Interval of keep-alive pings (proxies close idle WebSockets)
+ */
+const PING_INTERVAL_MS = 30000;
+
+/**
+ * Maximum size of a message (offers carry SDP)
+ */
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+/**
+ * Extend Fastify instance with the tracker
+ */
+declare module 'fastify' {
+  interface FastifyInstance {
+    tracker: TrackerService;
+  }
+}
+
+/**
+ * Tracker Plugin
+ *
+ * Decorates `fastify.tracker` and handles WebSocket upgrades of the
+ * tracker path.
+ */
+const trackerPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const secret = process.env.TRACKER_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      'TRACKER_SECRET or JWT_SECRET environment variable is required'
+    );
+  }
+
+  const requireToken = process.env.TRACKER_REQUIRE_TOKEN === 'true';
+  const tracker = new TrackerService(
+    secret,
+    parseInt(
+      process.env.TRACKER_TOKEN_TTL_SECONDS ||
+        String(DEFAULT_TOKEN_TTL_SECONDS),
+      10
+    )
+  );
+  fastify.decorate('tracker', tracker);
+
+  const wss = new WebSocketServer({
+    noServer: true,
+    perMessageDeflate: false,
+    maxPayload: MAX_PAYLOAD_BYTES,
+  });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  wss.on('connection', (socket: WebSocket) => {
+    alive.set(socket, true);
+
+    socket.on('pong', () => {
+      alive.set(socket, true);
+    });
+
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) return;
+      tracker.handleMessage(socket, data.toString());
+    });
+
+    socket.on('close', () => {
+      tracker.removeConnection(socket);
+    });
+
+    socket.on('error', (error) => {
+      fastify.log.warn({ error }, 'Tracker connection error');
+    });
+  });
+
+  fastify.server.on('upgrade', (request, socket, head) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (url.pathname !== TRACKER_PATH) {
+      return; // Socket.io
+    }
+
+    if (
+      requireToken &&
+      !tracker.verifyAnnounceToken(url.searchParams.get('token'))
+    ) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit('connection', ws, request);
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const pingTimer = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.get(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.set(socket, false);
+      socket.ping();
+    });
+  }, PING_INTERVAL_MS);
+
+  fastify.addHook('onClose', async () => {
+    clearInterval(pingTimer);
+    wss.clients.forEach((socket) => socket.terminate());
+    wss.close();
+  });
+
+  fastify.log.info(
+    `Tracker plugin registered (${requireToken ? 'announce token required' : 'open'})`
+  );
+};
+
+/**
+ * Export plugin wrapped with fastify-plugin
+ */
+export default fp(trackerPlugin, {
+  name: 'tracker-plugin',
+});
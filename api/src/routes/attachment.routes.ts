@@ -0,0 +1,524 @@
+/**
+ * Attachment Routes
+ *
+ * Upload and download of files shared in chats (images, videos, voice
+ * messages, documents). Uploads are resumable: the file is sent in chunks
+ * and an interrupted upload continues from the last received byte.
+ *
+ * Attachments are only available to participants of the chat they were
+ * uploaded to. All routes require authentication.
+ *
+ * @module routes/attachment.routes
+ */
+
+import os from 'node:os';
+import path from 'node:path';
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import {
+  AttachmentService,
+  DEFAULT_ALLOWED_MIME_TYPES,
+  DEFAULT_MAX_ATTACHMENT_SIZE,
+  DEFAULT_UPLOAD_CHUNK_SIZE,
+  DEFAULT_UPLOAD_TTL_SECONDS,
+} from '../services/attachment.service.js';
+import { createStorageDriver } from '../services/storage.service.js';
+import { JWTPayload } from '../services/auth.service.js';
+
+/**
+ * Interval between purges of abandoned uploads (milliseconds)
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Create upload request schema
+ */
+const createUploadSchema = z.object({
+  chatId: z.string().min(1),
+  fileName: z.string().min(1).max(255),
+  mimeType: z
+    .string()
+    .regex(/^[\w.+-]+\/[\w.+-]+$/, 'Invalid MIME type')
+    .max(127),
+  size: z.number().int().positive(),
+});
+
+/**
+ * Chunk offset schema (query string)
+ */
+const chunkOffsetSchema = z.coerce.number().int().min(0);
+
+/**
+ * Attachment Routes
+ *
+ * @param fastify - Fastify instance
+ */
+export default async function attachmentRoutes(fastify: FastifyInstance) {
+  const chunkSize = parseInt(
+    process.env.ATTACHMENT_CHUNK_SIZE_BYTES || `${DEFAULT_UPLOAD_CHUNK_SIZE}`,
+    10
+  );
+
+  const attachmentService = new AttachmentService(
+    fastify.prisma,
+    createStorageDriver(),
+    {
+      maxSize: parseInt(
+        process.env.ATTACHMENT_MAX_SIZE_BYTES ||
+          `${DEFAULT_MAX_ATTACHMENT_SIZE}`,
+        10
+      ),
+      chunkSize,
+      allowedMimeTypes: process.env.ATTACHMENT_ALLOWED_MIME_TYPES
+        ? process.env.ATTACHMENT_ALLOWED_MIME_TYPES.split(',').map((type) =>
+            type.trim().toLowerCase()
+          )
+        : DEFAULT_ALLOWED_MIME_TYPES,
+      uploadTtlSeconds: parseInt(
+        process.env.ATTACHMENT_UPLOAD_TTL_SECONDS ||
+          `${DEFAULT_UPLOAD_TTL_SECONDS}`,
+        10
+      ),
+      stagingDir:
+        process.env.UPLOAD_STAGING_DIR ||
+        path.join(os.tmpdir(), 'svazapp-uploads'),
+    }
+  );
+
+  // Chunks are sent as raw bytes
+  fastify.addContentTypeParser(
+    'application/octet-stream',
+    { parseAs: 'buffer', bodyLimit: chunkSize },
+    (_request, body, done) => {
+      done(null, body);
+    }
+  );
+
+  // Periodically delete uploads that were never completed
+  const purgeInterval = setInterval(() => {
+    attachmentService
+      .purgeAbandoned()
+      .then((count) => {
+        if (count > 0) {
+          fastify.log.info(`Purged ${count} abandoned upload(s)`);
+        }
+      })
+      .catch((error) => {
+        fastify.log.error({ error }, 'Failed to purge abandoned uploads');
+      });
+  }, PURGE_INTERVAL_MS);
+  purgeInterval.unref();
+
+  fastify.addHook('onClose', async () => {
+    clearInterval(purgeInterval);
+  });
+
+  /**
+   * Send a known upload error, or return false
+   */
+  const sendUploadError = (error: unknown, reply: FastifyReply): boolean => {
+    if (!(error instanceof Error)) return false;
+
+    if (
+      error.message === 'Chat not found' ||
+      error.message === 'Attachment not found' ||
+      error.message === 'Object not found'
+    ) {
+      reply.code(404).send({ error: 'Not Found', message: error.message });
+      return true;
+    }
+
+    if (error.message === 'User is not a participant in this chat') {
+      reply.code(403).send({ error: 'Forbidden', message: error.message });
+      return true;
+    }
+
+    if (error.message === 'File too large') {
+      reply
+        .code(413)
+        .send({ error: 'Payload Too Large', message: error.message });
+      return true;
+    }
+
+    if (error.message === 'File type not allowed') {
+      reply
+        .code(415)
+        .send({ error: 'Unsupported Media Type', message: error.message });
+      return true;
+    }
+
+    if (
+      error.message === 'Upload offset mismatch' ||
+      error.message === 'Upload already completed'
+    ) {
+      reply.code(409).send({ error: 'Conflict', message: error.message });
+      return true;
+    }
+
+    if (
+      error.message === 'Chunk exceeds declared file size' ||
+      error.message === 'Upload is incomplete' ||
+      error.message === 'File content does not match its type'
+    ) {
+      reply.code(400).send({ error: 'Bad Request', message: error.message });
+      return true;
+    }
+
+    return false;
+  };
+
+  /**
+   * POST /api/attachments/uploads
+   *
+   * Start a resumable upload
+   *
+   * @header Authorization - Bearer token
+   * @body chatId - Chat the file is shared in
+   * @body fileName - Original file name
+   * @body mimeType - MIME type
+   * @body size - File size in bytes
+   *
+   * @returns Upload session (attachment in UPLOADING state, with chunkSize)
+   */
+  fastify.post<{
+    Body: z.infer<typeof createUploadSchema>;
+  }>(
+    '/uploads',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        // Validate request body
+        const data = createUploadSchema.parse(request.body);
+
+        const attachment = await attachmentService.createUpload(
+          user.userId,
+          data
+        );
+
+        fastify.log.debug(
+          `Upload started: ${attachment.id} (${data.mimeType}, ${data.size} bytes)`
+        );
+
+        return reply.code(201).send(attachmentService.toInfo(attachment));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation Error',
+            message: error.errors[0].message,
+            details: error.errors,
+          });
+        }
+
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Create upload error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to start upload',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/attachments/uploads/:id
+   *
+   * Get the state of an upload (to resume it from `receivedBytes`)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Attachment ID
+   *
+   * @returns Upload session
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>(
+    '/uploads/:id',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        const attachment = await attachmentService.getUpload(
+          user.userId,
+          request.params.id
+        );
+
+        return reply.code(200).send(attachmentService.toInfo(attachment));
+      } catch (error) {
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Get upload error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch upload',
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /api/attachments/uploads/:id?offset=<bytes>
+   *
+   * Upload one chunk. Chunks must be sent in order; on 409 Conflict the
+   * client re-reads the upload state and continues from `receivedBytes`.
+   *
+   * @header Authorization - Bearer token
+   * @header Content-Type - application/octet-stream
+   * @param id - Attachment ID
+   * @query offset - Byte offset of the chunk
+   * @body Raw chunk bytes (at most chunkSize)
+   *
+   * @returns Updated upload session
+   */
+  fastify.put<{
+    Params: { id: string };
+    Querystring: { offset?: string };
+  }>(
+    '/uploads/:id',
+    {
+      onRequest: [fastify.authenticate],
+      // A single upload takes many requests
+      config: {
+        rateLimit: {
+          max: 1000,
+          timeWindow: '15m',
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        const offset = chunkOffsetSchema.parse(request.query.offset);
+
+        if (!Buffer.isBuffer(request.body) || request.body.length === 0) {
+          return reply.code(400).send({
+            error: 'Bad Request',
+            message: 'Chunk must be sent as application/octet-stream',
+          });
+        }
+
+        const attachment = await attachmentService.appendChunk(
+          user.userId,
+          request.params.id,
+          offset,
+          request.body
+        );
+
+        return reply.code(200).send(attachmentService.toInfo(attachment));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation Error',
+            message: 'Invalid chunk offset',
+            details: error.errors,
+          });
+        }
+
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Upload chunk error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to store chunk',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/attachments/uploads/:id/complete
+   *
+   * Finish an upload once all bytes were received. Generates a thumbnail
+   * for images.
+   *
+   * @header Authorization - Bearer token
+   * @param id - Attachment ID
+   *
+   * @returns Attachment in READY state
+   */
+  fastify.post<{
+    Params: { id: string };
+  }>(
+    '/uploads/:id/complete',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        const attachment = await attachmentService.completeUpload(
+          user.userId,
+          request.params.id
+        );
+
+        fastify.log.info(
+          `Attachment uploaded: ${attachment.id} by ${user.username}`
+        );
+
+        return reply.code(200).send(attachmentService.toInfo(attachment));
+      } catch (error) {
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Complete upload error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to complete upload',
+        });
+      }
+    }
+  );
+
+  /**
+   * Stream an attachment (or its thumbnail) to the client
+   */
+  const sendContent = async (
+    userId: string,
+    attachmentId: string,
+    thumbnail: boolean,
+    reply: FastifyReply
+  ) => {
+    const attachment = await attachmentService.getAttachment(
+      userId,
+      attachmentId
+    );
+
+    if (thumbnail && !attachment.thumbnailKey) {
+      throw new Error('Attachment not found');
+    }
+
+    const stream = await attachmentService.openContent(attachment, thumbnail);
+
+    // Attachments never change once uploaded
+    reply
+      .header('Content-Type', thumbnail ? 'image/webp' : attachment.mimeType)
+      .header('Cache-Control', 'private, max-age=31536000, immutable')
+      .header('X-Content-Type-Options', 'nosniff')
+      .header(
+        'Content-Disposition',
+        `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+      );
+
+    if (!thumbnail) {
+      reply.header('Content-Length', attachment.size);
+    }
+
+    return reply.code(200).send(stream);
+  };
+
+  /**
+   * GET /api/attachments/:id
+   *
+   * Download an attachment
+   *
+   * @header Authorization - Bearer token
+   * @param id - Attachment ID
+   *
+   * @returns File content
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>(
+    '/:id',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        return await sendContent(user.userId, request.params.id, false, reply);
+      } catch (error) {
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Download attachment error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to download attachment',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/attachments/:id/thumbnail
+   *
+   * Download the thumbnail of an image attachment (WebP)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Attachment ID
+   *
+   * @returns Thumbnail content
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>(
+    '/:id/thumbnail',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        return await sendContent(user.userId, request.params.id, true, reply);
+      } catch (error) {
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Download thumbnail error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to download thumbnail',
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/attachments/:id
+   *
+   * Delete an attachment (or cancel an upload). Only the uploader can
+   * delete it.
+   *
+   * @header Authorization - Bearer token
+   * @param id - Attachment ID
+   *
+   * @returns Success message
+   */
+  fastify.delete<{
+    Params: { id: string };
+  }>(
+    '/:id',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        await attachmentService.deleteAttachment(
+          user.userId,
+          request.params.id
+        );
+
+        return reply.code(200).send({
+          message: 'Attachment deleted successfully',
+        });
+      } catch (error) {
+        if (sendUploadError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Delete attachment error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to delete attachment',
+        });
+      }
+    }
+  );
+}
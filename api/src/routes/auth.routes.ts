@@ -177,9 +177,6 @@ export default async function authRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Update online status
-        await userService.updateOnlineStatus(user.id, true);
-
         // Generate tokens
         const tokens = authService.generateTokenPair({
           userId: user.id,
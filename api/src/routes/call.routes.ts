@@ -2,7 +2,8 @@
  * Call Routes
  *
  * Handles call history operations.
- * Stores call metadata for call history screen.
+ * Stores call metadata for call history screen, including calls recorded
+ * by clients in Emergency mode (imported once the server is reachable).
  *
  * All routes require authentication.
  *
@@ -10,9 +11,9 @@
  */
 
 import { FastifyInstance } from 'fastify';
-import { CallService } from '../services/call.service.js';
+import { CallService, ImportedCall } from '../services/call.service.js';
 import { JWTPayload } from '../services/auth.service.js';
-import { CallType, CallMode } from '@prisma/client';
+import { CallType, CallMode, CallStatus } from '@prisma/client';
 
 /**
  * Call Routes
@@ -111,7 +112,8 @@ export default async function callRoutes(fastify: FastifyInstance) {
    *
    * Create a new call record
    *
-   * Used when initiating a call to create a history entry.
+   * Used to create a history entry for a call made without `call-initiate`
+   * (calls started over Socket.io are recorded by the server).
    *
    * @header Authorization - Bearer token
    * @body receiverId - ID of user to call
@@ -191,12 +193,118 @@ export default async function callRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * POST /api/calls/import
+   *
+   * Import calls recorded by the client while the server was unreachable
+   *
+   * Idempotent: calls that already exist (uploaded before, or by the other
+   * participant) are left unchanged and reported as imported.
+   *
+   * @header Authorization - Bearer token
+   * @body calls - Calls (max 100) that are over, with client-generated IDs
+   *
+   * @returns IDs of imported calls, and of rejected calls (the user is not
+   *   a participant, a participant does not exist, or the ID belongs to
+   *   another call)
+   *
+   * @example
+   * Request:
+   * POST /api/calls/import
+   * {
+   *   "calls": [
+   *     {
+   *       "id": "2f0c6a52-8d0e-4c1b-9a53-3f7f0b8f9c11",
+   *       "callerId": "user123",
+   *       "receiverId": "user456",
+   *       "type": "AUDIO",
+   *       "status": "ENDED",
+   *       "mode": "EMERGENCY",
+   *       "startedAt": "2025-10-25T08:00:05.000Z",
+   *       "endedAt": "2025-10-25T08:03:00.000Z",
+   *       "duration": 175,
+   *       "createdAt": "2025-10-25T08:00:00.000Z"
+   *     }
+   *   ]
+   * }
+   *
+   * Response:
+   * {
+   *   "imported": ["2f0c6a52-8d0e-4c1b-9a53-3f7f0b8f9c11"],
+   *   "rejected": []
+   * }
+   */
+  fastify.post(
+    '/import',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        body: {
+          type: 'object',
+          required: ['calls'],
+          properties: {
+            calls: {
+              type: 'array',
+              maxItems: 100,
+              items: {
+                type: 'object',
+                required: [
+                  'id',
+                  'callerId',
+                  'receiverId',
+                  'type',
+                  'status',
+                  'mode',
+                  'createdAt',
+                ],
+                properties: {
+                  id: { type: 'string', minLength: 1, maxLength: 64 },
+                  callerId: { type: 'string' },
+                  receiverId: { type: 'string' },
+                  type: {
+                    type: 'string',
+                    enum: ['AUDIO', 'VIDEO', 'SCREEN'],
+                  },
+                  // Only calls that are over: live ones are the server's own
+                  status: {
+                    type: 'string',
+                    enum: ['ENDED', 'MISSED', 'REJECTED', 'CANCELLED'],
+                  },
+                  mode: {
+                    type: 'string',
+                    enum: ['NORMAL', 'EMERGENCY', 'ASYMMETRIC'],
+                  },
+                  startedAt: { type: ['string', 'null'], format: 'date-time' },
+                  endedAt: { type: ['string', 'null'], format: 'date-time' },
+                  duration: { type: ['integer', 'null'], minimum: 0 },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = request.user as JWTPayload;
+      const { calls } = request.body as { calls: ImportedCall[] };
+
+      try {
+        return await callService.importCalls(user.userId, calls);
+      } catch (error) {
+        fastify.log.error({ error }, 'Error importing calls');
+        return reply.status(500).send({ error: 'Failed to import calls' });
+      }
+    }
+  );
+
   /**
    * PATCH /api/calls/:id/end
    *
    * End a call
    *
-   * Sets endedAt timestamp and calculates duration.
+   * Sets endedAt timestamp and calculates duration. Calls that already
+   * ended are returned unchanged.
    *
    * @header Authorization - Bearer token
    * @param id - Call ID
@@ -218,11 +326,26 @@ export default async function callRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
+      const user = request.user as JWTPayload;
       const { id } = request.params as { id: string };
 
       try {
-        const call = await callService.endCall(id);
-        return { call };
+        const call = await callService.getParticipantCall(id, user.userId);
+        if (!call) {
+          return reply.status(404).send({ error: 'Call not found' });
+        }
+
+        // A ringing or answered call is hung up through its session, which
+        // tells the other participant
+        const ended = fastify.callSessions.getSession(id)
+          ? await fastify.callSessions.end(id, user.userId)
+          : await callService.transitionCall(
+              id,
+              [CallStatus.RINGING, CallStatus.ANSWERED],
+              CallStatus.ENDED
+            );
+
+        return { call: ended ?? call };
       } catch (error) {
         fastify.log.error({ error }, 'Error ending call');
         return reply.status(500).send({ error: 'Failed to end call' });
@@ -235,7 +358,9 @@ export default async function callRoutes(fastify: FastifyInstance) {
    *
    * Mark call as missed
    *
-   * Used when receiver doesn't answer within timeout.
+   * For calls recorded with POST /api/calls. Calls started over Socket.io
+   * are missed by the server after the ring timeout; while they ring this
+   * answers 409.
    *
    * @header Authorization - Bearer token
    * @param id - Call ID
@@ -257,11 +382,26 @@ export default async function callRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
+      const user = request.user as JWTPayload;
       const { id } = request.params as { id: string };
 
       try {
-        const call = await callService.markCallAsMissed(id);
-        return { call };
+        const call = await callService.getParticipantCall(id, user.userId);
+        if (!call) {
+          return reply.status(404).send({ error: 'Call not found' });
+        }
+
+        if (fastify.callSessions.getSession(id)) {
+          return reply.status(409).send({ error: 'Call is still ringing' });
+        }
+
+        const missed = await callService.transitionCall(
+          id,
+          [CallStatus.RINGING],
+          CallStatus.MISSED
+        );
+
+        return { call: missed ?? call };
       } catch (error) {
         fastify.log.error({ error }, 'Error marking call as missed');
         return reply.status(500).send({ error: 'Failed to mark call as missed' });
@@ -62,6 +62,23 @@ export default async function contactRoutes(fastify: FastifyInstance) {
           `Contact request created: ${user.username} -> ${data.contactId}`
         );
 
+        // Notify the user if no device of theirs is connected
+        if (!fastify.presence.isConnected(data.contactId)) {
+          fastify.push
+            .getUserName(user.userId)
+            .then((name) =>
+              fastify.sendPush(data.contactId, {
+                type: 'contact-request',
+                title: 'Contact request',
+                body: `${name} wants to add you as a contact`,
+                url: '/contacts/requests',
+              })
+            )
+            .catch((error) => {
+              fastify.log.error({ error }, 'Error sending push notification');
+            });
+        }
+
         return reply.code(201).send(contact);
       } catch (error) {
         if (error instanceof z.ZodError) {
@@ -0,0 +1,470 @@
+/**
+ * Group Routes
+ *
+ * Handles group chats: creation, title and avatar, invitations, leaving,
+ * removing members and member roles. Messages in groups are sent over
+ * Socket.io like 1-on-1 messages; these routes only manage metadata.
+ *
+ * Members are told about changes with Socket.io events: `group-updated`
+ * (new metadata and member list, also sent to invited users) and
+ * `group-removed` (sent to users who left or were removed, and to everyone
+ * when the group is deleted).
+ *
+ * All routes require authentication.
+ *
+ * @module routes/group.routes
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ChatMemberRole } from '@prisma/client';
+import { GroupService, MAX_GROUP_MEMBERS } from '../services/group.service.js';
+import { MessageService } from '../services/message.service.js';
+import { JWTPayload } from '../services/auth.service.js';
+
+/**
+ * Group title schema
+ */
+const titleSchema = z
+  .string()
+  .trim()
+  .min(1, 'Title is required')
+  .max(100, 'Title must be at most 100 characters');
+
+/**
+ * Group avatar schema
+ */
+const avatarUrlSchema = z.string().url('Invalid avatar URL').nullable();
+
+/**
+ * Member list schema
+ */
+const memberIdsSchema = z
+  .array(z.string().min(1))
+  .max(MAX_GROUP_MEMBERS - 1, 'Too many group members');
+
+/**
+ * Create group request schema
+ */
+const createGroupSchema = z.object({
+  title: titleSchema,
+  avatarUrl: avatarUrlSchema.optional(),
+  memberIds: memberIdsSchema.min(1, 'Invite at least one member'),
+});
+
+/**
+ * Update group request schema
+ */
+const updateGroupSchema = z
+  .object({
+    title: titleSchema.optional(),
+    avatarUrl: avatarUrlSchema.optional(),
+  })
+  .refine(
+    (data) => data.title !== undefined || data.avatarUrl !== undefined,
+    { message: 'Nothing to update' }
+  );
+
+/**
+ * Invite members request schema
+ */
+const addMembersSchema = z.object({
+  userIds: memberIdsSchema.min(1, 'Invite at least one member'),
+});
+
+/**
+ * Change member role request schema
+ */
+const setRoleSchema = z.object({
+  role: z.nativeEnum(ChatMemberRole),
+});
+
+/**
+ * Group Routes
+ *
+ * @param fastify - Fastify instance
+ */
+export default async function groupRoutes(fastify: FastifyInstance) {
+  const groupService = new GroupService(fastify.prisma);
+  const messageService = new MessageService(fastify.prisma);
+
+  /**
+   * Send a known group error, or return false
+   */
+  const sendGroupError = (error: unknown, reply: FastifyReply): boolean => {
+    if (error instanceof z.ZodError) {
+      reply.code(400).send({
+        error: 'Validation Error',
+        message: error.errors[0].message,
+        details: error.errors,
+      });
+      return true;
+    }
+
+    if (!(error instanceof Error)) return false;
+
+    if (
+      error.message === 'Chat not found' ||
+      error.message === 'Member not found'
+    ) {
+      reply.code(404).send({ error: 'Not Found', message: error.message });
+      return true;
+    }
+
+    if (
+      error.message === 'User is not a participant in this chat' ||
+      error.message === 'Only group admins can do this'
+    ) {
+      reply.code(403).send({ error: 'Forbidden', message: error.message });
+      return true;
+    }
+
+    if (
+      error.message === 'Group members must be your contacts' ||
+      error.message === 'Too many group members' ||
+      error.message === 'Use leave to leave a group' ||
+      error.message === 'Cannot remove an admin' ||
+      error.message === 'A group needs at least one admin'
+    ) {
+      reply.code(400).send({ error: 'Bad Request', message: error.message });
+      return true;
+    }
+
+    return false;
+  };
+
+  /**
+   * Tell the current members (and newly invited users) about a change
+   */
+  const notifyMembers = async (chatId: string) => {
+    const group = await groupService.loadGroupInfo(chatId);
+    fastify.io
+      .to(group.members.map((member) => member.id))
+      .emit('group-updated', { chatId, group });
+  };
+
+  /**
+   * Tell users that they are no longer members of a group
+   */
+  const notifyRemoved = (chatId: string, userIds: string[]) => {
+    if (userIds.length === 0) return;
+    fastify.io.to(userIds).emit('group-removed', { chatId });
+  };
+
+  /**
+   * POST /api/chats/groups
+   *
+   * Create a group chat
+   *
+   * @header Authorization - Bearer token
+   * @body title - Group title
+   * @body avatarUrl - Optional avatar URL
+   * @body memberIds - Users to invite (accepted contacts)
+   *
+   * @returns Created chat with group metadata and members
+   */
+  fastify.post<{
+    Body: z.infer<typeof createGroupSchema>;
+  }>(
+    '/',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        // Validate request body
+        const data = createGroupSchema.parse(request.body);
+
+        const created = await groupService.createGroup(user.userId, data);
+        const chat = await messageService.getUserChat(created.id, user.userId);
+
+        fastify.log.info(
+          `Group ${chat.id} created by ${user.username} with ${chat.group?.members.length} members`
+        );
+
+        await notifyMembers(chat.id);
+
+        return reply.code(201).send({ chat });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Create group error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to create group',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/chats/groups/:id
+   *
+   * Get group metadata and members
+   *
+   * @header Authorization - Bearer token
+   * @param id - Group chat ID
+   *
+   * @returns Group metadata
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>(
+    '/:id',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        const group = await groupService.getGroupInfo(
+          request.params.id,
+          user.userId
+        );
+
+        return reply.code(200).send({ group });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Get group error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch group',
+        });
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/chats/groups/:id
+   *
+   * Update group title or avatar (admins only)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Group chat ID
+   * @body title - New title
+   * @body avatarUrl - New avatar URL (null removes it)
+   *
+   * @returns Updated group metadata
+   */
+  fastify.patch<{
+    Params: { id: string };
+    Body: z.infer<typeof updateGroupSchema>;
+  }>(
+    '/:id',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const { id } = request.params;
+
+        // Validate request body
+        const data = updateGroupSchema.parse(request.body);
+
+        const group = await groupService.updateGroup(id, user.userId, data);
+
+        fastify.io
+          .to(group.members.map((member) => member.id))
+          .emit('group-updated', { chatId: id, group });
+
+        return reply.code(200).send({ group });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Update group error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to update group',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/chats/groups/:id/members
+   *
+   * Invite contacts to a group (admins only)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Group chat ID
+   * @body userIds - Users to invite (accepted contacts)
+   *
+   * @returns IDs of the users added
+   */
+  fastify.post<{
+    Params: { id: string };
+    Body: z.infer<typeof addMembersSchema>;
+  }>(
+    '/:id/members',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const { id } = request.params;
+
+        // Validate request body
+        const data = addMembersSchema.parse(request.body);
+
+        const added = await groupService.addMembers(
+          id,
+          user.userId,
+          data.userIds
+        );
+
+        if (added.length > 0) {
+          fastify.log.info(
+            `${user.username} added ${added.length} member(s) to group ${id}`
+          );
+          await notifyMembers(id);
+        }
+
+        return reply.code(200).send({ added });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Add group members error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to add members',
+        });
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/chats/groups/:id/members/:userId
+   *
+   * Change a member's role (admins only)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Group chat ID
+   * @param userId - Member ID
+   * @body role - ADMIN or MEMBER
+   *
+   * @returns Success message
+   */
+  fastify.patch<{
+    Params: { id: string; userId: string };
+    Body: z.infer<typeof setRoleSchema>;
+  }>(
+    '/:id/members/:userId',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const { id, userId } = request.params;
+
+        // Validate request body
+        const data = setRoleSchema.parse(request.body);
+
+        await groupService.setMemberRole(id, user.userId, userId, data.role);
+        await notifyMembers(id);
+
+        return reply.code(200).send({ message: 'Member role updated' });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Set member role error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to change member role',
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/chats/groups/:id/members/:userId
+   *
+   * Remove a member from a group (admins only)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Group chat ID
+   * @param userId - Member to remove
+   *
+   * @returns Success message
+   */
+  fastify.delete<{
+    Params: { id: string; userId: string };
+  }>(
+    '/:id/members/:userId',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const { id, userId } = request.params;
+
+        await groupService.removeMember(id, user.userId, userId);
+
+        fastify.log.info(`${user.username} removed ${userId} from group ${id}`);
+        notifyRemoved(id, [userId]);
+        await notifyMembers(id);
+
+        return reply.code(200).send({ message: 'Member removed' });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Remove group member error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to remove member',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/chats/groups/:id/leave
+   *
+   * Leave a group (the group is deleted when its last member leaves)
+   *
+   * @header Authorization - Bearer token
+   * @param id - Group chat ID
+   *
+   * @returns Success message
+   */
+  fastify.post<{
+    Params: { id: string };
+  }>(
+    '/:id/leave',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const { id } = request.params;
+
+        const remaining = await groupService.leaveGroup(id, user.userId);
+
+        // The user's other devices drop the group too
+        notifyRemoved(id, [user.userId]);
+
+        if (remaining) {
+          await notifyMembers(id);
+        }
+
+        return reply.code(200).send({ message: 'Left the group' });
+      } catch (error) {
+        if (sendGroupError(error, reply)) return;
+
+        fastify.log.error({ error }, 'Leave group error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to leave group',
+        });
+      }
+    }
+  );
+}
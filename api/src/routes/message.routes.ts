@@ -29,7 +29,8 @@ export default async function messageRoutes(fastify: FastifyInstance) {
    *
    * @header Authorization - Bearer token
    *
-   * @returns Array of chats with participant info, sorted by last message time
+   * @returns Array of chats with participant info (1-on-1 chats) or group
+   *   metadata and members (group chats), sorted by last message time
    *
    * @example
    * Response:
@@ -37,12 +38,12 @@ export default async function messageRoutes(fastify: FastifyInstance) {
    *   "chats": [
    *     {
    *       "id": "chat123",
+   *       "type": "DIRECT",
    *       "createdAt": "2025-10-25T08:00:00.000Z",
    *       "updatedAt": "2025-10-25T09:30:00.000Z",
-   *       "lastMessage": "Hey, how are you?",
    *       "lastMessageAt": "2025-10-25T09:30:00.000Z",
    *       "lastMessageBy": "user456",
-   *       "unreadCountUser1": 3,
+   *       "unreadCount": 3,
    *       "participant": {
    *         "id": "user456",
    *         "username": "john",
@@ -50,7 +51,8 @@ export default async function messageRoutes(fastify: FastifyInstance) {
    *         "avatarUrl": null,
    *         "isOnline": true,
    *         "lastSeenAt": "2025-10-25T09:30:00.000Z"
-   *       }
+   *       },
+   *       "group": null
    *     }
    *   ]
    * }
@@ -146,6 +148,7 @@ export default async function messageRoutes(fastify: FastifyInstance) {
    *
    * Delete chat metadata
    * Note: This only deletes server-side metadata. Messages in Dexie.js remain.
+   * Group chats can only be deleted by admins; members get `group-removed`.
    *
    * @header Authorization - Bearer token
    * @param id - Chat ID
@@ -164,7 +167,10 @@ export default async function messageRoutes(fastify: FastifyInstance) {
         const user = request.user as JWTPayload;
         const { id } = request.params;
 
-        await messageService.deleteChat(id, user.userId);
+        const memberIds = await messageService.deleteChat(id, user.userId);
+        if (memberIds.length > 0) {
+          fastify.io.to(memberIds).emit('group-removed', { chatId: id });
+        }
 
         return reply.code(200).send({
           message: 'Chat deleted successfully',
@@ -183,6 +189,12 @@ export default async function messageRoutes(fastify: FastifyInstance) {
               message: 'You are not a participant in this chat',
             });
           }
+          if (error.message === 'Only group admins can do this') {
+            return reply.code(403).send({
+              error: 'Forbidden',
+              message: error.message,
+            });
+          }
         }
 
         fastify.log.error(error);
@@ -0,0 +1,204 @@
+/**
+ * Notification Routes
+ *
+ * Handles Web Push subscriptions (see plugins/push.plugin).
+ * All routes require authentication.
+ *
+ * @module routes/notification.routes
+ */
+
+import crypto from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { JWTPayload } from '../services/auth.service.js';
+import { isValidAuthSecret, isValidP256dhKey } from '../services/push.service.js';
+
+/**
+ * Subscribe request schema
+ */
+const subscribeSchema = z.object({
+  subscription: z.object({
+    endpoint: z.string().url('Invalid endpoint').max(2048),
+    keys: z.object({
+      p256dh: z.string().max(128).refine(isValidP256dhKey, 'Invalid p256dh key'),
+      auth: z.string().max(64).refine(isValidAuthSecret, 'Invalid auth secret'),
+    }),
+  }),
+  deviceId: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{8,64}$/, 'Invalid device ID')
+    .optional(),
+});
+
+/**
+ * Unsubscribe request schema
+ */
+const unsubscribeSchema = z.object({
+  endpoint: z.string().min(1, 'Endpoint is required').max(2048),
+});
+
+/**
+ * Notification Routes
+ *
+ * @param fastify - Fastify instance
+ */
+export default async function notificationRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/notifications/vapid-key
+   *
+   * Get the VAPID public key to subscribe with
+   * (`applicationServerKey` of `PushManager.subscribe`)
+   *
+   * @header Authorization - Bearer token
+   *
+   * @returns Base64url public key
+   *
+   * @example
+   * Response:
+   * {
+   *   "publicKey": "BNc6...Xw"
+   * }
+   */
+  fastify.get(
+    '/vapid-key',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async () => {
+      return { publicKey: fastify.push.getPublicKey() };
+    }
+  );
+
+  /**
+   * POST /api/notifications/subscribe
+   *
+   * Save the push subscription of the current device
+   *
+   * A device has one subscription, which replaces the previous one.
+   * Without a device ID, the endpoint identifies the device.
+   *
+   * @header Authorization - Bearer token
+   * @body subscription - Browser push subscription (`PushSubscription.toJSON()`)
+   * @body deviceId - Device ID (optional)
+   *
+   * @returns Saved subscription
+   *
+   * @example
+   * Request:
+   * POST /api/notifications/subscribe
+   * {
+   *   "subscription": {
+   *     "endpoint": "https://fcm.googleapis.com/fcm/send/...",
+   *     "keys": { "p256dh": "BIPU...", "auth": "k8Jp..." }
+   *   },
+   *   "deviceId": "d3f1c2b4a5e6"
+   * }
+   *
+   * Response:
+   * {
+   *   "id": "sub123",
+   *   "userId": "user123",
+   *   "endpoint": "https://fcm.googleapis.com/fcm/send/...",
+   *   "createdAt": "2025-10-25T08:00:00.000Z"
+   * }
+   */
+  fastify.post<{
+    Body: z.infer<typeof subscribeSchema>;
+  }>(
+    '/subscribe',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const data = subscribeSchema.parse(request.body);
+
+        const deviceId =
+          data.deviceId ??
+          crypto
+            .createHash('sha256')
+            .update(data.subscription.endpoint)
+            .digest('base64url')
+            .slice(0, 32);
+
+        const subscription = await fastify.push.subscribe(
+          user.userId,
+          deviceId,
+          data.subscription
+        );
+
+        return reply.code(201).send({
+          id: subscription.id,
+          userId: subscription.userId,
+          endpoint: subscription.endpoint,
+          createdAt: subscription.createdAt,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation Error',
+            message: error.errors[0].message,
+            details: error.errors,
+          });
+        }
+
+        if (error instanceof Error && error.message === 'Push endpoint not allowed') {
+          return reply.code(400).send({
+            error: 'Validation Error',
+            message: 'Endpoint is not on a known push service',
+          });
+        }
+
+        fastify.log.error({ error }, 'Push subscribe error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to save push subscription',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/notifications/unsubscribe
+   *
+   * Remove a push subscription of the current user
+   *
+   * @header Authorization - Bearer token
+   * @body endpoint - Push service URL of the subscription
+   *
+   * @returns Success message (also when it was already removed)
+   */
+  fastify.post<{
+    Body: z.infer<typeof unsubscribeSchema>;
+  }>(
+    '/unsubscribe',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const data = unsubscribeSchema.parse(request.body);
+
+        await fastify.push.unsubscribe(user.userId, data.endpoint);
+
+        return { message: 'Unsubscribed from push notifications' };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation Error',
+            message: error.errors[0].message,
+            details: error.errors,
+          });
+        }
+
+        fastify.log.error({ error }, 'Push unsubscribe error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to remove push subscription',
+        });
+      }
+    }
+  );
+}
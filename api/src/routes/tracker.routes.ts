@@ -0,0 +1,77 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TRACKER_PATH } from '../plugins/tracker.plugin.js';
+
+/**
+ * Tracker routes
+ *
+ * Provides the WebTorrent trackers clients use for Emergency mode
+ * signaling: the deployment's own tracker (with an announce token) and any
+ * extra trackers configured in `WEBTORRENT_TRACKERS`.
+ */
+export default async function trackerRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/trackers
+   *
+   * Get the tracker list. Clients cache it for Emergency mode, when the API
+   * is unreachable; the token is valid until `expiresAt`.
+   *
+   * @returns {object} Tracker URLs and token expiry
+   *
+   * @example
+   * Response:
+   * {
+   *   "trackers": ["wss://example.com/api/tracker?token=1735689600.c2lnbmF0dXJl"],
+   *   "expiresAt": "2025-01-01T00:00:00.000Z"
+   * }
+   */
+  fastify.get(
+    '/',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        description: 'Get WebTorrent trackers for P2P signaling',
+        tags: ['webrtc'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              trackers: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'WebSocket tracker URLs',
+              },
+              expiresAt: {
+                type: 'string',
+                description: 'Expiry of the announce token',
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      // Public URL of the own tracker (behind the reverse proxy)
+      const domain = process.env.DOMAIN;
+      const ownTracker =
+        process.env.TRACKER_PUBLIC_URL ||
+        (domain
+          ? `wss://${domain}${TRACKER_PATH}`
+          : `${request.protocol === 'https' ? 'wss' : 'ws'}://${request.hostname}${TRACKER_PATH}`);
+
+      const extraTrackers = (process.env.WEBTORRENT_TRACKERS || '')
+        .split(',')
+        .map((url) => url.trim())
+        .filter((url) => url && url !== ownTracker);
+
+      const { token, expiresAt } = fastify.tracker.createAnnounceToken();
+
+      return reply.send({
+        trackers: [
+          `${ownTracker}?token=${encodeURIComponent(token)}`,
+          ...extraTrackers,
+        ],
+        expiresAt: expiresAt.toISOString(),
+      });
+    }
+  );
+}
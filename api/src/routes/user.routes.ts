@@ -1,7 +1,8 @@
 /**
  * User Routes
  *
- * Handles user profile operations (read, update).
+ * Handles user profile operations (read, update) and the public key
+ * directory used for end-to-end encrypted messaging.
  * All routes require authentication.
  *
  * @module routes/user.routes
@@ -22,6 +23,30 @@ const updateUserSchema = z.object({
   phone: z.string().max(20).optional(),
 });
 
+/**
+ * Device ID schema (client-generated, URL-safe)
+ */
+const deviceIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{8,64}$/, 'Invalid device ID');
+
+/**
+ * Publish device key request schema
+ */
+const publishDeviceKeySchema = z.object({
+  identityKey: z
+    .string()
+    .min(1)
+    .max(512)
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Identity key must be base64'),
+  signingKey: z
+    .string()
+    .min(1)
+    .max(512)
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Signing key must be base64')
+    .optional(),
+});
+
 /**
  * User Routes
  *
@@ -202,6 +227,171 @@ export default async function userRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * PUT /api/users/me/keys/:deviceId
+   *
+   * Publish or refresh the public identity key of one of the current
+   * user's devices. Private keys never leave the device.
+   *
+   * @header Authorization - Bearer token
+   * @param deviceId - Client-generated device ID
+   * @body identityKey - Base64 SPKI-encoded ECDH P-256 public key
+   * @body signingKey - Base64 SPKI-encoded ECDSA P-256 public key (optional)
+   *
+   * @returns Published device key
+   */
+  fastify.put<{
+    Params: { deviceId: string };
+    Body: z.infer<typeof publishDeviceKeySchema>;
+  }>(
+    '/me/keys/:deviceId',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+
+        // Validate request
+        const deviceId = deviceIdSchema.parse(request.params.deviceId);
+        const { identityKey, signingKey } = publishDeviceKeySchema.parse(
+          request.body
+        );
+
+        const deviceKey = await userService.publishDeviceKey(
+          user.userId,
+          deviceId,
+          identityKey,
+          signingKey
+        );
+
+        fastify.log.debug(
+          `Device key published: ${user.username} (${deviceId})`
+        );
+
+        return reply.code(200).send({
+          deviceId: deviceKey.deviceId,
+          identityKey: deviceKey.identityKey,
+          signingKey: deviceKey.signingKey,
+          updatedAt: deviceKey.updatedAt,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.code(400).send({
+            error: 'Validation Error',
+            message: error.errors[0].message,
+            details: error.errors,
+          });
+        }
+
+        fastify.log.error({ error }, 'Publish device key error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to publish device key',
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/users/me/keys/:deviceId
+   *
+   * Remove one of the current user's devices from the key directory
+   *
+   * @header Authorization - Bearer token
+   * @param deviceId - Device ID
+   *
+   * @returns Success message
+   */
+  fastify.delete<{
+    Params: { deviceId: string };
+  }>(
+    '/me/keys/:deviceId',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const user = request.user as JWTPayload;
+        const { deviceId } = request.params;
+
+        const removed = await userService.revokeDeviceKey(
+          user.userId,
+          deviceId
+        );
+
+        if (!removed) {
+          return reply.code(404).send({
+            error: 'Not Found',
+            message: 'Device key not found',
+          });
+        }
+
+        fastify.log.info(`Device key revoked: ${user.username} (${deviceId})`);
+
+        return reply.code(200).send({
+          message: 'Device key revoked successfully',
+        });
+      } catch (error) {
+        fastify.log.error({ error }, 'Revoke device key error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to revoke device key',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/users/:id/keys
+   *
+   * Get the public identity (and signing) keys of all devices of a user
+   *
+   * @header Authorization - Bearer token
+   * @param id - User ID
+   * @returns Device keys of the user
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>(
+    '/:id/keys',
+    {
+      onRequest: [fastify.authenticate],
+    },
+    async (request, reply) => {
+      try {
+        const { id } = request.params;
+
+        const userProfile = await userService.findById(id);
+
+        if (!userProfile) {
+          return reply.code(404).send({
+            error: 'Not Found',
+            message: 'User not found',
+          });
+        }
+
+        const deviceKeys = await userService.getDeviceKeys(id);
+
+        return reply.code(200).send({
+          userId: id,
+          devices: deviceKeys.map((k) => ({
+            deviceId: k.deviceId,
+            identityKey: k.identityKey,
+            signingKey: k.signingKey,
+            updatedAt: k.updatedAt,
+          })),
+        });
+      } catch (error) {
+        fastify.log.error({ error }, 'Get device keys error');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch device keys',
+        });
+      }
+    }
+  );
+
   /**
    * GET /api/users/:id
    *
@@ -0,0 +1,502 @@
+/**
+ * Attachment Service
+ *
+ * Handles files shared in chats: resumable chunked uploads, size and MIME
+ * limits, image thumbnails and access control for downloads.
+ *
+ * Upload flow:
+ * 1. `createUpload` registers the file and returns an upload session
+ * 2. `appendChunk` receives chunks in order (clients resume from `receivedBytes`)
+ * 3. `completeUpload` validates the file, generates a thumbnail for images
+ *    and moves it to the storage driver
+ *
+ * Chunks are staged on the API server's filesystem until the upload completes.
+ *
+ * @module services/attachment.service
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { mkdir, open, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { PrismaClient, Attachment } from '@prisma/client';
+import sharp from 'sharp';
+import { StorageDriver } from './storage.service.js';
+
+/**
+ * Default maximum attachment size (bytes) - 50 MB
+ */
+export const DEFAULT_MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Default upload chunk size (bytes) - 5 MB
+ */
+export const DEFAULT_UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Default time to finish an upload before it is purged (seconds) - 24 hours
+ */
+export const DEFAULT_UPLOAD_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Default allowed MIME types (`type/*` matches a whole family)
+ *
+ * SVG and HTML are deliberately excluded: they can carry scripts.
+ */
+export const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+  'audio/*',
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+];
+
+/**
+ * Image types a thumbnail is generated for
+ */
+const THUMBNAIL_MIME_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+]);
+
+/**
+ * Longest side of generated thumbnails (pixels)
+ */
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * Attachment service options
+ */
+export interface AttachmentServiceOptions {
+  maxSize: number;
+  chunkSize: number;
+  allowedMimeTypes: string[];
+  uploadTtlSeconds: number;
+  stagingDir: string;
+}
+
+/**
+ * Data needed to start an upload
+ */
+export interface CreateUploadData {
+  chatId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Attachment metadata returned to clients
+ */
+export interface AttachmentInfo {
+  id: string;
+  chatId: string;
+  uploaderId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: Attachment['status'];
+  receivedBytes: number;
+  chunkSize: number;
+  width: number | null;
+  height: number | null;
+  hasThumbnail: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Check a MIME type against an allow-list entry (`image/png` or `image/*`)
+ */
+function matchesMimeType(mimeType: string, pattern: string): boolean {
+  if (pattern.endsWith('/*')) {
+    return mimeType.startsWith(pattern.slice(0, -1));
+  }
+  return mimeType === pattern;
+}
+
+/**
+ * Attachment Service
+ *
+ * Provides methods for uploading, downloading and deleting attachments.
+ */
+export class AttachmentService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly storage: StorageDriver,
+    private readonly options: AttachmentServiceOptions
+  ) {}
+
+  /**
+   * Convert an attachment to the client representation
+   *
+   * @param attachment - Attachment record
+   * @returns Attachment metadata
+   */
+  toInfo(attachment: Attachment): AttachmentInfo {
+    return {
+      id: attachment.id,
+      chatId: attachment.chatId,
+      uploaderId: attachment.uploaderId,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      status: attachment.status,
+      receivedBytes: attachment.receivedBytes,
+      chunkSize: this.options.chunkSize,
+      width: attachment.width,
+      height: attachment.height,
+      hasThumbnail: attachment.thumbnailKey !== null,
+      createdAt: attachment.createdAt,
+    };
+  }
+
+  /**
+   * Start a resumable upload
+   *
+   * @param uploaderId - Uploading user ID
+   * @param data - File metadata
+   * @returns Attachment in UPLOADING state
+   * @throws Error if chat not found, user is not a participant,
+   *   the file is too large or its type is not allowed
+   */
+  async createUpload(
+    uploaderId: string,
+    data: CreateUploadData
+  ): Promise<Attachment> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: data.chatId },
+      include: { members: { where: { userId: uploaderId } } },
+    });
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    if (
+      chat.userId1 !== uploaderId &&
+      chat.userId2 !== uploaderId &&
+      chat.members.length === 0
+    ) {
+      throw new Error('User is not a participant in this chat');
+    }
+
+    if (data.size > this.options.maxSize) {
+      throw new Error('File too large');
+    }
+
+    const mimeType = data.mimeType.toLowerCase();
+    if (
+      !this.options.allowedMimeTypes.some((pattern) =>
+        matchesMimeType(mimeType, pattern)
+      )
+    ) {
+      throw new Error('File type not allowed');
+    }
+
+    const attachment = await this.prisma.attachment.create({
+      data: {
+        uploaderId,
+        chatId: data.chatId,
+        fileName: data.fileName,
+        mimeType,
+        size: data.size,
+        storageKey: `attachments/${data.chatId}/${randomUUID()}`,
+        expiresAt: new Date(Date.now() + this.options.uploadTtlSeconds * 1000),
+      },
+    });
+
+    // Create the (empty) staging file chunks are written into
+    await mkdir(this.options.stagingDir, { recursive: true });
+    const file = await open(this.stagingPath(attachment.id), 'w');
+    await file.close();
+
+    return attachment;
+  }
+
+  /**
+   * Get an upload session of the current user (to resume it)
+   *
+   * @param uploaderId - Uploading user ID
+   * @param attachmentId - Attachment ID
+   * @returns Attachment
+   * @throws Error if not found
+   */
+  async getUpload(
+    uploaderId: string,
+    attachmentId: string
+  ): Promise<Attachment> {
+    const attachment = await this.prisma.attachment.findUnique({
+      where: { id: attachmentId },
+    });
+
+    if (!attachment || attachment.uploaderId !== uploaderId) {
+      throw new Error('Attachment not found');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Append a chunk to an upload
+   *
+   * Chunks must arrive in order: `offset` has to equal the number of bytes
+   * received so far. Retrying a chunk that was already stored is harmless.
+   *
+   * @param uploaderId - Uploading user ID
+   * @param attachmentId - Attachment ID
+   * @param offset - Byte offset of the chunk
+   * @param chunk - Chunk content
+   * @returns Updated attachment
+   * @throws Error if not found, already completed, out of order or
+   *   larger than the declared size
+   */
+  async appendChunk(
+    uploaderId: string,
+    attachmentId: string,
+    offset: number,
+    chunk: Buffer
+  ): Promise<Attachment> {
+    const attachment = await this.getUpload(uploaderId, attachmentId);
+
+    if (attachment.status !== 'UPLOADING') {
+      throw new Error('Upload already completed');
+    }
+
+    if (offset !== attachment.receivedBytes) {
+      throw new Error('Upload offset mismatch');
+    }
+
+    if (offset + chunk.length > attachment.size) {
+      throw new Error('Chunk exceeds declared file size');
+    }
+
+    // Positional write: a duplicated chunk rewrites the same bytes
+    const file = await open(this.stagingPath(attachmentId), 'r+');
+    try {
+      await file.write(chunk, 0, chunk.length, offset);
+    } finally {
+      await file.close();
+    }
+
+    // Only advance if no concurrent request got there first
+    const result = await this.prisma.attachment.updateMany({
+      where: { id: attachmentId, receivedBytes: offset },
+      data: { receivedBytes: offset + chunk.length },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Upload offset mismatch');
+    }
+
+    return this.getUpload(uploaderId, attachmentId);
+  }
+
+  /**
+   * Complete an upload
+   *
+   * Verifies that images really are images, generates their thumbnail and
+   * moves the file to the storage driver. Completing twice is a no-op.
+   *
+   * @param uploaderId - Uploading user ID
+   * @param attachmentId - Attachment ID
+   * @returns Attachment in READY state
+   * @throws Error if not found, incomplete or the content does not match
+   *   the declared type
+   */
+  async completeUpload(
+    uploaderId: string,
+    attachmentId: string
+  ): Promise<Attachment> {
+    const attachment = await this.getUpload(uploaderId, attachmentId);
+
+    if (attachment.status === 'READY') {
+      return attachment;
+    }
+
+    if (attachment.receivedBytes !== attachment.size) {
+      throw new Error('Upload is incomplete');
+    }
+
+    const stagingPath = this.stagingPath(attachmentId);
+    let thumbnailKey: string | null = null;
+    let width: number | null = null;
+    let height: number | null = null;
+
+    if (THUMBNAIL_MIME_TYPES.has(attachment.mimeType)) {
+      let thumbnail: Buffer;
+
+      try {
+        const image = sharp(stagingPath);
+        const metadata = await image.metadata();
+        width = metadata.width ?? null;
+        height = metadata.height ?? null;
+
+        thumbnail = await image
+          .rotate() // Apply EXIF orientation
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          .webp({ quality: 70 })
+          .toBuffer();
+      } catch {
+        throw new Error('File content does not match its type');
+      }
+
+      thumbnailKey = `${attachment.storageKey}.thumb.webp`;
+      await this.storage.putObject(
+        thumbnailKey,
+        thumbnail,
+        'image/webp',
+        thumbnail.length
+      );
+    }
+
+    await this.storage.putObject(
+      attachment.storageKey,
+      createReadStream(stagingPath),
+      attachment.mimeType,
+      attachment.size
+    );
+
+    const completed = await this.prisma.attachment.update({
+      where: { id: attachmentId },
+      data: {
+        status: 'READY',
+        expiresAt: null,
+        thumbnailKey,
+        width,
+        height,
+      },
+    });
+
+    await rm(stagingPath, { force: true });
+
+    return completed;
+  }
+
+  /**
+   * Get a completed attachment the user is allowed to download
+   *
+   * Participants (or group members) of the attachment's chat may download it.
+   *
+   * @param userId - Requesting user ID
+   * @param attachmentId - Attachment ID
+   * @returns Attachment
+   * @throws Error if not found or not accessible
+   */
+  async getAttachment(
+    userId: string,
+    attachmentId: string
+  ): Promise<Attachment> {
+    const attachment = await this.prisma.attachment.findUnique({
+      where: { id: attachmentId },
+      include: {
+        chat: { include: { members: { where: { userId } } } },
+      },
+    });
+
+    // Don't reveal attachments of other chats
+    if (
+      !attachment ||
+      attachment.status !== 'READY' ||
+      (attachment.chat.userId1 !== userId &&
+        attachment.chat.userId2 !== userId &&
+        attachment.chat.members.length === 0)
+    ) {
+      throw new Error('Attachment not found');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Open the content of an attachment (or of its thumbnail)
+   *
+   * @param attachment - Completed attachment
+   * @param thumbnail - Whether to open the thumbnail
+   * @returns Readable stream
+   * @throws Error if the object does not exist
+   */
+  async openContent(
+    attachment: Attachment,
+    thumbnail = false
+  ): Promise<Readable> {
+    const key = thumbnail ? attachment.thumbnailKey : attachment.storageKey;
+
+    if (!key) {
+      throw new Error('Object not found');
+    }
+
+    return this.storage.getObject(key);
+  }
+
+  /**
+   * Delete an attachment (uploader only)
+   *
+   * @param uploaderId - Uploading user ID
+   * @param attachmentId - Attachment ID
+   * @throws Error if not found
+   */
+  async deleteAttachment(
+    uploaderId: string,
+    attachmentId: string
+  ): Promise<void> {
+    const attachment = await this.getUpload(uploaderId, attachmentId);
+    await this.removeContent(attachment);
+    await this.prisma.attachment.delete({ where: { id: attachmentId } });
+  }
+
+  /**
+   * Delete uploads that were not completed in time
+   *
+   * @returns Number of deleted uploads
+   */
+  async purgeAbandoned(): Promise<number> {
+    const abandoned = await this.prisma.attachment.findMany({
+      where: { status: 'UPLOADING', expiresAt: { lte: new Date() } },
+    });
+
+    for (const attachment of abandoned) {
+      await this.removeContent(attachment);
+    }
+
+    const result = await this.prisma.attachment.deleteMany({
+      where: { id: { in: abandoned.map((a) => a.id) } },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Remove staged and stored content of an attachment
+   */
+  private async removeContent(attachment: Attachment): Promise<void> {
+    await rm(this.stagingPath(attachment.id), { force: true });
+
+    if (attachment.status === 'READY') {
+      await this.storage.deleteObject(attachment.storageKey);
+      if (attachment.thumbnailKey) {
+        await this.storage.deleteObject(attachment.thumbnailKey);
+      }
+    }
+  }
+
+  /**
+   * Path of the staging file of an upload
+   */
+  private stagingPath(attachmentId: string): string {
+    return path.join(this.options.stagingDir, `${attachmentId}.part`);
+  }
+}
@@ -0,0 +1,464 @@
+/**
+ * Call Session Service
+ *
+ * Owns the lifecycle of 1-on-1 calls made through the server. A call rings
+ * on every connected device of the receiver until one device answers or
+ * declines it, the caller cancels, or the ring timeout expires:
+ *
+ * - RINGING → ANSWERED → ENDED
+ * - RINGING → REJECTED / CANCELLED / MISSED
+ *
+ * Sessions of ringing and answered calls are kept in memory; every
+ * transition is persisted through CallService and announced to the
+ * participants. A user with a ringing or answered call is busy: calling
+ * them records a missed call and tells the caller. A call also ends when
+ * the device of a participant disconnects. Devices of the receiver that
+ * connect while the call rings are rung with the caller's kept offer.
+ *
+ * @module services/call-session.service
+ */
+
+import { PrismaClient, Call, CallType, CallStatus, Prisma } from '@prisma/client';
+import { CallService } from './call.service.js';
+import { WebRTCSessionDescription } from '../interfaces/webrtc.interfaces.js';
+
+/**
+ * Default time an unanswered call rings before it is missed (ms)
+ */
+export const DEFAULT_CALL_RING_TIMEOUT_MS = 30000;
+
+/**
+ * Call lifecycle events sent to participants
+ */
+export type CallSessionEvent =
+  | 'call-incoming'
+  | 'call-accepted'
+  | 'call-answered-elsewhere'
+  | 'call-rejected'
+  | 'call-ended'
+  | 'call-missed';
+
+/**
+ * Payload of a call lifecycle event
+ */
+export interface CallSessionEventPayload {
+  from: string; // The other participant
+  callId: string;
+  callType?: CallType; // Only on `call-incoming`
+}
+
+/**
+ * Callback that delivers a call event to a room (a user ID reaches all of
+ * the user's devices, a socket ID one device), except one socket
+ */
+export type CallSessionNotifier = (
+  to: string,
+  event: CallSessionEvent,
+  payload: CallSessionEventPayload,
+  exceptSocketId?: string
+) => void;
+
+/**
+ * Ringing or answered call
+ */
+export interface CallSession {
+  callId: string;
+  callerId: string;
+  receiverId: string;
+  type: CallType;
+  status: 'RINGING' | 'ANSWERED';
+  callerSocketId: string;
+  receiverSocketId: string | null; // Device that answered
+  offer: WebRTCSessionDescription | null; // Caller's offer, once sent
+}
+
+/**
+ * Result of starting a call
+ */
+export interface CallInitiateResult {
+  call: Call;
+  busy: boolean; // The receiver is in another call; the call is missed
+}
+
+/**
+ * Call Session Service
+ *
+ * Keeps the sessions by call ID and the busy users, and runs the ring
+ * timers.
+ */
+export class CallSessionService {
+  private readonly callService: CallService;
+  private readonly sessions = new Map<string, CallSession>();
+  private readonly userCalls = new Map<string, string>();
+  private readonly reservedUsers = new Set<string>();
+  private readonly ringTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    prisma: PrismaClient,
+    private readonly notify: CallSessionNotifier,
+    private readonly onUnanswered: (session: CallSession) => void,
+    private readonly ringTimeoutMs: number = DEFAULT_CALL_RING_TIMEOUT_MS
+  ) {
+    this.callService = new CallService(prisma);
+  }
+
+  /**
+   * Close calls interrupted by a restart
+   */
+  async resetAll(): Promise<number> {
+    return this.callService.closeInterruptedCalls();
+  }
+
+  /**
+   * Whether a user has a ringing or answered call
+   *
+   * @param userId - User ID
+   */
+  isBusy(userId: string): boolean {
+    return this.userCalls.has(userId) || this.reservedUsers.has(userId);
+  }
+
+  /**
+   * Get the session of a ringing or answered call
+   *
+   * @param callId - Call ID
+   */
+  getSession(callId: string): CallSession | undefined {
+    return this.sessions.get(callId);
+  }
+
+  /**
+   * Get the ringing call of a receiver
+   *
+   * @param receiverId - Receiver ID
+   * @returns Session, or undefined if no call rings for the user
+   */
+  getRingingCall(receiverId: string): CallSession | undefined {
+    const callId = this.userCalls.get(receiverId);
+    const session = callId ? this.sessions.get(callId) : undefined;
+
+    return session?.status === 'RINGING' && session.receiverId === receiverId
+      ? session
+      : undefined;
+  }
+
+  /**
+   * Keep the caller's offer of a ringing call, for devices of the receiver
+   * that connect later
+   *
+   * @param callerId - Caller ID
+   * @param receiverId - Receiver ID
+   * @param offer - WebRTC offer
+   */
+  setOffer(callerId: string, receiverId: string, offer: WebRTCSessionDescription): void {
+    const session = this.getRingingCall(receiverId);
+    if (session?.callerId === callerId) {
+      session.offer = offer;
+    }
+  }
+
+  /**
+   * Start a call and ring the receiver's devices
+   *
+   * @param callerId - Caller ID
+   * @param callerSocketId - Socket of the calling device
+   * @param receiverId - Receiver ID
+   * @param type - Call type
+   * @param callId - Call ID generated by the caller (optional)
+   * @returns Created call, and whether the receiver was busy
+   * @throws Error if the caller calls themselves or is already in a call, or
+   * the call ID is taken
+   */
+  async initiate(
+    callerId: string,
+    callerSocketId: string,
+    receiverId: string,
+    type: CallType,
+    callId?: string
+  ): Promise<CallInitiateResult> {
+    if (callerId === receiverId) {
+      throw new Error('Cannot call yourself');
+    }
+
+    if (this.isBusy(callerId)) {
+      throw new Error('Caller is already in a call');
+    }
+
+    const busy = this.isBusy(receiverId);
+
+    // Reserve both users while the record is created, so concurrent calls
+    // see them busy
+    this.reservedUsers.add(callerId);
+    if (!busy) this.reservedUsers.add(receiverId);
+
+    let call: Call;
+    try {
+      call = await this.callService.createCall(
+        callerId,
+        receiverId,
+        type,
+        undefined,
+        callId
+      );
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Call ID already in use');
+      }
+      throw error;
+    } finally {
+      this.reservedUsers.delete(callerId);
+      if (!busy) this.reservedUsers.delete(receiverId);
+    }
+
+    if (busy) {
+      const missed = await this.callService.transitionCall(
+        call.id,
+        [CallStatus.RINGING],
+        CallStatus.MISSED
+      );
+      return { call: missed ?? call, busy: true };
+    }
+
+    const session: CallSession = {
+      callId: call.id,
+      callerId,
+      receiverId,
+      type,
+      status: 'RINGING',
+      callerSocketId,
+      receiverSocketId: null,
+      offer: null,
+    };
+    this.sessions.set(call.id, session);
+    this.userCalls.set(callerId, call.id);
+    this.userCalls.set(receiverId, call.id);
+
+    const timer = setTimeout(() => {
+      this.ringTimers.delete(call.id);
+      this.timeout(call.id).catch(() => {
+        // Errors are non-fatal: the record is closed on the next start
+      });
+    }, this.ringTimeoutMs);
+    timer.unref();
+    this.ringTimers.set(call.id, timer);
+
+    this.notify(receiverId, 'call-incoming', {
+      from: callerId,
+      callId: call.id,
+      callType: type,
+    });
+
+    return { call, busy: false };
+  }
+
+  /**
+   * Answer a ringing call on one of the receiver's devices
+   *
+   * The caller is told the call was accepted; the receiver's other devices
+   * stop ringing.
+   *
+   * @param callId - Call ID
+   * @param userId - Answering user (must be the receiver)
+   * @param socketId - Socket of the answering device
+   * @returns Updated call, or null if the call no longer rings
+   */
+  async answer(callId: string, userId: string, socketId: string): Promise<Call | null> {
+    const session = this.sessions.get(callId);
+    if (!session || session.status !== 'RINGING' || session.receiverId !== userId) {
+      return null;
+    }
+
+    // Claim the answer before persisting it, so a second device cannot
+    session.status = 'ANSWERED';
+    session.receiverSocketId = socketId;
+    this.clearRingTimer(callId);
+
+    const call = await this.callService.transitionCall(
+      callId,
+      [CallStatus.RINGING],
+      CallStatus.ANSWERED
+    );
+    if (!call) {
+      this.close(session);
+      return null;
+    }
+
+    this.notify(session.callerSocketId, 'call-accepted', {
+      from: session.receiverId,
+      callId,
+    });
+    this.notify(
+      session.receiverId,
+      'call-answered-elsewhere',
+      { from: session.callerId, callId },
+      socketId
+    );
+
+    return call;
+  }
+
+  /**
+   * Decline a ringing call
+   *
+   * @param callId - Call ID
+   * @param userId - Declining user (must be the receiver)
+   * @param socketId - Socket of the declining device (none over HTTP)
+   * @returns Updated call, or null if the call no longer rings
+   */
+  async reject(callId: string, userId: string, socketId?: string): Promise<Call | null> {
+    const session = this.sessions.get(callId);
+    if (!session || session.status !== 'RINGING' || session.receiverId !== userId) {
+      return null;
+    }
+
+    this.close(session);
+
+    const call = await this.callService.transitionCall(
+      callId,
+      [CallStatus.RINGING],
+      CallStatus.REJECTED
+    );
+
+    this.notify(session.callerSocketId, 'call-rejected', {
+      from: session.receiverId,
+      callId,
+    });
+    this.notify(
+      session.receiverId,
+      'call-ended',
+      { from: session.callerId, callId },
+      socketId
+    );
+
+    return call;
+  }
+
+  /**
+   * Hang up a call
+   *
+   * A ringing call is cancelled by the caller (or declined by the
+   * receiver); an answered call ends. The other participant is told the
+   * call ended.
+   *
+   * @param callId - Call ID
+   * @param userId - Participant hanging up
+   * @param socketId - Socket of the device hanging up (none over HTTP)
+   * @returns Updated call, or null if the call is not ringing or answered
+   */
+  async end(callId: string, userId: string, socketId?: string): Promise<Call | null> {
+    const session = this.sessions.get(callId);
+    if (!session || (session.callerId !== userId && session.receiverId !== userId)) {
+      return null;
+    }
+
+    if (session.status === 'RINGING' && session.receiverId === userId) {
+      return this.reject(callId, userId, socketId);
+    }
+
+    this.close(session);
+
+    const isCaller = session.callerId === userId;
+    const call = await this.callService.transitionCall(
+      callId,
+      [session.status === 'RINGING' ? CallStatus.RINGING : CallStatus.ANSWERED],
+      session.status === 'RINGING' ? CallStatus.CANCELLED : CallStatus.ENDED
+    );
+
+    if (session.status === 'RINGING') {
+      this.notify(session.receiverId, 'call-ended', { from: session.callerId, callId });
+      this.onUnanswered(session);
+    } else {
+      // The answering device, or all of the receiver's if it is unknown
+      const to = isCaller
+        ? (session.receiverSocketId ?? session.receiverId)
+        : session.callerSocketId;
+      this.notify(to, 'call-ended', { from: userId, callId });
+    }
+
+    return call;
+  }
+
+  /**
+   * Hang up the calls of a disconnected device
+   *
+   * Only the calling device and the device that answered hold a call;
+   * other devices of the receiver just stop ringing.
+   *
+   * @param userId - User of the device
+   * @param socketId - Disconnected socket
+   */
+  async handleDisconnect(userId: string, socketId: string): Promise<void> {
+    const callId = this.userCalls.get(userId);
+    const session = callId ? this.sessions.get(callId) : undefined;
+
+    if (
+      session &&
+      (session.callerSocketId === socketId || session.receiverSocketId === socketId)
+    ) {
+      await this.end(session.callId, userId, socketId);
+    }
+  }
+
+  /**
+   * Stop all ring timers (server shutdown)
+   */
+  shutdown(): void {
+    for (const timer of this.ringTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.ringTimers.clear();
+  }
+
+  /**
+   * Miss a call that rang too long
+   */
+  private async timeout(callId: string): Promise<void> {
+    const session = this.sessions.get(callId);
+    if (!session || session.status !== 'RINGING') {
+      return;
+    }
+
+    this.close(session);
+
+    this.notify(session.callerSocketId, 'call-missed', {
+      from: session.receiverId,
+      callId,
+    });
+    this.notify(session.receiverId, 'call-missed', {
+      from: session.callerId,
+      callId,
+    });
+    this.onUnanswered(session);
+
+    await this.callService.transitionCall(
+      callId,
+      [CallStatus.RINGING],
+      CallStatus.MISSED
+    );
+  }
+
+  /**
+   * Remove a session, freeing its participants
+   */
+  private close(session: CallSession): void {
+    this.clearRingTimer(session.callId);
+    this.sessions.delete(session.callId);
+
+    for (const userId of [session.callerId, session.receiverId]) {
+      if (this.userCalls.get(userId) === session.callId) {
+        this.userCalls.delete(userId);
+      }
+    }
+  }
+
+  /**
+   * Stop the ring timer of a call
+   */
+  private clearRingTimer(callId: string): void {
+    const timer = this.ringTimers.get(callId);
+    if (timer) {
+      clearTimeout(timer);
+      this.ringTimers.delete(callId);
+    }
+  }
+}
@@ -25,6 +25,31 @@ export interface CallWithParticipant extends Call {
   direction: CallDirection;
 }
 
+/**
+ * Call recorded by a client while the server was unreachable
+ * (P2P call in Emergency mode)
+ */
+export interface ImportedCall {
+  id: string; // Generated by the caller, shared with the receiver
+  callerId: string;
+  receiverId: string;
+  type: CallType;
+  status: 'ENDED' | 'MISSED' | 'REJECTED' | 'CANCELLED'; // Calls that are over
+  mode: CallMode;
+  startedAt: string | null;
+  endedAt: string | null;
+  duration: number | null;
+  createdAt: string;
+}
+
+/**
+ * Result of a call import
+ */
+export interface ImportCallsResult {
+  imported: string[]; // Stored now or before (e.g. by the other participant)
+  rejected: string[]; // Not a participant, unknown user or conflicting ID
+}
+
 /**
  * Call Service
  *
@@ -43,16 +68,19 @@ export class CallService {
    * @param receiverId - ID of user receiving the call
    * @param type - Call type (AUDIO, VIDEO, SCREEN)
    * @param mode - Call mode (NORMAL, EMERGENCY, ASYMMETRIC)
+   * @param id - Call ID generated by the caller (optional)
    * @returns Created call record
    */
   async createCall(
     callerId: string,
     receiverId: string,
     type: CallType,
-    mode: CallMode = CallMode.NORMAL
+    mode: CallMode = CallMode.NORMAL,
+    id?: string
   ): Promise<Call> {
     const call = await this.prisma.call.create({
       data: {
+        id,
         callerId,
         receiverId,
         type,
@@ -91,104 +119,170 @@ export class CallService {
   }
 
   /**
-   * End a call
+   * Get a call the user took part in
    *
-   * Sets endedAt timestamp and calculates duration.
-   * Updates status to ENDED.
+   * @param callId - Call ID
+   * @param userId - Caller or receiver ID
+   * @returns Call record, or null if not found or the user is not a participant
+   */
+  async getParticipantCall(callId: string, userId: string): Promise<Call | null> {
+    return this.prisma.call.findFirst({
+      where: {
+        id: callId,
+        OR: [{ callerId: userId }, { receiverId: userId }],
+      },
+    });
+  }
+
+  /**
+   * Move a call to a new status if it is in one of the given statuses
+   *
+   * The update is conditional on the status read, so concurrent
+   * transitions (e.g. an answer racing the ring timeout) cannot both
+   * apply. ANSWERED sets startedAt; the final statuses set endedAt and the
+   * duration.
    *
    * @param callId - Call ID
-   * @returns Updated call record
+   * @param from - Statuses the call may be in
+   * @param to - New status
+   * @returns Updated call record, or null if the call is not in `from`
    */
-  async endCall(callId: string): Promise<Call> {
+  async transitionCall(
+    callId: string,
+    from: CallStatus[],
+    to: CallStatus
+  ): Promise<Call | null> {
     const call = await this.prisma.call.findUnique({
       where: { id: callId },
     });
 
-    if (!call) {
-      throw new Error('Call not found');
+    if (!call || !from.includes(call.status)) {
+      return null;
     }
 
-    const endedAt = new Date();
-    let duration = 0;
+    const now = new Date();
+    const data: Prisma.CallUpdateManyMutationInput = { status: to };
 
-    // Calculate duration if call was answered
-    if (call.startedAt) {
-      duration = Math.floor((endedAt.getTime() - call.startedAt.getTime()) / 1000);
+    if (to === CallStatus.ANSWERED) {
+      data.startedAt = now;
+    } else if (to !== CallStatus.RINGING) {
+      data.endedAt = now;
+      data.duration = call.startedAt
+        ? Math.floor((now.getTime() - call.startedAt.getTime()) / 1000)
+        : 0;
     }
 
-    const updatedCall = await this.prisma.call.update({
-      where: { id: callId },
-      data: {
-        status: CallStatus.ENDED,
-        endedAt,
-        duration,
-      },
+    const { count } = await this.prisma.call.updateMany({
+      where: { id: callId, status: call.status },
+      data,
     });
 
-    return updatedCall;
+    if (count === 0) {
+      return null;
+    }
+
+    return this.prisma.call.findUnique({ where: { id: callId } });
   }
 
   /**
-   * Mark call as missed
+   * Close calls left ringing or answered
    *
-   * Updates call status to MISSED.
-   * Used when receiver doesn't answer within timeout (30s).
+   * Called on startup: call sessions do not survive a restart, so ringing
+   * calls are missed and answered calls end now.
    *
-   * @param callId - Call ID
-   * @returns Updated call record
+   * @returns Number of closed calls
    */
-  async markCallAsMissed(callId: string): Promise<Call> {
-    const call = await this.prisma.call.update({
-      where: { id: callId },
-      data: {
-        status: CallStatus.MISSED,
-        endedAt: new Date(),
+  async closeInterruptedCalls(): Promise<number> {
+    const calls = await this.prisma.call.findMany({
+      where: {
+        mode: CallMode.NORMAL,
+        status: { in: [CallStatus.RINGING, CallStatus.ANSWERED] },
       },
+      select: { id: true, status: true },
     });
 
-    return call;
+    for (const call of calls) {
+      await this.transitionCall(
+        call.id,
+        [call.status],
+        call.status === CallStatus.RINGING ? CallStatus.MISSED : CallStatus.ENDED
+      );
+    }
+
+    return calls.length;
   }
 
   /**
-   * Mark call as rejected
+   * Import calls recorded by a client
    *
-   * Updates call status to REJECTED.
-   * Used when receiver explicitly rejects the call.
+   * Both participants may upload the same call (same ID), and a client may
+   * upload it again when the response was lost, so calls that already
+   * exist are not changed but count as imported. Calls the user did not
+   * take part in, with an unknown participant or whose ID belongs to
+   * another call are rejected.
    *
-   * @param callId - Call ID
-   * @returns Updated call record
+   * @param userId - ID of the uploading user
+   * @param calls - Calls to import
+   * @returns IDs of imported and rejected calls
    */
-  async markCallAsRejected(callId: string): Promise<Call> {
-    const call = await this.prisma.call.update({
-      where: { id: callId },
-      data: {
-        status: CallStatus.REJECTED,
-        endedAt: new Date(),
-      },
-    });
+  async importCalls(userId: string, calls: ImportedCall[]): Promise<ImportCallsResult> {
+    const result: ImportCallsResult = { imported: [], rejected: [] };
 
-    return call;
-  }
+    const [existingCalls, users] = await Promise.all([
+      this.prisma.call.findMany({
+        where: { id: { in: calls.map((call) => call.id) } },
+        select: { id: true, callerId: true, receiverId: true },
+      }),
+      this.prisma.user.findMany({
+        where: {
+          id: { in: calls.flatMap((call) => [call.callerId, call.receiverId]) },
+        },
+        select: { id: true },
+      }),
+    ]);
+    const existing = new Map(existingCalls.map((call) => [call.id, call]));
+    const userIds = new Set(users.map((user) => user.id));
 
-  /**
-   * Mark call as cancelled
-   *
-   * Updates call status to CANCELLED.
-   * Used when caller cancels before receiver answers.
-   *
-   * @param callId - Call ID
-   * @returns Updated call record
-   */
-  async markCallAsCancelled(callId: string): Promise<Call> {
-    const call = await this.prisma.call.update({
-      where: { id: callId },
-      data: {
-        status: CallStatus.CANCELLED,
-        endedAt: new Date(),
-      },
-    });
+    const data: Prisma.CallCreateManyInput[] = [];
+    for (const call of calls) {
+      const stored = existing.get(call.id);
+      const isParticipant = call.callerId === userId || call.receiverId === userId;
 
-    return call;
+      if (
+        !isParticipant ||
+        call.callerId === call.receiverId ||
+        !userIds.has(call.callerId) ||
+        !userIds.has(call.receiverId) ||
+        (stored &&
+          (stored.callerId !== call.callerId || stored.receiverId !== call.receiverId))
+      ) {
+        result.rejected.push(call.id);
+        continue;
+      }
+
+      result.imported.push(call.id);
+      if (stored || data.some((item) => item.id === call.id)) {
+        continue;
+      }
+
+      data.push({
+        id: call.id,
+        callerId: call.callerId,
+        receiverId: call.receiverId,
+        type: call.type,
+        status: call.status,
+        mode: call.mode,
+        startedAt: call.startedAt ? new Date(call.startedAt) : null,
+        endedAt: call.endedAt ? new Date(call.endedAt) : null,
+        duration: call.duration ?? 0,
+        createdAt: new Date(call.createdAt),
+      });
+    }
+
+    // Skip calls the other participant imported meanwhile
+    await this.prisma.call.createMany({ data, skipDuplicates: true });
+
+    return result;
   }
 
   /**
@@ -327,5 +327,23 @@ export class ContactService {
 
     return contact !== null;
   }
-}
 
+  /**
+   * Check if a user has blocked another user
+   *
+   * @param userId - ID of the user who may have blocked
+   * @param contactId - ID of the user who may be blocked
+   * @returns True if userId has blocked contactId
+   */
+  async isBlocked(userId: string, contactId: string): Promise<boolean> {
+    const contact = await this.prisma.contact.findFirst({
+      where: {
+        userId,
+        contactId,
+        status: ContactStatus.BLOCKED,
+      },
+    });
+
+    return contact !== null;
+  }
+}
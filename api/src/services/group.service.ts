@@ -0,0 +1,444 @@
+/**
+ * Group Service
+ *
+ * Handles group chats: creation, title and avatar, membership (invite,
+ * leave, kick) and member roles. Like 1-on-1 chats, only metadata lives on
+ * the server; messages are end-to-end encrypted for every member and stored
+ * on the clients.
+ *
+ * Admins can edit the group, invite contacts, remove members and change
+ * roles. A group always keeps at least one admin: when the last admin
+ * leaves, the longest-standing member is promoted. The group is deleted
+ * when its last member leaves.
+ *
+ * @module services/group.service
+ */
+
+import {
+  PrismaClient,
+  Chat,
+  ChatMember,
+  ChatMemberRole,
+  ChatType,
+  ContactStatus,
+} from '@prisma/client';
+
+/**
+ * Maximum number of members in a group
+ */
+export const MAX_GROUP_MEMBERS = 256;
+
+/**
+ * Public profile fields of a group member
+ */
+export const groupMemberSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+  isOnline: true,
+  lastSeenAt: true,
+} as const;
+
+/**
+ * Group member with profile information
+ */
+export interface GroupMember {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  isOnline: boolean;
+  lastSeenAt: Date;
+  role: ChatMemberRole;
+  joinedAt: Date;
+}
+
+/**
+ * Group metadata shown to members
+ */
+export interface GroupInfo {
+  title: string;
+  avatarUrl: string | null;
+  createdById: string | null;
+  members: GroupMember[];
+}
+
+/**
+ * Data needed to create a group
+ */
+export interface CreateGroupData {
+  title: string;
+  avatarUrl?: string | null;
+  memberIds: string[]; // Invited users (the creator is added as admin)
+}
+
+/**
+ * Editable group metadata
+ */
+export interface UpdateGroupData {
+  title?: string;
+  avatarUrl?: string | null;
+}
+
+/**
+ * Group Service
+ *
+ * Provides methods for managing group chats and their members.
+ */
+export class GroupService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Create a group chat
+   *
+   * @param creatorId - User creating the group (becomes its admin)
+   * @param data - Title, avatar and invited members
+   * @returns Created group chat
+   * @throws Error if an invited user is not an accepted contact of the
+   *   creator or the group would be too large
+   */
+  async createGroup(creatorId: string, data: CreateGroupData): Promise<Chat> {
+    const memberIds = [...new Set(data.memberIds)].filter(
+      (id) => id !== creatorId
+    );
+
+    if (memberIds.length + 1 > MAX_GROUP_MEMBERS) {
+      throw new Error('Too many group members');
+    }
+
+    await this.assertContacts(creatorId, memberIds);
+
+    return await this.prisma.chat.create({
+      data: {
+        type: ChatType.GROUP,
+        title: data.title,
+        avatarUrl: data.avatarUrl ?? null,
+        createdById: creatorId,
+        members: {
+          create: [
+            { userId: creatorId, role: ChatMemberRole.ADMIN },
+            ...memberIds.map((userId) => ({ userId })),
+          ],
+        },
+      },
+    });
+  }
+
+  /**
+   * Get the metadata and members of a group
+   *
+   * @param chatId - Group chat ID
+   * @param userId - Requesting user (must be a member)
+   * @returns Group metadata
+   * @throws Error if the group does not exist or the user is not a member
+   */
+  async getGroupInfo(chatId: string, userId: string): Promise<GroupInfo> {
+    await this.getMembership(chatId, userId);
+    return await this.loadGroupInfo(chatId);
+  }
+
+  /**
+   * Update the title or avatar of a group
+   *
+   * @param chatId - Group chat ID
+   * @param userId - Acting user (must be an admin)
+   * @param data - New metadata
+   * @returns Updated group metadata
+   * @throws Error if the group does not exist or the user is not an admin
+   */
+  async updateGroup(
+    chatId: string,
+    userId: string,
+    data: UpdateGroupData
+  ): Promise<GroupInfo> {
+    await this.getMembership(chatId, userId, ChatMemberRole.ADMIN);
+
+    await this.prisma.chat.update({
+      where: { id: chatId },
+      data: {
+        ...(data.title !== undefined ? { title: data.title } : {}),
+        ...(data.avatarUrl !== undefined ? { avatarUrl: data.avatarUrl } : {}),
+      },
+    });
+
+    return await this.loadGroupInfo(chatId);
+  }
+
+  /**
+   * Invite users to a group
+   *
+   * Users who are already members are skipped.
+   *
+   * @param chatId - Group chat ID
+   * @param userId - Acting user (must be an admin)
+   * @param memberIds - Users to add (accepted contacts of the acting user)
+   * @returns IDs of the users actually added
+   * @throws Error if the user is not an admin, an invited user is not a
+   *   contact or the group would be too large
+   */
+  async addMembers(
+    chatId: string,
+    userId: string,
+    memberIds: string[]
+  ): Promise<string[]> {
+    await this.getMembership(chatId, userId, ChatMemberRole.ADMIN);
+
+    const existing = new Set(await this.getMemberIds(chatId));
+    const added = [...new Set(memberIds)].filter((id) => !existing.has(id));
+    if (added.length === 0) return [];
+
+    if (existing.size + added.length > MAX_GROUP_MEMBERS) {
+      throw new Error('Too many group members');
+    }
+
+    await this.assertContacts(userId, added);
+
+    await this.prisma.chatMember.createMany({
+      data: added.map((memberId) => ({ chatId, userId: memberId })),
+      skipDuplicates: true,
+    });
+
+    return added;
+  }
+
+  /**
+   * Remove a member from a group
+   *
+   * Admins cannot be removed; demote them first.
+   *
+   * @param chatId - Group chat ID
+   * @param userId - Acting user (must be an admin)
+   * @param memberId - Member to remove
+   * @throws Error if the user is not an admin, the member does not exist,
+   *   is the acting user or is an admin
+   */
+  async removeMember(
+    chatId: string,
+    userId: string,
+    memberId: string
+  ): Promise<void> {
+    await this.getMembership(chatId, userId, ChatMemberRole.ADMIN);
+
+    if (memberId === userId) {
+      throw new Error('Use leave to leave a group');
+    }
+
+    const member = await this.prisma.chatMember.findUnique({
+      where: { chatId_userId: { chatId, userId: memberId } },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.role === ChatMemberRole.ADMIN) {
+      throw new Error('Cannot remove an admin');
+    }
+
+    await this.prisma.chatMember.delete({ where: { id: member.id } });
+  }
+
+  /**
+   * Change the role of a member
+   *
+   * @param chatId - Group chat ID
+   * @param userId - Acting user (must be an admin)
+   * @param memberId - Member whose role changes
+   * @param role - New role
+   * @throws Error if the user is not an admin, the member does not exist or
+   *   the change would leave the group without an admin
+   */
+  async setMemberRole(
+    chatId: string,
+    userId: string,
+    memberId: string,
+    role: ChatMemberRole
+  ): Promise<void> {
+    await this.getMembership(chatId, userId, ChatMemberRole.ADMIN);
+
+    const member = await this.prisma.chatMember.findUnique({
+      where: { chatId_userId: { chatId, userId: memberId } },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.role === role) return;
+
+    if (role === ChatMemberRole.MEMBER) {
+      const admins = await this.prisma.chatMember.count({
+        where: { chatId, role: ChatMemberRole.ADMIN },
+      });
+      if (admins <= 1) {
+        throw new Error('A group needs at least one admin');
+      }
+    }
+
+    await this.prisma.chatMember.update({
+      where: { id: member.id },
+      data: { role },
+    });
+  }
+
+  /**
+   * Leave a group
+   *
+   * If the last admin leaves, the longest-standing member becomes admin.
+   * The group is deleted when its last member leaves.
+   *
+   * @param chatId - Group chat ID
+   * @param userId - Leaving user
+   * @returns Whether the group still exists
+   * @throws Error if the group does not exist or the user is not a member
+   */
+  async leaveGroup(chatId: string, userId: string): Promise<boolean> {
+    const membership = await this.getMembership(chatId, userId);
+
+    return await this.prisma.$transaction(async (tx) => {
+      await tx.chatMember.delete({ where: { id: membership.id } });
+
+      const remaining = await tx.chatMember.findMany({
+        where: { chatId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (remaining.length === 0) {
+        await tx.chat.delete({ where: { id: chatId } });
+        return false;
+      }
+
+      if (!remaining.some((member) => member.role === ChatMemberRole.ADMIN)) {
+        await tx.chatMember.update({
+          where: { id: remaining[0].id },
+          data: { role: ChatMemberRole.ADMIN },
+        });
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Get the user IDs of all members of a group
+   *
+   * @param chatId - Group chat ID
+   * @returns Member user IDs
+   * @throws Error if the group does not exist
+   */
+  async getMemberIds(chatId: string): Promise<string[]> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: chatId },
+      include: { members: { select: { userId: true } } },
+    });
+
+    if (!chat || chat.type !== ChatType.GROUP) {
+      throw new Error('Chat not found');
+    }
+
+    return chat.members.map((member) => member.userId);
+  }
+
+  /**
+   * Get a user's membership of a group
+   *
+   * @throws Error if the group does not exist, the user is not a member or
+   *   lacks the required role
+   */
+  private async getMembership(
+    chatId: string,
+    userId: string,
+    requiredRole?: ChatMemberRole
+  ): Promise<ChatMember> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: chatId },
+      include: { members: { where: { userId } } },
+    });
+
+    if (!chat || chat.type !== ChatType.GROUP) {
+      throw new Error('Chat not found');
+    }
+
+    const membership = chat.members[0];
+    if (!membership) {
+      throw new Error('User is not a participant in this chat');
+    }
+
+    if (requiredRole && membership.role !== requiredRole) {
+      throw new Error('Only group admins can do this');
+    }
+
+    return membership;
+  }
+
+  /**
+   * Check that users are accepted contacts of the inviting user
+   *
+   * @throws Error if any of them is not
+   */
+  private async assertContacts(
+    userId: string,
+    memberIds: string[]
+  ): Promise<void> {
+    if (memberIds.length === 0) return;
+
+    const contacts = await this.prisma.contact.count({
+      where: {
+        userId,
+        contactId: { in: memberIds },
+        status: ContactStatus.ACCEPTED,
+      },
+    });
+
+    if (contacts !== memberIds.length) {
+      throw new Error('Group members must be your contacts');
+    }
+  }
+
+  /**
+   * Load the metadata and members of a group, without a membership check
+   * (e.g. to notify the members of a change)
+   *
+   * @param chatId - Group chat ID
+   * @returns Group metadata
+   */
+  async loadGroupInfo(chatId: string): Promise<GroupInfo> {
+    const chat = await this.prisma.chat.findUniqueOrThrow({
+      where: { id: chatId },
+      include: {
+        members: {
+          include: { user: { select: groupMemberSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    return toGroupInfo(chat);
+  }
+}
+
+/**
+ * Build the group metadata of a chat loaded with its members
+ *
+ * @param chat - Group chat with members and their profiles
+ * @returns Group metadata
+ */
+export function toGroupInfo(
+  chat: Chat & {
+    members: (ChatMember & {
+      user: Omit<GroupMember, 'role' | 'joinedAt'>;
+    })[];
+  }
+): GroupInfo {
+  return {
+    title: chat.title ?? '',
+    avatarUrl: chat.avatarUrl,
+    createdById: chat.createdById,
+    members: chat.members.map((member) => ({
+      ...member.user,
+      role: member.role,
+      joinedAt: member.createdAt,
+    })),
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Message Queue Service
+ *
+ * Store-and-forward queue for messages sent to recipients with no connected
+ * device. Edits, deletions and reactions (`kind`) share the queue, so the
+ * recipient receives them in order after the message they refer to.
+ *
+ * Payloads are opaque: the server never inspects or decrypts them, it only
+ * keeps them until the recipient acknowledges delivery or the TTL expires.
+ *
+ * @module services/message-queue.service
+ */
+
+import {
+  PrismaClient,
+  PendingMessage,
+  PendingMessageKind,
+} from '@prisma/client';
+
+/**
+ * Default time-to-live for queued messages (seconds) - 7 days
+ */
+export const DEFAULT_PENDING_MESSAGE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Maximum size of a queued payload (characters)
+ */
+export const MAX_PENDING_PAYLOAD_LENGTH = 64 * 1024;
+
+/**
+ * Maximum number of messages delivered in a single flush
+ */
+const FLUSH_BATCH_SIZE = 500;
+
+/**
+ * Data needed to queue a message
+ */
+export interface EnqueueMessageData {
+  senderId: string;
+  recipientId: string;
+  chatId: string;
+  kind?: PendingMessageKind; // Defaults to MESSAGE
+  messageId: string;
+  payload: string;
+  sentAt: Date;
+}
+
+/**
+ * Message Queue Service
+ *
+ * Persists undelivered messages per recipient and removes them on
+ * acknowledgement or expiry.
+ */
+export class MessageQueueService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly ttlSeconds: number = DEFAULT_PENDING_MESSAGE_TTL_SECONDS
+  ) {}
+
+  /**
+   * Queue a message for an offline recipient
+   *
+   * @param data - Message routing data and opaque payload
+   * @returns Queued message
+   * @throws Error if payload is too large
+   */
+  async enqueue(data: EnqueueMessageData): Promise<PendingMessage> {
+    if (data.payload.length > MAX_PENDING_PAYLOAD_LENGTH) {
+      throw new Error('Message payload too large');
+    }
+
+    return this.prisma.pendingMessage.create({
+      data: {
+        senderId: data.senderId,
+        recipientId: data.recipientId,
+        chatId: data.chatId,
+        kind: data.kind ?? PendingMessageKind.MESSAGE,
+        messageId: data.messageId,
+        payload: data.payload,
+        sentAt: data.sentAt,
+        expiresAt: new Date(Date.now() + this.ttlSeconds * 1000),
+      },
+    });
+  }
+
+  /**
+   * Get unexpired queued messages for a recipient (oldest first)
+   *
+   * Messages stay queued until acknowledged, so a recipient that
+   * disconnects mid-flush receives them again on the next connection. At
+   * most one batch is returned; the next one is read once it is
+   * acknowledged.
+   *
+   * @param recipientId - Recipient user ID
+   * @returns Queued messages
+   */
+  async getPending(recipientId: string): Promise<PendingMessage[]> {
+    return this.prisma.pendingMessage.findMany({
+      where: {
+        recipientId,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: FLUSH_BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Remove messages the recipient has acknowledged
+   *
+   * Only rows addressed to the recipient are deleted, so a client cannot
+   * drop messages queued for somebody else.
+   *
+   * @param recipientId - Recipient user ID
+   * @param ids - Pending message IDs
+   * @returns Number of deleted messages
+   */
+  async acknowledge(recipientId: string, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const result = await this.prisma.pendingMessage.deleteMany({
+      where: {
+        id: { in: ids },
+        recipientId,
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Delete expired messages
+   *
+   * @returns Number of deleted messages
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await this.prisma.pendingMessage.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+
+    return result.count;
+  }
+}
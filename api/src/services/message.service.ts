@@ -3,17 +3,58 @@
  *
  * Handles chat metadata management for real-time messaging.
  * Note: Actual messages are NOT stored on server - they live in Dexie.js on client.
- * This service only manages chat metadata: last message preview, unread counts, etc.
+ * This service only manages chat metadata: last message time, unread counts, etc.
+ * Message content is end-to-end encrypted, so previews are built on the client.
+ *
+ * Group chats count unread messages per member (ChatMember); their
+ * membership is managed by the group service.
  *
  * @module services/message.service
  */
 
-import { PrismaClient, Chat } from '@prisma/client';
+import {
+  PrismaClient,
+  Chat,
+  ChatMemberRole,
+  ChatType,
+  Prisma,
+} from '@prisma/client';
+import {
+  GroupInfo,
+  groupMemberSelect,
+  toGroupInfo,
+} from './group.service.js';
+
+/**
+ * Profile fields of the other participant of a 1-on-1 chat
+ */
+const participantSelect = {
+  id: true,
+  email: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+  isOnline: true,
+  lastSeenAt: true,
+} as const;
+
+/**
+ * Relations needed to describe a chat to one of its users
+ */
+const chatInclude = {
+  user1: { select: participantSelect },
+  user2: { select: participantSelect },
+  members: {
+    include: { user: { select: groupMemberSelect } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.ChatInclude;
 
 /**
  * Chat with participant information
  */
 export interface ChatWithParticipants extends Chat {
+  unreadCount: number; // Unread count of the requesting user
   participant: {
     id: string;
     email: string;
@@ -22,6 +63,38 @@ export interface ChatWithParticipants extends Chat {
     avatarUrl: string | null;
     isOnline: boolean;
     lastSeenAt: Date;
+  } | null; // Other user of a DIRECT chat
+  group: GroupInfo | null; // Metadata and members of a GROUP chat
+}
+
+/**
+ * Describe a chat to one of its users
+ */
+function toChatWithParticipants(
+  chat: Prisma.ChatGetPayload<{ include: typeof chatInclude }>,
+  userId: string
+): ChatWithParticipants {
+  const { user1, user2, members, ...metadata } = chat;
+
+  if (chat.type === ChatType.GROUP) {
+    return {
+      ...metadata,
+      unreadCount:
+        members.find((member) => member.userId === userId)?.unreadCount ?? 0,
+      participant: null,
+      group: toGroupInfo(chat),
+    };
+  }
+
+  const isUser1 = chat.userId1 === userId;
+
+  return {
+    ...metadata,
+    unreadCountUser1: isUser1 ? chat.unreadCountUser1 : chat.unreadCountUser2, // Return only current user's unread count
+    unreadCountUser2: 0, // Don't expose other user's unread count
+    unreadCount: isUser1 ? chat.unreadCountUser1 : chat.unreadCountUser2,
+    participant: isUser1 ? user2 : user1,
+    group: null,
   };
 }
 
@@ -76,84 +149,126 @@ export class MessageService {
    * Get all chats for a user
    *
    * Returns chats sorted by last message timestamp (most recent first).
-   * Includes participant information for each chat.
+   * Includes participant information for 1-on-1 chats and members for
+   * group chats.
    *
    * @param userId - User ID
    * @returns Array of chats with participant info
    */
   async getUserChats(userId: string): Promise<ChatWithParticipants[]> {
-    // Find all chats where user is participant
+    // Find all chats where user is participant or group member
     const chats = await this.prisma.chat.findMany({
       where: {
-        OR: [{ userId1: userId }, { userId2: userId }],
-      },
-      include: {
-        user1: {
-          select: {
-            id: true,
-            email: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-            isOnline: true,
-            lastSeenAt: true,
-          },
-        },
-        user2: {
-          select: {
-            id: true,
-            email: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-            isOnline: true,
-            lastSeenAt: true,
-          },
-        },
+        OR: [
+          { userId1: userId },
+          { userId2: userId },
+          { members: { some: { userId } } },
+        ],
       },
+      include: chatInclude,
       orderBy: {
         lastMessageAt: 'desc',
       },
     });
 
-    // Transform to include only the other participant
-    return chats.map((chat) => {
-      const participant = chat.userId1 === userId ? chat.user2 : chat.user1;
-      const unreadCount =
-        chat.userId1 === userId
-          ? chat.unreadCountUser1
-          : chat.unreadCountUser2;
+    return chats.map((chat) => toChatWithParticipants(chat, userId));
+  }
+
+  /**
+   * Get a chat as seen by one of its users
+   *
+   * @param chatId - Chat ID
+   * @param userId - User ID (participant or group member)
+   * @returns Chat with participant info
+   * @throws Error if the chat does not exist or the user is not in it
+   */
+  async getUserChat(
+    chatId: string,
+    userId: string
+  ): Promise<ChatWithParticipants> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: chatId },
+      include: chatInclude,
+    });
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    if (
+      chat.userId1 !== userId &&
+      chat.userId2 !== userId &&
+      !chat.members.some((member) => member.userId === userId)
+    ) {
+      throw new Error('User is not a participant in this chat');
+    }
+
+    return toChatWithParticipants(chat, userId);
+  }
+
+  /**
+   * Get the IDs of the group chats among some chats
+   *
+   * @param chatIds - Chat IDs
+   * @returns IDs of those that are group chats
+   */
+  async getGroupChatIds(chatIds: string[]): Promise<Set<string>> {
+    if (chatIds.length === 0) return new Set();
+
+    const chats = await this.prisma.chat.findMany({
+      where: { id: { in: chatIds }, type: ChatType.GROUP },
+      select: { id: true },
+    });
+
+    return new Set(chats.map((chat) => chat.id));
+  }
+
+  /**
+   * Get the users of a chat
+   *
+   * @param chatId - Chat ID
+   * @returns Whether the chat is a group, and its participants or members
+   * @throws Error if the chat does not exist
+   */
+  async getChatUserIds(
+    chatId: string
+  ): Promise<{ isGroup: boolean; userIds: string[] }> {
+    const chat = await this.prisma.chat.findUnique({
+      where: { id: chatId },
+      include: { members: { select: { userId: true } } },
+    });
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
 
+    if (chat.type === ChatType.GROUP) {
       return {
-        id: chat.id,
-        createdAt: chat.createdAt,
-        updatedAt: chat.updatedAt,
-        userId1: chat.userId1,
-        userId2: chat.userId2,
-        lastMessage: chat.lastMessage,
-        lastMessageAt: chat.lastMessageAt,
-        lastMessageBy: chat.lastMessageBy,
-        unreadCountUser1: unreadCount, // Return only current user's unread count
-        unreadCountUser2: 0, // Don't expose other user's unread count
-        participant,
+        isGroup: true,
+        userIds: chat.members.map((member) => member.userId),
       };
-    });
+    }
+
+    return {
+      isGroup: false,
+      userIds: [chat.userId1, chat.userId2].filter(
+        (id): id is string => id !== null
+      ),
+    };
   }
 
   /**
    * Update chat metadata after message sent
    *
-   * Updates last message preview and timestamp.
-   * Increments unread count for recipient.
+   * Updates last message sender and timestamp.
+   * Increments unread count for recipient (every other member of a group).
    *
    * @param chatId - Chat ID
-   * @param lastMessage - Preview text of message
    * @param lastMessageBy - User ID who sent the message
    * @returns Updated chat
    */
   async updateChatMetadata(
     chatId: string,
-    lastMessage: string,
     lastMessageBy: string
   ): Promise<Chat> {
     const chat = await this.prisma.chat.findUnique({
@@ -164,6 +279,20 @@ export class MessageService {
       throw new Error('Chat not found');
     }
 
+    if (chat.type === ChatType.GROUP) {
+      return await this.prisma.$transaction(async (tx) => {
+        await tx.chatMember.updateMany({
+          where: { chatId, userId: { not: lastMessageBy } },
+          data: { unreadCount: { increment: 1 } },
+        });
+
+        return await tx.chat.update({
+          where: { id: chatId },
+          data: { lastMessageAt: new Date(), lastMessageBy },
+        });
+      });
+    }
+
     // Determine which user is the recipient
     const recipientIsUser1 = chat.userId1 !== lastMessageBy;
 
@@ -171,7 +300,6 @@ export class MessageService {
     return await this.prisma.chat.update({
       where: { id: chatId },
       data: {
-        lastMessage,
         lastMessageAt: new Date(),
         lastMessageBy,
         // Increment unread count for recipient only
@@ -200,6 +328,17 @@ export class MessageService {
       throw new Error('Chat not found');
     }
 
+    if (chat.type === ChatType.GROUP) {
+      const updated = await this.prisma.chatMember.updateMany({
+        where: { chatId, userId },
+        data: { unreadCount: 0 },
+      });
+      if (updated.count === 0) {
+        throw new Error('User is not a participant in this chat');
+      }
+      return chat;
+    }
+
     // Verify user is participant
     if (chat.userId1 !== userId && chat.userId2 !== userId) {
       throw new Error('User is not a participant in this chat');
@@ -234,19 +373,37 @@ export class MessageService {
    * Delete chat
    *
    * Deletes chat metadata. Does NOT delete messages (they're in Dexie.js).
+   * Group chats can only be deleted by their admins.
    *
    * @param chatId - Chat ID
    * @param userId - User ID requesting deletion (must be participant)
+   * @returns IDs of the former members of a group chat (empty otherwise)
    */
-  async deleteChat(chatId: string, userId: string): Promise<void> {
+  async deleteChat(chatId: string, userId: string): Promise<string[]> {
     const chat = await this.prisma.chat.findUnique({
       where: { id: chatId },
+      include: { members: true },
     });
 
     if (!chat) {
       throw new Error('Chat not found');
     }
 
+    if (chat.type === ChatType.GROUP) {
+      const membership = chat.members.find(
+        (member) => member.userId === userId
+      );
+      if (!membership) {
+        throw new Error('User is not a participant in this chat');
+      }
+      if (membership.role !== ChatMemberRole.ADMIN) {
+        throw new Error('Only group admins can do this');
+      }
+
+      await this.prisma.chat.delete({ where: { id: chatId } });
+      return chat.members.map((member) => member.userId);
+    }
+
     // Verify user is participant
     if (chat.userId1 !== userId && chat.userId2 !== userId) {
       throw new Error('User is not a participant in this chat');
@@ -255,6 +412,8 @@ export class MessageService {
     await this.prisma.chat.delete({
       where: { id: chatId },
     });
+
+    return [];
   }
 }
 
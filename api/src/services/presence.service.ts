@@ -0,0 +1,177 @@
+/**
+ * Presence Service
+ *
+ * Tracks which users are online based on their Socket.io connections.
+ * A user may be connected from several devices at once; they are considered
+ * online while at least one device is connected. When the last device
+ * disconnects, the user is marked offline only after a grace period so that
+ * short reconnects (page reloads, network hiccups) do not flap the status.
+ *
+ * Presence changes are persisted on the User record and pushed to the user's
+ * ACCEPTED contacts only.
+ *
+ * @module services/presence.service
+ */
+
+import { PrismaClient, ContactStatus } from '@prisma/client';
+import { UserService } from './user.service.js';
+import { ContactService } from './contact.service.js';
+
+/**
+ * Default grace period before a disconnected user is marked offline (ms)
+ */
+export const DEFAULT_PRESENCE_GRACE_PERIOD_MS = 15000;
+
+/**
+ * Presence update pushed to contacts
+ */
+export interface PresenceUpdate {
+  userId: string;
+  isOnline: boolean;
+  lastSeenAt: Date;
+}
+
+/**
+ * Callback that delivers a presence update to a set of users
+ */
+export type PresenceBroadcaster = (
+  recipientIds: string[],
+  update: PresenceUpdate
+) => void;
+
+/**
+ * Presence Service
+ *
+ * Keeps an in-memory device count per user and persists online/offline
+ * transitions through UserService.
+ */
+export class PresenceService {
+  private readonly userService: UserService;
+  private readonly contactService: ContactService;
+  private readonly deviceCounts = new Map<string, number>();
+  private readonly offlineTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly broadcast: PresenceBroadcaster,
+    private readonly gracePeriodMs: number = DEFAULT_PRESENCE_GRACE_PERIOD_MS
+  ) {
+    this.userService = new UserService(prisma);
+    this.contactService = new ContactService(prisma);
+  }
+
+  /**
+   * Mark every user offline
+   *
+   * Called on startup: no sockets survive a restart, so any `isOnline`
+   * flag left in the database is stale.
+   */
+  async resetAll(): Promise<void> {
+    await this.prisma.user.updateMany({
+      where: { isOnline: true },
+      data: { isOnline: false, lastSeenAt: new Date() },
+    });
+  }
+
+  /**
+   * Register a new device connection for a user
+   *
+   * Publishes an online update if this is the user's first device and the
+   * user was not within a reconnect grace period.
+   *
+   * @param userId - User ID
+   */
+  async handleConnect(userId: string): Promise<void> {
+    const pendingTimer = this.offlineTimers.get(userId);
+    if (pendingTimer) {
+      clearTimeout(pendingTimer);
+      this.offlineTimers.delete(userId);
+    }
+
+    const count = (this.deviceCounts.get(userId) ?? 0) + 1;
+    this.deviceCounts.set(userId, count);
+
+    // Reconnected within grace period: contacts never saw the user go offline
+    if (count === 1 && !pendingTimer) {
+      await this.publish(userId, true);
+    }
+  }
+
+  /**
+   * Unregister a device connection for a user
+   *
+   * When the last device disconnects, schedules the offline update after
+   * the grace period.
+   *
+   * @param userId - User ID
+   */
+  handleDisconnect(userId: string): void {
+    const count = (this.deviceCounts.get(userId) ?? 0) - 1;
+
+    if (count > 0) {
+      this.deviceCounts.set(userId, count);
+      return;
+    }
+
+    this.deviceCounts.delete(userId);
+
+    const timer = setTimeout(() => {
+      this.offlineTimers.delete(userId);
+      this.publish(userId, false).catch(() => {
+        // Errors are non-fatal: the next connect will publish a fresh state
+      });
+    }, this.gracePeriodMs);
+
+    this.offlineTimers.set(userId, timer);
+  }
+
+  /**
+   * Check if a user currently has at least one connected device
+   *
+   * Unlike the published status, this ignores the grace period.
+   *
+   * @param userId - User ID
+   * @returns True if the user is connected
+   */
+  isConnected(userId: string): boolean {
+    return this.deviceCounts.has(userId);
+  }
+
+  /**
+   * Get number of connected devices for a user
+   *
+   * @param userId - User ID
+   * @returns Number of connected devices
+   */
+  getDeviceCount(userId: string): number {
+    return this.deviceCounts.get(userId) ?? 0;
+  }
+
+  /**
+   * Cancel pending offline timers (on server shutdown)
+   */
+  shutdown(): void {
+    this.offlineTimers.forEach((timer) => clearTimeout(timer));
+    this.offlineTimers.clear();
+    this.deviceCounts.clear();
+  }
+
+  /**
+   * Persist presence and notify the user's accepted contacts
+   *
+   * @param userId - User ID
+   * @param isOnline - New online status
+   */
+  private async publish(userId: string, isOnline: boolean): Promise<void> {
+    const user = await this.userService.updateOnlineStatus(userId, isOnline);
+    const contacts = await this.contactService.getContacts(
+      userId,
+      ContactStatus.ACCEPTED
+    );
+
+    this.broadcast(
+      contacts.map((c) => c.contactId),
+      { userId, isOnline, lastSeenAt: user.lastSeenAt }
+    );
+  }
+}
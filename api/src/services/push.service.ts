@@ -0,0 +1,475 @@
+/**
+ * Push Service
+ *
+ * Sends Web Push notifications (RFC 8030) to the devices of a user, for
+ * events they would otherwise miss while the app is closed:
+ *
+ * - Payloads are encrypted for the browser with `aes128gcm` (RFC 8291)
+ * - Requests carry a VAPID token signed with the server key pair (RFC 8292)
+ *
+ * Subscriptions the push service reports as gone (404 or 410) are deleted.
+ * Requests go to the endpoint the subscription names, which must be on the
+ * push service of a browser (or a configured host, e.g. a local stand-in),
+ * so subscriptions cannot point the server at internal hosts.
+ *
+ * @module services/push.service
+ */
+
+import crypto from 'crypto';
+import { PrismaClient, PushSubscription, Prisma } from '@prisma/client';
+
+/**
+ * ID of the stored VAPID key pair
+ */
+const VAPID_KEY_ID = 'default';
+
+/**
+ * Lifetime of VAPID tokens (at most 24 hours)
+ */
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Record size of encrypted payloads (a single record)
+ */
+const RECORD_SIZE = 4096;
+
+/**
+ * Maximum payload size: push services accept 4096 bytes of body, which
+ * also holds the encryption header (86 bytes), padding delimiter and tag
+ */
+export const MAX_PUSH_PAYLOAD_BYTES = 3993;
+
+/**
+ * Default time a push service keeps an undelivered notification (seconds)
+ */
+export const DEFAULT_PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Timeout of a request to a push service (ms)
+ */
+const SEND_TIMEOUT_MS = 10000;
+
+/**
+ * Hosts of the browsers' push services; endpoints must be on one of them
+ * or a subdomain
+ */
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome and other Chromium browsers
+  'push.services.mozilla.com', // Firefox
+  'notify.windows.com', // Edge
+  'push.apple.com', // Safari
+];
+
+/**
+ * VAPID key pair (base64url, raw P-256 keys as used by browsers)
+ */
+export interface VapidKeys {
+  publicKey: string; // Uncompressed point (65 bytes)
+  privateKey: string; // Private scalar (32 bytes)
+}
+
+/**
+ * Push subscription of a browser (`PushSubscription.toJSON()`)
+ */
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * Notification shown by the service worker
+ */
+export interface PushNotification {
+  type: 'incoming-call' | 'missed-call' | 'contact-request' | 'message';
+  title: string;
+  body: string;
+  tag?: string; // Replaces an earlier notification with the same tag
+  url: string; // Page opened when the notification is clicked
+  data?: Record<string, string>;
+}
+
+/**
+ * Endpoints accepted besides those of the browsers' push services
+ */
+export interface PushEndpointOptions {
+  extraHosts?: string[]; // Further push service hosts (and their subdomains)
+  allowInsecure?: boolean; // Accept http:// (local push service in development)
+}
+
+/**
+ * Delivery options
+ */
+export interface PushOptions {
+  ttl?: number; // Seconds the push service keeps it (0: now or never)
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+/**
+ * Outcome of sending a notification to one subscription
+ */
+export interface PushDelivery {
+  subscriptionId: string;
+  status: number | null; // HTTP status, null if the request failed
+  error?: string;
+}
+
+/**
+ * Generate a VAPID key pair
+ *
+ * @returns New key pair
+ */
+export function generateVapidKeys(): VapidKeys {
+  const { privateKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+  });
+  const jwk = privateKey.export({ format: 'jwk' });
+
+  return {
+    publicKey: Buffer.concat([
+      Buffer.from([0x04]),
+      Buffer.from(jwk.x as string, 'base64url'),
+      Buffer.from(jwk.y as string, 'base64url'),
+    ]).toString('base64url'),
+    privateKey: jwk.d as string,
+  };
+}
+
+/**
+ * Get the stored VAPID key pair, generating it on first use
+ *
+ * @param prisma - Prisma client
+ * @returns Key pair
+ */
+export async function getOrCreateVapidKeys(prisma: PrismaClient): Promise<VapidKeys> {
+  const stored = await prisma.vapidKey.findUnique({ where: { id: VAPID_KEY_ID } });
+  if (stored) {
+    return { publicKey: stored.publicKey, privateKey: stored.privateKey };
+  }
+
+  try {
+    const keys = generateVapidKeys();
+    await prisma.vapidKey.create({ data: { id: VAPID_KEY_ID, ...keys } });
+    return keys;
+  } catch (error) {
+    // Another instance stored its key pair first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const winner = await prisma.vapidKey.findUniqueOrThrow({ where: { id: VAPID_KEY_ID } });
+      return { publicKey: winner.publicKey, privateKey: winner.privateKey };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check that a base64url value is a P-256 public key of a browser
+ */
+export function isValidP256dhKey(value: string): boolean {
+  const key = Buffer.from(value, 'base64url');
+  return key.length === 65 && key[0] === 0x04;
+}
+
+/**
+ * Check that a base64url value is an authentication secret of a browser
+ */
+export function isValidAuthSecret(value: string): boolean {
+  return Buffer.from(value, 'base64url').length === 16;
+}
+
+/**
+ * Encrypt a payload for a subscription (`aes128gcm`, RFC 8291)
+ *
+ * @param payload - Plaintext
+ * @param p256dh - Browser public key (base64url)
+ * @param auth - Browser authentication secret (base64url)
+ * @returns Request body: header (salt, record size, server key) and record
+ */
+export function encryptPushPayload(payload: Buffer, p256dh: string, auth: string): Buffer {
+  const browserKey = Buffer.from(p256dh, 'base64url');
+  const authSecret = Buffer.from(auth, 'base64url');
+
+  // Key of this message only
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(browserKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserKey, serverKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  const salt = crypto.randomBytes(16);
+  const contentKey = Buffer.from(
+    crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  // Last (and only) record: payload and the 0x02 delimiter
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const record = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverKey.length, 20);
+
+  return Buffer.concat([header, serverKey, record]);
+}
+
+/**
+ * Push Service
+ *
+ * Manages push subscriptions and sends notifications to them.
+ */
+export class PushService {
+  private readonly privateKey: crypto.KeyObject;
+
+  /**
+   * @param prisma - Prisma client
+   * @param vapidKeys - Server key pair
+   * @param subject - Contact of the server operator (`mailto:` or `https:` URL)
+   * @param endpointOptions - Endpoints accepted besides the browsers' ones
+   */
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly vapidKeys: VapidKeys,
+    private readonly subject: string,
+    private readonly endpointOptions: PushEndpointOptions = {}
+  ) {
+    if (!isValidP256dhKey(vapidKeys.publicKey)) {
+      throw new Error('Invalid VAPID public key');
+    }
+
+    const publicKey = Buffer.from(vapidKeys.publicKey, 'base64url');
+    this.privateKey = crypto.createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: vapidKeys.privateKey,
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  }
+
+  /**
+   * Get the VAPID public key browsers subscribe with
+   *
+   * @returns Base64url public key
+   */
+  getPublicKey(): string {
+    return this.vapidKeys.publicKey;
+  }
+
+  /**
+   * Whether an endpoint is on a push service notifications may be sent to
+   *
+   * @param endpoint - Push service URL of a subscription
+   */
+  isAllowedEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(endpoint);
+    } catch {
+      return false;
+    }
+
+    if (
+      url.protocol !== 'https:' &&
+      !(this.endpointOptions.allowInsecure && url.protocol === 'http:')
+    ) {
+      return false;
+    }
+
+    const hostname = url.hostname.toLowerCase();
+    return [...PUSH_SERVICE_HOSTS, ...(this.endpointOptions.extraHosts ?? [])].some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`)
+    );
+  }
+
+  /**
+   * Save the push subscription of a user's device
+   *
+   * A device has one subscription; an endpoint that moved to another
+   * device or user is removed from the old one.
+   *
+   * @param userId - User ID
+   * @param deviceId - Device ID
+   * @param subscription - Browser push subscription
+   * @returns Saved subscription
+   * @throws Error if the endpoint is not on an allowed push service
+   */
+  async subscribe(
+    userId: string,
+    deviceId: string,
+    subscription: PushSubscriptionData
+  ): Promise<PushSubscription> {
+    if (!this.isAllowedEndpoint(subscription.endpoint)) {
+      throw new Error('Push endpoint not allowed');
+    }
+
+    const data = {
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+    };
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.pushSubscription.deleteMany({
+        where: { endpoint: data.endpoint, NOT: { userId, deviceId } },
+      });
+
+      return tx.pushSubscription.upsert({
+        where: { userId_deviceId: { userId, deviceId } },
+        create: { userId, deviceId, ...data },
+        update: data,
+      });
+    });
+  }
+
+  /**
+   * Remove a push subscription of a user
+   *
+   * @param userId - User ID
+   * @param endpoint - Push service URL of the subscription
+   * @returns Whether a subscription was removed
+   */
+  async unsubscribe(userId: string, endpoint: string): Promise<boolean> {
+    const { count } = await this.prisma.pushSubscription.deleteMany({
+      where: { userId, endpoint },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Get the name of a user as shown in notifications
+   *
+   * @param userId - User ID
+   * @returns Display name, or username
+   */
+  async getUserName(userId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { username: true, displayName: true },
+    });
+    return user?.displayName || user?.username || 'Someone';
+  }
+
+  /**
+   * Send a notification to every device of a user
+   *
+   * Subscriptions that are gone are deleted.
+   *
+   * @param userId - User ID
+   * @param notification - Notification
+   * @param options - Delivery options
+   * @returns Outcome per subscription
+   */
+  async sendToUser(
+    userId: string,
+    notification: PushNotification,
+    options: PushOptions = {}
+  ): Promise<PushDelivery[]> {
+    const subscriptions = await this.prisma.pushSubscription.findMany({
+      where: { userId },
+    });
+
+    const deliveries = await Promise.all(
+      subscriptions.map(async (subscription): Promise<PushDelivery> => {
+        try {
+          const status = await this.send(subscription, notification, options);
+          return { subscriptionId: subscription.id, status };
+        } catch (error) {
+          return {
+            subscriptionId: subscription.id,
+            status: null,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    const gone = deliveries
+      .filter((delivery) => delivery.status === 404 || delivery.status === 410)
+      .map((delivery) => delivery.subscriptionId);
+    if (gone.length > 0) {
+      await this.prisma.pushSubscription.deleteMany({ where: { id: { in: gone } } });
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Send a notification to one subscription
+   *
+   * @param subscription - Endpoint and browser keys
+   * @param notification - Notification
+   * @param options - Delivery options
+   * @returns HTTP status of the push service (201 when accepted)
+   * @throws Error if the endpoint is not allowed, the payload is too large
+   *   or the request fails
+   */
+  async send(
+    subscription: Pick<PushSubscription, 'endpoint' | 'p256dh' | 'auth'>,
+    notification: PushNotification,
+    options: PushOptions = {}
+  ): Promise<number> {
+    if (!this.isAllowedEndpoint(subscription.endpoint)) {
+      throw new Error('Push endpoint not allowed');
+    }
+
+    const payload = Buffer.from(JSON.stringify(notification));
+    if (payload.length > MAX_PUSH_PAYLOAD_BYTES) {
+      throw new Error('Push payload too large');
+    }
+
+    const body = encryptPushPayload(payload, subscription.p256dh, subscription.auth);
+    const audience = new URL(subscription.endpoint).origin;
+
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `vapid t=${this.createVapidToken(audience)}, k=${this.vapidKeys.publicKey}`,
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(options.ttl ?? DEFAULT_PUSH_TTL_SECONDS),
+        Urgency: options.urgency ?? 'normal',
+      },
+      body,
+      redirect: 'error', // Push services answer directly
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+
+    return response.status;
+  }
+
+  /**
+   * Create a VAPID token (ES256 JWT) for a push service
+   */
+  private createVapidToken(audience: string): string {
+    const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString(
+      'base64url'
+    );
+    const claims = Buffer.from(
+      JSON.stringify({
+        aud: audience,
+        exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+        sub: this.subject,
+      })
+    ).toString('base64url');
+
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+      key: this.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    return `${header}.${claims}.${signature.toString('base64url')}`;
+  }
+}
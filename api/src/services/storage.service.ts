@@ -0,0 +1,228 @@
+/**
+ * Storage Service
+ *
+ * Pluggable object storage for chat attachments.
+ * Two drivers are available:
+ * - `local`: files on the API server's filesystem (default)
+ * - `s3`: any S3-compatible object store (AWS S3, MinIO, ...)
+ *
+ * The driver is selected with the STORAGE_DRIVER environment variable.
+ *
+ * @module services/storage.service
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+
+/**
+ * Object storage driver
+ *
+ * Keys are relative, slash-separated paths (e.g. `attachments/<id>/original`).
+ */
+export interface StorageDriver {
+  /**
+   * Driver name (for logging)
+   */
+  readonly name: string;
+
+  /**
+   * Store an object, replacing any existing object with the same key
+   *
+   * @param key - Object key
+   * @param body - Object content
+   * @param contentType - MIME type
+   * @param size - Content length in bytes
+   */
+  putObject(
+    key: string,
+    body: Readable | Buffer,
+    contentType: string,
+    size: number
+  ): Promise<void>;
+
+  /**
+   * Open an object for reading
+   *
+   * @param key - Object key
+   * @returns Readable stream of the object content
+   * @throws Error('Object not found') if the object does not exist
+   */
+  getObject(key: string): Promise<Readable>;
+
+  /**
+   * Delete an object (no-op if it does not exist)
+   *
+   * @param key - Object key
+   */
+  deleteObject(key: string): Promise<void>;
+}
+
+/**
+ * Local filesystem storage driver
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  /**
+   * Resolve an object key inside the root directory
+   *
+   * @throws Error if the key escapes the root directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error('Invalid object key');
+    }
+
+    return filePath;
+  }
+
+  async putObject(key: string, body: Readable | Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    await pipeline(
+      Buffer.isBuffer(body) ? Readable.from([body]) : body,
+      createWriteStream(filePath)
+    );
+  }
+
+  async getObject(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+
+    try {
+      await stat(filePath);
+    } catch {
+      throw new Error('Object not found');
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * S3-compatible storage driver configuration
+ */
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * S3-compatible storage driver
+ *
+ * Works with AWS S3 and self-hosted stores such as MinIO
+ * (set S3_ENDPOINT and S3_FORCE_PATH_STYLE=true).
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined, // Fall back to the default AWS credential chain
+    });
+  }
+
+  async putObject(
+    key: string,
+    body: Readable | Buffer,
+    contentType: string,
+    size: number
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ContentLength: size,
+      })
+    );
+  }
+
+  async getObject(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.config.bucket, Key: key })
+      );
+
+      // In Node.js the SDK returns the body as a Readable stream
+      return response.Body as Readable;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new Error('Object not found');
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key })
+    );
+  }
+}
+
+/**
+ * Create the storage driver configured by environment variables
+ *
+ * @returns Storage driver
+ * @throws Error if the configuration is incomplete
+ */
+export function createStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 'local') {
+    return new LocalStorageDriver(
+      path.resolve(process.env.STORAGE_LOCAL_DIR || './uploads')
+    );
+  }
+
+  if (driver === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET environment variable is required');
+    }
+
+    return new S3StorageDriver({
+      bucket,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+}
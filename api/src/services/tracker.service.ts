@@ -0,0 +1,384 @@
+/**
+ * Tracker Service
+ *
+ * Private WebTorrent tracker for Emergency mode signaling. Implements the
+ * WebSocket tracker protocol spoken by WebTorrent clients: peers announce
+ * the info hashes (swarms) they are in, and the tracker relays their WebRTC
+ * offers to other peers of the swarm and the answers back. The tracker only
+ * sees info hashes and SDP; swarms are kept in memory.
+ *
+ * Announces may be required to carry a signed token (`?token=` in the
+ * tracker URL), so only users of this deployment can use the tracker. A
+ * token is an expiry time and its HMAC; it names no user, so it cannot tie
+ * swarms to accounts.
+ *
+ * @module services/tracker.service
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Announce interval suggested to clients (seconds)
+ */
+const ANNOUNCE_INTERVAL_SECONDS = 120;
+
+/**
+ * Maximum number of offers relayed per announce
+ */
+const MAX_OFFERS = 10;
+
+/**
+ * Maximum number of swarms a connection may be in
+ */
+const MAX_SWARMS_PER_CONNECTION = 500;
+
+/**
+ * Length of info hashes and peer IDs (binary strings)
+ */
+const ID_LENGTH = 20;
+
+/**
+ * WebSocket connection of a peer
+ */
+export interface TrackerConnection {
+  send(data: string): void;
+}
+
+/**
+ * Peer in a swarm
+ */
+interface SwarmPeer {
+  connection: TrackerConnection;
+  complete: boolean; // Seeder (left === 0)
+}
+
+/**
+ * Announce or scrape request of a client
+ */
+interface TrackerRequest {
+  action?: unknown;
+  info_hash?: unknown;
+  peer_id?: unknown;
+  event?: unknown;
+  left?: unknown;
+  numwant?: unknown;
+  offers?: unknown;
+  answer?: unknown;
+  offer_id?: unknown;
+  to_peer_id?: unknown;
+}
+
+/**
+ * Offer of an announce
+ */
+interface TrackerOffer {
+  offer: unknown;
+  offer_id: string;
+}
+
+/**
+ * Check that a value is an info hash or peer ID
+ */
+function isId(value: unknown): value is string {
+  return typeof value === 'string' && value.length === ID_LENGTH;
+}
+
+/**
+ * Tracker Service
+ *
+ * Keeps the swarms and the peers of each connection.
+ */
+export class TrackerService {
+  private readonly swarms = new Map<string, Map<string, SwarmPeer>>();
+  // Swarms (info hash → peer ID) of each connection
+  private readonly connections = new Map<
+    TrackerConnection,
+    Map<string, string>
+  >();
+
+  constructor(
+    private readonly secret: string,
+    private readonly tokenTtlSeconds: number
+  ) {}
+
+  /**
+   * Create an announce token
+   *
+   * @returns Token and its expiry
+   */
+  createAnnounceToken(): { token: string; expiresAt: Date } {
+    const expiresAt = new Date(Date.now() + this.tokenTtlSeconds * 1000);
+    const expires = String(Math.floor(expiresAt.getTime() / 1000));
+    return { token: `${expires}.${this.sign(expires)}`, expiresAt };
+  }
+
+  /**
+   * Verify an announce token
+   *
+   * @param token - Token of the tracker URL
+   * @returns True if the token is genuine and not expired
+   */
+  verifyAnnounceToken(token: string | null): boolean {
+    if (!token) return false;
+
+    const [expires, signature] = token.split('.');
+    if (!expires || !signature || !/^\d+$/.test(expires)) return false;
+    if (Number(expires) * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.sign(expires));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Handle a message of a connection
+   *
+   * @param connection - Sending connection
+   * @param data - Raw message (JSON)
+   */
+  handleMessage(connection: TrackerConnection, data: string): void {
+    let request: TrackerRequest;
+    try {
+      request = JSON.parse(data) as TrackerRequest;
+    } catch {
+      return this.fail(connection, 'invalid request');
+    }
+    if (!request || typeof request !== 'object') {
+      return this.fail(connection, 'invalid request');
+    }
+
+    if (request.action === 'announce') {
+      return this.announce(connection, request);
+    }
+    if (request.action === 'scrape') {
+      return this.scrape(connection, request);
+    }
+    this.fail(connection, 'invalid action');
+  }
+
+  /**
+   * Remove a closed connection from its swarms
+   */
+  removeConnection(connection: TrackerConnection): void {
+    const swarms = this.connections.get(connection);
+    if (!swarms) return;
+
+    swarms.forEach((peerId, infoHash) => {
+      this.removePeer(infoHash, peerId, connection);
+    });
+    this.connections.delete(connection);
+  }
+
+  /**
+   * Get the number of swarms and peers (for logs)
+   */
+  getStats(): { swarms: number; connections: number } {
+    return { swarms: this.swarms.size, connections: this.connections.size };
+  }
+
+  /**
+   * Handle an announce: join or leave a swarm, relay offers or an answer
+   */
+  private announce(connection: TrackerConnection, request: TrackerRequest) {
+    const infoHash = request.info_hash;
+    const peerId = request.peer_id;
+    if (!isId(infoHash) || !isId(peerId)) {
+      return this.fail(connection, 'invalid info_hash or peer_id', 'announce');
+    }
+
+    const swarm = this.swarms.get(infoHash);
+
+    if (request.event === 'stopped') {
+      this.removePeer(infoHash, peerId, connection);
+      this.connections.get(connection)?.delete(infoHash);
+      return this.sendAnnounceResponse(connection, infoHash);
+    }
+
+    // Answer to an offer: relay it to the offering peer only
+    if (request.answer !== undefined) {
+      const target = isId(request.to_peer_id)
+        ? swarm?.get(request.to_peer_id)
+        : undefined;
+      if (target && typeof request.offer_id === 'string') {
+        this.send(target.connection, {
+          action: 'announce',
+          answer: request.answer,
+          offer_id: request.offer_id,
+          peer_id: peerId,
+          info_hash: infoHash,
+        });
+      }
+      return;
+    }
+
+    if (!this.addPeer(infoHash, peerId, connection, request.left === 0)) {
+      return this.fail(connection, 'too many swarms', 'announce', infoHash);
+    }
+    this.sendAnnounceResponse(connection, infoHash);
+
+    // Relay each offer to another random peer of the swarm
+    const offers = Array.isArray(request.offers)
+      ? (request.offers as TrackerOffer[])
+          .filter(
+            (offer) =>
+              offer &&
+              typeof offer.offer_id === 'string' &&
+              offer.offer !== undefined
+          )
+          .slice(0, MAX_OFFERS)
+      : [];
+    if (offers.length === 0) return;
+
+    const others = Array.from(this.swarms.get(infoHash)!.entries())
+      .filter(([id]) => id !== peerId)
+      .sort(() => Math.random() - 0.5)
+      .slice(0, offers.length);
+
+    others.forEach(([, peer], index) => {
+      this.send(peer.connection, {
+        action: 'announce',
+        offer: offers[index].offer,
+        offer_id: offers[index].offer_id,
+        peer_id: peerId,
+        info_hash: infoHash,
+      });
+    });
+  }
+
+  /**
+   * Handle a scrape: peer counts of one or more swarms
+   */
+  private scrape(connection: TrackerConnection, request: TrackerRequest) {
+    const infoHashes = (
+      Array.isArray(request.info_hash) ? request.info_hash : [request.info_hash]
+    ).filter(isId);
+
+    const files: Record<
+      string,
+      { complete: number; incomplete: number; downloaded: number }
+    > = {};
+    infoHashes.forEach((infoHash) => {
+      files[infoHash] = { ...this.countPeers(infoHash), downloaded: 0 };
+    });
+
+    this.send(connection, { action: 'scrape', files });
+  }
+
+  /**
+   * Add (or update) a peer of a swarm
+   *
+   * @returns False if the connection is in too many swarms
+   */
+  private addPeer(
+    infoHash: string,
+    peerId: string,
+    connection: TrackerConnection,
+    complete: boolean
+  ): boolean {
+    let swarms = this.connections.get(connection);
+    if (!swarms) {
+      swarms = new Map();
+      this.connections.set(connection, swarms);
+    }
+    if (!swarms.has(infoHash) && swarms.size >= MAX_SWARMS_PER_CONNECTION) {
+      return false;
+    }
+    swarms.set(infoHash, peerId);
+
+    let swarm = this.swarms.get(infoHash);
+    if (!swarm) {
+      swarm = new Map();
+      this.swarms.set(infoHash, swarm);
+    }
+    swarm.set(peerId, { connection, complete });
+    return true;
+  }
+
+  /**
+   * Remove a peer from a swarm (only if it belongs to the connection)
+   */
+  private removePeer(
+    infoHash: string,
+    peerId: string,
+    connection: TrackerConnection
+  ): void {
+    const swarm = this.swarms.get(infoHash);
+    if (swarm?.get(peerId)?.connection !== connection) return;
+
+    swarm.delete(peerId);
+    if (swarm.size === 0) {
+      this.swarms.delete(infoHash);
+    }
+  }
+
+  /**
+   * Count the seeders and leechers of a swarm
+   */
+  private countPeers(infoHash: string): {
+    complete: number;
+    incomplete: number;
+  } {
+    let complete = 0;
+    let incomplete = 0;
+    this.swarms.get(infoHash)?.forEach((peer) => {
+      if (peer.complete) complete++;
+      else incomplete++;
+    });
+    return { complete, incomplete };
+  }
+
+  /**
+   * Reply to an announce with the swarm's peer counts
+   */
+  private sendAnnounceResponse(
+    connection: TrackerConnection,
+    infoHash: string
+  ): void {
+    this.send(connection, {
+      action: 'announce',
+      interval: ANNOUNCE_INTERVAL_SECONDS,
+      info_hash: infoHash,
+      ...this.countPeers(infoHash),
+    });
+  }
+
+  /**
+   * Reply with an error
+   */
+  private fail(
+    connection: TrackerConnection,
+    reason: string,
+    action?: string,
+    infoHash?: string
+  ): void {
+    this.send(connection, {
+      'failure reason': reason,
+      ...(action ? { action } : {}),
+      ...(infoHash ? { info_hash: infoHash } : {}),
+    });
+  }
+
+  /**
+   * Send a message, ignoring connections that are closing
+   */
+  private send(connection: TrackerConnection, message: object): void {
+    try {
+      connection.send(JSON.stringify(message));
+    } catch {
+      // Closed meanwhile: removed on its close event
+    }
+  }
+
+  /**
+   * Sign a token's expiry
+   */
+  private sign(expires: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`tracker:${expires}`)
+      .digest('base64url');
+  }
+}
@@ -7,7 +7,7 @@
  * @module services/user.service
  */
 
-import { PrismaClient, User, Prisma } from '@prisma/client';
+import { PrismaClient, User, Prisma, DeviceKey } from '@prisma/client';
 
 /**
  * User creation data (without sensitive fields)
@@ -42,6 +42,12 @@ export type SafeUser = Omit<User, 'passwordHash'>;
  */
 export type SearchType = 'email' | 'phone' | 'username' | 'all';
 
+/**
+ * Maximum number of device keys kept per user
+ * Publishing beyond this evicts the least recently published device.
+ */
+export const MAX_DEVICE_KEYS_PER_USER = 10;
+
 /**
  * Search options for user search
  */
@@ -425,6 +431,80 @@ export class UserService {
     return users.map((user) => this.excludePasswordHash(user));
   }
 
+  /**
+   * Publish (or refresh) a device's public identity key
+   *
+   * Devices republish on every start, so `updatedAt` tracks the last time a
+   * device was seen. When the per-user limit is exceeded, the stalest
+   * devices are removed from the directory.
+   *
+   * @param userId - Owner user ID
+   * @param deviceId - Client-generated device ID
+   * @param identityKey - Base64 SPKI-encoded public key
+   * @param signingKey - Base64 SPKI-encoded signing public key (kept if omitted)
+   * @returns Stored device key
+   *
+   * @example
+   * ```typescript
+   * await userService.publishDeviceKey('user-id-123', 'device-abc', 'MFkwEwYH...');
+   * ```
+   */
+  async publishDeviceKey(
+    userId: string,
+    deviceId: string,
+    identityKey: string,
+    signingKey?: string
+  ): Promise<DeviceKey> {
+    const deviceKey = await this.prisma.deviceKey.upsert({
+      where: { userId_deviceId: { userId, deviceId } },
+      create: { userId, deviceId, identityKey, signingKey },
+      update: { identityKey, signingKey },
+    });
+
+    const stale = await this.prisma.deviceKey.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      skip: MAX_DEVICE_KEYS_PER_USER,
+      select: { id: true },
+    });
+
+    if (stale.length > 0) {
+      await this.prisma.deviceKey.deleteMany({
+        where: { id: { in: stale.map((k) => k.id) } },
+      });
+    }
+
+    return deviceKey;
+  }
+
+  /**
+   * Get all published device keys of a user
+   *
+   * @param userId - User ID
+   * @returns Device keys (most recently published first)
+   */
+  async getDeviceKeys(userId: string): Promise<DeviceKey[]> {
+    return this.prisma.deviceKey.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Remove a device key from the directory
+   *
+   * @param userId - Owner user ID
+   * @param deviceId - Device ID
+   * @returns True if a key was removed
+   */
+  async revokeDeviceKey(userId: string, deviceId: string): Promise<boolean> {
+    const result = await this.prisma.deviceKey.deleteMany({
+      where: { userId, deviceId },
+    });
+
+    return result.count > 0;
+  }
+
   /**
    * Remove password hash from user object
    *
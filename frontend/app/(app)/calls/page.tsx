@@ -1,152 +1,127 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { Phone } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CallHistoryItem } from '@/components/calls/call-history-item';
 import { useCallStore } from '@/store/call-store';
 import { useAuthStore } from '@/store/auth-store';
-import { createApiClient } from '@/lib/api-client';
-
-/**
- * Call record from API
- */
-interface CallRecord {
-  id: string;
-  callerId: string;
-  receiverId: string;
-  type: 'AUDIO' | 'VIDEO';
-  status: 'RINGING' | 'ANSWERED' | 'ENDED' | 'MISSED' | 'REJECTED' | 'FAILED' | 'CANCELLED';
-  mode: 'NORMAL' | 'EMERGENCY' | 'ASYMMETRIC';
-  startedAt: string;
-  endedAt: string | null;
-  duration: number | null;
-  createdAt: string;
-  caller: {
-    id: string;
-    email: string;
-    username: string;
-    displayName: string;
-    avatarUrl: string | null;
-  };
-  receiver: {
-    id: string;
-    email: string;
-    username: string;
-    displayName: string;
-    avatarUrl: string | null;
-  };
-}
+import { useAppStore } from '@/store/app-store';
+import { db, type DBCallParticipant } from '@/lib/db';
+import { syncManager } from '@/lib/sync-manager';
 
 /**
  * Calls page
  * Shows call history with tabs for All and Missed calls
+ *
+ * The history is read from IndexedDB: calls synced from the server merged
+ * with calls recorded locally in Emergency mode (one entry per call ID).
+ * In Normal mode the local calls are uploaded and the history is synced
+ * first.
  */
 export default function CallsPage() {
   const { user, tokens } = useAuthStore();
   const { setActiveCall } = useCallStore();
+  const mode = useAppStore((state) => state.mode);
 
-  const [calls, setCalls] = useState<CallRecord[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const calls = useLiveQuery(
+    () => db.calls.orderBy('createdAt').reverse().toArray(),
+    []
+  );
+
+  // Other users of calls recorded before participants were stored
+  const users = useLiveQuery(() => db.users.toArray(), []);
+
   /**
-   * Load call history
+   * Sync call history
    */
   useEffect(() => {
-    const loadCalls = async () => {
-      if (!tokens?.accessToken || !user) {
-        setIsLoading(false);
+    const syncCalls = async () => {
+      if (!tokens?.accessToken || !user || mode !== 'Normal') {
+        setIsSyncing(false);
         return;
       }
 
       try {
-        setIsLoading(true);
+        setIsSyncing(true);
         setError(null);
 
-        const apiClient = createApiClient({
-          baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080',
-        });
-        apiClient.setTokens(tokens.accessToken, tokens.refreshToken);
-
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_API_URL}/calls`,
-          {
-            headers: {
-              Authorization: `Bearer ${tokens.accessToken}`,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to load call history');
-        }
-
-        const data = await response.json();
-        setCalls(data.calls || []);
+        syncManager.setTokens(tokens.accessToken, tokens.refreshToken);
+        await syncManager.syncCallHistory();
       } catch (err) {
-        console.error('[CallsPage] Error loading calls:', err);
+        console.error('[CallsPage] Error syncing calls:', err);
         setError('Failed to load call history');
       } finally {
-        setIsLoading(false);
+        setIsSyncing(false);
       }
     };
 
-    loadCalls();
-  }, [tokens, user]);
+    syncCalls();
+  }, [tokens, user, mode]);
 
   /**
-   * Handle call-back
+   * Get the other user of a call
    */
-  const handleCallBack = (userId: string) => {
-    const call = calls.find(
-      (c) => c.callerId === userId || c.receiverId === userId
-    );
-    if (!call) return;
+  const getOtherUser = (otherUserId: string): DBCallParticipant => {
+    const otherUser = users?.find((u) => u.id === otherUserId);
 
-    const otherUser = call.callerId === user?.id ? call.receiver : call.caller;
-
-    setActiveCall({
-      remoteUserId: otherUser.id,
-      remoteUserName: otherUser.displayName,
-      remoteUserUsername: otherUser.username,
-      remoteUserAvatar: otherUser.avatarUrl,
-      type: 'VIDEO',
-      direction: 'OUTGOING',
-      status: 'calling',
-    });
+    return {
+      id: otherUserId,
+      displayName: otherUser?.displayName || otherUser?.username || 'Unknown',
+      username: otherUser?.username || '',
+      avatarUrl: otherUser?.avatarUrl ?? null,
+    };
   };
 
   /**
    * Format calls for display
    */
-  const formattedCalls = calls.map((call) => {
+  const formattedCalls = (calls ?? []).map((call) => {
     const isIncoming = call.receiverId === user?.id;
-    const otherUser = isIncoming ? call.caller : call.receiver;
+    const otherUser =
+      call.participant ??
+      getOtherUser(isIncoming ? call.callerId : call.receiverId);
 
     return {
       id: call.id,
-      type: call.type,
-      status: call.status,
+      type: call.type === 'AUDIO' ? ('AUDIO' as const) : ('VIDEO' as const),
+      status: call.status === 'INITIATED' ? ('RINGING' as const) : call.status,
       direction: isIncoming ? ('INCOMING' as const) : ('OUTGOING' as const),
       duration: call.duration,
-      createdAt: new Date(call.createdAt),
-      otherUser: {
-        id: otherUser.id,
-        displayName: otherUser.displayName,
-        username: otherUser.username,
-        avatarUrl: otherUser.avatarUrl,
-      },
+      createdAt: call.createdAt,
+      otherUser,
     };
   });
 
+  /**
+   * Handle call-back
+   */
+  const handleCallBack = (userId: string) => {
+    const call = formattedCalls.find((c) => c.otherUser.id === userId);
+    if (!call) return;
+
+    setActiveCall({
+      remoteUserId: call.otherUser.id,
+      remoteUserName: call.otherUser.displayName,
+      remoteUserUsername: call.otherUser.username,
+      remoteUserAvatar: call.otherUser.avatarUrl,
+      type: 'VIDEO',
+      direction: 'OUTGOING',
+      status: 'calling',
+    });
+  };
+
   /**
    * Filter missed calls
    */
   const missedCalls = formattedCalls.filter((call) => call.status === 'MISSED');
 
   // Loading state
-  if (isLoading) {
+  if (!calls || (isSyncing && calls.length === 0)) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
@@ -157,8 +132,8 @@ export default function CallsPage() {
     );
   }
 
-  // Error state
-  if (error) {
+  // Error state (local calls are still shown)
+  if (error && calls.length === 0) {
     return (
       <div className="flex items-center justify-center h-full p-8">
         <div className="text-center max-w-md">
@@ -2,7 +2,8 @@
  * Chat Page (Dynamic Route)
  *
  * Displays a single chat conversation.
- * Route: /chats/[id]
+ * Route: /chats/[id] (`?message=<id>` scrolls to a message, e.g. a search
+ * result)
  *
  * @module app/(app)/chats/[id]/page
  */
@@ -10,7 +11,7 @@
 'use client';
 
 import { useEffect, useState, useMemo } from 'react';
-import { useRouter, useParams } from 'next/navigation';
+import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { ArrowLeft, AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
@@ -18,7 +19,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { ChatWindow } from '@/components/chats/chat-window';
 import { createApiClient } from '@/lib/api-client';
 import { useAuthStore } from '@/store/auth-store';
-import { useChatsStore } from '@/store/chats-store';
+import { useChatsStore, toChat } from '@/store/chats-store';
 import type { Chat } from '@/store/chats-store';
 
 /**
@@ -32,6 +33,7 @@ export default function ChatPage() {
   const router = useRouter();
   const params = useParams();
   const chatId = params.id as string;
+  const messageId = useSearchParams().get('message');
 
   const [chat, setChat] = useState<Chat | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -93,26 +95,7 @@ export default function ChatPage() {
 
         if (foundChat) {
           // Convert API response to Chat format
-          const formattedChat: Chat = {
-            id: foundChat.id,
-            createdAt: new Date(foundChat.createdAt),
-            updatedAt: new Date(foundChat.updatedAt),
-            lastMessage: foundChat.lastMessage,
-            lastMessageAt: foundChat.lastMessageAt
-              ? new Date(foundChat.lastMessageAt)
-              : null,
-            lastMessageBy: foundChat.lastMessageBy,
-            unreadCount: foundChat.unreadCount,
-            participant: {
-              id: foundChat.participant.id,
-              email: foundChat.participant.email,
-              username: foundChat.participant.username,
-              displayName: foundChat.participant.displayName,
-              avatarUrl: foundChat.participant.avatarUrl,
-              isOnline: foundChat.participant.isOnline,
-              lastSeenAt: new Date(foundChat.participant.lastSeenAt),
-            },
-          };
+          const formattedChat: Chat = toChat(foundChat);
 
           setChat(formattedChat);
         } else {
@@ -196,6 +179,6 @@ export default function ChatPage() {
   /**
    * Chat window
    */
-  return <ChatWindow chat={chat} />;
+  return <ChatWindow chat={chat} highlightMessageId={messageId} />;
 }
 
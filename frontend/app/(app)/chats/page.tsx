@@ -1,23 +1,109 @@
 'use client';
 
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ChatList } from '@/components/chats/chat-list';
+import { CreateGroupDialog } from '@/components/chats/create-group-dialog';
+import { MessageSearchResults } from '@/components/chats/message-search-results';
+import { useDebounce } from '@/hooks/use-debounce';
+import { createApiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/store/auth-store';
 
 /**
  * Chats page
- * Main screen showing list of all conversations
+ * Main screen showing list of all conversations, or message search results
+ * while a search query is entered
  */
 export default function ChatsPage() {
+  const router = useRouter();
+  const [isCreateGroupOpen, setIsCreateGroupOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Debounce search query
+  const debouncedSearchQuery = useDebounce(searchQuery.trim(), 300);
+
+  const user = useAuthStore((state) => state.user);
+  const tokens = useAuthStore((state) => state.tokens);
+  const setAuth = useAuthStore((state) => state.setAuth);
+  const clearAuth = useAuthStore((state) => state.clearAuth);
+
+  /**
+   * Create API client instance (memoized to prevent infinite loops)
+   */
+  const apiClient = useMemo(() => {
+    const client = createApiClient({
+      baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:80/api',
+      onTokenRefresh: (accessToken, refreshToken) => {
+        if (user) {
+          setAuth(user, { accessToken, refreshToken });
+        }
+      },
+      onAuthError: () => {
+        clearAuth();
+        router.push('/login');
+      },
+    });
+
+    // Set tokens if available
+    if (tokens) {
+      client.setTokens(tokens.accessToken, tokens.refreshToken);
+    }
+
+    return client;
+  }, [user, tokens, setAuth, clearAuth, router]);
+
   return (
     <div className="h-full bg-white dark:bg-gray-900">
-      <div className="border-b border-gray-200 dark:border-gray-800 p-4">
+      <div className="flex items-center justify-between border-b border-gray-200 dark:border-gray-800 p-4">
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
           Chats
         </h1>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsCreateGroupOpen(true)}
+        >
+          <Users className="mr-2 h-4 w-4" />
+          New group
+        </Button>
       </div>
-      <div className="h-[calc(100%-73px)] overflow-y-auto">
-        <ChatList />
+      <div className="border-b border-gray-200 dark:border-gray-800 p-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="text"
+            placeholder="Search messages..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10 pr-10"
+            aria-label="Search messages"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
       </div>
+      <div className="h-[calc(100%-146px)] overflow-y-auto">
+        {searchQuery.trim() && debouncedSearchQuery ? (
+          <MessageSearchResults query={debouncedSearchQuery} />
+        ) : (
+          <ChatList />
+        )}
+      </div>
+      <CreateGroupDialog
+        apiClient={apiClient}
+        open={isCreateGroupOpen}
+        onOpenChange={setIsCreateGroupOpen}
+      />
     </div>
   );
 }
-
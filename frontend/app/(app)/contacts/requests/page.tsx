@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ContactRequestItem } from '@/components/contacts/contact-request-item';
 import { createApiClient } from '@/lib/api-client';
+import { enqueueSyncAction } from '@/lib/sync-queue';
 import { useAuthStore } from '@/store/auth-store';
 import { useContactsStore } from '@/store/contacts-store';
 
@@ -116,7 +117,7 @@ export default function ContactRequestsPage() {
    * Handle accept contact request
    */
   const handleAccept = async (contactId: string) => {
-    await apiClient.acceptContact(contactId);
+    await enqueueSyncAction({ type: 'contact-accept', contactId });
 
     // Update contact status in store
     updateContactStatus(contactId, 'ACCEPTED');
@@ -126,7 +127,7 @@ export default function ContactRequestsPage() {
    * Handle reject contact request
    */
   const handleReject = async (contactId: string) => {
-    await apiClient.rejectContact(contactId);
+    await enqueueSyncAction({ type: 'contact-reject', contactId });
 
     // Remove contact from store
     removeContact(contactId);
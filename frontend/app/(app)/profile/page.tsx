@@ -20,18 +20,20 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuthStore } from '@/store/auth-store';
 import { getUserInitials } from '@/lib/utils';
 import { createApiClient } from '@/lib/api-client';
+import type { UpdateUserRequest } from '@/lib/api-types';
+import { enqueueSyncAction } from '@/lib/sync-queue';
 
 /**
  * Profile Page
  *
  * Shows user profile with edit functionality.
- * Integrates with PATCH /api/users/me for updates.
+ * Integrates with PATCH /api/users/me for updates (queued while offline).
  *
  * @returns Profile page component
  */
 export default function ProfilePage() {
   const router = useRouter();
-  const { user, tokens, setAuth, clearAuth } = useAuthStore();
+  const { user, tokens, setAuth, clearAuth, updateUser } = useAuthStore();
 
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -105,36 +107,35 @@ export default function ProfilePage() {
    * Save profile changes
    */
   const handleSave = async () => {
-    if (!tokens) return;
+    if (!tokens || !user) return;
 
     try {
       setIsSaving(true);
       setError(null);
       setSuccess(false);
 
-      const updatedUser = await apiClient.updateCurrentUser({
+      const changes: UpdateUserRequest = {
         displayName: displayName.trim() || undefined,
         bio: bio.trim() || undefined,
         phone: phone.trim() || undefined,
         avatarUrl: avatarUrl.trim() || undefined,
+      };
+
+      // Saved on the server when online (see lib/sync-queue), which then
+      // replaces the local copy
+      await enqueueSyncAction({
+        type: 'profile-update',
+        userId: user.id,
+        data: changes,
       });
 
-      // Update auth store (convert API response to User type)
-      setAuth(
-        {
-          id: updatedUser.id,
-          email: updatedUser.email,
-          username: updatedUser.username,
-          displayName: updatedUser.displayName,
-          phone: updatedUser.phone,
-          avatarUrl: updatedUser.avatarUrl,
-          bio: updatedUser.bio || null,
-          isOnline: updatedUser.isOnline,
-          lastSeen: new Date(updatedUser.lastSeen),
-          createdAt: new Date(updatedUser.createdAt),
-        },
-        tokens
-      );
+      // Show the changes at once (empty fields are left unchanged)
+      updateUser({
+        displayName: changes.displayName ?? user.displayName,
+        bio: changes.bio ?? user.bio,
+        phone: changes.phone ?? user.phone,
+        avatarUrl: changes.avatarUrl ?? user.avatarUrl,
+      });
 
       setSuccess(true);
       setIsEditing(false);
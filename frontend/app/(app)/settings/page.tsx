@@ -21,12 +21,21 @@ import {
 Moon,
  Sun,
  Shield,
+ Smartphone,
+ Send,
+ Download,
+ Activity,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { useAuthStore } from '@/store/auth-store';
 import { createApiClient } from '@/lib/api-client';
 import { usePushNotifications } from '@/hooks/use-push-notifications';
+import {
+  DeviceLinkDialog,
+  type DeviceLinkMode,
+} from '@/components/settings/device-link-dialog';
+import { ConnectivityDiagnostics } from '@/components/settings/connectivity-diagnostics';
 
 /**
  * Settings interface
@@ -74,6 +83,7 @@ export default function SettingsPage() {
 
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deviceLinkMode, setDeviceLinkMode] = useState<DeviceLinkMode | null>(null);
 
   /**
    * Create memoized API client
@@ -381,6 +391,59 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Devices Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <Smartphone className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Devices</h2>
+            </div>
+          </div>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your message history is stored only on your devices. Copy it to a new device
+              directly, without it passing through the server.
+            </p>
+
+            <Button
+              onClick={() => setDeviceLinkMode('send')}
+              variant="outline"
+              className="w-full justify-start"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Link a New Device
+            </Button>
+
+            <Button
+              onClick={() => setDeviceLinkMode('receive')}
+              variant="outline"
+              className="w-full justify-start"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Get History from Another Device
+            </Button>
+          </div>
+        </div>
+
+        <DeviceLinkDialog
+          apiClient={apiClient}
+          mode={deviceLinkMode}
+          onClose={() => setDeviceLinkMode(null)}
+        />
+
+        {/* Connectivity Section */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <Activity className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Connectivity</h2>
+            </div>
+          </div>
+          <div className="p-6">
+            <ConnectivityDiagnostics />
+          </div>
+        </div>
+
         {/* Account Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
@@ -0,0 +1,91 @@
+/**
+ * Animated QR Code Component
+ *
+ * Shows a sequence of QR codes in a loop, one frame at a time, so data that
+ * does not fit a single code can be scanned (see lib/qr-signaling).
+ *
+ * @module components/calls/animated-qr-code
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { encodeQRCode } from '@/lib/qr-code';
+
+/**
+ * Empty modules around the code, required by scanners
+ */
+const QUIET_ZONE = 4;
+
+/**
+ * Time each frame is shown (ms)
+ */
+const FRAME_INTERVAL_MS = 250;
+
+/**
+ * Animated QR code props
+ */
+export interface AnimatedQRCodeProps {
+  /** Texts of the frames */
+  frames: string[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Animated QR Code Component
+ *
+ * @param props - Component props
+ * @returns Animated QR code component
+ */
+export function AnimatedQRCode({ frames, className }: AnimatedQRCodeProps) {
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  // Frames are encoded once; they all get the size of the largest one
+  const codes = useMemo(() => frames.map(encodeQRCode), [frames]);
+  const size = Math.max(0, ...codes.map((code) => code.size));
+
+  useEffect(() => {
+    setFrameIndex(0);
+    if (frames.length < 2) return;
+
+    const interval = setInterval(() => {
+      setFrameIndex((index) => (index + 1) % frames.length);
+    }, FRAME_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [frames]);
+
+  const code = codes[frameIndex];
+  if (!code) return null;
+
+  // One square per dark module, centered if the frame is smaller
+  const offset = QUIET_ZONE + (size - code.size) / 2;
+  let path = '';
+  code.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) path += `M${x + offset} ${y + offset}h1v1h-1z`;
+    });
+  });
+
+  const viewBoxSize = size + QUIET_ZONE * 2;
+
+  return (
+    <div className={className}>
+      <svg
+        viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+        shapeRendering="crispEdges"
+        className="h-auto w-full rounded-lg bg-white"
+        role="img"
+        aria-label="Call code"
+      >
+        <path d={path} fill="#000" />
+      </svg>
+      {frames.length > 1 && (
+        <p className="mt-2 text-center text-xs text-gray-500 dark:text-gray-400">
+          Part {frameIndex + 1} of {frames.length}
+        </p>
+      )}
+    </div>
+  );
+}
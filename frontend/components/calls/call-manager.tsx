@@ -3,6 +3,13 @@
  *
  * Global component that manages call state and renders appropriate call UI.
  * Handles incoming calls, outgoing calls, and active calls.
+ * The server owns the state of calls started over Socket.io: it rings all
+ * devices of the receiver, misses unanswered calls and answers busy users.
+ * In Emergency mode, calls are recorded locally (see lib/call-log) instead
+ * of on the server.
+ * Incoming calls that ring while the app is in the background are handed
+ * to the P2P Service Worker, which notifies the user; accepting from the
+ * notification (or opening the app while the call rings) resumes the call.
  * Should be placed in the root layout.
  *
  * @module components/calls/call-manager
@@ -10,17 +17,56 @@
 
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useRef } from 'react';
 import { useSocket } from '@/hooks/use-socket';
 import { useWebRTC } from '@/hooks/use-webrtc';
+import {
+  useServiceWorkerCalls,
+  type PendingCall,
+} from '@/hooks/use-service-worker-calls';
 import { useCallStore } from '@/store/call-store';
 import { useAuthStore } from '@/store/auth-store';
+import { useAppStore } from '@/store/app-store';
 import { createApiClient } from '@/lib/api-client';
+import {
+  createCallId,
+  recordCallAnswered,
+  recordCallEnd,
+  recordCallStart,
+} from '@/lib/call-log';
 import { db } from '@/lib/db';
 import { CallingScreen } from './calling-screen';
 import { IncomingCallScreen } from './incoming-call-screen';
 import { ActiveCallScreen } from './active-call-screen';
 
+/**
+ * Acknowledgement of `call-initiate`
+ */
+interface CallInitiateAck {
+  success: boolean;
+  callId?: string;
+  busy?: boolean;
+  error?: string;
+}
+
+/**
+ * Outgoing calls end locally this long after they started ringing (seconds)
+ * if the server's missed call does not arrive (e.g. the connection dropped)
+ */
+const SERVER_CALL_TIMEOUT_FALLBACK_SECONDS = 35;
+
+/**
+ * Whether a call event is about the current call
+ *
+ * Events name the call; the current call may not know its ID yet.
+ */
+function isCurrentCall(data: unknown): boolean {
+  const callId = (data as { callId?: unknown } | undefined)?.callId;
+  const current = useCallStore.getState().activeCall;
+
+  return !!current && (typeof callId !== 'string' || !current.id || current.id === callId);
+}
+
 /**
  * Call Manager Component
  *
@@ -35,7 +81,7 @@ import { ActiveCallScreen } from './active-call-screen';
  * ```
  */
 export function CallManager() {
-  const { emit, on, off } = useSocket();
+  const { emit, emitWithAck, on, off } = useSocket();
   const {
     connectionState,
     localStream,
@@ -51,58 +97,144 @@ export function CallManager() {
     switchCamera,
   } = useWebRTC();
 
+  const {
+    isRegistered: isServiceWorkerRegistered,
+    registerCallInterest,
+    unregisterCallInterest,
+    notifyIncomingCall,
+    dismissIncomingCall,
+    getPendingCalls,
+  } = useServiceWorkerCalls();
+
   const { activeCall, updateCallStatus, updateCallId, clearCall } = useCallStore();
-  const { tokens } = useAuthStore();
+  const { tokens, user } = useAuthStore();
+  const mode = useAppStore((state) => state.mode);
+  const userId = user?.id;
+
+  // ID of the current call if it is recorded locally (Emergency mode)
+  const localCallIdRef = useRef<string | null>(null);
+
+  // Offers by caller; the caller sends the offer before call-initiate
+  const offersRef = useRef(new Map<string, RTCSessionDescriptionInit>());
+
+  // Ringing call handed to the Service Worker
+  const notifiedCallRef = useRef<PendingCall | null>(null);
+
+  // Whether the outgoing call is being started (setting its ID re-runs
+  // the effect that starts it)
+  const startingCallRef = useRef(false);
+
+  /**
+   * Record that the locally recorded call was answered
+   */
+  const answerLocalCall = useCallback(() => {
+    const callId = localCallIdRef.current;
+    if (!callId) return;
+
+    recordCallAnswered(callId).catch((error) => {
+      console.error('[CallManager] Error recording answered call:', error);
+    });
+  }, []);
+
+  /**
+   * Record the end of the locally recorded call
+   */
+  const endLocalCall = useCallback((status?: 'MISSED' | 'REJECTED') => {
+    const callId = localCallIdRef.current;
+    if (!callId) return;
+    localCallIdRef.current = null;
+
+    recordCallEnd(callId, status).catch((error) => {
+      console.error('[CallManager] Error recording call end:', error);
+    });
+  }, []);
 
   /**
    * Handle outgoing call initiation
    */
   const handleStartCall = useCallback(async () => {
-    if (!activeCall || activeCall.direction !== 'OUTGOING') return;
+    if (
+      !activeCall ||
+      activeCall.direction !== 'OUTGOING' ||
+      activeCall.id ||
+      startingCallRef.current
+    ) {
+      return;
+    }
+
+    startingCallRef.current = true;
+    let callId: string | undefined;
 
     try {
-      // Start WebRTC call
-      await startCall(activeCall.remoteUserId);
+      // Record the call locally in Emergency mode; its ID is shared with
+      // the remote user, so both records are one call once imported
+      if (useAppStore.getState().mode === 'Emergency' && user) {
+        localCallIdRef.current = await recordCallStart({
+          userId: user.id,
+          participant: {
+            id: activeCall.remoteUserId,
+            username: activeCall.remoteUserUsername,
+            displayName: activeCall.remoteUserName,
+            avatarUrl: activeCall.remoteUserAvatar ?? null,
+          },
+          type: activeCall.type,
+          direction: 'OUTGOING',
+          mode: 'EMERGENCY',
+        });
+      }
+      const localCallId = localCallIdRef.current;
+
+      if (localCallId) {
+        callId = localCallId;
+        updateCallId(localCallId);
+
+        // Start WebRTC call
+        await startCall(activeCall.remoteUserId);
 
-      // Emit call-initiate event to notify remote user
-      emit('call-initiate', {
+        // Notify the remote user if the server is reachable after all
+        emit('call-initiate', {
+          to: activeCall.remoteUserId,
+          callType: activeCall.type,
+          callId: localCallId,
+        });
+        return;
+      }
+
+      // The server creates the call and rings the remote user's devices
+      const ack = await emitWithAck<CallInitiateAck>('call-initiate', {
         to: activeCall.remoteUserId,
         callType: activeCall.type,
       });
 
-      // Create call record in backend
-      if (tokens?.accessToken) {
-        const apiClient = createApiClient({
-          baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080',
-        });
-        apiClient.setTokens(tokens.accessToken, tokens.refreshToken);
-
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_API_URL}/calls`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${tokens.accessToken}`,
-            },
-            body: JSON.stringify({
-              receiverId: activeCall.remoteUserId,
-              type: activeCall.type,
-              mode: 'NORMAL',
-            }),
-          }
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          updateCallId(data.call.id);
-        }
+      if (!ack.success || !ack.callId) {
+        console.log('[CallManager] Call not started:', ack.error);
+        clearCall();
+        return;
       }
+
+      callId = ack.callId;
+
+      // Hung up while the server created the call
+      if (!useCallStore.getState().activeCall) {
+        emit('call-end', { to: activeCall.remoteUserId, callId });
+        return;
+      }
+      updateCallId(ack.callId);
+
+      // Start WebRTC call
+      await startCall(activeCall.remoteUserId);
     } catch (error) {
       console.error('[CallManager] Error starting call:', error);
+      if (callId) {
+        emit('call-end', { to: activeCall.remoteUserId, callId });
+      }
+      endCall();
+      endLocalCall();
       clearCall();
+    } finally {
+      startingCallRef.current = false;
     }
-  }, [activeCall, startCall, emit, tokens, updateCallId, clearCall]);
+  }, [activeCall, startCall, emit, emitWithAck, user, updateCallId, endCall, clearCall, endLocalCall]);
 
   /**
    * Handle incoming call acceptance
@@ -116,18 +248,21 @@ export function CallManager() {
       // Answer WebRTC call
       await answerCall(activeCall.remoteUserId, activeCall.offer);
 
-      // Emit call-accept event
+      // Emit call-accept event (the other devices stop ringing)
       emit('call-accept', {
         to: activeCall.remoteUserId,
+        callId: activeCall.id,
       });
 
       // Update status
       updateCallStatus('active');
+      answerLocalCall();
     } catch (error) {
       console.error('[CallManager] Error accepting call:', error);
+      endLocalCall();
       clearCall();
     }
-  }, [activeCall, answerCall, emit, updateCallStatus, clearCall]);
+  }, [activeCall, answerCall, emit, updateCallStatus, clearCall, answerLocalCall, endLocalCall]);
 
   /**
    * Handle call rejection
@@ -138,14 +273,16 @@ export function CallManager() {
     // Emit call-reject event
     emit('call-reject', {
       to: activeCall.remoteUserId,
+      callId: activeCall.id,
     });
 
     // End WebRTC call
     endCall();
+    endLocalCall('REJECTED');
 
     // Clear call state
     clearCall();
-  }, [activeCall, emit, endCall, clearCall]);
+  }, [activeCall, emit, endCall, clearCall, endLocalCall]);
 
   /**
    * Handle call end
@@ -153,46 +290,35 @@ export function CallManager() {
   const handleEndCall = useCallback(() => {
     if (!activeCall) return;
 
-    // Emit call-end event
+    // Emit call-end event (the server ends the call record)
     emit('call-end', {
       to: activeCall.remoteUserId,
+      callId: activeCall.id,
     });
 
     // End WebRTC call
     endCall();
-
-    // Update call record in backend
-    if (activeCall.id && tokens?.accessToken) {
-      fetch(`${process.env.NEXT_PUBLIC_API_URL}/calls/${activeCall.id}/end`, {
-        method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${tokens.accessToken}`,
-        },
-      }).catch((error) => {
-        console.error('[CallManager] Error ending call record:', error);
-      });
-    }
+    endLocalCall();
 
     // Clear call state
     clearCall();
-  }, [activeCall, emit, endCall, tokens, clearCall]);
+  }, [activeCall, emit, endCall, clearCall, endLocalCall]);
 
   /**
    * Handle call timeout
+   *
+   * The server misses the call for both users; this only ends the call
+   * locally (no call-end, which would cancel it instead).
    */
   const handleCallTimeout = useCallback(() => {
     if (!activeCall) return;
 
     console.log('[CallManager] Call timed out');
 
-    // Emit call-missed event
-    emit('call-missed', {
-      to: activeCall.remoteUserId,
-    });
-
-    // End call
-    handleEndCall();
-  }, [activeCall, emit, handleEndCall]);
+    endCall();
+    endLocalCall();
+    clearCall();
+  }, [activeCall, endCall, clearCall, endLocalCall]);
 
   /**
    * Start outgoing call when activeCall is set
@@ -222,7 +348,11 @@ export function CallManager() {
         return;
       }
 
-      const validatedData = data as { from: string; callType: string };
+      const validatedData = data as {
+        from: string;
+        callType: string;
+        callId?: unknown;
+      };
       console.log('[CallManager] Incoming call from:', validatedData.from);
 
       // Fetch user info from API or IndexedDB
@@ -269,9 +399,33 @@ export function CallManager() {
         // Continue with placeholder data
       }
 
-      // Set incoming call
+      // Record the call locally in Emergency mode, under the caller's ID
+      const currentUser = useAuthStore.getState().user;
+      if (useAppStore.getState().mode === 'Emergency' && currentUser) {
+        try {
+          localCallIdRef.current = await recordCallStart({
+            id:
+              typeof validatedData.callId === 'string'
+                ? validatedData.callId
+                : undefined,
+            userId: currentUser.id,
+            participant: remoteUser,
+            type: validatedData.callType === 'AUDIO' ? 'AUDIO' : 'VIDEO',
+            direction: 'INCOMING',
+            mode: 'EMERGENCY',
+          });
+        } catch (error) {
+          console.error('[CallManager] Error recording incoming call:', error);
+        }
+      }
+
+      // Set incoming call, with its offer if it has arrived
+      const offer = offersRef.current.get(validatedData.from);
+      offersRef.current.delete(validatedData.from);
+
       useCallStore.setState({
         activeCall: {
+          id: typeof validatedData.callId === 'string' ? validatedData.callId : undefined,
           remoteUserId: validatedData.from,
           remoteUserName: remoteUser.displayName,
           remoteUserUsername: remoteUser.username,
@@ -279,40 +433,239 @@ export function CallManager() {
           type: validatedData.callType as 'AUDIO' | 'VIDEO',
           direction: 'INCOMING',
           status: 'ringing',
+          offer,
         },
       });
     };
 
-    const handleCallAccepted = (..._args: unknown[]) => {
+    const handleSignalOffer = (...args: unknown[]) => {
+      const data = args[0] as { from?: unknown; offer?: unknown } | undefined;
+      if (
+        !data ||
+        typeof data.from !== 'string' ||
+        !data.offer ||
+        typeof data.offer !== 'object'
+      ) {
+        console.error('[CallManager] Invalid signal-offer data:', data);
+        return;
+      }
+
+      const offer = data.offer as RTCSessionDescriptionInit;
+      const current = useCallStore.getState().activeCall;
+
+      if (
+        current?.direction === 'INCOMING' &&
+        current.remoteUserId === data.from &&
+        !current.offer
+      ) {
+        useCallStore.setState({ activeCall: { ...current, offer } });
+      } else {
+        offersRef.current.set(data.from, offer);
+      }
+    };
+
+    const handleCallAccepted = (...args: unknown[]) => {
+      if (!isCurrentCall(args[0])) return;
+
       console.log('[CallManager] Call accepted');
       updateCallStatus('active');
+      answerLocalCall();
     };
 
-    const handleCallRejected = (..._args: unknown[]) => {
+    const handleCallRejected = (...args: unknown[]) => {
+      if (!isCurrentCall(args[0])) return;
+
       console.log('[CallManager] Call rejected');
+      endLocalCall('REJECTED');
       clearCall();
       endCall();
     };
 
-    const handleCallEnded = (..._args: unknown[]) => {
+    const handleCallEnded = (...args: unknown[]) => {
+      if (!isCurrentCall(args[0])) return;
+
       console.log('[CallManager] Call ended by remote user');
+      endLocalCall();
+      clearCall();
+      endCall();
+    };
+
+    // Not answered within the server's ring timeout
+    const handleCallMissed = (...args: unknown[]) => {
+      if (!isCurrentCall(args[0])) return;
+
+      console.log('[CallManager] Call missed');
+      endLocalCall('MISSED');
+      clearCall();
+      endCall();
+    };
+
+    // Another device of this user answered the ringing call
+    const handleCallAnsweredElsewhere = (...args: unknown[]) => {
+      const current = useCallStore.getState().activeCall;
+      if (
+        !isCurrentCall(args[0]) ||
+        current?.direction !== 'INCOMING' ||
+        current.status !== 'ringing'
+      ) {
+        return;
+      }
+
+      console.log('[CallManager] Call answered on another device');
+      localCallIdRef.current = null;
       clearCall();
       endCall();
     };
 
     // Subscribe to call events
     on('call-incoming', handleCallIncoming);
+    on('signal-offer', handleSignalOffer);
     on('call-accepted', handleCallAccepted);
     on('call-rejected', handleCallRejected);
     on('call-ended', handleCallEnded);
+    on('call-missed', handleCallMissed);
+    on('call-answered-elsewhere', handleCallAnsweredElsewhere);
 
     return () => {
       off('call-incoming', handleCallIncoming);
+      off('signal-offer', handleSignalOffer);
       off('call-accepted', handleCallAccepted);
       off('call-rejected', handleCallRejected);
       off('call-ended', handleCallEnded);
+      off('call-missed', handleCallMissed);
+      off('call-answered-elsewhere', handleCallAnsweredElsewhere);
+    };
+  }, [on, off, updateCallStatus, clearCall, endCall, tokens, answerLocalCall, endLocalCall]);
+
+  /**
+   * Deliver incoming calls for the signed-in user through the Service Worker
+   */
+  useEffect(() => {
+    if (!isServiceWorkerRegistered) return;
+
+    if (userId) {
+      registerCallInterest(userId);
+    } else {
+      unregisterCallInterest();
+    }
+  }, [isServiceWorkerRegistered, userId, registerCallInterest, unregisterCallInterest]);
+
+  /**
+   * Hand a call that rings in the background to the Service Worker, and
+   * dismiss it once it stops ringing
+   */
+  useEffect(() => {
+    const notified = notifiedCallRef.current;
+    const isRinging =
+      activeCall?.direction === 'INCOMING' && activeCall.status === 'ringing';
+
+    if (notified && !(isRinging && activeCall.remoteUserId === notified.callerId)) {
+      notifiedCallRef.current = null;
+      dismissIncomingCall(notified.id);
+    }
+
+    if (
+      !isRinging ||
+      !activeCall.offer?.sdp ||
+      notifiedCallRef.current ||
+      document.visibilityState === 'visible'
+    ) {
+      return;
+    }
+
+    const call: PendingCall = {
+      id: localCallIdRef.current ?? createCallId(),
+      callId: activeCall.id,
+      callerId: activeCall.remoteUserId,
+      callerName: activeCall.remoteUserName,
+      type: activeCall.type,
+      offer: activeCall.offer.sdp,
+      timestamp: new Date().toISOString(),
+    };
+    notifiedCallRef.current = call;
+    notifyIncomingCall(call);
+  }, [activeCall, notifyIncomingCall, dismissIncomingCall]);
+
+  /**
+   * Resume a pending call of the Service Worker in the incoming call screen
+   */
+  const resumePendingCall = useCallback(
+    async (call: PendingCall) => {
+      dismissIncomingCall(call.id);
+
+      // Already ringing (the app received the call itself) or busy
+      if (useCallStore.getState().activeCall) return;
+
+      const caller = await db.users.get(call.callerId);
+
+      useCallStore.setState({
+        activeCall: {
+          id: call.callId,
+          remoteUserId: call.callerId,
+          remoteUserName: caller?.displayName || call.callerName,
+          remoteUserUsername: caller?.username ?? '',
+          remoteUserAvatar: caller?.avatarUrl ?? null,
+          type: call.type,
+          direction: 'INCOMING',
+          status: 'ringing',
+          offer: { type: 'offer', sdp: call.offer },
+        },
+      });
+    },
+    [dismissIncomingCall]
+  );
+
+  /**
+   * Resume the pending call when the app opens while it rings (e.g. from
+   * the notification)
+   */
+  useEffect(() => {
+    if (!isServiceWorkerRegistered || !userId) return;
+
+    getPendingCalls()
+      .then(([call]) => call && resumePendingCall(call))
+      .catch((error) => {
+        console.error('[CallManager] Error resuming pending call:', error);
+      });
+  }, [isServiceWorkerRegistered, userId, getPendingCalls, resumePendingCall]);
+
+  /**
+   * Handle the notification actions
+   */
+  useEffect(() => {
+    const handleSwAcceptCall = (event: Event) => {
+      const { callId } = (event as CustomEvent<{ callId: string }>).detail;
+
+      getPendingCalls()
+        .then((calls) => {
+          const call = calls.find((pending) => pending.id === callId);
+          return call && resumePendingCall(call);
+        })
+        .catch((error) => {
+          console.error('[CallManager] Error resuming pending call:', error);
+        });
+    };
+
+    const handleSwRejectCall = (event: Event) => {
+      const { callerId } = (event as CustomEvent<{ callerId: string }>).detail;
+
+      if (
+        activeCall?.direction === 'INCOMING' &&
+        activeCall.status === 'ringing' &&
+        activeCall.remoteUserId === callerId
+      ) {
+        handleRejectCall();
+      }
+    };
+
+    window.addEventListener('sw-accept-call', handleSwAcceptCall);
+    window.addEventListener('sw-reject-call', handleSwRejectCall);
+
+    return () => {
+      window.removeEventListener('sw-accept-call', handleSwAcceptCall);
+      window.removeEventListener('sw-reject-call', handleSwRejectCall);
     };
-  }, [on, off, updateCallStatus, clearCall, endCall, tokens]);
+  }, [activeCall, getPendingCalls, resumePendingCall, handleRejectCall]);
 
   /**
    * Update call status based on WebRTC connection state
@@ -363,6 +716,7 @@ export function CallManager() {
         isVideoEnabled={isVideoEnabled}
         onCancel={handleEndCall}
         onTimeout={handleCallTimeout}
+        timeout={mode === 'Emergency' ? undefined : SERVER_CALL_TIMEOUT_FALLBACK_SECONDS}
       />
     );
   }
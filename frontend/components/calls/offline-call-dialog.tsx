@@ -0,0 +1,422 @@
+/**
+ * Offline Call Dialog Component
+ *
+ * Sets up a call without any server or tracker, for two devices on the
+ * same LAN or hotspot (see lib/qr-signaling). The caller shows its offer
+ * as an animated QR code and scans the callee's answer; the callee scans
+ * the offer and shows its answer. Once connected, the active call screen
+ * takes over. Calls are recorded locally as Emergency calls (see
+ * lib/call-log).
+ *
+ * @module components/calls/offline-call-dialog
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Phone, QrCode, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useWebRTC, type MediaConstraints } from '@/hooks/use-webrtc';
+import {
+  createCallId,
+  recordCallAnswered,
+  recordCallEnd,
+  recordCallStart,
+} from '@/lib/call-log';
+import {
+  encodeQRSignal,
+  QRSignalCollector,
+  type QRScanProgress,
+  type QRSignal,
+} from '@/lib/qr-signaling';
+import { useAuthStore } from '@/store/auth-store';
+import { ActiveCallScreen } from './active-call-screen';
+import { AnimatedQRCode } from './animated-qr-code';
+import { QRScanner } from './qr-scanner';
+
+/**
+ * Step of the setup
+ */
+type OfflineCallStep =
+  | 'choose'
+  | 'preparing'
+  | 'show-offer'
+  | 'scan-answer'
+  | 'scan-offer'
+  | 'show-answer';
+
+/**
+ * Media constraints of an audio-only call (video calls use the defaults)
+ */
+const AUDIO_CONSTRAINTS: MediaConstraints = { audio: true, video: false };
+
+/**
+ * Title and description of each step
+ */
+const STEP_TEXT: Record<OfflineCallStep, [string, string]> = {
+  choose: [
+    'Offline call',
+    'Call someone next to you without a server. Both devices must be on the same Wi-Fi or hotspot.',
+  ],
+  preparing: ['Offline call', 'Preparing the call...'],
+  'show-offer': [
+    'Show this code',
+    'Let the other device scan this code with "Join a call", then scan the code it shows.',
+  ],
+  'scan-answer': [
+    'Scan the answer',
+    'Point the camera at the code on the other device.',
+  ],
+  'scan-offer': [
+    'Scan the call code',
+    'Point the camera at the code on the calling device.',
+  ],
+  'show-answer': [
+    'Show this code',
+    'Let the calling device scan this code. The call starts once it has.',
+  ],
+};
+
+interface OfflineCallDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Offline call dialog component
+ *
+ * @param props - Component props
+ * @returns Offline call dialog component
+ */
+export function OfflineCallDialog({ open, onClose }: OfflineCallDialogProps) {
+  const user = useAuthStore((state) => state.user);
+  const {
+    connectionState,
+    localStream,
+    remoteStream,
+    isMuted,
+    isVideoEnabled,
+    createOfflineOffer,
+    answerOfflineOffer,
+    acceptOfflineAnswer,
+    endCall,
+    toggleMute,
+    toggleVideo,
+    toggleSpeaker,
+    switchCamera,
+  } = useWebRTC();
+
+  const [step, setStep] = useState<OfflineCallStep>('choose');
+  const [frames, setFrames] = useState<string[]>([]);
+  const [scanProgress, setScanProgress] = useState<QRScanProgress | null>(null);
+  const [peer, setPeer] = useState<QRSignal['user'] | null>(null);
+  const [isInCall, setIsInCall] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const collectorRef = useRef(new QRSignalCollector());
+  const isDecodingRef = useRef(false);
+  const callTypeRef = useRef<QRSignal['callType']>('VIDEO');
+  const callIdRef = useRef('');
+  const recordedCallIdRef = useRef<string | null>(null); // Once the peer is known
+
+  // endCall changes with the local stream; resets must use the current one
+  const endCallRef = useRef(endCall);
+  endCallRef.current = endCall;
+
+  /**
+   * Record the call, once the peer is known
+   */
+  const recordStart = (
+    direction: 'INCOMING' | 'OUTGOING',
+    peerUser: QRSignal['user']
+  ) => {
+    if (!user) return;
+    recordedCallIdRef.current = callIdRef.current;
+
+    recordCallStart({
+      id: callIdRef.current,
+      userId: user.id,
+      participant: { ...peerUser, avatarUrl: null },
+      type: callTypeRef.current,
+      direction,
+      mode: 'EMERGENCY',
+    }).catch((err) => {
+      console.error('Failed to record offline call:', err);
+    });
+  };
+
+  /**
+   * Record the end of the recorded call, if any
+   */
+  const recordEnd = () => {
+    const callId = recordedCallIdRef.current;
+    if (!callId) return;
+    recordedCallIdRef.current = null;
+
+    recordCallEnd(callId).catch((err) => {
+      console.error('Failed to record end of offline call:', err);
+    });
+  };
+
+  // Used by effects, which must not rerun for a new function
+  const recordEndRef = useRef(recordEnd);
+  recordEndRef.current = recordEnd;
+
+  /**
+   * Reset when the dialog opens or closes
+   */
+  useEffect(() => {
+    recordEndRef.current();
+    setStep('choose');
+    setFrames([]);
+    setScanProgress(null);
+    setPeer(null);
+    setIsInCall(false);
+    setError(null);
+    collectorRef.current.reset();
+    isDecodingRef.current = false;
+
+    if (!open) endCallRef.current();
+  }, [open]);
+
+  /**
+   * Show the call screen once the devices are connected
+   */
+  useEffect(() => {
+    if (connectionState === 'connected' && peer && !isInCall) {
+      setIsInCall(true);
+      if (recordedCallIdRef.current) {
+        recordCallAnswered(recordedCallIdRef.current).catch((err) => {
+          console.error('Failed to record answered offline call:', err);
+        });
+      }
+    } else if (connectionState === 'failed') {
+      recordEndRef.current();
+      setIsInCall(false);
+      setStep('choose');
+      setError('The connection failed. Are both devices on the same network?');
+    }
+  }, [connectionState, peer, isInCall]);
+
+  /**
+   * Start scanning a code of the other device
+   */
+  const startScan = (scanStep: 'scan-offer' | 'scan-answer') => {
+    collectorRef.current.reset();
+    isDecodingRef.current = false;
+    setScanProgress(null);
+    setError(null);
+    setStep(scanStep);
+  };
+
+  /**
+   * Show a signal of this device as a QR code
+   */
+  const showSignal = async (
+    type: QRSignal['type'],
+    sdp: string,
+    showStep: 'show-offer' | 'show-answer'
+  ) => {
+    if (!user) throw new Error('Not signed in');
+
+    setFrames(
+      await encodeQRSignal({
+        type,
+        callId: callIdRef.current,
+        sdp,
+        callType: callTypeRef.current,
+        user: {
+          id: user.id,
+          username: user.username,
+          displayName: user.displayName,
+        },
+      })
+    );
+    setStep(showStep);
+  };
+
+  /**
+   * Caller: create the offer and show it
+   */
+  const handleStart = async (callType: QRSignal['callType']) => {
+    callTypeRef.current = callType;
+    callIdRef.current = createCallId();
+    setError(null);
+    setStep('preparing');
+
+    try {
+      const sdp = await createOfflineOffer(
+        callType === 'AUDIO' ? AUDIO_CONSTRAINTS : undefined
+      );
+      await showSignal('offer', sdp, 'show-offer');
+    } catch (err) {
+      console.error('Failed to start offline call:', err);
+      setStep('choose');
+      setError('Failed to start the call. Is the camera or microphone free?');
+    }
+  };
+
+  /**
+   * A signal of the other device was scanned completely
+   */
+  const handleSignal = async (signal: QRSignal) => {
+    if (step === 'scan-offer') {
+      if (signal.type !== 'offer') {
+        throw new Error('This is an answer. Scan the code of the caller.');
+      }
+
+      callTypeRef.current = signal.callType;
+      callIdRef.current = signal.callId;
+      setPeer(signal.user);
+      setStep('preparing');
+      const sdp = await answerOfflineOffer(
+        signal.sdp,
+        signal.callType === 'AUDIO' ? AUDIO_CONSTRAINTS : undefined
+      );
+      await showSignal('answer', sdp, 'show-answer');
+      recordStart('INCOMING', signal.user);
+    } else {
+      if (signal.type !== 'answer' || signal.callId !== callIdRef.current) {
+        throw new Error(
+          'This is not the answer to this call. Scan the answer instead.'
+        );
+      }
+
+      setPeer(signal.user);
+      setStep('preparing');
+      await acceptOfflineAnswer(signal.sdp);
+      recordStart('OUTGOING', signal.user);
+    }
+  };
+
+  /**
+   * A QR code was seen by the scanner
+   */
+  const handleScan = (text: string) => {
+    const collector = collectorRef.current;
+    const progress = collector.add(text);
+    if (!progress) return;
+
+    setScanProgress(progress);
+    if (!collector.isComplete() || isDecodingRef.current) return;
+
+    const scanStep = step === 'scan-offer' ? 'scan-offer' : 'scan-answer';
+    isDecodingRef.current = true;
+    collector
+      .decode()
+      .then(handleSignal)
+      .catch((err) => {
+        console.error('Failed to use scanned code:', err);
+        if (scanStep === 'scan-offer') endCallRef.current();
+        startScan(scanStep);
+        setError(err instanceof Error ? err.message : 'Invalid code');
+      });
+  };
+
+  const handleEnd = () => {
+    endCall();
+    onClose();
+  };
+
+  if (open && isInCall && peer) {
+    return (
+      <ActiveCallScreen
+        contact={peer}
+        localStream={localStream}
+        remoteStream={remoteStream}
+        isMuted={isMuted}
+        isVideoEnabled={isVideoEnabled}
+        onEnd={handleEnd}
+        onToggleMute={toggleMute}
+        onToggleVideo={toggleVideo}
+        onToggleSpeaker={toggleSpeaker}
+        onSwitchCamera={switchCamera}
+      />
+    );
+  }
+
+  const [title, description] = STEP_TEXT[step];
+  const isScanning = step === 'scan-offer' || step === 'scan-answer';
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'choose' && (
+          <div className="grid gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="outline" onClick={() => handleStart('AUDIO')}>
+                <Phone className="mr-2 h-4 w-4" />
+                Audio call
+              </Button>
+              <Button variant="outline" onClick={() => handleStart('VIDEO')}>
+                <Video className="mr-2 h-4 w-4" />
+                Video call
+              </Button>
+            </div>
+            <Button onClick={() => startScan('scan-offer')}>
+              <QrCode className="mr-2 h-4 w-4" />
+              Join a call
+            </Button>
+          </div>
+        )}
+
+        {step === 'preparing' && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+          </div>
+        )}
+
+        {(step === 'show-offer' || step === 'show-answer') && (
+          <AnimatedQRCode frames={frames} className="mx-auto w-full max-w-xs" />
+        )}
+
+        {isScanning && (
+          <div className="space-y-2">
+            <QRScanner onScan={handleScan} />
+            {scanProgress && (
+              <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+                Scanned {scanProgress.received} of {scanProgress.total} parts
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {step === 'show-offer' && (
+            <Button onClick={() => startScan('scan-answer')}>
+              Scan answer
+            </Button>
+          )}
+          {step === 'show-answer' && (
+            <Button disabled>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Waiting for the caller...
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
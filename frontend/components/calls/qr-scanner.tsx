@@ -0,0 +1,196 @@
+/**
+ * QR Scanner Component
+ *
+ * Scans QR codes with the back camera, using the browser's
+ * BarcodeDetector, or jsQR where it is missing (Safari, Firefox). Every
+ * code seen is reported, including repeats, so animated codes (see
+ * components/calls/animated-qr-code) can be collected.
+ *
+ * @module components/calls/qr-scanner
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+/**
+ * Pause between two scans of the camera image (ms)
+ */
+const SCAN_INTERVAL_MS = 100;
+
+/**
+ * Longest side of the camera image decoded by jsQR (px); larger images
+ * are scaled down, as decoding runs on the main thread
+ */
+const MAX_FALLBACK_IMAGE_SIZE = 640;
+
+/**
+ * BarcodeDetector (Shape Detection API), not in the DOM typings yet
+ */
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = {
+  new (options: { formats: string[] }): BarcodeDetector;
+  getSupportedFormats?: () => Promise<string[]>;
+};
+
+/**
+ * Find the QR codes in the current camera image
+ */
+type DetectCodes = (video: HTMLVideoElement) => Promise<string[]>;
+
+/**
+ * Create a QR code detector: the browser's BarcodeDetector when it reads
+ * QR codes, jsQR otherwise
+ */
+async function createDetector(): Promise<DetectCodes> {
+  const Detector = (
+    window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }
+  ).BarcodeDetector;
+  const formats = (await Detector?.getSupportedFormats?.()) ?? ['qr_code'];
+
+  if (Detector && formats.includes('qr_code')) {
+    const detector = new Detector({ formats: ['qr_code'] });
+    return async (video) =>
+      (await detector.detect(video)).map((code) => code.rawValue);
+  }
+
+  const { default: jsQR } = await import('jsqr');
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  return async (video) => {
+    const scale = Math.min(
+      1,
+      MAX_FALLBACK_IMAGE_SIZE / Math.max(video.videoWidth, video.videoHeight)
+    );
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    const code = jsQR(image.data, image.width, image.height, {
+      inversionAttempts: 'dontInvert',
+    });
+    return code ? [code.data] : [];
+  };
+}
+
+/**
+ * QR scanner props
+ */
+export interface QRScannerProps {
+  /** Callback for every QR code seen */
+  onScan: (text: string) => void;
+}
+
+/**
+ * QR Scanner Component
+ *
+ * @param props - Component props
+ * @returns QR scanner component
+ */
+export function QRScanner({ onScan }: QRScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isStarting, setIsStarting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The scan loop must not restart when the callback changes
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let detect: DetectCodes | null = null;
+    let stream: MediaStream | null = null;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+
+      if (detect && video.readyState >= video.HAVE_CURRENT_DATA) {
+        try {
+          const codes = await detect(video);
+          codes.forEach((code) => onScanRef.current(code));
+        } catch (err) {
+          console.error('[QRScanner] Detection failed:', err);
+        }
+      }
+
+      if (!stopped) timeout = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    const startCamera = () =>
+      navigator.mediaDevices
+        .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+        .then(async (mediaStream) => {
+          if (stopped) {
+            mediaStream.getTracks().forEach((track) => track.stop());
+            return;
+          }
+
+          stream = mediaStream;
+          if (videoRef.current) {
+            videoRef.current.srcObject = mediaStream;
+            await videoRef.current.play();
+          }
+          setIsStarting(false);
+          scan();
+        })
+        .catch((err) => {
+          console.error('[QRScanner] Failed to start camera:', err);
+          setIsStarting(false);
+          setError('Could not access the camera.');
+        });
+
+    createDetector()
+      .then((detector) => {
+        if (stopped) return;
+        detect = detector;
+        return startCamera();
+      })
+      .catch((err) => {
+        console.error('[QRScanner] No QR code detector:', err);
+        setIsStarting(false);
+        setError('This browser cannot scan QR codes.');
+      });
+
+    return () => {
+      stopped = true;
+      if (timeout) clearTimeout(timeout);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <p className="text-sm text-red-500" role="alert">
+        {error}
+      </p>
+    );
+  }
+
+  return (
+    <div className="relative aspect-square overflow-hidden rounded-lg bg-black">
+      <video
+        ref={videoRef}
+        className="h-full w-full object-cover"
+        autoPlay
+        playsInline
+        muted
+      />
+      {isStarting && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-white" />
+        </div>
+      )}
+    </div>
+  );
+}
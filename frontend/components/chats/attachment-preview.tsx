@@ -0,0 +1,228 @@
+/**
+ * Attachment Preview Component
+ *
+ * Inline rendering of a message attachment inside a message bubble:
+ * - Images: thumbnail, opens the full image on click
+ * - Videos and audio: player, loaded on demand
+ * - Voice messages: waveform player (see VoiceMessagePlayer)
+ * - Other files: name, size and download button
+ *
+ * Shows upload progress while the sender's file is being uploaded.
+ *
+ * @module components/chats/attachment-preview
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Download, FileText, ImageOff, Loader2, Play } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { useAttachmentUrl } from '@/hooks/use-attachment-url';
+import { formatFileSize } from '@/lib/utils';
+import { VoiceMessagePlayer } from './voice-message-player';
+import type { DBAttachment, DBMessage } from '@/lib/db';
+
+interface AttachmentPreviewProps {
+  attachment: DBAttachment;
+  type: DBMessage['type'];
+  isSent: boolean;
+  uploadProgress?: number;
+}
+
+/**
+ * Image attachment (thumbnail + full-size dialog)
+ */
+function ImageAttachment({ attachment }: { attachment: DBAttachment }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const thumbnail = useAttachmentUrl(attachment.id, {
+    thumbnail: attachment.hasThumbnail,
+  });
+  const original = useAttachmentUrl(attachment.id, { enabled: isOpen });
+
+  const aspectRatio =
+    attachment.width && attachment.height
+      ? `${attachment.width} / ${attachment.height}`
+      : undefined;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="block w-64 max-w-full overflow-hidden rounded-lg bg-black/10"
+        style={{ aspectRatio }}
+        aria-label={`Open ${attachment.fileName}`}
+      >
+        {thumbnail.url ? (
+          // eslint-disable-next-line @next/next/no-img-element -- blob URL
+          <img
+            src={thumbnail.url}
+            alt={attachment.fileName}
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <div className="flex h-40 items-center justify-center">
+            {thumbnail.error ? (
+              <ImageOff className="h-6 w-6 opacity-60" />
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin opacity-60" />
+            )}
+          </div>
+        )}
+      </button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-4xl p-2">
+          <DialogTitle className="sr-only">{attachment.fileName}</DialogTitle>
+          {original.url ? (
+            // eslint-disable-next-line @next/next/no-img-element -- blob URL
+            <img
+              src={original.url}
+              alt={attachment.fileName}
+              className="max-h-[80vh] w-full object-contain"
+            />
+          ) : (
+            <div className="flex h-64 items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+/**
+ * Video or audio attachment (downloaded when the user presses play)
+ */
+function MediaAttachment({
+  attachment,
+  kind,
+}: {
+  attachment: DBAttachment;
+  kind: 'video' | 'audio';
+}) {
+  const [isRequested, setIsRequested] = useState(false);
+  const media = useAttachmentUrl(attachment.id, { enabled: isRequested });
+
+  if (media.url) {
+    return kind === 'video' ? (
+      <video
+        src={media.url}
+        controls
+        autoPlay
+        className="w-64 max-w-full rounded-lg bg-black"
+      />
+    ) : (
+      <audio src={media.url} controls autoPlay className="w-64 max-w-full" />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setIsRequested(true)}
+      disabled={media.isLoading}
+      className="flex w-64 max-w-full items-center gap-3 rounded-lg bg-black/10 p-3 text-left"
+    >
+      {media.isLoading ? (
+        <Loader2 className="h-8 w-8 flex-shrink-0 animate-spin" />
+      ) : (
+        <Play className="h-8 w-8 flex-shrink-0" />
+      )}
+      <span className="min-w-0">
+        <span className="block truncate text-sm">{attachment.fileName}</span>
+        <span className="block text-xs opacity-75">
+          {media.error ? 'Failed to load' : formatFileSize(attachment.size)}
+        </span>
+      </span>
+    </button>
+  );
+}
+
+/**
+ * Generic file attachment (download button)
+ */
+function FileAttachment({ attachment }: { attachment: DBAttachment }) {
+  const [isRequested, setIsRequested] = useState(false);
+  const file = useAttachmentUrl(attachment.id, { enabled: isRequested });
+
+  return (
+    <div className="flex w-64 max-w-full items-center gap-3 rounded-lg bg-black/10 p-3">
+      <FileText className="h-8 w-8 flex-shrink-0" />
+      <span className="min-w-0 flex-1">
+        <span className="block truncate text-sm">{attachment.fileName}</span>
+        <span className="block text-xs opacity-75">
+          {formatFileSize(attachment.size)}
+        </span>
+      </span>
+      {file.url ? (
+        <a
+          href={file.url}
+          download={attachment.fileName}
+          aria-label={`Save ${attachment.fileName}`}
+        >
+          <Download className="h-5 w-5" />
+        </a>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsRequested(true)}
+          disabled={file.isLoading}
+          aria-label={`Download ${attachment.fileName}`}
+        >
+          {file.isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          ) : (
+            <Download className="h-5 w-5" />
+          )}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Attachment preview component
+ *
+ * @param props - Component props
+ * @returns Attachment preview
+ */
+export function AttachmentPreview({
+  attachment,
+  type,
+  isSent,
+  uploadProgress,
+}: AttachmentPreviewProps) {
+  return (
+    <div className="mb-1">
+      {type === 'IMAGE' ? (
+        <ImageAttachment attachment={attachment} />
+      ) : type === 'VIDEO' ? (
+        <MediaAttachment attachment={attachment} kind="video" />
+      ) : type === 'AUDIO' && attachment.waveform ? (
+        <VoiceMessagePlayer attachment={attachment} isSent={isSent} />
+      ) : type === 'AUDIO' ? (
+        <MediaAttachment attachment={attachment} kind="audio" />
+      ) : (
+        <FileAttachment attachment={attachment} />
+      )}
+
+      {/* Upload progress (sender only) */}
+      {isSent && uploadProgress !== undefined && (
+        <div
+          className="mt-1 h-1 w-full overflow-hidden rounded bg-white/30"
+          role="progressbar"
+          aria-valuenow={Math.round(uploadProgress * 100)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div
+            className="h-full bg-white transition-all"
+            style={{ width: `${uploadProgress * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
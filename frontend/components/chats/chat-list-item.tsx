@@ -2,8 +2,8 @@
  * Chat List Item Component
  *
  * Displays a single chat in the chat list with:
- * - Participant avatar and online status
- * - Display name
+ * - Participant avatar and online status (group avatar for group chats)
+ * - Display name (group title for group chats)
  * - Last message preview
  * - Timestamp
  * - Unread count badge
@@ -13,9 +13,10 @@
 
 'use client';
 
+import { Users } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { formatLastSeen, getUserInitials } from '@/lib/utils';
-import type { Chat } from '@/store/chats-store';
+import { getChatDisplayName, type Chat } from '@/store/chats-store';
 
 interface ChatListItemProps {
   chat: Chat;
@@ -31,9 +32,11 @@ interface ChatListItemProps {
  * @returns Chat list item component
  */
 export function ChatListItem({ chat, onClick }: ChatListItemProps) {
-  const displayName =
-    chat.participant.displayName || chat.participant.username;
+  const displayName = getChatDisplayName(chat);
   const initials = getUserInitials(displayName);
+  const avatarUrl = chat.group
+    ? chat.group.avatarUrl
+    : chat.participant?.avatarUrl;
 
   /**
    * Truncate last message to 50 characters
@@ -44,6 +47,14 @@ export function ChatListItem({ chat, onClick }: ChatListItemProps) {
       : chat.lastMessage
     : 'No messages yet';
 
+  /**
+   * Author of the last message in a group chat
+   */
+  const lastSender =
+    chat.group && chat.lastMessage
+      ? chat.group.members.find((member) => member.id === chat.lastMessageBy)
+      : undefined;
+
   /**
    * Format timestamp
    */
@@ -66,15 +77,12 @@ export function ChatListItem({ chat, onClick }: ChatListItemProps) {
       {/* Avatar with online status */}
       <div className="relative flex-shrink-0">
         <Avatar className="h-12 w-12">
-          <AvatarImage
-            src={chat.participant.avatarUrl || undefined}
-            alt={displayName}
-          />
+          <AvatarImage src={avatarUrl || undefined} alt={displayName} />
           <AvatarFallback className="bg-blue-600 text-white">
-            {initials}
+            {chat.group ? <Users className="h-6 w-6" /> : initials}
           </AvatarFallback>
         </Avatar>
-        {chat.participant.isOnline && (
+        {chat.participant?.isOnline && (
           <div className="absolute bottom-0 right-0 h-3 w-3 bg-green-500 border-2 border-white dark:border-gray-900 rounded-full" />
         )}
       </div>
@@ -99,6 +107,7 @@ export function ChatListItem({ chat, onClick }: ChatListItemProps) {
                 : 'text-gray-600 dark:text-gray-400'
             }`}
           >
+            {lastSender && `${lastSender.displayName || lastSender.username}: `}
             {truncatedMessage}
           </p>
           {chat.unreadCount > 0 && (
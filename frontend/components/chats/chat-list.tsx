@@ -22,7 +22,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { ChatListItem } from './chat-list-item';
 import { createApiClient } from '@/lib/api-client';
 import { useAuthStore } from '@/store/auth-store';
-import { useChatsStore } from '@/store/chats-store';
+import { useChatsStore, toChat } from '@/store/chats-store';
 import { useSocket } from '@/hooks/use-socket';
 
 /**
@@ -45,7 +45,7 @@ export function ChatList() {
   const setChats = useChatsStore((state) => state.setChats);
   const setLoading = useChatsStore((state) => state.setLoading);
   const setError = useChatsStore((state) => state.setError);
-  const updateLastMessage = useChatsStore((state) => state.updateLastMessage);
+  const hydratePreviews = useChatsStore((state) => state.hydratePreviews);
   const incrementUnreadCount = useChatsStore(
     (state) => state.incrementUnreadCount
   );
@@ -95,27 +95,15 @@ export function ChatList() {
       try {
         const response = await apiClient.getChats();
 
-        // Convert API response to store format
-        const formattedChats = response.chats.map((c) => ({
-          id: c.id,
-          createdAt: new Date(c.createdAt),
-          updatedAt: new Date(c.updatedAt),
-          lastMessage: c.lastMessage,
-          lastMessageAt: c.lastMessageAt ? new Date(c.lastMessageAt) : null,
-          lastMessageBy: c.lastMessageBy,
-          unreadCount: c.unreadCount,
-          participant: {
-            id: c.participant.id,
-            email: c.participant.email,
-            username: c.participant.username,
-            displayName: c.participant.displayName,
-            avatarUrl: c.participant.avatarUrl,
-            isOnline: c.participant.isOnline,
-            lastSeenAt: new Date(c.participant.lastSeenAt),
-          },
-        }));
+        // Convert API response to store format (previews filled below)
+        const formattedChats = response.chats.map(toChat);
 
         setChats(formattedChats);
+
+        // Messages are end-to-end encrypted: previews come from local storage
+        if (user) {
+          await hydratePreviews(user.id);
+        }
       } catch (err) {
         if (err && typeof err === 'object' && 'message' in err) {
           setError((err as { message: string }).message);
@@ -128,7 +116,15 @@ export function ChatList() {
     };
 
     loadChats();
-  }, [apiClient, chats.length, setChats, setError, setLoading]);
+  }, [
+    apiClient,
+    user,
+    chats.length,
+    setChats,
+    setError,
+    setLoading,
+    hydratePreviews,
+  ]);
 
   /**
    * Listen to Socket.io events for real-time updates
@@ -163,8 +159,7 @@ export function ChatList() {
         timestamp: string;
       };
 
-      // Update last message and increment unread count
-      updateLastMessage(validatedData.chatId, validatedData.message, validatedData.from);
+      // Preview is updated once the message is decrypted (useIncomingMessages)
       incrementUnreadCount(validatedData.chatId);
     };
 
@@ -197,7 +192,7 @@ export function ChatList() {
       off('message-received', handleMessageReceived);
       off('chat-read', handleChatRead);
     };
-  }, [on, off, updateLastMessage, incrementUnreadCount, markAsRead]);
+  }, [on, off, incrementUnreadCount, markAsRead]);
 
   /**
    * Handle chat click
@@ -3,36 +3,73 @@
  *
  * Main chat interface showing messages and input.
  * Features:
- * - Load messages from Dexie.js
+ * - Load messages from Dexie.js page by page (older pages on upward scroll)
+ * - Virtualized message list (only bubbles near the viewport are rendered)
  * - Real-time message updates via Socket.io
- * - Auto-scroll to bottom
+ * - Stay at the bottom while there, "jump to latest" button otherwise
+ * - Marker before the messages that were unread when the chat was opened
  * - Typing indicator
  * - Mark chat as read
+ * - Per-message read receipts when messages become visible
+ * - Edit and unsend own messages
+ * - Reply to messages, jump to the quoted original
+ * - Emoji reactions (sent once connected)
+ * - Group chats: sender names, member list and group management
  *
  * @module components/chats/chat-window
  */
 
 'use client';
 
-import { useEffect, useRef, useState, useMemo } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  useMemo,
+} from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, MoreVertical } from 'lucide-react';
+import {
+  ArrowDown,
+  ArrowLeft,
+  Loader2,
+  MoreVertical,
+  Users,
+} from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { MessageBubble } from './message-bubble';
 import { MessageInput } from './message-input';
+import { GroupInfoDialog } from './group-info-dialog';
 import { createApiClient } from '@/lib/api-client';
+import { getChatRecipients } from '@/lib/chat-recipients';
+import { enqueueSyncAction } from '@/lib/sync-queue';
+import { flushReactions } from '@/lib/reaction-outbox';
 import { useAuthStore } from '@/store/auth-store';
-import { useChatsStore } from '@/store/chats-store';
-import { useMessagesStore } from '@/store/messages-store';
+import { useChatsStore, getChatDisplayName } from '@/store/chats-store';
+import { useMessagesStore, type Message } from '@/store/messages-store';
 import { useSocket } from '@/hooks/use-socket';
+import { useVirtualList } from '@/hooks/use-virtual-list';
 import { getUserInitials } from '@/lib/utils';
 import type { Chat } from '@/store/chats-store';
 
+/**
+ * Distance (px) from the bottom within which the list counts as "at the
+ * bottom" and follows new messages
+ */
+const BOTTOM_THRESHOLD = 80;
+
+/**
+ * Distance (px) from the top at which the older page is loaded
+ */
+const LOAD_OLDER_THRESHOLD = 400;
+
 interface ChatWindowProps {
   chat: Chat;
+  highlightMessageId?: string | null; // Message to scroll to once loaded
 }
 
 /**
@@ -43,7 +80,7 @@ interface ChatWindowProps {
  * @param props - Component props
  * @returns Chat window component
  */
-export function ChatWindow({ chat }: ChatWindowProps) {
+export function ChatWindow({ chat, highlightMessageId }: ChatWindowProps) {
   const router = useRouter();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const [isTyping, setIsTyping] = useState(false);
@@ -54,15 +91,84 @@ export function ChatWindow({ chat }: ChatWindowProps) {
   const clearAuth = useAuthStore((state) => state.clearAuth);
 
   const markAsRead = useChatsStore((state) => state.markAsRead);
+  const refreshPreview = useChatsStore((state) => state.refreshPreview);
 
   const messages = useMessagesStore((state) => state.messages);
   const isLoading = useMessagesStore((state) => state.isLoading);
   const loadMessages = useMessagesStore((state) => state.loadMessages);
-  const addMessage = useMessagesStore((state) => state.addMessage);
+  const loadOlderMessages = useMessagesStore(
+    (state) => state.loadOlderMessages
+  );
+  const ensureMessageLoaded = useMessagesStore(
+    (state) => state.ensureMessageLoaded
+  );
+  const isLoadingOlder = useMessagesStore((state) => state.isLoadingOlder);
+  const chatQuery = useMessagesStore((state) => state.chatQuery);
+  const applyReceipt = useMessagesStore((state) => state.applyReceipt);
   const clearMessages = useMessagesStore((state) => state.clearMessages);
+  const applyDelete = useMessagesStore((state) => state.applyDelete);
+  const setEditingMessage = useMessagesStore(
+    (state) => state.setEditingMessage
+  );
+  const setReplyingTo = useMessagesStore((state) => state.setReplyingTo);
+  const reactions = useMessagesStore((state) => state.reactions);
+  const setReaction = useMessagesStore((state) => state.setReaction);
+
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isGroupInfoOpen, setIsGroupInfoOpen] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  );
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null);
+  const [unreadMarkerId, setUnreadMarkerId] = useState<string | null>(null);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const isAtBottomRef = useRef(true);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const unreadMarkedForRef = useRef<string | null>(null);
+
+  /**
+   * Scrolling element of the message list (Radix ScrollArea viewport)
+   */
+  const [viewport, setViewport] = useState<HTMLElement | null>(null);
+  useEffect(() => {
+    setViewport(
+      scrollAreaRef.current?.querySelector<HTMLElement>(
+        '[data-radix-scroll-area-viewport]'
+      ) ?? null
+    );
+  }, []);
+
+  const getMessageKey = useCallback(
+    (index: number) => messages[index].id,
+    [messages]
+  );
+  const virtualList = useVirtualList({
+    count: messages.length,
+    getKey: getMessageKey,
+    estimateSize: 72,
+    paddingStart: 16, // Top padding of the list
+    scrollElement: viewport,
+  });
+  const { scrollToIndex } = virtualList;
+
+  /**
+   * Loaded messages by ID (originals of replies)
+   */
+  const messagesById = useMemo(
+    () => new Map(messages.map((msg) => [msg.id, msg])),
+    [messages]
+  );
 
   const { on, off, emit } = useSocket();
 
+  /**
+   * Other participant, or the chat itself for a group (messages of a group
+   * are stored with the group as receiver)
+   */
+  const peerId = chat.participant?.id ?? chat.id;
+  const isGroup = !!chat.group;
+
   /**
    * Create API client instance (memoized to prevent infinite loops)
    */
@@ -94,13 +200,16 @@ export function ChatWindow({ chat }: ChatWindowProps) {
   useEffect(() => {
     if (!user) return;
 
-    loadMessages(user.id, chat.participant.id);
+    isAtBottomRef.current = true;
+    setIsAtBottom(true);
+    lastMessageIdRef.current = null;
+    loadMessages(user.id, peerId, isGroup);
 
     // Cleanup on unmount
     return () => {
       clearMessages();
     };
-  }, [user, chat.participant.id, loadMessages, clearMessages]);
+  }, [user, peerId, isGroup, loadMessages, clearMessages]);
 
   /**
    * Mark chat as read on mount
@@ -112,28 +221,199 @@ export function ChatWindow({ chat }: ChatWindowProps) {
         markAsRead(chat.id);
 
         // Emit chat-read event to notify other participant
-        emit('chat-read', { chatId: chat.id, to: chat.participant.id });
+        if (chat.participant) {
+          emit('chat-read', { chatId: chat.id, to: chat.participant.id });
+        }
       } catch (error) {
         console.error('Failed to mark chat as read:', error);
       }
     };
 
     markChatAsRead();
-  }, [chat.id, chat.participant.id, apiClient, markAsRead, emit]);
+  }, [chat.id, chat.participant, apiClient, markAsRead, emit]);
 
   /**
-   * Auto-scroll to bottom when new messages arrive
+   * Mark where the unread messages start once the chat is loaded
    */
   useEffect(() => {
-    if (scrollAreaRef.current) {
-      const scrollContainer = scrollAreaRef.current.querySelector(
-        '[data-radix-scroll-area-viewport]'
-      );
-      if (scrollContainer) {
-        scrollContainer.scrollTop = scrollContainer.scrollHeight;
-      }
+    if (
+      isLoading ||
+      !user ||
+      chatQuery?.peerId !== peerId ||
+      unreadMarkedForRef.current === peerId
+    ) {
+      return;
     }
-  }, [messages]);
+
+    unreadMarkedForRef.current = peerId;
+    const firstUnread = messages.find(
+      (msg) => msg.senderId !== user.id && msg.status !== 'READ'
+    );
+    setUnreadMarkerId(firstUnread?.id ?? null);
+  }, [isLoading, chatQuery, peerId, messages, user]);
+
+  /**
+   * Stay at the bottom when new messages arrive or bubbles are measured
+   *
+   * Sending a message always scrolls to it.
+   */
+  const lastMessage = messages[messages.length - 1];
+  useLayoutEffect(() => {
+    if (!viewport || !lastMessage) return;
+
+    if (
+      lastMessage.id !== lastMessageIdRef.current &&
+      lastMessage.senderId === user?.id &&
+      lastMessageIdRef.current !== null
+    ) {
+      isAtBottomRef.current = true;
+      setIsAtBottom(true);
+    }
+    lastMessageIdRef.current = lastMessage.id;
+
+    if (isAtBottomRef.current) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+  }, [viewport, lastMessage, virtualList.totalSize, user?.id]);
+
+  /**
+   * Track whether the list is at the bottom; load older messages near the top
+   */
+  useEffect(() => {
+    if (!viewport) return;
+
+    const handleScroll = () => {
+      const atBottom =
+        viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight <
+        BOTTOM_THRESHOLD;
+      if (atBottom !== isAtBottomRef.current) {
+        isAtBottomRef.current = atBottom;
+        setIsAtBottom(atBottom);
+      }
+
+      const { hasOlderMessages, isLoadingOlder: isLoadingPage } =
+        useMessagesStore.getState();
+      if (
+        viewport.scrollTop < LOAD_OLDER_THRESHOLD &&
+        hasOlderMessages &&
+        !isLoadingPage
+      ) {
+        loadOlderMessages();
+      }
+    };
+
+    viewport.addEventListener('scroll', handleScroll, { passive: true });
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, [viewport, loadOlderMessages]);
+
+  /**
+   * Scroll to the newest message
+   */
+  const handleJumpToLatest = () => {
+    if (!viewport) return;
+    isAtBottomRef.current = true;
+    setIsAtBottom(true);
+    viewport.scrollTop = viewport.scrollHeight;
+  };
+
+  /**
+   * Send READ receipts for received messages as they become visible
+   *
+   * A message counts as read once most of its bubble is inside the viewport
+   * while the tab is visible. Receipts are batched briefly. Bubbles are
+   * observed again whenever a different range of them is rendered.
+   */
+  const renderedRange = virtualList.items.length
+    ? `${virtualList.items[0].key}:${virtualList.items[virtualList.items.length - 1].key}`
+    : '';
+  useEffect(() => {
+    const viewport = scrollAreaRef.current?.querySelector<HTMLElement>(
+      '[data-radix-scroll-area-viewport]'
+    );
+    if (!viewport) return;
+
+    const unreadIds = new Set(
+      messages
+        .filter((msg) => msg.senderId !== user?.id && msg.status !== 'READ')
+        .map((msg) => msg.id)
+    );
+    const senderById = new Map(messages.map((msg) => [msg.id, msg.senderId]));
+    if (unreadIds.size === 0) return;
+
+    const visibleIds = new Set<string>();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      if (document.visibilityState !== 'visible' || visibleIds.size === 0) {
+        return;
+      }
+
+      const messageIds = Array.from(visibleIds);
+      visibleIds.clear();
+      messageIds.forEach((id) => unreadIds.delete(id));
+
+      applyReceipt(messageIds, 'READ');
+
+      // Each sender gets the receipts of their own messages
+      const bySender = new Map<string, string[]>();
+      messageIds.forEach((id) => {
+        const senderId = senderById.get(id);
+        if (!senderId) return;
+        bySender.set(senderId, [...(bySender.get(senderId) ?? []), id]);
+      });
+      bySender.forEach((ids, senderId) => {
+        emit('message-read', { to: senderId, chatId: chat.id, messageIds: ids });
+      });
+    };
+
+    const scheduleFlush = () => {
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, 300);
+      }
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const id = (entry.target as HTMLElement).dataset.messageId;
+          if (!id || !unreadIds.has(id)) return;
+
+          if (entry.isIntersecting) {
+            visibleIds.add(id);
+          } else {
+            visibleIds.delete(id);
+          }
+        });
+        scheduleFlush();
+      },
+      { root: viewport, threshold: 0.6 }
+    );
+
+    viewport
+      .querySelectorAll<HTMLElement>('[data-message-id]')
+      .forEach((element) => {
+        if (unreadIds.has(element.dataset.messageId ?? '')) {
+          observer.observe(element);
+        }
+      });
+
+    // Messages seen while the tab was hidden are read when it comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        scheduleFlush();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+    };
+  }, [messages, renderedRange, user?.id, chat.id, applyReceipt, emit]);
 
   /**
    * Listen to Socket.io events
@@ -143,8 +423,11 @@ export function ChatWindow({ chat }: ChatWindowProps) {
 
     /**
      * Handle incoming message
+     *
+     * The message itself is decrypted and stored by useIncomingMessages;
+     * here we only mark the chat as read since the user is viewing it.
      */
-    const handleMessageReceived = async (...args: unknown[]) => {
+    const handleMessageReceived = (...args: unknown[]) => {
       // Type guard: validate incoming data structure
       const data = args[0];
       if (
@@ -170,23 +453,9 @@ export function ChatWindow({ chat }: ChatWindowProps) {
         timestamp: string;
       };
 
-      // Only handle messages for this chat
-      if (validatedData.chatId !== chat.id) return;
-
-      const newMessage = {
-        id: `${validatedData.from}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        senderId: validatedData.from,
-        receiverId: user.id,
-        content: validatedData.message,
-        type: 'TEXT' as const,
-        status: 'DELIVERED' as const,
-        createdAt: new Date(validatedData.timestamp),
-        updatedAt: new Date(validatedData.timestamp),
-        localOnly: false,
-      };
-
-      // Save to Dexie.js and state
-      await addMessage(newMessage);
+      // Only handle messages for this chat (1-on-1: groups have no read
+      // notification)
+      if (validatedData.chatId !== chat.id || isGroup) return;
 
       // Mark as read immediately (since user is viewing the chat)
       emit('chat-read', { chatId: chat.id, to: validatedData.from });
@@ -251,14 +520,167 @@ export function ChatWindow({ chat }: ChatWindowProps) {
       off('typing-start', handleTypingStart);
       off('typing-stop', handleTypingStop);
     };
-  }, [user, chat.id, chat.participant.id, on, off, emit, addMessage]);
+  }, [user, chat.id, isGroup, on, off, emit]);
+
+  /**
+   * Unsend an own message for everyone in the chat
+   *
+   * The message is deleted locally at once. The recipients get the deletion
+   * when this device is online (see lib/sync-queue) or, if they are
+   * offline, with their queued messages. The attachment (if any) is then
+   * removed from the server.
+   */
+  const handleDeleteMessage = async (message: Message) => {
+    if (!user) return;
+
+    const recipients = getChatRecipients(chat, user.id);
+    if (!recipients) return;
+
+    setActionError(null);
+    const deletedAt = new Date();
+
+    try {
+      await applyDelete(message.id, deletedAt);
+      await enqueueSyncAction({
+        type: 'message-delete',
+        chatId: chat.id,
+        messageId: message.id,
+        recipients,
+        deletedAt: deletedAt.toISOString(),
+        attachmentId: message.attachment?.id,
+      });
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+      setActionError('Could not delete the message.');
+      return;
+    }
+
+    await refreshPreview(user.id, chat.id);
+  };
+
+  /**
+   * Set or remove the user's reaction to a message
+   *
+   * The reaction is saved first and sent when possible, so reacting also
+   * works offline.
+   */
+  const handleReact = async (message: Message, emoji: string | null) => {
+    if (!user) return;
+
+    setActionError(null);
+
+    try {
+      await setReaction(
+        {
+          messageId: message.id,
+          userId: user.id,
+          chatId: chat.id,
+          peerId,
+        },
+        emoji
+      );
+    } catch {
+      setActionError('Could not save the reaction.');
+      return;
+    }
+
+    flushReactions();
+  };
+
+  /**
+   * Scroll to a message (e.g. the original of a reply) and highlight it
+   */
+  const handleJumpToMessage = useCallback(
+    async (messageId: string) => {
+      // Older pages are loaded back to the message if needed
+      if (!(await ensureMessageLoaded(messageId))) {
+        setActionError('The original message is not available');
+        return;
+      }
+
+      setActionError(null);
+      setJumpTargetId(messageId);
+    },
+    [ensureMessageLoaded]
+  );
+
+  /**
+   * Scroll to the jump target once it is in the list, and highlight it
+   */
+  useLayoutEffect(() => {
+    if (!jumpTargetId) return;
+    const index = messages.findIndex((msg) => msg.id === jumpTargetId);
+    if (index === -1) return;
+
+    setJumpTargetId(null);
+    isAtBottomRef.current = false;
+    scrollToIndex(index, 'center');
+    // Again once the bubbles around it have been measured
+    requestAnimationFrame(() => scrollToIndex(index, 'center'));
+
+    setHighlightedId(jumpTargetId);
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(
+      () => setHighlightedId(null),
+      1500
+    );
+  }, [jumpTargetId, messages, scrollToIndex]);
+
+  /**
+   * Scroll to the requested message (e.g. a search result) once the chat is
+   * loaded
+   */
+  const jumpedToRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (
+      !highlightMessageId ||
+      jumpedToRef.current === highlightMessageId ||
+      isLoading ||
+      chatQuery?.peerId !== peerId
+    ) {
+      return;
+    }
+
+    jumpedToRef.current = highlightMessageId;
+    handleJumpToMessage(highlightMessageId);
+  }, [highlightMessageId, isLoading, chatQuery, peerId, handleJumpToMessage]);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
 
   /**
    * Get display name and initials
    */
-  const displayName =
-    chat.participant.displayName || chat.participant.username;
+  const displayName = getChatDisplayName(chat);
   const initials = getUserInitials(displayName);
+  const avatarUrl = chat.group
+    ? chat.group.avatarUrl
+    : chat.participant?.avatarUrl;
+
+  /**
+   * Received messages not read yet (shown on the "jump to latest" button)
+   */
+  const unreadCount = messages.filter(
+    (msg) => msg.senderId !== user?.id && msg.status !== 'READ'
+  ).length;
+
+  /**
+   * Get the name of a user of this chat ('You' for the current user)
+   */
+  const resolveName = (userId: string): string => {
+    if (userId === user?.id) return 'You';
+    if (!chat.group) return displayName;
+
+    const member = chat.group.members.find((item) => item.id === userId);
+    return member ? member.displayName || member.username : 'Former member';
+  };
 
   return (
     <div className="flex flex-col h-full bg-white dark:bg-gray-900">
@@ -275,15 +697,12 @@ export function ChatWindow({ chat }: ChatWindowProps) {
 
         <div className="relative flex-shrink-0">
           <Avatar className="h-10 w-10">
-            <AvatarImage
-              src={chat.participant.avatarUrl || undefined}
-              alt={displayName}
-            />
+            <AvatarImage src={avatarUrl || undefined} alt={displayName} />
             <AvatarFallback className="bg-blue-600 text-white">
-              {initials}
+              {chat.group ? <Users className="h-5 w-5" /> : initials}
             </AvatarFallback>
           </Avatar>
-          {chat.participant.isOnline && (
+          {chat.participant?.isOnline && (
             <div className="absolute bottom-0 right-0 h-3 w-3 bg-green-500 border-2 border-white dark:border-gray-900 rounded-full" />
           )}
         </div>
@@ -292,53 +711,160 @@ export function ChatWindow({ chat }: ChatWindowProps) {
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
             {displayName}
           </h2>
-          {isTyping && (
+          {isTyping ? (
             <p className="text-sm text-blue-600 dark:text-blue-400">
               typing...
             </p>
+          ) : (
+            chat.group && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {chat.group.members.length} members
+              </p>
+            )
           )}
         </div>
 
-        <Button variant="ghost" size="icon">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsGroupInfoOpen(true)}
+          disabled={!chat.group}
+          aria-label={chat.group ? 'Group info' : undefined}
+        >
           <MoreVertical className="h-5 w-5" />
         </Button>
       </div>
 
+      {chat.group && user && (
+        <GroupInfoDialog
+          apiClient={apiClient}
+          chatId={chat.id}
+          group={chat.group}
+          currentUserId={user.id}
+          open={isGroupInfoOpen}
+          onOpenChange={setIsGroupInfoOpen}
+        />
+      )}
+
       {/* Messages */}
-      <ScrollArea ref={scrollAreaRef} className="flex-1">
-        {isLoading ? (
-          <div className="space-y-4 p-4">
-            {[...Array(5)].map((_, i) => (
-              <div
-                key={i}
-                className={`flex ${i % 2 === 0 ? 'justify-end' : 'justify-start'}`}
-              >
-                <Skeleton className="h-16 w-2/3 rounded-2xl" />
-              </div>
-            ))}
-          </div>
-        ) : messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full p-8">
-            <p className="text-gray-500 dark:text-gray-400 text-center">
-              No messages yet. Start the conversation!
-            </p>
-          </div>
-        ) : (
-          <div className="py-4">
-            {messages.map((message) => (
-              <MessageBubble
-                key={message.id}
-                message={message}
-                isSent={message.senderId === user?.id}
-              />
-            ))}
+      <div className="relative flex-1 min-h-0">
+        <ScrollArea ref={scrollAreaRef} className="h-full">
+          {isLoading ? (
+            <div className="space-y-4 p-4">
+              {[...Array(5)].map((_, i) => (
+                <div
+                  key={i}
+                  className={`flex ${i % 2 === 0 ? 'justify-end' : 'justify-start'}`}
+                >
+                  <Skeleton className="h-16 w-2/3 rounded-2xl" />
+                </div>
+              ))}
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="flex items-center justify-center h-full p-8">
+              <p className="text-gray-500 dark:text-gray-400 text-center">
+                No messages yet. Start the conversation!
+              </p>
+            </div>
+          ) : (
+            <div
+              style={{
+                paddingTop: 16 + virtualList.paddingTop,
+                paddingBottom: 16 + virtualList.paddingBottom,
+              }}
+            >
+              {virtualList.items.map(({ index, key }) => {
+                const message = messages[index];
+
+                return (
+                  <div
+                    key={key}
+                    ref={virtualList.measureElement}
+                    data-virtual-key={key}
+                    className="flow-root"
+                  >
+                    {message.id === unreadMarkerId && (
+                      <div className="mb-4 flex items-center gap-3 px-4">
+                        <div className="h-px flex-1 bg-blue-200 dark:bg-blue-900" />
+                        <span className="text-xs font-medium text-blue-600 dark:text-blue-400">
+                          Unread messages
+                        </span>
+                        <div className="h-px flex-1 bg-blue-200 dark:bg-blue-900" />
+                      </div>
+                    )}
+                    <MessageBubble
+                      message={message}
+                      isSent={message.senderId === user?.id}
+                      senderName={
+                        chat.group ? resolveName(message.senderId) : undefined
+                      }
+                      quotedMessage={
+                        message.replyToId
+                          ? messagesById.get(message.replyToId)
+                          : undefined
+                      }
+                      quoteAuthorName={
+                        message.replyQuote
+                          ? resolveName(message.replyQuote.senderId)
+                          : undefined
+                      }
+                      isHighlighted={message.id === highlightedId}
+                      onReply={setReplyingTo}
+                      onEdit={setEditingMessage}
+                      onDelete={handleDeleteMessage}
+                      onJumpToMessage={handleJumpToMessage}
+                      reactions={reactions[message.id]}
+                      currentUserId={user?.id}
+                      resolveName={resolveName}
+                      onReact={handleReact}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        {isLoadingOlder && (
+          <div className="pointer-events-none absolute inset-x-0 top-2 flex justify-center">
+            <Loader2
+              className="h-5 w-5 animate-spin text-gray-400"
+              aria-label="Loading older messages"
+            />
           </div>
         )}
-      </ScrollArea>
+
+        {!isAtBottom && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleJumpToLatest}
+            className="absolute bottom-4 right-4 rounded-full shadow-md"
+            aria-label="Jump to latest messages"
+          >
+            <ArrowDown className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-2 -right-2 inline-flex min-w-[20px] h-5 items-center justify-center rounded-full bg-blue-600 px-1.5 text-xs font-semibold text-white">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        )}
+      </div>
+
+      {actionError && (
+        <p className="px-4 pt-2 text-sm text-red-500" role="alert">
+          {actionError}
+        </p>
+      )}
 
       {/* Input */}
-      <MessageInput chatId={chat.id} participantId={chat.participant.id} />
+      <MessageInput
+        chatId={chat.id}
+        participantId={peerId}
+        participantName={displayName}
+        group={chat.group}
+      />
     </div>
   );
 }
-
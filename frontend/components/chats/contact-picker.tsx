@@ -0,0 +1,78 @@
+/**
+ * Contact Picker Component
+ *
+ * Checkbox list of accepted contacts, used to choose the members of a
+ * group chat.
+ *
+ * @module components/chats/contact-picker
+ */
+
+'use client';
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { getUserInitials } from '@/lib/utils';
+import type { ContactWithUser } from '@/lib/api-types';
+
+interface ContactPickerProps {
+  contacts: ContactWithUser[];
+  selectedIds: string[]; // Selected user IDs
+  onToggle: (userId: string) => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Contact picker component
+ *
+ * @param props - Component props
+ * @returns Contact picker component
+ */
+export function ContactPicker({
+  contacts,
+  selectedIds,
+  onToggle,
+  isLoading = false,
+}: ContactPickerProps) {
+  if (isLoading) {
+    return (
+      <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+        Loading contacts...
+      </p>
+    );
+  }
+
+  if (contacts.length === 0) {
+    return (
+      <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+        No contacts to add.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="max-h-64 space-y-1 overflow-y-auto">
+      {contacts.map(({ contact }) => {
+        const name = contact.displayName || contact.username;
+
+        return (
+          <li key={contact.id}>
+            <label className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-2 hover:bg-gray-100 dark:hover:bg-gray-800">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-blue-600"
+                checked={selectedIds.includes(contact.id)}
+                onChange={() => onToggle(contact.id)}
+              />
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={contact.avatarUrl || undefined} alt={name} />
+                <AvatarFallback className="bg-blue-600 text-xs text-white">
+                  {getUserInitials(name)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="flex-1 truncate text-sm">{name}</span>
+            </label>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
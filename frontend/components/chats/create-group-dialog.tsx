@@ -0,0 +1,170 @@
+/**
+ * Create Group Dialog Component
+ *
+ * Dialog for starting a group chat: a title and the accepted contacts to
+ * invite. The creator becomes the group's admin; the new chat is added to
+ * the chat list and opened.
+ *
+ * @module components/chats/create-group-dialog
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ContactPicker } from './contact-picker';
+import type { ApiClient } from '@/lib/api-client';
+import type { ApiErrorResponse, ContactWithUser } from '@/lib/api-types';
+import { useChatsStore, toChat } from '@/store/chats-store';
+
+interface CreateGroupDialogProps {
+  apiClient: ApiClient;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create group dialog component
+ *
+ * @param props - Component props
+ * @returns Create group dialog component
+ */
+export function CreateGroupDialog({
+  apiClient,
+  open,
+  onOpenChange,
+}: CreateGroupDialogProps) {
+  const router = useRouter();
+  const addOrUpdateChat = useChatsStore((state) => state.addOrUpdateChat);
+
+  const [title, setTitle] = useState('');
+  const [contacts, setContacts] = useState<ContactWithUser[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoadingContacts, setIsLoadingContacts] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load accepted contacts when the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setTitle('');
+    setSelectedIds([]);
+    setError(null);
+    setIsLoadingContacts(true);
+
+    apiClient
+      .getContacts('ACCEPTED')
+      .then((response) => {
+        if (!cancelled) setContacts(response.contacts);
+      })
+      .catch((err) => {
+        console.error('Failed to load contacts:', err);
+        if (!cancelled) setError('Failed to load contacts');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingContacts(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, apiClient]);
+
+  const toggleMember = (userId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(userId)
+        ? ids.filter((id) => id !== userId)
+        : [...ids, userId]
+    );
+  };
+
+  /**
+   * Create the group and open it
+   */
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.createGroup({
+        title: title.trim(),
+        memberIds: selectedIds,
+      });
+
+      addOrUpdateChat(toChat(response.chat));
+      onOpenChange(false);
+      router.push(`/chats/${response.chat.id}`);
+    } catch (err) {
+      setError((err as ApiErrorResponse).message || 'Failed to create group');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>
+            Name the group and choose contacts to invite.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="group-title">Title</Label>
+          <Input
+            id="group-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={100}
+            placeholder="Group name"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Members</Label>
+          <ContactPicker
+            contacts={contacts}
+            selectedIds={selectedIds}
+            onToggle={toggleMember}
+            isLoading={isLoadingContacts}
+          />
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={isSubmitting || !title.trim() || selectedIds.length === 0}
+          >
+            {isSubmitting ? 'Creating...' : 'Create group'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * Group Info Dialog Component
+ *
+ * Shows a group chat's title and members with their roles.
+ * Every member can leave the group. Admins can also rename it, invite
+ * contacts, remove members and make members admins (or demote admins).
+ *
+ * The server tells every member about changes (`group-updated`); the dialog
+ * also applies the result of its own actions right away.
+ *
+ * @module components/chats/group-info-dialog
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { MoreVertical, UserPlus } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { ContactPicker } from './contact-picker';
+import type { ApiClient } from '@/lib/api-client';
+import type { ApiErrorResponse, ContactWithUser } from '@/lib/api-types';
+import { getUserInitials } from '@/lib/utils';
+import {
+  useChatsStore,
+  toChatGroup,
+  type ChatGroup,
+  type GroupMember,
+} from '@/store/chats-store';
+
+interface GroupInfoDialogProps {
+  apiClient: ApiClient;
+  chatId: string;
+  group: ChatGroup;
+  currentUserId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Group info dialog component
+ *
+ * @param props - Component props
+ * @returns Group info dialog component
+ */
+export function GroupInfoDialog({
+  apiClient,
+  chatId,
+  group,
+  currentUserId,
+  open,
+  onOpenChange,
+}: GroupInfoDialogProps) {
+  const router = useRouter();
+  const updateGroup = useChatsStore((state) => state.updateGroup);
+  const deleteChat = useChatsStore((state) => state.deleteChat);
+
+  const [title, setTitle] = useState(group.title);
+  const [isInviting, setIsInviting] = useState(false);
+  const [contacts, setContacts] = useState<ContactWithUser[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = group.members.some(
+    (member) => member.id === currentUserId && member.role === 'ADMIN'
+  );
+
+  /**
+   * Reset the form when the dialog opens
+   */
+  useEffect(() => {
+    if (open) {
+      setTitle(group.title);
+      setIsInviting(false);
+      setSelectedIds([]);
+      setError(null);
+    }
+  }, [open, group.title]);
+
+  /**
+   * Run a group action, then show the group as the server now has it
+   */
+  const runAction = async (
+    action: () => Promise<unknown>,
+    failure: string
+  ): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      await action();
+      const response = await apiClient.getGroup(chatId);
+      updateGroup(chatId, toChatGroup(response.group));
+      return true;
+    } catch (err) {
+      setError((err as ApiErrorResponse).message || failure);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = () =>
+    runAction(
+      () => apiClient.updateGroup(chatId, { title: title.trim() }),
+      'Failed to rename group'
+    );
+
+  const handleSetRole = (member: GroupMember) =>
+    runAction(
+      () =>
+        apiClient.setGroupMemberRole(
+          chatId,
+          member.id,
+          member.role === 'ADMIN' ? 'MEMBER' : 'ADMIN'
+        ),
+      'Failed to change role'
+    );
+
+  const handleRemove = (member: GroupMember) =>
+    runAction(
+      () => apiClient.removeGroupMember(chatId, member.id),
+      'Failed to remove member'
+    );
+
+  /**
+   * Show contacts that are not members yet
+   */
+  const startInvite = async () => {
+    setIsInviting(true);
+    setSelectedIds([]);
+    setError(null);
+
+    try {
+      const response = await apiClient.getContacts('ACCEPTED');
+      setContacts(
+        response.contacts.filter(
+          ({ contact }) =>
+            !group.members.some((member) => member.id === contact.id)
+        )
+      );
+    } catch (err) {
+      console.error('Failed to load contacts:', err);
+      setError('Failed to load contacts');
+    }
+  };
+
+  const handleInvite = async () => {
+    if (
+      await runAction(
+        () => apiClient.addGroupMembers(chatId, selectedIds),
+        'Failed to invite members'
+      )
+    ) {
+      setIsInviting(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      await apiClient.leaveGroup(chatId);
+      deleteChat(chatId);
+      onOpenChange(false);
+      router.push('/chats');
+    } catch (err) {
+      setError((err as ApiErrorResponse).message || 'Failed to leave group');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{group.title}</DialogTitle>
+          <DialogDescription>
+            {group.members.length}{' '}
+            {group.members.length === 1 ? 'member' : 'members'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={100}
+              aria-label="Group title"
+            />
+            <Button
+              variant="outline"
+              onClick={handleRename}
+              disabled={isBusy || !title.trim() || title.trim() === group.title}
+            >
+              Rename
+            </Button>
+          </div>
+        )}
+
+        {isInviting ? (
+          <div className="space-y-2">
+            <ContactPicker
+              contacts={contacts}
+              selectedIds={selectedIds}
+              onToggle={(userId) =>
+                setSelectedIds((ids) =>
+                  ids.includes(userId)
+                    ? ids.filter((id) => id !== userId)
+                    : [...ids, userId]
+                )
+              }
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsInviting(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleInvite}
+                disabled={isBusy || selectedIds.length === 0}
+              >
+                Invite
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <ul className="max-h-72 space-y-1 overflow-y-auto">
+            {group.members.map((member) => {
+              const name = member.displayName || member.username;
+              const isSelf = member.id === currentUserId;
+
+              return (
+                <li
+                  key={member.id}
+                  className="flex items-center gap-3 rounded-lg px-2 py-2"
+                >
+                  <div className="relative flex-shrink-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage
+                        src={member.avatarUrl || undefined}
+                        alt={name}
+                      />
+                      <AvatarFallback className="bg-blue-600 text-xs text-white">
+                        {getUserInitials(name)}
+                      </AvatarFallback>
+                    </Avatar>
+                    {member.isOnline && (
+                      <div className="absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full border-2 border-white bg-green-500 dark:border-gray-900" />
+                    )}
+                  </div>
+                  <span className="flex-1 truncate text-sm">
+                    {isSelf ? 'You' : name}
+                  </span>
+                  {member.role === 'ADMIN' && (
+                    <span className="text-xs text-blue-600 dark:text-blue-400">
+                      Admin
+                    </span>
+                  )}
+                  {isAdmin && !isSelf && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          disabled={isBusy}
+                          aria-label={`Manage ${name}`}
+                        >
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleSetRole(member)}>
+                          {member.role === 'ADMIN'
+                            ? 'Remove admin'
+                            : 'Make admin'}
+                        </DropdownMenuItem>
+                        {member.role !== 'ADMIN' && (
+                          <DropdownMenuItem
+                            onClick={() => handleRemove(member)}
+                            className="text-red-600 focus:text-red-600"
+                          >
+                            Remove from group
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">
+            {error}
+          </p>
+        )}
+
+        {!isInviting && (
+          <div className="flex justify-between gap-2">
+            {isAdmin ? (
+              <Button variant="outline" onClick={startInvite} disabled={isBusy}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Invite
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button
+              variant="destructive"
+              onClick={handleLeave}
+              disabled={isBusy}
+            >
+              Leave group
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
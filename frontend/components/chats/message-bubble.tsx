@@ -3,20 +3,164 @@
  *
  * Displays a single message in the chat window.
  * Shows different styles for sent/received messages.
- * Displays message status and timestamp.
+ * Displays message status (exact delivery ticks) and timestamp.
+ * Renders attachments (images, videos, audio, files) inline.
+ * Every message can be replied to; own messages can also be edited (within
+ * the edit window) or unsent. Edited messages show an "edited" label that
+ * opens their history. Replies show a quote of the original message, which
+ * jumps to it when clicked. Emoji reactions are shown under the bubble with
+ * their counts; clicking them lists who reacted. In group chats, received
+ * messages are labelled with their sender's name.
  *
  * @module components/chats/message-bubble
  */
 
 'use client';
 
-import { Check, CheckCheck, Clock } from 'lucide-react';
+import { useState } from 'react';
+import {
+  Ban,
+  Check,
+  CheckCheck,
+  ChevronDown,
+  Clock,
+  Lock,
+  Pencil,
+  Reply,
+  Trash2,
+} from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { DBReaction } from '@/lib/db';
 import { formatLastSeen } from '@/lib/utils';
-import type { Message } from '@/store/messages-store';
+import { getMessagePreview } from '@/lib/message-body';
+import { canDeleteMessage, canEditMessage } from '@/lib/message-edit';
+import { useMessagesStore, type Message } from '@/store/messages-store';
+import { AttachmentPreview } from './attachment-preview';
 
 interface MessageBubbleProps {
   message: Message;
   isSent: boolean;
+  senderName?: string; // Shown above received messages in group chats
+  quotedMessage?: Message; // Original of a reply, if stored locally
+  quoteAuthorName?: string; // Display name of the quoted message's author
+  isHighlighted?: boolean; // Briefly set after jumping to this message
+  onReply?: (message: Message) => void;
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
+  onJumpToMessage?: (messageId: string) => void;
+  reactions?: DBReaction[]; // Current reactions to this message
+  currentUserId?: string;
+  resolveName?: (userId: string) => string; // Display names of reacting users
+  onReact?: (message: Message, emoji: string | null) => void;
+}
+
+/**
+ * Emoji offered in the actions menu
+ */
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+/**
+ * Dialog listing who reacted to a message, grouped by emoji
+ */
+function ReactionsDialog({
+  groups,
+  resolveName,
+  open,
+  onOpenChange,
+}: {
+  groups: [string, DBReaction[]][];
+  resolveName?: (userId: string) => string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Reactions</DialogTitle>
+          <DialogDescription>Who reacted to this message.</DialogDescription>
+        </DialogHeader>
+        <ul className="max-h-80 space-y-2 overflow-y-auto">
+          {groups.flatMap(([emoji, reactions]) =>
+            reactions.map((reaction) => (
+              <li
+                key={reaction.userId}
+                className="flex items-center gap-3 rounded-lg bg-gray-100 px-3 py-2 dark:bg-gray-800"
+              >
+                <span className="text-lg">{emoji}</span>
+                <span className="flex-1 truncate text-sm">
+                  {resolveName?.(reaction.userId) ?? reaction.userId}
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dialog listing the versions of an edited message (oldest first)
+ */
+function EditHistoryDialog({
+  message,
+  open,
+  onOpenChange,
+}: {
+  message: Message;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const versions = [
+    ...(message.editHistory ?? []),
+    {
+      content: message.content,
+      createdAt: message.editedAt ?? message.createdAt,
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            Earlier versions of this message, oldest first.
+          </DialogDescription>
+        </DialogHeader>
+        <ol className="max-h-80 space-y-3 overflow-y-auto">
+          {versions.map((version, index) => (
+            <li
+              key={index}
+              className="rounded-lg bg-gray-100 px-3 py-2 dark:bg-gray-800"
+            >
+              <p className="text-sm whitespace-pre-wrap break-words">
+                {version.content}
+              </p>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {index === versions.length - 1 ? 'Current · ' : ''}
+                {version.createdAt.toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </DialogContent>
+    </Dialog>
+  );
 }
 
 /**
@@ -27,7 +171,71 @@ interface MessageBubbleProps {
  * @param props - Component props
  * @returns Message bubble component
  */
-export function MessageBubble({ message, isSent }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  isSent,
+  senderName,
+  quotedMessage,
+  quoteAuthorName,
+  isHighlighted = false,
+  onReply,
+  onEdit,
+  onDelete,
+  onJumpToMessage,
+  reactions,
+  currentUserId,
+  resolveName,
+  onReact,
+}: MessageBubbleProps) {
+  const uploadProgress = useMessagesStore(
+    (state) => state.uploadProgress[message.id]
+  );
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isReactionsOpen, setIsReactionsOpen] = useState(false);
+  // Edit window is checked again when the menu opens
+  const [menuOpenedAt, setMenuOpenedAt] = useState<number | null>(null);
+
+  const canEdit =
+    isSent &&
+    !!onEdit &&
+    canEditMessage(message, message.senderId, menuOpenedAt ?? Date.now());
+  const canDelete =
+    isSent && !!onDelete && canDeleteMessage(message, message.senderId);
+  const canRespond =
+    !message.deletedAt &&
+    !message.decryptionFailed &&
+    message.status !== 'SENDING' &&
+    message.status !== 'FAILED';
+  const canReply = !!onReply && canRespond;
+  const canReact = !!onReact && !!currentUserId && canRespond;
+
+  // Reactions grouped by emoji, in order of first use
+  const reactionGroups = new Map<string, DBReaction[]>();
+  (reactions ?? [])
+    .slice()
+    .sort((a, b) => a.reactedAt.getTime() - b.reactedAt.getTime())
+    .forEach((reaction) => {
+      reactionGroups.set(reaction.emoji, [
+        ...(reactionGroups.get(reaction.emoji) ?? []),
+        reaction,
+      ]);
+    });
+  const ownReaction = reactions?.find(
+    (reaction) => reaction.userId === currentUserId
+  )?.emoji;
+
+  /**
+   * Set an emoji as own reaction (choosing the current one removes it)
+   */
+  const toggleReaction = (emoji: string) => {
+    onReact?.(message, emoji === ownReaction ? null : emoji);
+  };
+
+  // Quote text: the stored original when available (reflects edits)
+  const quoteText = quotedMessage
+    ? getMessagePreview(quotedMessage)
+    : message.replyQuote?.snippet;
+
   /**
    * Get status icon based on message status
    */
@@ -36,13 +244,20 @@ export function MessageBubble({ message, isSent }: MessageBubbleProps) {
 
     switch (message.status) {
       case 'SENDING':
-        return <Clock className="h-3 w-3 text-gray-400" />;
+        return <Clock className="h-3 w-3 text-gray-400" aria-label="Sending" />;
       case 'SENT':
-        return <Check className="h-3 w-3 text-gray-400" />;
+        return <Check className="h-3 w-3 text-gray-400" aria-label="Sent" />;
       case 'DELIVERED':
-        return <CheckCheck className="h-3 w-3 text-gray-400" />;
+        return (
+          <CheckCheck
+            className="h-3 w-3 text-gray-400"
+            aria-label="Delivered"
+          />
+        );
       case 'READ':
-        return <CheckCheck className="h-3 w-3 text-blue-500" />;
+        return (
+          <CheckCheck className="h-3 w-3 text-blue-500" aria-label="Read" />
+        );
       case 'FAILED':
         return (
           <span className="text-xs text-red-500" title="Failed to send">
@@ -54,6 +269,75 @@ export function MessageBubble({ message, isSent }: MessageBubbleProps) {
     }
   };
 
+  /**
+   * Message actions menu (react, reply, edit, unsend)
+   */
+  const actionsMenu = (canReact || canReply || canEdit || canDelete) && (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) setMenuOpenedAt(Date.now());
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="mt-2 rounded p-1 text-gray-400 opacity-0 transition-opacity hover:text-gray-600 focus:opacity-100 group-hover:opacity-100 data-[state=open]:opacity-100 dark:hover:text-gray-200"
+          aria-label="Message actions"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={isSent ? 'end' : 'start'}>
+        {canReact && (
+          <>
+            <div className="flex gap-0.5" role="group" aria-label="React">
+              {QUICK_REACTIONS.map((emoji) => (
+                <DropdownMenuItem
+                  key={emoji}
+                  onClick={() => toggleReaction(emoji)}
+                  className={`justify-center px-2 text-lg ${
+                    emoji === ownReaction
+                      ? 'bg-blue-100 dark:bg-blue-900/40'
+                      : ''
+                  }`}
+                  aria-label={
+                    emoji === ownReaction
+                      ? `Remove reaction ${emoji}`
+                      : `React with ${emoji}`
+                  }
+                >
+                  {emoji}
+                </DropdownMenuItem>
+              ))}
+            </div>
+            {(canReply || canEdit || canDelete) && <DropdownMenuSeparator />}
+          </>
+        )}
+        {canReply && (
+          <DropdownMenuItem onClick={() => onReply?.(message)}>
+            <Reply className="mr-2 h-4 w-4" />
+            Reply
+          </DropdownMenuItem>
+        )}
+        {canEdit && (
+          <DropdownMenuItem onClick={() => onEdit?.(message)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </DropdownMenuItem>
+        )}
+        {canDelete && (
+          <DropdownMenuItem
+            onClick={() => onDelete?.(message)}
+            className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete for everyone
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
   /**
    * Format timestamp
    */
@@ -61,8 +345,13 @@ export function MessageBubble({ message, isSent }: MessageBubbleProps) {
 
   return (
     <div
-      className={`flex ${isSent ? 'justify-end' : 'justify-start'} mb-4 px-4`}
+      data-message-id={message.id}
+      className={`group flex items-start gap-1 ${isSent ? 'justify-end' : 'justify-start'} mb-4 px-4 transition-colors ${
+        isHighlighted ? 'bg-blue-100/60 dark:bg-blue-900/30' : ''
+      }`}
     >
+      {isSent && actionsMenu}
+
       <div
         className={`max-w-[70%] ${
           isSent
@@ -70,10 +359,57 @@ export function MessageBubble({ message, isSent }: MessageBubbleProps) {
             : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white rounded-r-2xl rounded-tl-2xl'
         } px-4 py-2 shadow-sm`}
       >
+        {!isSent && senderName && (
+          <p className="mb-0.5 text-xs font-semibold text-blue-600 dark:text-blue-400">
+            {senderName}
+          </p>
+        )}
+
+        {/* Quote of the message this one replies to */}
+        {message.replyToId && quoteText !== undefined && !message.deletedAt && (
+          <button
+            type="button"
+            onClick={() => onJumpToMessage?.(message.replyToId!)}
+            className={`mb-1 block w-full rounded-md border-l-2 px-2 py-1 text-left text-xs ${
+              isSent
+                ? 'border-white/70 bg-white/15'
+                : 'border-blue-600 bg-black/5 dark:bg-white/10'
+            }`}
+            aria-label="Go to quoted message"
+          >
+            <span className="block font-medium">{quoteAuthorName}</span>
+            <span className="block truncate opacity-80">{quoteText}</span>
+          </button>
+        )}
+
         {/* Message content */}
-        <p className="text-sm whitespace-pre-wrap break-words">
-          {message.content}
-        </p>
+        {message.deletedAt ? (
+          <p className="flex items-center gap-1 text-sm italic opacity-75">
+            <Ban className="h-3 w-3" />
+            {isSent ? 'You deleted this message' : 'This message was deleted'}
+          </p>
+        ) : message.decryptionFailed ? (
+          <p className="flex items-center gap-1 text-sm italic opacity-75">
+            <Lock className="h-3 w-3" />
+            Unable to decrypt this message
+          </p>
+        ) : (
+          <>
+            {message.attachment && (
+              <AttachmentPreview
+                attachment={message.attachment}
+                type={message.type}
+                isSent={isSent}
+                uploadProgress={uploadProgress}
+              />
+            )}
+            {message.content && (
+              <p className="text-sm whitespace-pre-wrap break-words">
+                {message.content}
+              </p>
+            )}
+          </>
+        )}
 
         {/* Timestamp and status */}
         <div
@@ -88,10 +424,66 @@ export function MessageBubble({ message, isSent }: MessageBubbleProps) {
           >
             {timestamp}
           </span>
+          {message.editedAt && !message.deletedAt && (
+            <button
+              type="button"
+              onClick={() => setIsHistoryOpen(true)}
+              className={`text-xs italic underline-offset-2 hover:underline ${
+                isSent ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'
+              }`}
+              aria-label="Show edit history"
+            >
+              edited
+            </button>
+          )}
           {getStatusIcon()}
         </div>
+
+        {/* Reactions with counts */}
+        {reactionGroups.size > 0 && !message.deletedAt && (
+          <div
+            className={`mt-1 flex flex-wrap gap-1 ${
+              isSent ? 'justify-end' : 'justify-start'
+            }`}
+          >
+            {Array.from(reactionGroups, ([emoji, group]) => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => setIsReactionsOpen(true)}
+                className={`flex items-center gap-1 rounded-full border px-1.5 py-0.5 text-xs shadow-sm ${
+                  emoji === ownReaction
+                    ? 'border-blue-400 bg-blue-50 text-blue-700 dark:border-blue-500 dark:bg-blue-950 dark:text-blue-200'
+                    : 'border-gray-200 bg-white text-gray-700 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-200'
+                }`}
+                aria-label={`${emoji} ${group.length}, show who reacted`}
+              >
+                <span>{emoji}</span>
+                {group.length > 1 && <span>{group.length}</span>}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
+
+      {!isSent && actionsMenu}
+
+      {message.editedAt && (
+        <EditHistoryDialog
+          message={message}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+        />
+      )}
+
+      {reactionGroups.size > 0 && (
+        <ReactionsDialog
+          groups={Array.from(reactionGroups)}
+          resolveName={resolveName}
+          open={isReactionsOpen}
+          onOpenChange={setIsReactionsOpen}
+        />
+      )}
     </div>
   );
 }
-
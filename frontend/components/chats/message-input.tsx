@@ -5,8 +5,13 @@
  * Features:
  * - Textarea with auto-resize
  * - Send button
- * - Typing indicators (emit typing-start/stop)
- * - Send message via Socket.io
+ * - Typing indicators (emit typing-start/stop, 1-on-1 chats only)
+ * - Send message via Socket.io (end-to-end encrypted, for every member of
+ *   a group chat; queued while offline)
+ * - Attach files (resumable upload, sent once uploaded)
+ * - Hold-to-record voice messages
+ * - Edit own messages (Escape cancels)
+ * - Reply to a message (quoted above the textarea, Escape cancels)
  * - Save to Dexie.js
  *
  * @module components/chats/message-input
@@ -15,7 +20,7 @@
 'use client';
 
 import { useState, useRef, useEffect, useMemo } from 'react';
-import { Send } from 'lucide-react';
+import { Mic, Paperclip, Pencil, Reply, Send, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { useSocket } from '@/hooks/use-socket';
@@ -23,13 +28,45 @@ import { useMessagesStore } from '@/store/messages-store';
 import { useAuthStore } from '@/store/auth-store';
 import { useChatsStore } from '@/store/chats-store';
 import { createApiClient } from '@/lib/api-client';
+import type { ChatRecipients } from '@/lib/chat-recipients';
+import {
+  attachmentMessageType,
+  createMessageReply,
+  encodeMessageBody,
+  getMessagePreview,
+  getReplyFields,
+  type MessageReply,
+} from '@/lib/message-body';
+import { startUpload, continueUpload } from '@/lib/attachment-upload';
+import { canEditMessage } from '@/lib/message-edit';
+import { enqueueSyncAction } from '@/lib/sync-queue';
+import {
+  seedAttachmentUrl,
+  storeAttachmentBlob,
+} from '@/hooks/use-attachment-url';
+import { useVoiceRecorder } from '@/hooks/use-voice-recorder';
+import {
+  formatVoiceDuration,
+  type VoiceRecording,
+} from '@/lib/voice-recording';
 import { useRouter } from 'next/navigation';
 import type { Message } from '@/store/messages-store';
-import type { Chat } from '@/store/chats-store';
+import { toChat, type Chat, type ChatGroup } from '@/store/chats-store';
+import type { DBAttachment } from '@/lib/db';
+import type { ApiAttachment, ApiErrorResponse } from '@/lib/api-types';
+
+/**
+ * Generate a client-side message ID
+ */
+function createMessageId(userId: string): string {
+  return `${userId}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
 
 interface MessageInputProps {
   chatId: string;
-  participantId: string;
+  participantId: string; // Other participant, or the chat ID of a group
+  participantName?: string;
+  group?: ChatGroup | null; // Metadata and members of a group chat
 }
 
 /**
@@ -40,15 +77,29 @@ interface MessageInputProps {
  * @param props - Component props
  * @returns Message input component
  */
-export function MessageInput({ chatId, participantId }: MessageInputProps) {
+export function MessageInput({
+  chatId,
+  participantId,
+  participantName,
+  group,
+}: MessageInputProps) {
   const [message, setMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
 
   const user = useAuthStore((state) => state.user);
   const { emit } = useSocket();
   const addMessage = useMessagesStore((state) => state.addMessage);
+  const editingMessage = useMessagesStore((state) => state.editingMessage);
+  const setEditingMessage = useMessagesStore(
+    (state) => state.setEditingMessage
+  );
+  const replyingTo = useMessagesStore((state) => state.replyingTo);
+  const setReplyingTo = useMessagesStore((state) => state.setReplyingTo);
+  const wasEditingRef = useRef(false);
   const updateLastMessage = useChatsStore((state) => state.updateLastMessage);
   const addOrUpdateChat = useChatsStore((state) => state.addOrUpdateChat);
   const router = useRouter();
@@ -77,10 +128,53 @@ export function MessageInput({ chatId, participantId }: MessageInputProps) {
     return client;
   }, [user, tokens, router]);
 
+  /**
+   * Load the message being edited into the textarea (and clear it when
+   * editing ends, e.g. on cancel or when switching to a reply)
+   */
+  useEffect(() => {
+    if (!editingMessage) {
+      if (wasEditingRef.current) {
+        wasEditingRef.current = false;
+        setMessage('');
+      }
+      return;
+    }
+
+    wasEditingRef.current = true;
+    setMessage(editingMessage.content);
+    setInputError(null);
+    textareaRef.current?.focus();
+  }, [editingMessage]);
+
+  /**
+   * Focus the textarea when a reply is started
+   */
+  useEffect(() => {
+    if (replyingTo) {
+      textareaRef.current?.focus();
+    }
+  }, [replyingTo]);
+
+  /**
+   * Get the users messages are encrypted for
+   */
+  const getRecipients = (): ChatRecipients =>
+    group
+      ? {
+          type: 'GROUP',
+          memberIds: group.members
+            .map((member) => member.id)
+            .filter((memberId) => memberId !== user?.id),
+        }
+      : { type: 'DIRECT', participantId };
+
   /**
    * Handle typing indicator
    */
   useEffect(() => {
+    if (group) return;
+
     if (message.trim().length > 0 && !isTyping) {
       // Start typing
       setIsTyping(true);
@@ -105,7 +199,136 @@ export function MessageInput({ chatId, participantId }: MessageInputProps) {
         clearTimeout(typingTimeoutRef.current);
       }
     };
-  }, [message, isTyping, emit, participantId, chatId]);
+  }, [message, isTyping, emit, participantId, chatId, group]);
+
+  /**
+   * Queue a message for sending (encrypted when sent, see lib/sync-queue)
+   *
+   * The message stays SENDING while offline and becomes SENT once the
+   * server has relayed or queued it; DELIVERED and READ follow from the
+   * recipient's receipts.
+   */
+  const sendMessage = (
+    messageId: string,
+    targetChatId: string,
+    body: string,
+    timestamp: Date
+  ) =>
+    enqueueSyncAction({
+      type: 'message-send',
+      chatId: targetChatId,
+      messageId,
+      recipients: getRecipients(),
+      body,
+      timestamp: timestamp.toISOString(),
+    });
+
+  /**
+   * Get the chat with the participant, creating it on the first message
+   *
+   * @returns Chat ID and whether the chat was just created
+   */
+  const resolveChat = async (): Promise<{ chatId: string; isNew: boolean }> => {
+    // Groups are created before anyone writes in them
+    if (group) {
+      return { chatId, isNew: false };
+    }
+
+    // Check if chat exists in store by looking for a chat with the participant
+    const existingChat = useChatsStore
+      .getState()
+      .chats.find((chat) => chat.participant?.id === participantId);
+
+    if (existingChat) {
+      return { chatId: existingChat.id, isNew: false };
+    }
+
+    // Create chat via API
+    const response = await apiClient.createChat({ participantId });
+    const newChat = response.chat;
+
+    // Convert ChatWithParticipant to Chat format for the store
+    const chatForStore: Chat = toChat(newChat);
+
+    // Add new chat to store
+    addOrUpdateChat(chatForStore);
+
+    return { chatId: newChat.id, isNew: true };
+  };
+
+  /**
+   * Get the name of another user of the chat
+   */
+  const getSenderName = (senderId: string): string | undefined => {
+    if (!group) return participantName;
+
+    const member = group.members.find((item) => item.id === senderId);
+    return member ? member.displayName || member.username : undefined;
+  };
+
+  /**
+   * Leave edit mode (the textarea is cleared by the effect above)
+   */
+  const cancelEdit = () => {
+    setEditingMessage(null);
+  };
+
+  /**
+   * Take the pending reply for the message being sent
+   */
+  const takeReply = (): MessageReply | undefined => {
+    const target = useMessagesStore.getState().replyingTo;
+    if (!target) return undefined;
+
+    setReplyingTo(null);
+    return createMessageReply(target);
+  };
+
+  /**
+   * Save the new content of the message being edited
+   *
+   * The change is applied locally at once and sent to the recipients when
+   * possible (see lib/sync-queue).
+   */
+  const handleSaveEdit = async (target: Message) => {
+    if (!user) return;
+
+    const content = message.trim();
+    if (content === target.content) {
+      cancelEdit();
+      return;
+    }
+
+    if (!canEditMessage(target, user.id)) {
+      setInputError('This message can no longer be edited');
+      return;
+    }
+
+    setInputError(null);
+    const editedAt = new Date();
+
+    try {
+      const { applyEdit } = useMessagesStore.getState();
+      await applyEdit(target.id, content, editedAt);
+      await enqueueSyncAction({
+        type: 'message-edit',
+        chatId,
+        messageId: target.id,
+        recipients: getRecipients(),
+        body: encodeMessageBody({ type: 'TEXT', content }),
+        editedAt: editedAt.toISOString(),
+      });
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      setInputError('Could not edit the message.');
+      return;
+    }
+
+    await useChatsStore.getState().refreshPreview(user.id, chatId);
+
+    cancelEdit();
+    textareaRef.current?.focus();
+  };
 
   /**
    * Handle send message
@@ -113,129 +336,60 @@ export function MessageInput({ chatId, participantId }: MessageInputProps) {
   const handleSend = async () => {
     if (!message.trim() || !user) return;
 
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage);
+      return;
+    }
+
     const trimmedMessage = message.trim();
     const timestamp = new Date();
+    let messageId: string | null = null;
 
     try {
-      // Check if chat exists in store by looking for a chat with the participant
-      const existingChat = useChatsStore.getState().chats.find(chat => chat.participant.id === participantId);
-      let actualChatId = chatId;
-
-      // If no existing chat found, create a new chat
-      if (!existingChat) {
-        // Create chat via API
-        const response = await apiClient.createChat({ participantId });
-        const newChat = response.chat;
-
-        // Convert ChatWithParticipant to Chat format for the store
-        const chatForStore: Chat = {
-          id: newChat.id,
-          createdAt: new Date(newChat.createdAt),
-          updatedAt: new Date(newChat.updatedAt),
-          lastMessage: newChat.lastMessage,
-          lastMessageAt: newChat.lastMessageAt ? new Date(newChat.lastMessageAt) : null,
-          lastMessageBy: newChat.lastMessageBy,
-          unreadCount: newChat.unreadCount,
-          participant: {
-            id: newChat.participant.id,
-            email: newChat.participant.email,
-            username: newChat.participant.username,
-            displayName: newChat.participant.displayName,
-            avatarUrl: newChat.participant.avatarUrl,
-            isOnline: newChat.participant.isOnline,
-            lastSeenAt: new Date(newChat.participant.lastSeenAt),
-          },
-        };
-
-        // Add new chat to store
-        addOrUpdateChat(chatForStore);
-
-        // Update the actual chat ID to use the new chat ID
-        actualChatId = newChat.id;
-
-        // Send via Socket.io first before updating URL
-        const messageId = `${user.id}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-        // Create message object
-        const newMessage: Message = {
-          id: messageId,
-          senderId: user.id,
-          receiverId: participantId,
-          content: trimmedMessage,
-          type: 'TEXT',
-          status: 'SENDING',
-          createdAt: timestamp,
-          updatedAt: timestamp,
-          localOnly: false,
-        };
-
-        // Save to Dexie.js
-        await addMessage(newMessage);
-
-        // Send via Socket.io
-        emit('message-send', {
-          to: participantId,
-          chatId: actualChatId,
-          message: trimmedMessage,
-          timestamp: timestamp.toISOString(),
-        });
-
-        // Update chat's last message in chats-store
-        updateLastMessage(actualChatId, trimmedMessage, user.id);
-
-        // Update message status to SENT
-        // (In real app, this would be done when server confirms receipt)
-        setTimeout(() => {
-          useMessagesStore.getState().updateMessageStatus(messageId, 'SENT');
-        }, 100);
-
-        // Update URL to reflect new chat ID only after sending the message
-        router.replace(`/chats/${newChat.id}`);
-      } else {
-        // If chat exists, use its ID and send the message
-        actualChatId = existingChat.id;
-
-        const messageId = `${user.id}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-        // Create message object
-        const newMessage: Message = {
-          id: messageId,
-          senderId: user.id,
-          receiverId: participantId,
-          content: trimmedMessage,
-          type: 'TEXT',
-          status: 'SENDING',
-          createdAt: timestamp,
-          updatedAt: timestamp,
-          localOnly: false,
-        };
-
-        // Save to Dexie.js
-        await addMessage(newMessage);
-
-        // Send via Socket.io
-        emit('message-send', {
-          to: participantId,
-          chatId: actualChatId,
-          message: trimmedMessage,
-          timestamp: timestamp.toISOString(),
-        });
-
-        // Update chat's last message in chats-store
-        updateLastMessage(actualChatId, trimmedMessage, user.id);
-
-        // Update message status to SENT
-        // (In real app, this would be done when server confirms receipt)
-        setTimeout(() => {
-          useMessagesStore.getState().updateMessageStatus(messageId, 'SENT');
-        }, 100);
+      const { chatId: actualChatId, isNew } = await resolveChat();
+
+      messageId = createMessageId(user.id);
+      const replyTo = takeReply();
+
+      // Create message object
+      const newMessage: Message = {
+        id: messageId,
+        senderId: user.id,
+        receiverId: participantId,
+        ...(group ? { groupId: chatId } : {}),
+        content: trimmedMessage,
+        type: 'TEXT',
+        status: 'SENDING',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        localOnly: false,
+        ...getReplyFields(replyTo),
+      };
+
+      // Save to Dexie.js
+      await addMessage(newMessage);
+
+      // Queue for the recipients' devices (sent via Socket.io)
+      await sendMessage(
+        messageId,
+        actualChatId,
+        encodeMessageBody({ type: 'TEXT', content: trimmedMessage, replyTo }),
+        timestamp
+      );
+
+      // Update chat's last message in chats-store
+      updateLastMessage(actualChatId, trimmedMessage, user.id);
+
+      // Update URL to reflect new chat ID only after sending the message
+      if (isNew) {
+        router.replace(`/chats/${actualChatId}`);
       }
 
       // Clear input
       setMessage('');
 
       // Stop typing indicator
-      if (isTyping) {
+      if (isTyping && !group) {
         setIsTyping(false);
         emit('typing-stop', { to: participantId, chatId: actualChatId });
       }
@@ -245,13 +399,168 @@ export function MessageInput({ chatId, participantId }: MessageInputProps) {
     } catch (error) {
       console.error('Failed to send message:', error);
       // Update message status to FAILED
-      if (user) {
-        const messageId = `${user.id}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      if (messageId) {
         useMessagesStore.getState().updateMessageStatus(messageId, 'FAILED');
       }
     }
   };
 
+  /**
+   * Send a file (picked by the user or a voice recording)
+   *
+   * The message appears immediately with a local preview; it is sent to the
+   * recipient once the upload has completed. Voice recordings are also kept
+   * in Dexie.js so they play offline.
+   */
+  const sendAttachment = async (
+    file: File,
+    voice?: Pick<VoiceRecording, 'duration' | 'waveform'>
+  ) => {
+    if (!user) return;
+
+    const { setUploadProgress, updateMessage, updateMessageStatus } =
+      useMessagesStore.getState();
+    const timestamp = new Date();
+    let messageId: string | null = null;
+
+    setInputError(null);
+
+    try {
+      const { chatId: actualChatId, isNew } = await resolveChat();
+
+      // Refused files (size, type) fail here, before a message is created
+      let session: ApiAttachment;
+      try {
+        session = await startUpload(apiClient, actualChatId, file);
+      } catch (error) {
+        setInputError(
+          (error as ApiErrorResponse).message || 'Failed to upload file'
+        );
+        return;
+      }
+
+      const type = attachmentMessageType(session.mimeType);
+      const attachment: DBAttachment = {
+        id: session.id,
+        fileName: session.fileName,
+        mimeType: session.mimeType,
+        size: session.size,
+        width: null,
+        height: null,
+        hasThumbnail: false,
+        ...voice,
+      };
+      seedAttachmentUrl(session.id, file);
+      if (voice) {
+        await storeAttachmentBlob(session.id, file);
+      }
+
+      messageId = createMessageId(user.id);
+      const uploadingMessageId = messageId;
+      const replyTo = takeReply();
+
+      const newMessage: Message = {
+        id: messageId,
+        senderId: user.id,
+        receiverId: participantId,
+        ...(group ? { groupId: chatId } : {}),
+        content: '',
+        type,
+        attachment,
+        status: 'SENDING',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        localOnly: false,
+        ...getReplyFields(replyTo),
+      };
+
+      // Save to Dexie.js
+      await addMessage(newMessage);
+      updateLastMessage(actualChatId, getMessagePreview(newMessage), user.id);
+
+      if (isNew) {
+        router.replace(`/chats/${actualChatId}`);
+      }
+
+      // Upload in chunks (resumes after network drops)
+      setUploadProgress(messageId, 0);
+      const completed = await continueUpload(
+        apiClient,
+        session,
+        file,
+        (progress) => setUploadProgress(uploadingMessageId, progress)
+      );
+      setUploadProgress(messageId, null);
+
+      const uploaded: DBAttachment = {
+        ...attachment,
+        width: completed.width,
+        height: completed.height,
+        hasThumbnail: completed.hasThumbnail,
+      };
+      await updateMessage(messageId, { attachment: uploaded });
+
+      // Queue for the recipients' devices (sent via Socket.io)
+      await sendMessage(
+        messageId,
+        actualChatId,
+        encodeMessageBody({
+          type,
+          content: '',
+          attachment: uploaded,
+          replyTo,
+        }),
+        timestamp
+      );
+    } catch (error) {
+      console.error('Failed to send attachment:', error);
+      if (messageId) {
+        setUploadProgress(messageId, null);
+        updateMessageStatus(messageId, 'FAILED');
+      }
+    }
+  };
+
+  /**
+   * Voice recorder: the recording is sent when the button is released
+   */
+  const voiceRecorder = useVoiceRecorder({
+    onRecorded: (recording) => {
+      const extension = recording.blob.type.includes('ogg')
+        ? 'ogg'
+        : recording.blob.type.includes('mp4')
+          ? 'm4a'
+          : 'webm';
+      const file = new File(
+        [recording.blob],
+        `voice-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`,
+        { type: recording.blob.type }
+      );
+
+      sendAttachment(file, {
+        duration: recording.duration,
+        waveform: recording.waveform,
+      });
+    },
+  });
+  const { isRecording, cancel: cancelRecording } = voiceRecorder;
+
+  /**
+   * Escape discards the recording in progress
+   */
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        cancelRecording();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isRecording, cancelRecording]);
+
   /**
    * Handle Enter key press
    */
@@ -259,29 +568,160 @@ export function MessageInput({ chatId, participantId }: MessageInputProps) {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && editingMessage) {
+      e.preventDefault();
+      cancelEdit();
+    } else if (e.key === 'Escape' && replyingTo) {
+      e.preventDefault();
+      setReplyingTo(null);
     }
   };
 
   return (
     <div className="border-t border-gray-200 dark:border-gray-800 p-4 bg-white dark:bg-gray-900">
+      {(inputError || voiceRecorder.error) && (
+        <p className="mb-2 text-sm text-red-500">
+          {inputError || voiceRecorder.error}
+        </p>
+      )}
+      {replyingTo && (
+        <div className="mb-2 flex items-center gap-2 border-l-2 border-blue-600 pl-3">
+          <Reply className="h-4 w-4 flex-shrink-0 text-blue-600" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-blue-600 dark:text-blue-400">
+              Replying to{' '}
+              {replyingTo.senderId === user?.id
+                ? 'yourself'
+                : getSenderName(replyingTo.senderId) || 'message'}
+            </p>
+            <p className="truncate text-sm text-gray-500 dark:text-gray-400">
+              {getMessagePreview(replyingTo)}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setReplyingTo(null)}
+            className="h-8 w-8 flex-shrink-0"
+            aria-label="Cancel reply"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      {editingMessage && (
+        <div className="mb-2 flex items-center gap-2 border-l-2 border-blue-600 pl-3">
+          <Pencil className="h-4 w-4 flex-shrink-0 text-blue-600" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-blue-600 dark:text-blue-400">
+              Edit message
+            </p>
+            <p className="truncate text-sm text-gray-500 dark:text-gray-400">
+              {editingMessage.content}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={cancelEdit}
+            className="h-8 w-8 flex-shrink-0"
+            aria-label="Cancel editing"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
       <div className="flex items-end gap-2">
-        <Textarea
-          ref={textareaRef}
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder="Type a message..."
-          className="min-h-[44px] max-h-[120px] resize-none"
-          rows={1}
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Reset so the same file can be picked again
+            e.target.value = '';
+            if (file) {
+              sendAttachment(file);
+            }
+          }}
         />
         <Button
-          onClick={handleSend}
-          disabled={!message.trim()}
+          type="button"
+          variant="ghost"
           size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRecording || !!editingMessage}
           className="h-11 w-11 flex-shrink-0"
+          aria-label="Attach file"
         >
-          <Send className="h-5 w-5" />
+          <Paperclip className="h-5 w-5" />
         </Button>
+        {isRecording ? (
+          <div
+            className="flex min-h-[44px] flex-1 items-center gap-2 px-3 text-sm"
+            role="status"
+          >
+            <span className="h-2.5 w-2.5 animate-pulse rounded-full bg-red-500" />
+            <span className="font-medium tabular-nums">
+              {formatVoiceDuration(voiceRecorder.elapsed)}
+            </span>
+            <span className="truncate text-gray-500 dark:text-gray-400">
+              Release to send, Esc to cancel
+            </span>
+          </div>
+        ) : (
+          <Textarea
+            ref={textareaRef}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a message..."
+            className="min-h-[44px] max-h-[120px] resize-none"
+            rows={1}
+          />
+        )}
+        {message.trim() || editingMessage ? (
+          <Button
+            onClick={handleSend}
+            disabled={!message.trim()}
+            size="icon"
+            className="h-11 w-11 flex-shrink-0"
+            aria-label={editingMessage ? 'Save edit' : 'Send message'}
+          >
+            <Send className="h-5 w-5" />
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            size="icon"
+            variant={isRecording ? 'destructive' : 'default'}
+            className="h-11 w-11 flex-shrink-0 touch-none"
+            aria-label="Hold to record a voice message"
+            aria-pressed={isRecording}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              voiceRecorder.start();
+            }}
+            onPointerUp={voiceRecorder.stop}
+            onPointerCancel={voiceRecorder.cancel}
+            onKeyDown={(e) => {
+              if ((e.key === 'Enter' || e.key === ' ') && !e.repeat) {
+                e.preventDefault();
+                voiceRecorder.start();
+              }
+            }}
+            onKeyUp={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                voiceRecorder.stop();
+              }
+            }}
+          >
+            <Mic className="h-5 w-5" />
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,231 @@
+/**
+ * Message Search Results Component
+ *
+ * Searches the message history stored on this device and lists the
+ * matching messages, newest first, with the matched words highlighted.
+ * Selecting a result opens its chat scrolled to the message.
+ *
+ * @module components/chats/message-search-results
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, Users } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { DBMessage } from '@/lib/db';
+import {
+  getSearchSnippet,
+  highlightMatches,
+  searchMessages,
+} from '@/lib/message-search';
+import { tokenizeQuery } from '@/lib/search-tokens';
+import { formatLastSeen, getUserInitials } from '@/lib/utils';
+import { useAuthStore } from '@/store/auth-store';
+import {
+  useChatsStore,
+  getChatDisplayName,
+  type Chat,
+} from '@/store/chats-store';
+
+interface MessageSearchResultsProps {
+  query: string; // Debounced search query
+}
+
+/**
+ * Search result with the chat it belongs to
+ */
+interface SearchResult {
+  message: DBMessage;
+  chat: Chat;
+}
+
+/**
+ * Get the searchable text of a message (text and attachment file name)
+ */
+function getMessageText(message: DBMessage): string {
+  return [
+    message.content,
+    message.attachment && !message.attachment.waveform
+      ? message.attachment.fileName
+      : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Message search results component
+ *
+ * @param props - Component props
+ * @returns Message search results component
+ */
+export function MessageSearchResults({ query }: MessageSearchResultsProps) {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+  const chats = useChatsStore((state) => state.chats);
+
+  const [messages, setMessages] = useState<DBMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasQueryWords = tokenizeQuery(query).length > 0;
+
+  /**
+   * Search when the query changes
+   */
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    if (!hasQueryWords) {
+      setMessages([]);
+      return;
+    }
+
+    setIsLoading(true);
+    searchMessages(query)
+      .then((found) => {
+        if (!cancelled) setMessages(found);
+      })
+      .catch((err) => {
+        console.error('Failed to search messages:', err);
+        if (!cancelled) setError('Failed to search messages');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, hasQueryWords]);
+
+  /**
+   * Chat of each message (messages of chats no longer listed are skipped)
+   */
+  const results: SearchResult[] = messages.flatMap((message) => {
+    const peerId =
+      message.senderId === user?.id ? message.receiverId : message.senderId;
+    const chat = chats.find((item) =>
+      message.groupId
+        ? item.id === message.groupId
+        : item.participant?.id === peerId
+    );
+    return chat ? [{ message, chat }] : [];
+  });
+
+  if (!hasQueryWords) {
+    return (
+      <p className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        Please enter at least 2 characters
+      </p>
+    );
+  }
+
+  if (isLoading && results.length === 0) {
+    return (
+      <div className="space-y-3 p-4">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="flex items-center gap-3">
+            <Skeleton className="h-10 w-10 rounded-full" />
+            <div className="flex-1 space-y-2">
+              <Skeleton className="h-4 w-32" />
+              <Skeleton className="h-3 w-48" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="p-8 text-center text-sm text-red-500" role="alert">
+        {error}
+      </p>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="py-12 text-center">
+        <Search className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+        <p className="text-gray-600 dark:text-gray-400">
+          No messages found matching &quot;{query}&quot;
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+      {results.map(({ message, chat }) => {
+        const displayName = getChatDisplayName(chat);
+        const avatarUrl = chat.group
+          ? chat.group.avatarUrl
+          : chat.participant?.avatarUrl;
+        const member = chat.group?.members.find(
+          (item) => item.id === message.senderId
+        );
+        const sender =
+          message.senderId === user?.id
+            ? 'You'
+            : member && (member.displayName || member.username);
+        const snippet = getSearchSnippet(getMessageText(message), query);
+
+        return (
+          <li key={message.id}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-3 p-4 text-left transition-colors hover:bg-gray-50 dark:hover:bg-gray-800/50"
+              onClick={() =>
+                router.push(
+                  `/chats/${chat.id}?message=${encodeURIComponent(message.id)}`
+                )
+              }
+            >
+              <Avatar className="h-10 w-10 flex-shrink-0">
+                <AvatarImage src={avatarUrl || undefined} alt={displayName} />
+                <AvatarFallback className="bg-blue-600 text-white">
+                  {chat.group ? (
+                    <Users className="h-5 w-5" />
+                  ) : (
+                    getUserInitials(displayName)
+                  )}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <div className="mb-1 flex items-center justify-between">
+                  <h3 className="truncate text-sm font-semibold text-gray-900 dark:text-white">
+                    {displayName}
+                  </h3>
+                  <span className="ml-2 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    {formatLastSeen(message.createdAt)}
+                  </span>
+                </div>
+                <p className="line-clamp-2 text-sm text-gray-600 dark:text-gray-400">
+                  {sender && `${sender}: `}
+                  {highlightMatches(snippet, query).map((segment, index) =>
+                    segment.isMatch ? (
+                      <mark
+                        key={index}
+                        className="rounded bg-yellow-200 px-0.5 text-gray-900 dark:bg-yellow-500/40 dark:text-white"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      segment.text
+                    )
+                  )}
+                </p>
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
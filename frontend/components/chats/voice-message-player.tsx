@@ -0,0 +1,233 @@
+/**
+ * Voice Message Player Component
+ *
+ * Player for recorded voice messages:
+ * - Play / pause
+ * - Waveform with progress, click or drag to seek (arrow keys too)
+ * - Playback speed (1x, 1.5x, 2x)
+ *
+ * Audio is kept in Dexie.js once loaded, so voice messages stay playable
+ * offline.
+ *
+ * @module components/chats/voice-message-player
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Pause, Play } from 'lucide-react';
+import { useAttachmentUrl } from '@/hooks/use-attachment-url';
+import { formatVoiceDuration } from '@/lib/voice-recording';
+import type { DBAttachment } from '@/lib/db';
+
+/**
+ * Available playback speeds
+ */
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+/**
+ * Seek step for arrow keys (seconds)
+ */
+const SEEK_STEP = 2;
+
+interface VoiceMessagePlayerProps {
+  attachment: DBAttachment;
+  isSent: boolean;
+}
+
+/**
+ * Voice message player component
+ *
+ * @param props - Component props
+ * @returns Voice message player
+ */
+export function VoiceMessagePlayer({
+  attachment,
+  isSent,
+}: VoiceMessagePlayerProps) {
+  const { url, isLoading, error } = useAttachmentUrl(attachment.id, {
+    persist: true,
+  });
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const isScrubbingRef = useRef(false);
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+
+  // Recorded audio often has no duration header: use the recorded one
+  const duration = attachment.duration ?? 0;
+  const waveform = attachment.waveform ?? [];
+  const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  }, [rate, url]);
+
+  /**
+   * Play or pause
+   */
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((err) => {
+        console.error('[VoicePlayer] Playback failed:', err);
+      });
+    } else {
+      audio.pause();
+    }
+  };
+
+  /**
+   * Seek to a position in seconds
+   */
+  const seekTo = (seconds: number) => {
+    const clamped = Math.max(0, Math.min(duration, seconds));
+    if (audioRef.current) {
+      audioRef.current.currentTime = clamped;
+    }
+    setPosition(clamped);
+  };
+
+  /**
+   * Seek to the waveform position under the pointer
+   */
+  const seekToPointer = (clientX: number) => {
+    const rect = waveformRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    seekTo(((clientX - rect.left) / rect.width) * duration);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      seekTo(position - SEEK_STEP);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      seekTo(position + SEEK_STEP);
+    } else if (e.key === 'Home') {
+      e.preventDefault();
+      seekTo(0);
+    } else if (e.key === 'End') {
+      e.preventDefault();
+      seekTo(duration);
+    }
+  };
+
+  /**
+   * Switch to the next playback speed
+   */
+  const cycleRate = () => {
+    const index = PLAYBACK_RATES.indexOf(rate);
+    setRate(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+  };
+
+  const playedColor = isSent ? 'bg-white' : 'bg-blue-600 dark:bg-blue-400';
+  const unplayedColor = isSent ? 'bg-white/40' : 'bg-gray-400 dark:bg-gray-600';
+
+  return (
+    <div className="flex w-64 max-w-full items-center gap-2">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="auto"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => {
+            if (!isScrubbingRef.current) {
+              setPosition(e.currentTarget.currentTime);
+            }
+          }}
+          onEnded={() => {
+            setIsPlaying(false);
+            setPosition(0);
+          }}
+        />
+      )}
+
+      <button
+        type="button"
+        onClick={togglePlay}
+        disabled={!url}
+        className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full bg-black/10"
+        aria-label={isPlaying ? 'Pause voice message' : 'Play voice message'}
+      >
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : isPlaying ? (
+          <Pause className="h-4 w-4" />
+        ) : (
+          <Play className="h-4 w-4" />
+        )}
+      </button>
+
+      <div className="min-w-0 flex-1">
+        {/* Waveform / seek bar */}
+        <div
+          ref={waveformRef}
+          role="slider"
+          tabIndex={0}
+          aria-label="Seek voice message"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(position)}
+          aria-valuetext={formatVoiceDuration(position)}
+          onKeyDown={handleKeyDown}
+          onPointerDown={(e) => {
+            isScrubbingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekToPointer(e.clientX);
+          }}
+          onPointerMove={(e) => {
+            if (isScrubbingRef.current) {
+              seekToPointer(e.clientX);
+            }
+          }}
+          onPointerUp={() => {
+            isScrubbingRef.current = false;
+          }}
+          onPointerCancel={() => {
+            isScrubbingRef.current = false;
+          }}
+          className="flex h-8 cursor-pointer touch-none items-center gap-px"
+        >
+          {waveform.map((level, index) => (
+            <div
+              key={index}
+              className={`flex-1 rounded-full ${
+                (index + 0.5) / waveform.length <= progress
+                  ? playedColor
+                  : unplayedColor
+              }`}
+              style={{ height: `${Math.max(10, level)}%` }}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-xs opacity-75">
+          <span>
+            {error
+              ? 'Failed to load'
+              : formatVoiceDuration(
+                  isPlaying || position > 0 ? position : duration
+                )}
+          </span>
+          <button
+            type="button"
+            onClick={cycleRate}
+            className="rounded px-1 font-medium"
+            aria-label={`Playback speed ${rate}x`}
+          >
+            {rate}x
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
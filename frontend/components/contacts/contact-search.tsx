@@ -9,6 +9,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { SearchResultItem } from './search-result-item';
 import { useDebounce } from '@/hooks/use-debounce';
 import { createApiClient } from '@/lib/api-client';
+import { enqueueSyncAction } from '@/lib/sync-queue';
 import { useAuthStore } from '@/store/auth-store';
 import { useContactsStore } from '@/store/contacts-store';
 import type { ApiUser } from '@/lib/api-types';
@@ -106,21 +107,30 @@ export function ContactSearch() {
 
   /**
    * Handle add contact
+   *
+   * The request is queued (sent when online, see lib/sync-queue); until the
+   * server has it, the contact is listed under the queue entry's key.
    */
   const handleAddContact = async (contactId: string) => {
-    const response = await apiClient.createContactRequest({ contactId });
+    if (!user) return;
+
+    const entry = await enqueueSyncAction({
+      type: 'contact-request',
+      contactId,
+    });
 
     // Add to contacts store
     const contactUser = results.find((u) => u.id === contactId);
     if (contactUser) {
+      const now = new Date();
       addContact({
-        id: response.id,
-        userId: response.userId,
-        contactId: response.contactId,
-        requestedBy: response.requestedBy,
-        status: response.status,
-        createdAt: new Date(response.createdAt),
-        updatedAt: new Date(response.updatedAt),
+        id: entry.idempotencyKey,
+        userId: user.id,
+        contactId,
+        requestedBy: user.id,
+        status: 'PENDING',
+        createdAt: now,
+        updatedAt: now,
         contact: {
           id: contactUser.id,
           email: contactUser.email,
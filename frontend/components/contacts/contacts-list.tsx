@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ContactListItem } from './contact-list-item';
 import { createApiClient } from '@/lib/api-client';
+import { enqueueSyncAction } from '@/lib/sync-queue';
 import { useAuthStore } from '@/store/auth-store';
 import { useContactsStore } from '@/store/contacts-store';
 import { useCallStore } from '@/store/call-store';
@@ -143,7 +144,7 @@ export function ContactsList() {
    * Handle block action
    */
   const handleBlock = async (contactId: string) => {
-    await apiClient.blockContact(contactId);
+    await enqueueSyncAction({ type: 'contact-block', contactId });
 
     // Update contact status in store
     updateContactStatus(contactId, 'BLOCKED');
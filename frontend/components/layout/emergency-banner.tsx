@@ -1,14 +1,19 @@
 'use client';
 
-import { AlertTriangle } from 'lucide-react';
+import { useState } from 'react';
+import { AlertTriangle, QrCode } from 'lucide-react';
+import { OfflineCallDialog } from '@/components/calls/offline-call-dialog';
+import { Button } from '@/components/ui/button';
 import { useAppStore } from '@/store/app-store';
 
 /**
  * Emergency mode banner
- * Displays a warning banner when the app is in Emergency mode
+ * Displays a warning banner when the app is in Emergency mode, with a way
+ * to call a device nearby when not even P2P signaling works
  */
 export function EmergencyBanner() {
   const mode = useAppStore((state) => state.mode);
+  const [isOfflineCallOpen, setIsOfflineCallOpen] = useState(false);
 
   if (mode !== 'Emergency') {
     return null;
@@ -23,7 +28,19 @@ export function EmergencyBanner() {
           Server unavailable. Using direct P2P connections.
         </p>
       </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="flex-shrink-0 text-white hover:bg-white/20 hover:text-white"
+        onClick={() => setIsOfflineCallOpen(true)}
+      >
+        <QrCode className="mr-2 h-4 w-4" />
+        Offline call
+      </Button>
+      <OfflineCallDialog
+        open={isOfflineCallOpen}
+        onClose={() => setIsOfflineCallOpen(false)}
+      />
     </div>
   );
 }
-
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { db } from '@/lib/db';
+import {
+  discardSyncAction,
+  retrySyncAction,
+  type SyncAction,
+  type SyncEntry,
+} from '@/lib/sync-queue';
+
+/**
+ * Description of each queued action type
+ */
+const ACTION_LABELS: Record<SyncAction['type'], string> = {
+  'message-send': 'Send message',
+  'message-edit': 'Edit message',
+  'message-delete': 'Delete message',
+  'contact-request': 'Send contact request',
+  'contact-accept': 'Accept contact request',
+  'contact-reject': 'Reject contact request',
+  'contact-block': 'Block contact',
+  'call-end': 'Update call history',
+  'call-missed': 'Update call history',
+  'profile-update': 'Update profile',
+};
+
+/**
+ * Sync failures banner
+ * Lists the offline actions the server rejected, to retry or discard
+ */
+export function SyncFailuresBanner() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const failed = useLiveQuery(
+    () =>
+      db.syncQueue.where('failed').equals(1).toArray() as Promise<SyncEntry[]>,
+    []
+  );
+
+  if (!failed || failed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 px-4 py-3">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-3 text-left text-red-800 dark:text-red-200"
+      >
+        <AlertCircle className="h-5 w-5 flex-shrink-0" />
+        <p className="flex-1 text-sm font-medium">
+          {failed.length === 1
+            ? '1 change could not be saved'
+            : `${failed.length} changes could not be saved`}
+        </p>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4" />
+        ) : (
+          <ChevronDown className="h-4 w-4" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-3 space-y-2">
+          {failed.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-red-800 dark:text-red-200">
+                  {ACTION_LABELS[entry.data.type]}
+                </p>
+                {entry.error && (
+                  <p className="truncate text-xs text-red-700 dark:text-red-300">
+                    {entry.error}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => retrySyncAction(entry.id!)}
+              >
+                Retry
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => discardSyncAction(entry.id!)}
+              >
+                Discard
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,14 @@
 'use client';
 
 import { useSocket } from '@/hooks/use-socket';
+import { usePresence } from '@/hooks/use-presence';
+import { useE2EE } from '@/hooks/use-e2ee';
+import { useIncomingMessages } from '@/hooks/use-incoming-messages';
+import { useMessageReceipts } from '@/hooks/use-message-receipts';
+import { useReactionOutbox } from '@/hooks/use-reaction-outbox';
+import { useSyncQueue } from '@/hooks/use-sync-queue';
+import { useP2PChat } from '@/hooks/use-p2p-chat';
+import { useGroupEvents } from '@/hooks/use-group-events';
 
 /**
  * Socket Provider Props
@@ -51,6 +59,30 @@ export function SocketProvider({ children }: SocketProviderProps) {
   // The useSocket hook handles all connection logic based on mode and auth
   useSocket();
 
+  // Keep contacts' online status in sync with server presence events
+  usePresence();
+
+  // Publish this device's encryption key
+  useE2EE();
+
+  // Decrypt and store incoming messages (live and queued while offline)
+  useIncomingMessages();
+
+  // Update ticks of sent messages from delivery/read receipts
+  useMessageReceipts();
+
+  // Send reactions made while offline once connected
+  useReactionOutbox();
+
+  // Replay messages, contact and profile changes made while offline
+  useSyncQueue();
+
+  // Carry chats over P2P data channels in Emergency mode
+  useP2PChat();
+
+  // Keep group chats (metadata, members) in sync
+  useGroupEvents();
+
   // Simply render children - no context needed
   // Components can use useSocket hook directly to access socket
   return <>{children}</>;
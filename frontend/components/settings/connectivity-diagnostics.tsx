@@ -0,0 +1,153 @@
+/**
+ * Connectivity Diagnostics Component
+ *
+ * Shows what the connectivity monitor (lib/connectivity-monitor) measured
+ * last: the score with each signal it is made of, and the timeline of
+ * switches between Normal and Emergency mode.
+ *
+ * @module components/settings/connectivity-diagnostics
+ */
+
+'use client';
+
+import {
+  EMERGENCY_THRESHOLD,
+  NORMAL_THRESHOLD,
+} from '@/lib/connectivity-monitor';
+import { useAppStore, type ModeTransition } from '@/store/app-store';
+
+/**
+ * Transitions shown, newest first
+ */
+const VISIBLE_TRANSITIONS = 10;
+
+/**
+ * Text of a transition reason
+ */
+const REASON_TEXT: Record<ModeTransition['reason'], string> = {
+  offline: 'Device went offline',
+  degraded: 'Connection degraded',
+  recovered: 'Connection recovered',
+};
+
+/**
+ * Color of a score, by the mode thresholds
+ */
+function getScoreColor(score: number): string {
+  if (score >= NORMAL_THRESHOLD) {
+    return 'text-green-600 dark:text-green-400';
+  }
+  if (score >= EMERGENCY_THRESHOLD) {
+    return 'text-yellow-600 dark:text-yellow-400';
+  }
+  return 'text-red-600 dark:text-red-400';
+}
+
+function DiagnosticsRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-gray-600 dark:text-gray-400">{label}</span>
+      <span className="font-medium text-gray-900 dark:text-white">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * Connectivity diagnostics component
+ *
+ * @returns Connectivity diagnostics component
+ */
+export function ConnectivityDiagnostics() {
+  const mode = useAppStore((state) => state.mode);
+  const connectivity = useAppStore((state) => state.connectivity);
+  const modeTransitions = useAppStore((state) => state.modeTransitions);
+
+  const transitions = modeTransitions.slice(-VISIBLE_TRANSITIONS).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {mode} mode
+        </span>
+        {connectivity ? (
+          <span
+            className={`text-2xl font-semibold ${getScoreColor(connectivity.score)}`}
+          >
+            {connectivity.score}
+            <span className="text-sm font-normal text-gray-500"> / 100</span>
+          </span>
+        ) : (
+          <span className="text-sm text-gray-500">Not checked yet</span>
+        )}
+      </div>
+
+      {connectivity && (
+        <div className="space-y-2">
+          <DiagnosticsRow
+            label="Network"
+            value={connectivity.isOnline ? 'Online' : 'Offline'}
+          />
+          <DiagnosticsRow
+            label="Server response time"
+            value={
+              connectivity.healthLatency === null
+                ? 'Unreachable'
+                : `${connectivity.healthLatency} ms`
+            }
+          />
+          <DiagnosticsRow
+            label="Real-time connection"
+            value={
+              connectivity.isSocketConnected === null
+                ? 'Not used'
+                : connectivity.isSocketConnected
+                  ? 'Connected'
+                  : 'Disconnected'
+            }
+          />
+          <DiagnosticsRow
+            label="Failed requests (last minute)"
+            value={
+              connectivity.requestFailureRate === null
+                ? 'Too few requests'
+                : `${Math.round(connectivity.requestFailureRate * 100)}%`
+            }
+          />
+          <DiagnosticsRow
+            label="Last check"
+            value={new Date(connectivity.checkedAt).toLocaleTimeString()}
+          />
+        </div>
+      )}
+
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-gray-900 dark:text-white">
+          Mode changes
+        </h3>
+        {transitions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No mode changes yet.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {transitions.map((transition) => (
+              <li
+                key={`${transition.at}-${transition.to}`}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="text-gray-900 dark:text-white">
+                  {transition.to} · {REASON_TEXT[transition.reason]} (score{' '}
+                  {transition.score})
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(transition.at).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
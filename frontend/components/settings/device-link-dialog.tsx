@@ -0,0 +1,246 @@
+/**
+ * Device Link Dialog Component
+ *
+ * Moves the chat history between two devices of the user (see
+ * lib/device-link). On the device with the history ("send") it shows a
+ * one-time link code; on the new device ("receive") the code is entered.
+ * Both show the transfer progress; an interrupted transfer can be resumed
+ * as long as the other device keeps the dialog open.
+ *
+ * @module components/settings/device-link-dialog
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ApiClient } from '@/lib/api-client';
+import {
+  createLinkCode,
+  normalizeLinkCode,
+  startLinkSource,
+  startLinkTarget,
+  type DeviceLinkProgress,
+  type DeviceLinkSession,
+} from '@/lib/device-link';
+
+/**
+ * Side of the transfer this device is on
+ */
+export type DeviceLinkMode = 'send' | 'receive';
+
+interface DeviceLinkDialogProps {
+  apiClient: ApiClient;
+  mode: DeviceLinkMode | null; // Dialog is closed when null
+  onClose: () => void;
+}
+
+/**
+ * Status text of a transfer
+ */
+const STATUS_TEXT: Record<DeviceLinkProgress['status'], string> = {
+  waiting: 'Waiting for the other device...',
+  connecting: 'Connecting...',
+  transferring: 'Transferring history...',
+  interrupted: 'Connection lost. The transfer can be resumed.',
+  complete: 'History transferred',
+  failed: 'Transfer failed',
+};
+
+/**
+ * Get the ICE servers, or none (a public STUN server is used) on failure
+ */
+async function loadIceServers(apiClient: ApiClient): Promise<RTCIceServer[]> {
+  try {
+    const response = await apiClient.getIceServers();
+    return response.iceServers;
+  } catch (err) {
+    console.error('Failed to load ICE servers:', err);
+    return [];
+  }
+}
+
+/**
+ * Device link dialog component
+ *
+ * @param props - Component props
+ * @returns Device link dialog component
+ */
+export function DeviceLinkDialog({
+  apiClient,
+  mode,
+  onClose,
+}: DeviceLinkDialogProps) {
+  const [code, setCode] = useState('');
+  const [progress, setProgress] = useState<DeviceLinkProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const sessionRef = useRef<DeviceLinkSession | null>(null);
+
+  const stopSession = () => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+  };
+
+  // Token refreshes create a new client; they must not restart a session
+  const apiClientRef = useRef(apiClient);
+  apiClientRef.current = apiClient;
+
+  /**
+   * Reset when the dialog opens; in send mode, offer the history under a
+   * new code until the dialog closes
+   */
+  useEffect(() => {
+    setProgress(null);
+    setError(null);
+    setCode('');
+
+    let cancelled = false;
+    if (mode === 'send') {
+      const linkCode = createLinkCode();
+      setCode(linkCode);
+
+      loadIceServers(apiClientRef.current)
+        .then((iceServers) =>
+          startLinkSource(linkCode, iceServers, setProgress)
+        )
+        .then((session) => {
+          if (cancelled) session.cancel();
+          else sessionRef.current = session;
+        })
+        .catch((err) => {
+          console.error('Failed to start device link:', err);
+          if (!cancelled) setError('Failed to start device link');
+        });
+    }
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.cancel();
+      sessionRef.current = null;
+    };
+  }, [mode]);
+
+  /**
+   * Connect to the device with the history (or resume the transfer)
+   */
+  const handleReceive = async () => {
+    stopSession();
+    setError(null);
+    setIsStarting(true);
+
+    try {
+      const iceServers = await loadIceServers(apiClientRef.current);
+      sessionRef.current = await startLinkTarget(code, iceServers, setProgress);
+    } catch (err) {
+      setProgress(null);
+      setError(err instanceof Error ? err.message : 'Failed to connect');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const isCodeValid = normalizeLinkCode(code) !== null;
+  const isActive =
+    progress?.status === 'connecting' || progress?.status === 'transferring';
+  const canResume =
+    progress?.status === 'interrupted' || progress?.status === 'failed';
+  const percent =
+    progress && progress.total > 0
+      ? Math.min(100, Math.round((progress.transferred / progress.total) * 100))
+      : 0;
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === 'send'
+              ? 'Link a new device'
+              : 'Get history from a device'}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'send'
+              ? 'Enter this code on your new device. Your messages and calls are sent directly and encrypted; they do not pass through the server.'
+              : 'Open "Link a new device" on the device with your history and enter the code it shows.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'send' ? (
+          <p className="select-all rounded-lg bg-gray-100 py-4 text-center font-mono text-2xl tracking-widest text-gray-900 dark:bg-gray-800 dark:text-white">
+            {code}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="device-link-code">Link code</Label>
+            <Input
+              id="device-link-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX-XXXX"
+              autoComplete="off"
+              className="font-mono uppercase"
+              disabled={isActive || isStarting}
+            />
+          </div>
+        )}
+
+        {progress && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              {(isActive || progress.status === 'waiting') && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+              {progress.error || STATUS_TEXT[progress.status]}
+            </p>
+            {progress.total > 0 && (
+              <>
+                <div className="h-2 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {Math.min(progress.transferred, progress.total)} of{' '}
+                  {progress.total} items ({percent}%)
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {progress?.status === 'complete' ? 'Done' : 'Cancel'}
+          </Button>
+          {mode === 'receive' && progress?.status !== 'complete' && (
+            <Button
+              onClick={handleReceive}
+              disabled={!isCodeValid || isActive || isStarting}
+            >
+              {isStarting ? 'Connecting...' : canResume ? 'Resume' : 'Connect'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * useAttachmentUrl Hook
+ *
+ * Resolves an attachment (or its thumbnail) to an object URL that can be
+ * used in `<img>`, `<video>` and `<audio>` elements. Downloads need the
+ * Authorization header, so content is fetched with the API client and
+ * exposed as a blob URL.
+ *
+ * URLs are cached per attachment for the lifetime of the page; the sender's
+ * own files are seeded with a local URL so they show without a download.
+ * Content kept in Dexie.js (`attachmentBlobs`, e.g. voice messages) is
+ * used before the network, so it stays available offline.
+ *
+ * @module hooks/use-attachment-url
+ */
+
+import { useEffect, useState } from 'react';
+import { createApiClient } from '@/lib/api-client';
+import { db } from '@/lib/db';
+import { useAuthStore } from '@/store/auth-store';
+
+/**
+ * Maximum number of cached object URLs
+ */
+const MAX_CACHED_URLS = 100;
+
+/**
+ * Object URLs by `${attachmentId}:${variant}` (insertion order = age)
+ */
+const urlCache = new Map<string, Promise<string>>();
+
+/**
+ * Cache an object URL, revoking the oldest one when the cache is full
+ */
+function cacheUrl(key: string, url: Promise<string>): void {
+  urlCache.set(key, url);
+
+  if (urlCache.size > MAX_CACHED_URLS) {
+    const [oldestKey, oldestUrl] = urlCache.entries().next().value as [
+      string,
+      Promise<string>,
+    ];
+    urlCache.delete(oldestKey);
+    oldestUrl.then((value) => URL.revokeObjectURL(value)).catch(() => {});
+  }
+}
+
+/**
+ * Download the content of an attachment
+ */
+async function download(
+  attachmentId: string,
+  thumbnail: boolean
+): Promise<Blob> {
+  const { user, tokens } = useAuthStore.getState();
+
+  const apiClient = createApiClient({
+    baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:80/api',
+    onTokenRefresh: (accessToken, refreshToken) => {
+      if (user) {
+        useAuthStore.getState().setAuth(user, { accessToken, refreshToken });
+      }
+    },
+    onAuthError: () => {
+      useAuthStore.getState().clearAuth();
+    },
+  });
+  if (tokens) {
+    apiClient.setTokens(tokens.accessToken, tokens.refreshToken);
+  }
+
+  return apiClient.downloadAttachment(attachmentId, thumbnail);
+}
+
+/**
+ * Load an attachment as an object URL, from Dexie.js or the network
+ */
+async function load(
+  attachmentId: string,
+  thumbnail: boolean,
+  persist: boolean
+): Promise<string> {
+  const stored = await db.attachmentBlobs.get(attachmentId);
+  if (stored) {
+    return URL.createObjectURL(stored.blob);
+  }
+
+  const blob = await download(attachmentId, thumbnail);
+
+  if (persist && !thumbnail) {
+    await storeAttachmentBlob(attachmentId, blob);
+  }
+
+  return URL.createObjectURL(blob);
+}
+
+/**
+ * Keep the content of an attachment in Dexie.js for offline use
+ *
+ * @param attachmentId - Attachment ID
+ * @param blob - Attachment content
+ */
+export async function storeAttachmentBlob(
+  attachmentId: string,
+  blob: Blob
+): Promise<void> {
+  await db.attachmentBlobs.put({
+    id: attachmentId,
+    blob,
+    mimeType: blob.type,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Download an attachment into Dexie.js ahead of time (no-op if present)
+ *
+ * @param attachmentId - Attachment ID
+ */
+export async function saveAttachmentOffline(
+  attachmentId: string
+): Promise<void> {
+  if (await db.attachmentBlobs.get(attachmentId)) return;
+  await storeAttachmentBlob(attachmentId, await download(attachmentId, false));
+}
+
+/**
+ * Use a local file as the content of an attachment (sender side)
+ *
+ * @param attachmentId - Attachment ID
+ * @param file - Local file
+ */
+export function seedAttachmentUrl(attachmentId: string, file: Blob): void {
+  const url = Promise.resolve(URL.createObjectURL(file));
+  cacheUrl(`${attachmentId}:original`, url);
+  cacheUrl(`${attachmentId}:thumbnail`, url);
+}
+
+/**
+ * useAttachmentUrl Hook
+ *
+ * @param attachmentId - Attachment ID
+ * @param options.thumbnail - Load the thumbnail instead of the original
+ * @param options.enabled - Set to false to defer the download
+ * @param options.persist - Keep downloaded content in Dexie.js
+ * @returns Object URL (null until loaded) and loading/error state
+ */
+export function useAttachmentUrl(
+  attachmentId: string,
+  options: { thumbnail?: boolean; enabled?: boolean; persist?: boolean } = {}
+): { url: string | null; isLoading: boolean; error: boolean } {
+  const { thumbnail = false, enabled = true, persist = false } = options;
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const key = `${attachmentId}:${thumbnail ? 'thumbnail' : 'original'}`;
+    let request = urlCache.get(key);
+    if (!request) {
+      request = load(attachmentId, thumbnail, persist);
+      cacheUrl(key, request);
+    }
+
+    let cancelled = false;
+    setError(false);
+
+    request
+      .then((value) => {
+        if (!cancelled) setUrl(value);
+      })
+      .catch((err) => {
+        console.error('[Attachments] Failed to download attachment:', err);
+        // Allow a later retry
+        urlCache.delete(key);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachmentId, thumbnail, enabled, persist]);
+
+  return { url, isLoading: enabled && !url && !error, error };
+}
@@ -0,0 +1,56 @@
+/**
+ * useE2EE Hook
+ *
+ * Connects the end-to-end encryption manager to the key directory API and
+ * publishes this device's identity and signing keys once the user is
+ * authenticated.
+ *
+ * @module hooks/use-e2ee
+ */
+
+import { useEffect } from 'react';
+import { createApiClient } from '@/lib/api-client';
+import { e2eEncryption } from '@/lib/e2e-encryption';
+import { useAuthStore } from '@/store/auth-store';
+
+/**
+ * useE2EE Hook
+ *
+ * Should be mounted once, next to the Socket.io connection.
+ */
+export function useE2EE(): void {
+  const user = useAuthStore((state) => state.user);
+  const tokens = useAuthStore((state) => state.tokens);
+
+  useEffect(() => {
+    if (!user || !tokens) {
+      e2eEncryption.reset();
+      return;
+    }
+
+    const apiClient = createApiClient({
+      baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:80/api',
+      onTokenRefresh: (accessToken, refreshToken) => {
+        useAuthStore.getState().setAuth(user, { accessToken, refreshToken });
+      },
+      onAuthError: () => {
+        useAuthStore.getState().clearAuth();
+      },
+    });
+    apiClient.setTokens(tokens.accessToken, tokens.refreshToken);
+
+    e2eEncryption.configure({
+      publishDeviceKey: async (deviceId, identityKey, signingKey) => {
+        await apiClient.publishDeviceKey(deviceId, { identityKey, signingKey });
+      },
+      getDeviceKeys: async (userId) => {
+        const response = await apiClient.getDeviceKeys(userId);
+        return response.devices;
+      },
+    });
+
+    e2eEncryption.initialize().catch((error) => {
+      console.error('[E2EE] Failed to publish device key:', error);
+    });
+  }, [user, tokens]);
+}
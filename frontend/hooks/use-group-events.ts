@@ -0,0 +1,129 @@
+/**
+ * useGroupEvents Hook
+ *
+ * Applies server-pushed group chat changes to the chats store:
+ * `group-updated` (new title, avatar or member list; also sent to invited
+ * users) and `group-removed` (the user left, was removed, or the group was
+ * deleted).
+ *
+ * Messages of a group the user is no longer in stay in Dexie.js; reactions
+ * still waiting to be sent to it are dropped.
+ *
+ * @module hooks/use-group-events
+ */
+
+import { useEffect } from 'react';
+import { socketManager } from '@/lib/socket-manager';
+import { db } from '@/lib/db';
+import type { GroupInfo } from '@/lib/api-types';
+import { useChatsStore, toChatGroup } from '@/store/chats-store';
+
+/**
+ * Group updated event payload
+ */
+interface GroupUpdatedPayload {
+  chatId: string;
+  group: GroupInfo;
+}
+
+/**
+ * Validate a group updated event
+ */
+function isGroupUpdated(data: unknown): data is GroupUpdatedPayload {
+  const group = (data as { group?: unknown } | null)?.group;
+
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { chatId: unknown }).chatId === 'string' &&
+    !!group &&
+    typeof group === 'object' &&
+    typeof (group as { title: unknown }).title === 'string' &&
+    Array.isArray((group as { members: unknown }).members)
+  );
+}
+
+/**
+ * useGroupEvents Hook
+ *
+ * Subscribes to `group-updated` and `group-removed` for the lifetime of the
+ * component. Should be mounted once, next to the Socket.io connection.
+ */
+export function useGroupEvents(): void {
+  const addOrUpdateChat = useChatsStore((state) => state.addOrUpdateChat);
+  const updateGroup = useChatsStore((state) => state.updateGroup);
+  const deleteChat = useChatsStore((state) => state.deleteChat);
+
+  useEffect(() => {
+    const handleGroupUpdated = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (!isGroupUpdated(data)) {
+        console.error('[GroupEvents] Invalid group-updated data:', data);
+        return;
+      }
+
+      const group = toChatGroup(data.group);
+      const { chats } = useChatsStore.getState();
+
+      if (chats.some((chat) => chat.id === data.chatId)) {
+        updateGroup(data.chatId, group);
+        return;
+      }
+
+      // Not loaded yet: the chat list fetch will include the group
+      if (chats.length === 0) return;
+
+      // Invited to a new group
+      const now = new Date();
+      addOrUpdateChat({
+        id: data.chatId,
+        createdAt: now,
+        updatedAt: now,
+        type: 'GROUP',
+        lastMessage: null,
+        lastMessageAt: null,
+        lastMessageBy: null,
+        unreadCount: 0,
+        participant: null,
+        group,
+      });
+    };
+
+    const handleGroupRemoved = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (
+        !data ||
+        typeof data !== 'object' ||
+        typeof (data as { chatId: unknown }).chatId !== 'string'
+      ) {
+        console.error('[GroupEvents] Invalid group-removed data:', data);
+        return;
+      }
+
+      const { chatId } = data as { chatId: string };
+      deleteChat(chatId);
+
+      db.reactions
+        .where('pending')
+        .equals(1)
+        .filter((reaction) => reaction.chatId === chatId)
+        .delete()
+        .catch((error) => {
+          console.error(
+            '[GroupEvents] Failed to drop pending reactions:',
+            error
+          );
+        });
+    };
+
+    socketManager.on('group-updated', handleGroupUpdated);
+    socketManager.on('group-removed', handleGroupRemoved);
+
+    return () => {
+      socketManager.off('group-updated', handleGroupUpdated);
+      socketManager.off('group-removed', handleGroupRemoved);
+    };
+  }, [addOrUpdateChat, updateGroup, deleteChat]);
+}
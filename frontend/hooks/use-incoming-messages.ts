@@ -0,0 +1,559 @@
+/**
+ * useIncomingMessages Hook
+ *
+ * Single entry point for incoming chat messages. Decrypts live messages
+ * (`message-received`) and messages the server queued while this user was
+ * offline (`messages-pending`), stores them in Dexie.js and updates the chat
+ * previews.
+ *
+ * Every envelope is decrypted exactly once, here: decryption advances the
+ * ratchet, so components must not decrypt on their own. Messages that cannot
+ * be decrypted are stored with `decryptionFailed` so the user sees a notice.
+ *
+ * Messages are stored under the sender's client-generated message ID, so
+ * redelivered messages are recognised without decrypting them a second time.
+ * Once saved, the sender is told with `message-delivered` (DELIVERED tick),
+ * and queued messages are acknowledged with `message-ack`; anything not
+ * acknowledged is delivered again on the next connection.
+ *
+ * Edits (`message-edited`) and unsends (`message-deleted`) from the author
+ * are applied to the stored copy; queued ones arrive in the same batch,
+ * after the message they refer to. Edits outside the edit window, or for
+ * messages the `from` user did not send, are ignored.
+ *
+ * Emoji reactions (`message-reaction`) are stored per message and user; the
+ * newest reaction of each user wins. They are only accepted for stored
+ * messages of a chat with the `from` user.
+ *
+ * Events of group chats are flagged `isGroup` by the server, which checked
+ * that the sender is a member. Group messages are stored with the group as
+ * their receiver.
+ *
+ * Voice messages are downloaded into Dexie.js right away so they can be
+ * played later without a connection.
+ *
+ * @module hooks/use-incoming-messages
+ */
+
+import { useEffect } from 'react';
+import { socketManager } from '@/lib/socket-manager';
+import { db } from '@/lib/db';
+import { saveAttachmentOffline } from '@/hooks/use-attachment-url';
+import { e2eEncryption } from '@/lib/e2e-encryption';
+import { isEditInWindow } from '@/lib/message-edit';
+import {
+  decodeMessageBody,
+  getMessagePreview,
+  getReplyFields,
+  type MessageBody,
+} from '@/lib/message-body';
+import { useAuthStore } from '@/store/auth-store';
+import { useMessagesStore, type Message } from '@/store/messages-store';
+import { useChatsStore } from '@/store/chats-store';
+
+/**
+ * Live message payload
+ */
+interface ReceivedMessagePayload {
+  from: string;
+  chatId: string;
+  messageId: string;
+  message: string;
+  timestamp: string;
+  isGroup?: boolean; // Sent to the members of group chat `chatId`
+}
+
+/**
+ * Live edit payload
+ */
+interface EditedMessagePayload {
+  from: string;
+  chatId: string;
+  messageId: string;
+  message: string;
+  editedAt: string;
+  isGroup?: boolean;
+}
+
+/**
+ * Live unsend payload
+ */
+interface DeletedMessagePayload {
+  from: string;
+  chatId: string;
+  messageId: string;
+  deletedAt: string;
+  isGroup?: boolean;
+}
+
+/**
+ * Live reaction payload
+ */
+interface MessageReactionPayload {
+  from: string;
+  chatId: string;
+  messageId: string;
+  reaction: string;
+  reactedAt: string;
+  isGroup?: boolean;
+}
+
+/**
+ * Queued message, edit, unsend or reaction (`timestamp` is the time of the
+ * change)
+ */
+interface PendingMessagePayload extends ReceivedMessagePayload {
+  id: string;
+  kind?: 'MESSAGE' | 'EDIT' | 'DELETE' | 'REACTION';
+}
+
+/**
+ * Maximum length of a reaction (a single emoji, possibly with modifiers)
+ */
+const MAX_REACTION_LENGTH = 32;
+
+/**
+ * Validate a live message
+ */
+function isReceivedMessage(data: unknown): data is ReceivedMessagePayload {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { from: unknown }).from === 'string' &&
+    typeof (data as { chatId: unknown }).chatId === 'string' &&
+    typeof (data as { messageId: unknown }).messageId === 'string' &&
+    typeof (data as { message: unknown }).message === 'string' &&
+    typeof (data as { timestamp: unknown }).timestamp === 'string'
+  );
+}
+
+/**
+ * Validate a live edit
+ */
+function isEditedMessage(data: unknown): data is EditedMessagePayload {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { from: unknown }).from === 'string' &&
+    typeof (data as { chatId: unknown }).chatId === 'string' &&
+    typeof (data as { messageId: unknown }).messageId === 'string' &&
+    typeof (data as { message: unknown }).message === 'string' &&
+    typeof (data as { editedAt: unknown }).editedAt === 'string'
+  );
+}
+
+/**
+ * Validate a live unsend
+ */
+function isDeletedMessage(data: unknown): data is DeletedMessagePayload {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { from: unknown }).from === 'string' &&
+    typeof (data as { chatId: unknown }).chatId === 'string' &&
+    typeof (data as { messageId: unknown }).messageId === 'string' &&
+    typeof (data as { deletedAt: unknown }).deletedAt === 'string'
+  );
+}
+
+/**
+ * Validate a live reaction
+ */
+function isMessageReaction(data: unknown): data is MessageReactionPayload {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { from: unknown }).from === 'string' &&
+    typeof (data as { chatId: unknown }).chatId === 'string' &&
+    typeof (data as { messageId: unknown }).messageId === 'string' &&
+    typeof (data as { reaction: unknown }).reaction === 'string' &&
+    typeof (data as { reactedAt: unknown }).reactedAt === 'string'
+  );
+}
+
+/**
+ * Validate a single queued message
+ */
+function isPendingMessage(data: unknown): data is PendingMessagePayload {
+  return (
+    !!data &&
+    typeof (data as { id: unknown }).id === 'string' &&
+    isReceivedMessage(data)
+  );
+}
+
+/**
+ * useIncomingMessages Hook
+ *
+ * Subscribes to `message-received`, `messages-pending`, `message-edited`,
+ * `message-deleted` and `message-reaction` for the lifetime of the
+ * component. Should be mounted once, next to the Socket.io connection.
+ */
+export function useIncomingMessages(): void {
+  const userId = useAuthStore((state) => state.user?.id);
+  const receiveMessages = useMessagesStore((state) => state.receiveMessages);
+  const applyEdit = useMessagesStore((state) => state.applyEdit);
+  const applyDelete = useMessagesStore((state) => state.applyDelete);
+  const storeReaction = useMessagesStore((state) => state.receiveReaction);
+  const updateLastMessage = useChatsStore((state) => state.updateLastMessage);
+  const refreshPreview = useChatsStore((state) => state.refreshPreview);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    /**
+     * Decrypt an incoming payload into a local message
+     */
+    const toMessage = async (
+      item: ReceivedMessagePayload
+    ): Promise<Message> => {
+      let body: MessageBody = { type: 'TEXT', content: '' };
+      let decryptionFailed = false;
+
+      try {
+        body = decodeMessageBody(
+          await e2eEncryption.decrypt(item.from, item.message)
+        );
+      } catch (error) {
+        console.error('[IncomingMessages] Failed to decrypt message:', error);
+        decryptionFailed = true;
+      }
+
+      return {
+        id: item.messageId,
+        senderId: item.from,
+        receiverId: item.isGroup ? item.chatId : userId,
+        ...(item.isGroup ? { groupId: item.chatId } : {}),
+        content: body.content,
+        type: body.type,
+        attachment: body.attachment,
+        ...getReplyFields(body.replyTo),
+        status: 'DELIVERED',
+        createdAt: new Date(item.timestamp),
+        updatedAt: new Date(item.timestamp),
+        localOnly: false,
+        decryptionFailed,
+      };
+    };
+
+    /**
+     * Show a stored message as its chat's preview
+     */
+    const updatePreview = (chatId: string, message: Message) => {
+      updateLastMessage(chatId, getMessagePreview(message), message.senderId);
+    };
+
+    /**
+     * Decrypt and apply an edit from the author of a stored message
+     *
+     * Edits already applied (or superseded) are skipped before decrypting:
+     * their envelope was consumed on the first delivery.
+     */
+    const receiveEdit = async (item: EditedMessagePayload) => {
+      const editedAt = new Date(item.editedAt);
+      const stored = await db.messages.get(item.messageId);
+      if (
+        !stored ||
+        stored.senderId !== item.from ||
+        stored.deletedAt ||
+        (stored.editedAt && stored.editedAt >= editedAt) ||
+        !isEditInWindow(stored, editedAt)
+      ) {
+        return;
+      }
+
+      let content: string;
+      try {
+        content = decodeMessageBody(
+          await e2eEncryption.decrypt(item.from, item.message)
+        ).content;
+      } catch (error) {
+        console.error('[IncomingMessages] Failed to decrypt edit:', error);
+        return;
+      }
+
+      if (await applyEdit(item.messageId, content, editedAt, item.from)) {
+        await refreshPreview(userId, item.chatId);
+      }
+    };
+
+    /**
+     * Apply an unsend from the author of a stored message
+     */
+    const receiveDelete = async (item: DeletedMessagePayload) => {
+      const deletedAt = new Date(item.deletedAt);
+      const updated = await applyDelete(
+        item.messageId,
+        isNaN(deletedAt.getTime()) ? new Date() : deletedAt,
+        item.from
+      );
+      if (updated) {
+        await refreshPreview(userId, item.chatId);
+      }
+    };
+
+    /**
+     * Decrypt and store a reaction to a message of a chat with its sender
+     *
+     * Reactions already stored (or superseded) are skipped before
+     * decrypting, like edits.
+     */
+    const receiveReaction = async (item: MessageReactionPayload) => {
+      const reactedAt = new Date(item.reactedAt);
+      if (isNaN(reactedAt.getTime())) return;
+
+      const stored = await db.messages.get(item.messageId);
+      if (
+        !stored ||
+        stored.deletedAt ||
+        (stored.groupId
+          ? !item.isGroup || stored.groupId !== item.chatId
+          : stored.senderId !== item.from && stored.receiverId !== item.from)
+      ) {
+        return;
+      }
+
+      const current = await db.reactions.get([item.messageId, item.from]);
+      if (current && current.reactedAt >= reactedAt) return;
+
+      let emoji: string;
+      try {
+        emoji = await e2eEncryption.decrypt(item.from, item.reaction);
+      } catch (error) {
+        console.error('[IncomingMessages] Failed to decrypt reaction:', error);
+        return;
+      }
+      if (emoji.length > MAX_REACTION_LENGTH) return;
+
+      await storeReaction({
+        messageId: item.messageId,
+        userId: item.from,
+        chatId: item.chatId,
+        peerId: stored.groupId ?? item.from,
+        emoji,
+        reactedAt,
+      });
+    };
+
+    /**
+     * Download voice messages for offline playback
+     */
+    const saveVoiceMessages = (messages: Message[]) => {
+      messages.forEach((message) => {
+        if (message.attachment?.waveform) {
+          saveAttachmentOffline(message.attachment.id).catch((error) => {
+            console.error(
+              '[IncomingMessages] Failed to save voice message:',
+              error
+            );
+          });
+        }
+      });
+    };
+
+    /**
+     * Tell senders that their messages reached this device
+     */
+    const sendDeliveryReceipts = (items: ReceivedMessagePayload[]) => {
+      const bySenderAndChat = new Map<
+        string,
+        { to: string; chatId: string; messageIds: string[] }
+      >();
+      items.forEach((item) => {
+        const key = `${item.from}:${item.chatId}`;
+        const receipt = bySenderAndChat.get(key) ?? {
+          to: item.from,
+          chatId: item.chatId,
+          messageIds: [],
+        };
+        receipt.messageIds.push(item.messageId);
+        bySenderAndChat.set(key, receipt);
+      });
+
+      bySenderAndChat.forEach((receipt) => {
+        socketManager.emit('message-delivered', receipt);
+      });
+    };
+
+    const handleMessageReceived = async (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (!isReceivedMessage(data)) {
+        console.error(
+          '[IncomingMessages] Invalid message-received data:',
+          data
+        );
+        return;
+      }
+
+      // Already stored (e.g. delivered twice): only repeat the receipt
+      if (await db.messages.get(data.messageId)) {
+        sendDeliveryReceipts([data]);
+        return;
+      }
+
+      const message = await toMessage(data);
+
+      try {
+        await receiveMessages([message]);
+        updatePreview(data.chatId, message);
+        sendDeliveryReceipts([data]);
+        saveVoiceMessages([message]);
+      } catch {
+        // Already logged by the store
+      }
+    };
+
+    const handleMessagesPending = async (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (
+        !data ||
+        typeof data !== 'object' ||
+        !('messages' in data) ||
+        !Array.isArray((data as { messages: unknown }).messages)
+      ) {
+        console.error(
+          '[IncomingMessages] Invalid messages-pending data:',
+          data
+        );
+        return;
+      }
+
+      const pending = (data as { messages: unknown[] }).messages.filter(
+        isPendingMessage
+      );
+      if (pending.length === 0) return;
+
+      const newMessages = pending.filter(
+        (item) => !item.kind || item.kind === 'MESSAGE'
+      );
+      const changes = pending.filter(
+        (item) =>
+          item.kind === 'EDIT' ||
+          item.kind === 'DELETE' ||
+          item.kind === 'REACTION'
+      );
+
+      // Skip messages already stored by an earlier, unacknowledged delivery
+      const stored = await db.messages.bulkGet(
+        newMessages.map((item) => item.messageId)
+      );
+      const fresh = newMessages.filter((_, index) => !stored[index]);
+
+      // Decrypt in order: messages on the same chain must advance it in sequence
+      const messages: Message[] = [];
+      for (const item of fresh) {
+        messages.push(await toMessage(item));
+      }
+
+      try {
+        await receiveMessages(messages);
+      } catch {
+        // Not acknowledged: the server will deliver them again
+        return;
+      }
+
+      // Messages arrive oldest first, so the last one per chat wins
+      fresh.forEach((item, index) => {
+        updatePreview(item.chatId, messages[index]);
+      });
+
+      // Edits, unsends and reactions refer to messages stored above or earlier
+      for (const item of changes) {
+        if (item.kind === 'REACTION') {
+          await receiveReaction({
+            from: item.from,
+            chatId: item.chatId,
+            messageId: item.messageId,
+            reaction: item.message,
+            reactedAt: item.timestamp,
+            isGroup: item.isGroup,
+          });
+        } else if (item.kind === 'EDIT') {
+          await receiveEdit({
+            from: item.from,
+            chatId: item.chatId,
+            messageId: item.messageId,
+            message: item.message,
+            editedAt: item.timestamp,
+            isGroup: item.isGroup,
+          });
+        } else {
+          await receiveDelete({
+            from: item.from,
+            chatId: item.chatId,
+            messageId: item.messageId,
+            deletedAt: item.timestamp,
+            isGroup: item.isGroup,
+          });
+        }
+      }
+
+      console.log(`[IncomingMessages] Stored ${fresh.length} queued messages`);
+      sendDeliveryReceipts(newMessages);
+      socketManager.emit('message-ack', {
+        ids: pending.map((item) => item.id),
+      });
+      saveVoiceMessages(messages);
+    };
+
+    const handleMessageEdited = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (!isEditedMessage(data)) {
+        console.error('[IncomingMessages] Invalid message-edited data:', data);
+        return;
+      }
+
+      receiveEdit(data);
+    };
+
+    const handleMessageDeleted = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (!isDeletedMessage(data)) {
+        console.error('[IncomingMessages] Invalid message-deleted data:', data);
+        return;
+      }
+
+      receiveDelete(data);
+    };
+
+    const handleMessageReaction = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (!isMessageReaction(data)) {
+        console.error(
+          '[IncomingMessages] Invalid message-reaction data:',
+          data
+        );
+        return;
+      }
+
+      receiveReaction(data);
+    };
+
+    socketManager.on('message-received', handleMessageReceived);
+    socketManager.on('messages-pending', handleMessagesPending);
+    socketManager.on('message-edited', handleMessageEdited);
+    socketManager.on('message-deleted', handleMessageDeleted);
+    socketManager.on('message-reaction', handleMessageReaction);
+
+    return () => {
+      socketManager.off('message-received', handleMessageReceived);
+      socketManager.off('messages-pending', handleMessagesPending);
+      socketManager.off('message-edited', handleMessageEdited);
+      socketManager.off('message-deleted', handleMessageDeleted);
+      socketManager.off('message-reaction', handleMessageReaction);
+    };
+  }, [
+    userId,
+    receiveMessages,
+    applyEdit,
+    applyDelete,
+    storeReaction,
+    updateLastMessage,
+    refreshPreview,
+  ]);
+}
@@ -0,0 +1,67 @@
+/**
+ * useMessageReceipts Hook
+ *
+ * Applies `message-status` events (DELIVERED / READ receipts sent by the
+ * recipient) to the messages this user sent, in Dexie.js and in the open
+ * chat.
+ *
+ * @module hooks/use-message-receipts
+ */
+
+import { useEffect } from 'react';
+import { socketManager } from '@/lib/socket-manager';
+import { useMessagesStore } from '@/store/messages-store';
+
+/**
+ * Message status event payload
+ */
+interface MessageStatusPayload {
+  from: string;
+  messageIds: string[];
+  status: 'DELIVERED' | 'READ';
+}
+
+/**
+ * useMessageReceipts Hook
+ *
+ * Subscribes to `message-status` for the lifetime of the component.
+ * Should be mounted once, next to the Socket.io connection.
+ */
+export function useMessageReceipts(): void {
+  const applyReceipt = useMessagesStore((state) => state.applyReceipt);
+
+  useEffect(() => {
+    const handleMessageStatus = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (
+        !data ||
+        typeof data !== 'object' ||
+        !('from' in data) ||
+        !('messageIds' in data) ||
+        !('status' in data) ||
+        typeof (data as { from: unknown }).from !== 'string' ||
+        !Array.isArray((data as { messageIds: unknown }).messageIds) ||
+        ((data as { status: unknown }).status !== 'DELIVERED' &&
+          (data as { status: unknown }).status !== 'READ')
+      ) {
+        console.error('[MessageReceipts] Invalid message-status data:', data);
+        return;
+      }
+
+      const validatedData = data as MessageStatusPayload;
+      const messageIds = validatedData.messageIds.filter(
+        (id): id is string => typeof id === 'string'
+      );
+
+      // Only the recipient of a message can change its status
+      applyReceipt(messageIds, validatedData.status, validatedData.from);
+    };
+
+    socketManager.on('message-status', handleMessageStatus);
+
+    return () => {
+      socketManager.off('message-status', handleMessageStatus);
+    };
+  }, [applyReceipt]);
+}
@@ -0,0 +1,67 @@
+/**
+ * useP2PChat Hook
+ *
+ * Keeps P2P data channels to the user's accepted contacts while the app is
+ * in Emergency mode (see lib/p2p-chat), and replays the sync queue whenever
+ * one opens, so messages written without the server reach the contact.
+ *
+ * @module hooks/use-p2p-chat
+ */
+
+import { useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import { p2pChat } from '@/lib/p2p-chat';
+import { flushSyncQueue } from '@/lib/sync-queue';
+import { useAppStore } from '@/store/app-store';
+import { useAuthStore } from '@/store/auth-store';
+
+/**
+ * useP2PChat Hook
+ *
+ * Should be mounted once, next to the Socket.io connection.
+ */
+export function useP2PChat(): void {
+  const mode = useAppStore((state) => state.mode);
+  const userId = useAuthStore((state) => state.user?.id);
+  const isEmergency = mode === 'Emergency' && !!userId;
+
+  // Contacts are read from Dexie.js: the API may be unreachable
+  const contactIds = useLiveQuery(async () => {
+    if (!userId) return '';
+    const contacts = await db.contacts
+      .where('status')
+      .equals('ACCEPTED')
+      .toArray();
+    return contacts
+      .map((contact) =>
+        contact.userId === userId ? contact.contactId : contact.userId
+      )
+      .sort()
+      .join(',');
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isEmergency || !userId) return;
+
+    p2pChat.start(userId).catch((error) => {
+      console.error('[useP2PChat] Failed to start P2P chat:', error);
+    });
+    const unsubscribe = p2pChat.onPeerOpen(() => {
+      flushSyncQueue({ ignoreBackoff: true });
+    });
+
+    return () => {
+      unsubscribe();
+      p2pChat.stop().catch((error) => {
+        console.error('[useP2PChat] Failed to stop P2P chat:', error);
+      });
+    };
+  }, [isEmergency, userId]);
+
+  useEffect(() => {
+    if (!isEmergency || !contactIds) return;
+
+    p2pChat.connect(contactIds.split(','));
+  }, [isEmergency, contactIds]);
+}
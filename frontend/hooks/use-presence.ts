@@ -0,0 +1,90 @@
+/**
+ * usePresence Hook
+ *
+ * Applies server-pushed `presence-changed` events to the contacts store,
+ * the chats store and the cached users in Dexie.js, so online indicators
+ * update live across the app.
+ *
+ * The server only sends presence for ACCEPTED contacts.
+ *
+ * @module hooks/use-presence
+ */
+
+import { useEffect } from 'react';
+import { socketManager } from '@/lib/socket-manager';
+import { db } from '@/lib/db';
+import { useContactsStore } from '@/store/contacts-store';
+import { useChatsStore } from '@/store/chats-store';
+
+/**
+ * Presence event payload
+ */
+interface PresenceChangedPayload {
+  userId: string;
+  isOnline: boolean;
+  lastSeenAt: string;
+}
+
+/**
+ * usePresence Hook
+ *
+ * Subscribes to `presence-changed` for the lifetime of the component.
+ * Should be mounted once, next to the Socket.io connection.
+ */
+export function usePresence(): void {
+  const updateContactOnlineStatus = useContactsStore(
+    (state) => state.updateContactOnlineStatus
+  );
+  const updateParticipantPresence = useChatsStore(
+    (state) => state.updateParticipantPresence
+  );
+
+  useEffect(() => {
+    const handlePresenceChanged = (...args: unknown[]) => {
+      // Type guard: validate incoming data structure
+      const data = args[0];
+      if (
+        !data ||
+        typeof data !== 'object' ||
+        !('userId' in data) ||
+        !('isOnline' in data) ||
+        !('lastSeenAt' in data) ||
+        typeof (data as { userId: unknown }).userId !== 'string' ||
+        typeof (data as { isOnline: unknown }).isOnline !== 'boolean' ||
+        typeof (data as { lastSeenAt: unknown }).lastSeenAt !== 'string'
+      ) {
+        console.error('[Presence] Invalid presence-changed data:', data);
+        return;
+      }
+
+      const validatedData = data as PresenceChangedPayload;
+      const lastSeen = new Date(validatedData.lastSeenAt);
+
+      updateContactOnlineStatus(
+        validatedData.userId,
+        validatedData.isOnline,
+        lastSeen
+      );
+      updateParticipantPresence(
+        validatedData.userId,
+        validatedData.isOnline,
+        lastSeen
+      );
+
+      db.users
+        .update(validatedData.userId, {
+          isOnline: validatedData.isOnline,
+          lastSeen,
+        })
+        .catch((error) => {
+          console.error('[Presence] Failed to update cached user:', error);
+        });
+    };
+
+    socketManager.on('presence-changed', handlePresenceChanged);
+
+    return () => {
+      socketManager.off('presence-changed', handlePresenceChanged);
+    };
+  }, [updateContactOnlineStatus, updateParticipantPresence]);
+}
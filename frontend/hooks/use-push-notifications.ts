@@ -2,7 +2,8 @@
  * Push Notifications Hook
  *
  * Handles requesting push notification permissions and managing subscriptions
- * using the Web Push API and Service Worker.
+ * using the Web Push API and the P2P Service Worker (public/p2p-sw.js), which
+ * shows the notifications. Each device keeps one subscription on the server.
  *
  * @module hooks/use-push-notifications
  */
@@ -10,6 +11,8 @@
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '@/store/auth-store';
 import { createApiClient } from '@/lib/api-client';
+import { e2eEncryption } from '@/lib/e2e-encryption';
+import { getP2PServiceWorkerRegistration } from '@/hooks/use-service-worker-calls';
 import type {
  PushSubscriptionData
 } from '@/lib/api-types';
@@ -48,8 +51,9 @@ export function usePushNotifications() {
       }
 
       try {
-        // Try to get the current subscription from the service worker
-        const registration = await navigator.serviceWorker.ready;
+        // Try to get the current subscription from the P2P service worker,
+        // which shows the push notifications
+        const registration = await getP2PServiceWorkerRegistration();
         const subscription = await registration.pushManager.getSubscription();
         setIsSubscribed(!!subscription);
       } catch (err) {
@@ -118,13 +122,13 @@ export function usePushNotifications() {
        throw new Error('User not authenticated');
      }
 
-     // Get service worker registration with timeout
+     // Get P2P service worker registration with timeout
      const registration = await new Promise<ServiceWorkerRegistration>((resolve, reject) => {
        const timeout = setTimeout(() => {
          reject(new Error('Service worker registration timed out'));
-       }, 1000); // 10 second timeout
+       }, 10000); // 10 second timeout
 
-       navigator.serviceWorker.ready
+       getP2PServiceWorkerRegistration()
          .then(reg => {
            clearTimeout(timeout);
            resolve(reg);
@@ -163,6 +167,9 @@ export function usePushNotifications() {
      
      apiClient.setTokens(tokens.accessToken, tokens.refreshToken);
 
+     // The subscription replaces the previous one of this device
+     const deviceId = await e2eEncryption.getDeviceId();
+
      // Create a timeout promise
      const timeoutPromise = new Promise((_, reject) => {
        setTimeout(() => reject(new Error('API request timed out')), 10000); // 10 second timeout
@@ -172,6 +179,7 @@ export function usePushNotifications() {
      await Promise.race([
        apiClient.subscribeToPush({
          subscription,
+         deviceId,
        }),
        timeoutPromise
      ]);
@@ -185,13 +193,13 @@ export function usePushNotifications() {
        throw new Error('User not authenticated');
      }
 
-     // Get service worker registration with timeout
+     // Get P2P service worker registration with timeout
      const registration = await new Promise<ServiceWorkerRegistration>((resolve, reject) => {
        const timeout = setTimeout(() => {
          reject(new Error('Service worker registration timed out'));
-       }, 1000); // 10 second timeout
+       }, 10000); // 10 second timeout
 
-       navigator.serviceWorker.ready
+       getP2PServiceWorkerRegistration()
          .then(reg => {
            clearTimeout(timeout);
            resolve(reg);
@@ -0,0 +1,33 @@
+/**
+ * useReactionOutbox Hook
+ *
+ * Sends emoji reactions saved while offline (or in Emergency mode) as soon
+ * as the Socket.io connection is established.
+ *
+ * @module hooks/use-reaction-outbox
+ */
+
+import { useEffect } from 'react';
+import { socketManager } from '@/lib/socket-manager';
+import { flushReactions } from '@/lib/reaction-outbox';
+
+/**
+ * useReactionOutbox Hook
+ *
+ * Flushes pending reactions on mount and on every `connect`. Should be
+ * mounted once, next to the Socket.io connection.
+ */
+export function useReactionOutbox(): void {
+  useEffect(() => {
+    const handleConnect = () => {
+      flushReactions();
+    };
+
+    handleConnect();
+    socketManager.on('connect', handleConnect);
+
+    return () => {
+      socketManager.off('connect', handleConnect);
+    };
+  }, []);
+}
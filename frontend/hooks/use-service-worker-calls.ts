@@ -1,30 +1,89 @@
 /**
  * React Hook for Service Worker P2P Call Handling
  *
- * Registers the custom P2P Service Worker and provides methods
- * to send signaling messages and check for pending calls.
+ * Registers the custom P2P Service Worker (public/p2p-sw.js) and provides
+ * methods to register the user for calls, hand incoming calls to the
+ * worker (which notifies the user while the app is in the background) and
+ * resume pending calls.
+ *
+ * Notification actions are dispatched as window events:
+ * `sw-accept-call` and `sw-reject-call`, with `{ callId, callerId }`.
  */
 
 import { useEffect, useState, useCallback } from 'react';
 import type { SignalingMessage } from '../lib/webtorrent-signaling';
 
+/**
+ * Scope of the P2P Service Worker, apart from the next-pwa worker's
+ */
+const P2P_SW_SCOPE = '/p2p-sw/';
+
+/**
+ * Pending calls expire after this long (the caller's ring timeout).
+ * Keep in sync with public/p2p-sw.js.
+ */
+export const PENDING_CALL_TTL_MS = 30 * 1000;
+
+/**
+ * Register the P2P Service Worker (if not already) and wait until it is
+ * active. Push subscriptions are made on this registration, as the worker
+ * shows the push notifications.
+ *
+ * @returns Active P2P Service Worker registration
+ */
+export async function getP2PServiceWorkerRegistration(): Promise<ServiceWorkerRegistration> {
+  const registration = await navigator.serviceWorker.register('/p2p-sw.js', {
+    scope: P2P_SW_SCOPE,
+  });
+
+  const worker = registration.installing ?? registration.waiting;
+  if (!registration.active && worker) {
+    await new Promise<void>((resolve) => {
+      const onStateChange = () => {
+        if (worker.state === 'activated' || worker.state === 'redundant') {
+          worker.removeEventListener('statechange', onStateChange);
+          resolve();
+        }
+      };
+      worker.addEventListener('statechange', onStateChange);
+    });
+  }
+
+  return registration;
+}
+
 /**
  * Pending call data structure
  */
 export interface PendingCall {
   id: string;
+  callId?: string; // ID of the call on the server (answers and hang-ups name it)
   callerId: string;
   callerName: string;
   type: 'AUDIO' | 'VIDEO';
-  offer: string;
+  offer: string; // Offer SDP
   timestamp: string;
 }
 
+/**
+ * Message to the P2P Service Worker
+ */
+type ServiceWorkerCallMessage =
+  | { type: 'register-calls'; userId: string }
+  | { type: 'unregister-calls' }
+  | { type: 'incoming-call'; call: PendingCall }
+  | { type: 'p2p-signaling'; message: SignalingMessage }
+  | { type: 'dismiss-call'; callId: string };
+
 export interface UseServiceWorkerCallsReturn {
   isRegistered: boolean;
   isSupported: boolean;
   error: Error | null;
   sendSignalingMessage: (message: SignalingMessage) => Promise<void>;
+  registerCallInterest: (userId: string) => Promise<void>;
+  unregisterCallInterest: () => Promise<void>;
+  notifyIncomingCall: (call: PendingCall) => Promise<void>;
+  dismissIncomingCall: (callId: string) => Promise<void>;
   getPendingCalls: () => Promise<PendingCall[]>;
   clearPendingCalls: () => Promise<void>;
 }
@@ -65,7 +124,7 @@ export function useServiceWorkerCalls(): UseServiceWorkerCallsReturn {
         console.log('[useServiceWorkerCalls] Registering P2P Service Worker...');
 
         const reg = await navigator.serviceWorker.register('/p2p-sw.js', {
-          scope: '/',
+          scope: P2P_SW_SCOPE,
         });
 
         console.log('[useServiceWorkerCalls] P2P Service Worker registered:', reg);
@@ -77,11 +136,14 @@ export function useServiceWorkerCalls(): UseServiceWorkerCallsReturn {
         navigator.serviceWorker.addEventListener('message', (event) => {
           console.log('[useServiceWorkerCalls] Message from SW:', event.data);
 
-          if (event.data && event.data.type === 'accept-call') {
-            // Handle call acceptance from notification
+          if (
+            event.data &&
+            (event.data.type === 'accept-call' || event.data.type === 'reject-call')
+          ) {
+            // Handle notification actions
             // This will be handled by the call UI component
             window.dispatchEvent(
-              new CustomEvent('sw-accept-call', {
+              new CustomEvent(`sw-${event.data.type}`, {
                 detail: {
                   callId: event.data.callId,
                   callerId: event.data.callerId,
@@ -100,42 +162,98 @@ export function useServiceWorkerCalls(): UseServiceWorkerCallsReturn {
   }, [isSupported]);
 
   /**
-   * Send signaling message to Service Worker
+   * Post a message to the Service Worker
    *
-   * @param message - WebTorrent signaling message
+   * The worker may still be installing right after registration.
    */
-  const sendSignalingMessage = useCallback(
-    async (message: SignalingMessage): Promise<void> => {
-      if (!registration || !registration.active) {
+  const postToServiceWorker = useCallback(
+    async (message: ServiceWorkerCallMessage): Promise<void> => {
+      const worker = registration?.active ?? registration?.waiting ?? registration?.installing;
+      if (!worker) {
         console.warn('[useServiceWorkerCalls] Service Worker not active, cannot send message');
         return;
       }
 
+      worker.postMessage(message);
+    },
+    [registration]
+  );
+
+  /**
+   * Send signaling message to Service Worker
+   *
+   * @param message - WebTorrent signaling message
+   */
+  const sendSignalingMessage = useCallback(
+    async (message: SignalingMessage): Promise<void> => {
       console.log('[useServiceWorkerCalls] Sending signaling message to SW:', message);
 
-      registration.active.postMessage({
-        type: 'p2p-signaling',
-        message,
-      });
+      await postToServiceWorker({ type: 'p2p-signaling', message });
     },
-    [registration]
+    [postToServiceWorker]
+  );
+
+  /**
+   * Deliver incoming calls for a user (pending calls of another user are
+   * dropped)
+   *
+   * @param userId - Signed-in user ID
+   */
+  const registerCallInterest = useCallback(
+    (userId: string) => postToServiceWorker({ type: 'register-calls', userId }),
+    [postToServiceWorker]
+  );
+
+  /**
+   * Stop delivering incoming calls and drop pending ones (sign-out)
+   */
+  const unregisterCallInterest = useCallback(
+    () => postToServiceWorker({ type: 'unregister-calls' }),
+    [postToServiceWorker]
   );
 
   /**
-   * Get all pending calls from IndexedDB
+   * Hand an incoming call to the Service Worker, which keeps it and
+   * notifies the user unless a window of the app is visible
    *
-   * @returns Promise resolving to array of pending calls
+   * @param call - Incoming call
+   */
+  const notifyIncomingCall = useCallback(
+    (call: PendingCall) => postToServiceWorker({ type: 'incoming-call', call }),
+    [postToServiceWorker]
+  );
+
+  /**
+   * Drop a pending call and close its notification (answered, declined or
+   * cancelled in the app)
+   *
+   * @param callId - Pending call ID
+   */
+  const dismissIncomingCall = useCallback(
+    (callId: string) => postToServiceWorker({ type: 'dismiss-call', callId }),
+    [postToServiceWorker]
+  );
+
+  /**
+   * Get the pending calls that have not expired from IndexedDB
+   *
+   * @returns Promise resolving to array of pending calls, newest first
    */
   const getPendingCalls = useCallback(async (): Promise<PendingCall[]> => {
     const db = await openPendingCallsDB();
     const tx = db.transaction('pendingCalls', 'readonly');
     const store = tx.objectStore('pendingCalls');
 
-    return new Promise((resolve, reject) => {
+    const calls = await new Promise<PendingCall[]>((resolve, reject) => {
       const request = store.getAll();
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
+
+    const expiredBefore = Date.now() - PENDING_CALL_TTL_MS;
+    return calls
+      .filter((call) => new Date(call.timestamp).getTime() >= expiredBefore)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
   }, []);
 
   /**
@@ -158,6 +276,10 @@ export function useServiceWorkerCalls(): UseServiceWorkerCallsReturn {
     isSupported,
     error,
     sendSignalingMessage,
+    registerCallInterest,
+    unregisterCallInterest,
+    notifyIncomingCall,
+    dismissIncomingCall,
     getPendingCalls,
     clearPendingCalls,
   };
@@ -170,7 +292,7 @@ export function useServiceWorkerCalls(): UseServiceWorkerCallsReturn {
  */
 function openPendingCallsDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open('svazapp-pending-calls', 1);
+    const request = indexedDB.open('svazapp-pending-calls', 2);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
@@ -182,6 +304,10 @@ function openPendingCallsDB(): Promise<IDBDatabase> {
         const store = db.createObjectStore('pendingCalls', { keyPath: 'id' });
         store.createIndex('timestamp', 'timestamp', { unique: false });
       }
+
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+      }
     };
   });
 }
@@ -38,6 +38,11 @@ interface UseSocketReturn {
    */
   emit: (event: string, data?: unknown) => void;
 
+  /**
+   * Emit event to server and wait for its acknowledgement
+   */
+  emitWithAck: <T>(event: string, data?: unknown) => Promise<T>;
+
   /**
    * Subscribe to event
    */
@@ -122,7 +127,7 @@ export function useSocket(): UseSocketReturn {
   useEffect(() => {
     // Only connect in Normal mode when authenticated
     if (mode === 'Normal' && isAuthenticated && tokens?.accessToken && user?.id) {
-      socketManager.connect(tokens.accessToken, user.id);
+      socketManager.connect(tokens.accessToken);
     } else {
       // Disconnect in Emergency mode or when not authenticated
       socketManager.disconnect();
@@ -142,6 +147,13 @@ export function useSocket(): UseSocketReturn {
     socketManager.emit(event, data);
   }, []);
 
+  /**
+   * Emit event to server and wait for its acknowledgement
+   */
+  const emitWithAck = useCallback(<T>(event: string, data?: unknown) => {
+    return socketManager.emitWithAck<T>(event, data);
+  }, []);
+
   /**
    * Subscribe to event
    */
@@ -159,6 +171,7 @@ export function useSocket(): UseSocketReturn {
   return {
     isConnected,
     emit,
+    emitWithAck,
     on,
     off,
   };
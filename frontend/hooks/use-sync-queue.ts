@@ -0,0 +1,145 @@
+/**
+ * useSyncQueue Hook
+ *
+ * Replays the offline outbox (see lib/sync-queue) and applies the outcome
+ * of its actions to this tab's state: sent or rejected messages, contact
+ * requests accepted by the server, saved profile edits.
+ *
+ * @module hooks/use-sync-queue
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { createApiClient } from '@/lib/api-client';
+import type { ApiUser, CreateContactResponse } from '@/lib/api-types';
+import { socketManager } from '@/lib/socket-manager';
+import {
+  flushSyncQueue,
+  onSyncEvent,
+  setSyncApiClient,
+  type SyncEvent,
+} from '@/lib/sync-queue';
+import { useAuthStore } from '@/store/auth-store';
+import { useContactsStore } from '@/store/contacts-store';
+import { useMessagesStore } from '@/store/messages-store';
+
+/**
+ * Apply the outcome of a queued action to the stores
+ */
+function applySyncEvent(event: SyncEvent): void {
+  const action = event.entry.data;
+
+  switch (action.type) {
+    case 'message-send': {
+      const { messages, updateMessageStatus } = useMessagesStore.getState();
+      const message = messages.find((item) => item.id === action.messageId);
+      if (event.type === 'failed') {
+        updateMessageStatus(action.messageId, 'FAILED');
+      } else if (
+        message?.status === 'SENDING' ||
+        message?.status === 'FAILED'
+      ) {
+        updateMessageStatus(action.messageId, 'SENT');
+      }
+      return;
+    }
+
+    case 'contact-request': {
+      // The contact was listed under the idempotency key until now
+      const { updateContact, removeContact } = useContactsStore.getState();
+      const pendingId = event.entry.idempotencyKey;
+      if (event.type === 'failed') {
+        removeContact(pendingId);
+        return;
+      }
+
+      const contact = event.result as CreateContactResponse;
+      updateContact(pendingId, {
+        id: contact.id,
+        userId: contact.userId,
+        contactId: contact.contactId,
+        requestedBy: contact.requestedBy,
+        status: contact.status,
+        createdAt: new Date(contact.createdAt),
+        updatedAt: new Date(contact.updatedAt),
+      });
+      return;
+    }
+
+    case 'profile-update': {
+      if (event.type === 'failed') return;
+
+      const user = event.result as ApiUser;
+      useAuthStore.getState().updateUser({
+        displayName: user.displayName,
+        bio: user.bio || null,
+        phone: user.phone,
+        avatarUrl: user.avatarUrl,
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * useSyncQueue Hook
+ *
+ * Flushes the queue on mount, on every `connect` and when the browser goes
+ * back online. Should be mounted once, next to the Socket.io connection.
+ */
+export function useSyncQueue(): void {
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+  const tokens = useAuthStore((state) => state.tokens);
+
+  /**
+   * API client for replayed API actions
+   */
+  const apiClient = useMemo(() => {
+    const client = createApiClient({
+      baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:80/api',
+      onTokenRefresh: (accessToken, refreshToken) => {
+        if (user) {
+          useAuthStore.getState().setAuth(user, { accessToken, refreshToken });
+        }
+      },
+      onAuthError: () => {
+        useAuthStore.getState().clearAuth();
+        router.push('/login');
+      },
+    });
+
+    if (tokens) {
+      client.setTokens(tokens.accessToken, tokens.refreshToken);
+    }
+
+    return client;
+  }, [user, tokens, router]);
+
+  useEffect(() => {
+    if (!tokens) return;
+
+    setSyncApiClient(apiClient);
+    flushSyncQueue({ ignoreBackoff: true });
+
+    return () => {
+      setSyncApiClient(null);
+    };
+  }, [apiClient, tokens]);
+
+  useEffect(() => {
+    const handleReconnect = () => {
+      flushSyncQueue({ ignoreBackoff: true });
+    };
+
+    socketManager.on('connect', handleReconnect);
+    window.addEventListener('online', handleReconnect);
+    const unsubscribe = onSyncEvent(applySyncEvent);
+
+    return () => {
+      socketManager.off('connect', handleReconnect);
+      window.removeEventListener('online', handleReconnect);
+      unsubscribe();
+    };
+  }, []);
+}
@@ -13,6 +13,7 @@ import { useEffect, useRef } from 'react';
 import { useAuthStore } from '@/store/auth-store';
 import { useAppStore } from '@/store/app-store';
 import { syncManager } from '@/lib/sync-manager';
+import { isTrackerListStale } from '@/lib/tracker-list';
 
 /**
  * Sync Hook
@@ -22,6 +23,9 @@ import { syncManager } from '@/lib/sync-manager';
  * Sync triggers:
  * - On login (isAuthenticated changes from false → true)
  * - On mode change (Emergency → Normal)
+ *
+ * The tracker list for Emergency mode is also fetched again in Normal mode
+ * when its announce token is about to expire.
  * 
  * @returns void
  */
@@ -63,6 +67,10 @@ export function useSync() {
         } catch (error) {
           console.error('[useSync] Full sync failed:', error);
         }
+      } else if (mode === 'Normal' && isTrackerListStale()) {
+        syncManager.syncTrackers().catch(() => {
+          // Already logged; retried on the next sync
+        });
       }
 
       // Update previous values
@@ -0,0 +1,300 @@
+/**
+ * useVirtualList Hook
+ *
+ * Renders only the items of a long list that are in (or near) the viewport
+ * of a scroll container. Item heights are estimated until an item is
+ * rendered, then measured with a ResizeObserver.
+ *
+ * The rendered items stay in normal document flow between two spacers
+ * (`paddingTop` / `paddingBottom`) that stand in for the items not rendered.
+ * Each rendered item's element must get `measureElement` as ref and
+ * `data-virtual-key` set to its key.
+ *
+ * When items are added before the first one (an older page of a chat) or
+ * an item above the viewport changes height (e.g. its estimate is replaced
+ * by a measurement), the scroll position is adjusted so the visible content
+ * does not move.
+ *
+ * @module hooks/use-virtual-list
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+/**
+ * Options of a virtual list
+ */
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string; // Stable key of the item at an index
+  estimateSize: number; // Height (px) of items not measured yet
+  overscan?: number; // Height (px) rendered above and below the viewport
+  paddingStart?: number; // Space (px) between the container top and the list
+  scrollElement: HTMLElement | null;
+}
+
+/**
+ * Item to render
+ */
+export interface VirtualItem {
+  index: number;
+  key: string;
+}
+
+/**
+ * Virtual list state
+ */
+interface VirtualList {
+  items: VirtualItem[];
+  paddingTop: number; // Height of the items before the rendered ones
+  paddingBottom: number; // Height of the items after the rendered ones
+  totalSize: number; // Height of the whole list
+  measureElement: (element: HTMLElement | null) => void;
+  scrollToIndex: (index: number, align?: 'start' | 'center' | 'end') => void;
+}
+
+/**
+ * Find the first and last index overlapping a range of offsets
+ */
+function findRange(
+  starts: number[],
+  top: number,
+  bottom: number
+): [number, number] {
+  const count = starts.length;
+  if (count === 0) return [0, -1];
+
+  // Last item starting at or before `top`
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= top) low = middle;
+    else high = middle - 1;
+  }
+
+  let end = low;
+  while (end < count - 1 && starts[end + 1] < bottom) end++;
+
+  return [low, end];
+}
+
+/**
+ * useVirtualList Hook
+ *
+ * @param options - List options
+ * @returns Items to render, spacer heights and helpers
+ */
+export function useVirtualList({
+  count,
+  getKey,
+  estimateSize,
+  overscan = 600,
+  paddingStart = 0,
+  scrollElement,
+}: VirtualListOptions): VirtualList {
+  const sizesRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const viewportRef = useRef({ top: 0, height: 0 });
+  const [, setRangeVersion] = useState(0);
+
+  /**
+   * Start offset of every item and the list height
+   */
+  const layout = useMemo(() => {
+    const starts: number[] = new Array(count);
+    const startByKey = new Map<string, number>();
+    let offset = 0;
+    for (let index = 0; index < count; index++) {
+      const key = getKey(index);
+      starts[index] = offset;
+      startByKey.set(key, offset);
+      offset += sizesRef.current.get(key) ?? estimateSize;
+    }
+    return { starts, startByKey, totalSize: offset };
+    // measureVersion: recompute when a measured size changed
+  }, [count, getKey, estimateSize, measureVersion]);
+
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  const getRange = (top: number, height: number) =>
+    findRange(
+      layoutRef.current.starts,
+      top - paddingStart - overscan,
+      top - paddingStart + height + overscan
+    );
+
+  const [start, end] = getRange(
+    viewportRef.current.top,
+    viewportRef.current.height
+  );
+  const rangeRef = useRef<[number, number]>([start, end]);
+  rangeRef.current = [start, end];
+  const getRangeRef = useRef(getRange);
+  getRangeRef.current = getRange;
+
+  /**
+   * Follow scrolling and resizing of the scroll container
+   *
+   * Only re-renders when a different range of items must be rendered, so
+   * scrolling within the rendered items is cheap.
+   */
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      const top = scrollElement.scrollTop;
+      const height = scrollElement.clientHeight;
+      viewportRef.current = { top, height };
+
+      const [nextStart, nextEnd] = getRangeRef.current(top, height);
+      const [currentStart, currentEnd] = rangeRef.current;
+      if (nextStart !== currentStart || nextEnd !== currentEnd) {
+        setRangeVersion((version) => version + 1);
+      }
+    };
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    scrollElement.addEventListener('scroll', schedule, { passive: true });
+    const resizeObserver = new ResizeObserver(schedule);
+    resizeObserver.observe(scrollElement);
+
+    return () => {
+      scrollElement.removeEventListener('scroll', schedule);
+      resizeObserver.disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [scrollElement]);
+
+  /**
+   * Keep the scroll position when items are added before the first one
+   */
+  const firstKeyRef = useRef<string | null>(null);
+
+  useLayoutEffect(() => {
+    const previousFirstKey = firstKeyRef.current;
+    firstKeyRef.current = count > 0 ? getKey(0) : null;
+    if (!scrollElement || previousFirstKey === null) return;
+
+    const previousFirstStart = layout.startByKey.get(previousFirstKey);
+    if (previousFirstStart) {
+      scrollElement.scrollTop += previousFirstStart;
+      viewportRef.current = {
+        top: scrollElement.scrollTop,
+        height: scrollElement.clientHeight,
+      };
+      setRangeVersion((version) => version + 1);
+    }
+  }, [layout, count, getKey, scrollElement]);
+
+  /**
+   * Measure rendered items
+   */
+  const itemObserverRef = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      let changed = false;
+
+      entries.forEach((entry) => {
+        const element = entry.target as HTMLElement;
+        // Items scrolled out of the range are unmounted
+        if (!element.isConnected) {
+          observer.unobserve(element);
+          return;
+        }
+
+        const key = element.dataset.virtualKey;
+        if (!key) return;
+
+        const size =
+          entry.borderBoxSize?.[0]?.blockSize ??
+          element.getBoundingClientRect().height;
+        const previous = sizesRef.current.get(key) ?? estimateSize;
+        if (size === previous) return;
+
+        sizesRef.current.set(key, size);
+        changed = true;
+
+        // Keep the visible content in place
+        const itemStart = layoutRef.current.startByKey.get(key);
+        if (
+          scrollElement &&
+          itemStart !== undefined &&
+          itemStart + paddingStart < scrollElement.scrollTop
+        ) {
+          scrollElement.scrollTop += size - previous;
+        }
+      });
+
+      if (changed) setMeasureVersion((version) => version + 1);
+    });
+    itemObserverRef.current = observer;
+
+    // Items rendered before the observer existed
+    scrollElement
+      ?.querySelectorAll<HTMLElement>('[data-virtual-key]')
+      .forEach((element) => observer.observe(element));
+
+    return () => {
+      observer.disconnect();
+      itemObserverRef.current = null;
+    };
+  }, [scrollElement, estimateSize, paddingStart]);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) itemObserverRef.current?.observe(element);
+  }, []);
+
+  /**
+   * Scroll so an item is at the top, center or bottom of the viewport
+   */
+  const scrollToIndex = useCallback(
+    (index: number, align: 'start' | 'center' | 'end' = 'start') => {
+      if (!scrollElement) return;
+      const { starts, totalSize } = layoutRef.current;
+      if (index < 0 || index >= starts.length) return;
+
+      const itemStart = starts[index] + paddingStart;
+      const itemSize = (starts[index + 1] ?? totalSize) - starts[index];
+      const height = scrollElement.clientHeight;
+
+      scrollElement.scrollTop =
+        align === 'start'
+          ? itemStart
+          : align === 'center'
+            ? itemStart - (height - itemSize) / 2
+            : itemStart - height + itemSize;
+    },
+    [scrollElement, paddingStart]
+  );
+
+  const items: VirtualItem[] = [];
+  for (let index = start; index <= end; index++) {
+    items.push({ index, key: getKey(index) });
+  }
+
+  return {
+    items,
+    paddingTop: end >= start ? layout.starts[start] : 0,
+    paddingBottom:
+      end >= start
+        ? layout.totalSize - (layout.starts[end + 1] ?? layout.totalSize)
+        : layout.totalSize,
+    totalSize: layout.totalSize,
+    measureElement,
+    scrollToIndex,
+  };
+}
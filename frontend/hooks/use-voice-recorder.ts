@@ -0,0 +1,191 @@
+/**
+ * useVoiceRecorder Hook
+ *
+ * Records voice messages with MediaRecorder (Opus in WebM/Ogg where
+ * supported). Designed for hold-to-record: `start()` on press, `stop()` on
+ * release sends, `cancel()` discards. Recordings shorter than
+ * MIN_VOICE_DURATION (accidental taps) are discarded.
+ *
+ * @module hooks/use-voice-recorder
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  analyzeRecording,
+  getRecordingMimeType,
+  type VoiceRecording,
+} from '@/lib/voice-recording';
+
+/**
+ * Shortest recording that is sent (seconds)
+ */
+const MIN_VOICE_DURATION = 0.5;
+
+/**
+ * Default recording limit (seconds) - 5 minutes
+ */
+const DEFAULT_MAX_VOICE_DURATION = 5 * 60;
+
+/**
+ * useVoiceRecorder options
+ */
+interface UseVoiceRecorderOptions {
+  /**
+   * Called with the finished recording (after `stop()` or the time limit)
+   */
+  onRecorded: (recording: VoiceRecording) => void;
+
+  /**
+   * Recording limit in seconds
+   */
+  maxDuration?: number;
+}
+
+/**
+ * useVoiceRecorder Hook
+ *
+ * @param options - Hook options
+ * @returns Recording state and controls
+ */
+export function useVoiceRecorder({
+  onRecorded,
+  maxDuration = DEFAULT_MAX_VOICE_DURATION,
+}: UseVoiceRecorderOptions) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const isStartingRef = useRef(false);
+  const stopRequestedRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+
+  useEffect(() => {
+    onRecordedRef.current = onRecorded;
+  }, [onRecorded]);
+
+  /**
+   * Stop recording and send the recording
+   */
+  const stop = useCallback(() => {
+    // Released while the microphone was still being opened
+    if (isStartingRef.current) {
+      stopRequestedRef.current = true;
+      return;
+    }
+
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  /**
+   * Stop recording and discard the recording
+   */
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    stop();
+  }, [stop]);
+
+  /**
+   * Start recording (asks for microphone permission on first use)
+   */
+  const start = useCallback(async () => {
+    if (recorderRef.current || isStartingRef.current) return;
+
+    setError(null);
+
+    if (
+      typeof MediaRecorder === 'undefined' ||
+      !navigator.mediaDevices?.getUserMedia
+    ) {
+      setError('Voice recording is not supported in this browser');
+      return;
+    }
+
+    isStartingRef.current = true;
+    stopRequestedRef.current = false;
+    cancelledRef.current = false;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error('[VoiceRecorder] Microphone access failed:', err);
+      setError('Microphone access denied');
+      isStartingRef.current = false;
+      return;
+    }
+
+    isStartingRef.current = false;
+
+    if (stopRequestedRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const mimeType = getRecordingMimeType();
+    const recorder = new MediaRecorder(
+      stream,
+      mimeType ? { mimeType } : undefined
+    );
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setElapsed(seconds);
+
+      if (seconds >= maxDuration && recorder.state === 'recording') {
+        recorder.stop();
+      }
+    }, 200);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    recorder.onstop = async () => {
+      clearInterval(timer);
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+      setElapsed(0);
+
+      const duration = (Date.now() - startedAt) / 1000;
+      if (
+        cancelledRef.current ||
+        duration < MIN_VOICE_DURATION ||
+        chunks.length === 0
+      ) {
+        return;
+      }
+
+      const blob = new Blob(chunks, {
+        type: recorder.mimeType || mimeType || 'audio/webm',
+      });
+      onRecordedRef.current(await analyzeRecording(blob, duration));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start(250);
+    setIsRecording(true);
+  }, [maxDuration]);
+
+  // Release the microphone when the component unmounts
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    };
+  }, []);
+
+  return { isRecording, elapsed, error, start, stop, cancel };
+}
@@ -9,6 +9,8 @@
  * - getUserMedia for camera/microphone access
  * - ICE candidate exchange via Socket.io
  * - STUN/TURN server configuration
+ * - Offline call setup: complete offer/answer for exchange via QR codes
+ *   (see lib/qr-signaling), without any server
  * - Connection state tracking
  * - Media stream management
  * - Error handling
@@ -65,6 +67,12 @@ export interface UseWebRTCReturn {
     offer: RTCSessionDescriptionInit,
     constraints?: MediaConstraints
   ) => Promise<void>;
+  createOfflineOffer: (constraints?: MediaConstraints) => Promise<string>;
+  answerOfflineOffer: (
+    offerSdp: string,
+    constraints?: MediaConstraints
+  ) => Promise<string>;
+  acceptOfflineAnswer: (answerSdp: string) => Promise<void>;
   endCall: () => void;
   toggleMute: () => void;
   toggleVideo: () => void;
@@ -84,6 +92,11 @@ const DEFAULT_CONSTRAINTS: MediaConstraints = {
   },
 };
 
+/**
+ * How long ICE candidates are gathered for an offline offer or answer
+ */
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+
 /**
  * Fetch ICE servers configuration from API
  *
@@ -120,6 +133,28 @@ async function fetchIceServers(): Promise<RTCIceServer[]> {
   }
 }
 
+/**
+ * Wait until all ICE candidates are gathered (or the timeout passes)
+ *
+ * Without trickle ICE the candidates have to be part of the SDP.
+ */
+function waitForIceGathering(pc: RTCPeerConnection): Promise<void> {
+  if (pc.iceGatheringState === 'complete') return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', handleChange);
+      resolve();
+    };
+    const handleChange = () => {
+      if (pc.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    pc.addEventListener('icegatheringstatechange', handleChange);
+  });
+}
+
 /**
  * useWebRTC Hook
  *
@@ -174,10 +209,12 @@ export function useWebRTC(): UseWebRTCReturn {
 
   /**
    * Create RTCPeerConnection
+   *
+   * @param offline - Use host candidates only (no server is reachable)
    */
-  const createPeerConnection = useCallback(async () => {
+  const createPeerConnection = useCallback(async (offline = false) => {
     // Fetch ICE servers with temporary TURN credentials from API
-    const iceServers = await fetchIceServers();
+    const iceServers = offline ? [] : await fetchIceServers();
 
     const pc = new RTCPeerConnection({
       iceServers,
@@ -350,6 +387,92 @@ export function useWebRTC(): UseWebRTCReturn {
     [user, getUserMedia, createPeerConnection, emit]
   );
 
+  /**
+   * Start an offline call (caller side)
+   *
+   * @returns Offer SDP with all ICE candidates, for the QR code
+   */
+  const createOfflineOffer = useCallback(
+    async (constraints: MediaConstraints = DEFAULT_CONSTRAINTS) => {
+      try {
+        setConnectionState('connecting');
+
+        const stream = await getUserMedia(constraints);
+        const pc = await createPeerConnection(true);
+        peerConnectionRef.current = pc;
+
+        stream.getTracks().forEach((track) => {
+          pc.addTrack(track, stream);
+        });
+
+        await pc.setLocalDescription(await pc.createOffer());
+        await waitForIceGathering(pc);
+
+        console.log('[WebRTC] Offline offer created');
+        return pc.localDescription!.sdp;
+      } catch (error) {
+        console.error('[WebRTC] Error creating offline offer:', error);
+        setConnectionState('failed');
+        endCall();
+        throw error;
+      }
+    },
+    [getUserMedia, createPeerConnection]
+  );
+
+  /**
+   * Answer an offline call (receiver side)
+   *
+   * @param offerSdp - Offer SDP scanned from the caller
+   * @returns Answer SDP with all ICE candidates, for the QR code
+   */
+  const answerOfflineOffer = useCallback(
+    async (
+      offerSdp: string,
+      constraints: MediaConstraints = DEFAULT_CONSTRAINTS
+    ) => {
+      try {
+        setConnectionState('connecting');
+
+        const stream = await getUserMedia(constraints);
+        const pc = await createPeerConnection(true);
+        peerConnectionRef.current = pc;
+
+        stream.getTracks().forEach((track) => {
+          pc.addTrack(track, stream);
+        });
+
+        await pc.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+        await pc.setLocalDescription(await pc.createAnswer());
+        await waitForIceGathering(pc);
+
+        console.log('[WebRTC] Offline answer created');
+        return pc.localDescription!.sdp;
+      } catch (error) {
+        console.error('[WebRTC] Error answering offline call:', error);
+        setConnectionState('failed');
+        endCall();
+        throw error;
+      }
+    },
+    [getUserMedia, createPeerConnection]
+  );
+
+  /**
+   * Complete an offline call with the answer scanned from the callee
+   */
+  const acceptOfflineAnswer = useCallback(async (answerSdp: string) => {
+    if (!peerConnectionRef.current) {
+      throw new Error('No offline call in progress');
+    }
+
+    await peerConnectionRef.current.setRemoteDescription({
+      type: 'answer',
+      sdp: answerSdp,
+    });
+    console.log('[WebRTC] Offline answer accepted');
+  }, []);
+
   /**
    * End the call
    */
@@ -488,7 +611,11 @@ export function useWebRTC(): UseWebRTCReturn {
 
       console.log('[WebRTC] Received answer from:', validatedData.from);
 
-      if (peerConnectionRef.current) {
+      // Only the peer of this call (offline calls have none)
+      if (
+        peerConnectionRef.current &&
+        remoteUserIdRef.current === validatedData.from
+      ) {
         try {
           await peerConnectionRef.current.setRemoteDescription(
             new RTCSessionDescription(validatedData.answer)
@@ -522,7 +649,10 @@ export function useWebRTC(): UseWebRTCReturn {
 
       console.log('[WebRTC] Received ICE candidate from:', validatedData.from);
 
-      if (peerConnectionRef.current) {
+      if (
+        peerConnectionRef.current &&
+        remoteUserIdRef.current === validatedData.from
+      ) {
         try {
           await peerConnectionRef.current.addIceCandidate(
             new RTCIceCandidate(validatedData.candidate)
@@ -545,12 +675,18 @@ export function useWebRTC(): UseWebRTCReturn {
 
   /**
    * Cleanup on unmount
+   *
+   * Through a ref: endCall changes with the local stream, and running the
+   * previous one would close the connection the stream was just added to.
    */
+  const endCallRef = useRef(endCall);
+  endCallRef.current = endCall;
+
   useEffect(() => {
     return () => {
-      endCall();
+      endCallRef.current();
     };
-  }, [endCall]);
+  }, []);
 
   return {
     connectionState,
@@ -562,6 +698,9 @@ export function useWebRTC(): UseWebRTCReturn {
     isSpeakerEnabled,
     startCall,
     answerCall,
+    createOfflineOffer,
+    answerOfflineOffer,
+    acceptOfflineAnswer,
     endCall,
     toggleMute,
     toggleVideo,
@@ -17,12 +17,32 @@ import type {
   ContactStatus,
   GetChatsResponse,
   GetCallHistoryResponse,
+  IceServersResponse,
+  TrackerListResponse,
+  CallResponse,
+  ImportCallsRequest,
+  ImportCallsResponse,
   ChatWithParticipant,
+  GroupInfo,
+  GroupMemberRole,
+  CreateGroupRequest,
+  UpdateGroupRequest,
   VapidKeyResponse,
   SubscribeToPushRequest,
   SubscribeToPushResponse,
   UnsubscribeFromPushRequest,
+  DeviceKey,
+  PublishDeviceKeyRequest,
+  GetDeviceKeysResponse,
+  ApiAttachment,
+  CreateUploadRequest,
 } from './api-types';
+import { requestOutcomes } from './connectivity-monitor';
+
+/**
+ * Statuses a proxy answers with when the API server cannot be reached
+ */
+const GATEWAY_ERROR_STATUSES = [502, 503, 504];
 
 /**
  * API client configuration
@@ -68,6 +88,27 @@ export class ApiClient {
     this.refreshToken = null;
   }
 
+  /**
+   * Fetch, reporting to the connectivity monitor whether the server was
+   * reached (see lib/connectivity-monitor)
+   */
+  private async fetchTracked(
+    url: string,
+    options: RequestInit
+  ): Promise<Response> {
+    try {
+      const response = await fetch(url, options);
+      requestOutcomes.record(!GATEWAY_ERROR_STATUSES.includes(response.status));
+      return response;
+    } catch (error) {
+      // Requests aborted by the app say nothing about the server
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        requestOutcomes.record(false);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Make an HTTP request
    */
@@ -98,7 +139,7 @@ export class ApiClient {
     }
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetchTracked(url, {
         ...options,
         headers,
       });
@@ -134,6 +175,56 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Make an HTTP request with a non-JSON body or response
+   *
+   * Used for binary uploads and downloads. Errors are reported like
+   * `request()` does.
+   */
+  private async requestRaw(
+    endpoint: string,
+    options: RequestInit
+  ): Promise<Response> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {
+      ...(options.headers as Record<string, string> | undefined),
+    };
+
+    // Add authorization header if token exists
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchTracked(url, { ...options, headers });
+    } catch {
+      throw {
+        error: 'Network Error',
+        message: 'Failed to connect to the server',
+        statusCode: 0,
+      } as ApiErrorResponse;
+    }
+
+    // Handle 401 Unauthorized - try to refresh token
+    if (response.status === 401 && this.refreshToken) {
+      await this.handleTokenRefresh();
+      // Retry the request with new token
+      return this.requestRaw(endpoint, options);
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw {
+        error: data.error || 'Request failed',
+        message: data.message || response.statusText,
+        statusCode: response.status,
+      } as ApiErrorResponse;
+    }
+
+    return response;
+  }
+
   /**
    * Handle token refresh
    */
@@ -195,30 +286,70 @@ export class ApiClient {
     /**
      * POST request
      */
-    public async post<T>(endpoint: string, body?: unknown): Promise<T> {
+    public async post<T>(
+      endpoint: string,
+      body?: unknown,
+      headers?: Record<string, string>
+    ): Promise<T> {
       return this.request<T>(endpoint, {
         method: 'POST',
         body: body ? JSON.stringify(body) : undefined,
+        headers,
       });
     }
  
     /**
      * DELETE request
      */
-    public async delete<T>(endpoint: string): Promise<T> {
-      return this.request<T>(endpoint, { method: 'DELETE' });
+    public async delete<T>(
+      endpoint: string,
+      headers?: Record<string, string>
+    ): Promise<T> {
+      return this.request<T>(endpoint, { method: 'DELETE', headers });
     }
  
+    /**
+     * PUT request
+     */
+    public async put<T>(
+      endpoint: string,
+      body?: unknown,
+      headers?: Record<string, string>
+    ): Promise<T> {
+      return this.request<T>(endpoint, {
+        method: 'PUT',
+        body: body ? JSON.stringify(body) : undefined,
+        headers,
+      });
+    }
+
     /**
      * PATCH request
      */
-    public async patch<T>(endpoint: string, body?: unknown): Promise<T> {
+    public async patch<T>(
+      endpoint: string,
+      body?: unknown,
+      headers?: Record<string, string>
+    ): Promise<T> {
       return this.request<T>(endpoint, {
         method: 'PATCH',
         body: body ? JSON.stringify(body) : undefined,
+        headers,
       });
     }
 
+    /**
+     * Headers of a mutating request retried by the offline outbox
+     *
+     * The server answers a repeated key with the first response instead of
+     * applying the request again.
+     */
+    private idempotencyHeaders(
+      idempotencyKey?: string
+    ): Record<string, string> | undefined {
+      return idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined;
+    }
+
   // ==================== Auth API ====================
 
   /**
@@ -262,8 +393,15 @@ export class ApiClient {
   /**
    * Update current user profile
    */
-  async updateCurrentUser(data: UpdateUserRequest): Promise<ApiUser> {
-    return this.patch<ApiUser>('/users/me', data);
+  async updateCurrentUser(
+    data: UpdateUserRequest,
+    idempotencyKey?: string
+  ): Promise<ApiUser> {
+    return this.patch<ApiUser>(
+      '/users/me',
+      data,
+      this.idempotencyHeaders(idempotencyKey)
+    );
   }
 
   /**
@@ -295,15 +433,44 @@ export class ApiClient {
     return this.delete<{ message: string }>('/users/me');
   }
 
+  /**
+   * Publish this device's public identity key (end-to-end encryption)
+   */
+  async publishDeviceKey(
+    deviceId: string,
+    data: PublishDeviceKeyRequest
+  ): Promise<DeviceKey> {
+    return this.put<DeviceKey>(`/users/me/keys/${deviceId}`, data);
+  }
+
+  /**
+   * Revoke one of the current user's device keys
+   */
+  async revokeDeviceKey(deviceId: string): Promise<{ message: string }> {
+    return this.delete<{ message: string }>(`/users/me/keys/${deviceId}`);
+  }
+
+  /**
+   * Get public identity keys of all devices of a user
+   */
+  async getDeviceKeys(userId: string): Promise<GetDeviceKeysResponse> {
+    return this.get<GetDeviceKeysResponse>(`/users/${userId}/keys`);
+  }
+
   // ==================== Contact API ====================
 
   /**
    * Create contact request (send friend request)
    */
   async createContactRequest(
-    data: CreateContactRequest
+    data: CreateContactRequest,
+    idempotencyKey?: string
   ): Promise<CreateContactResponse> {
-    return this.post<CreateContactResponse>('/contacts', data);
+    return this.post<CreateContactResponse>(
+      '/contacts',
+      data,
+      this.idempotencyHeaders(idempotencyKey)
+    );
   }
 
   /**
@@ -324,31 +491,56 @@ export class ApiClient {
   /**
    * Accept contact request
    */
-  async acceptContact(contactId: string): Promise<CreateContactResponse> {
+  async acceptContact(
+    contactId: string,
+    idempotencyKey?: string
+  ): Promise<CreateContactResponse> {
     return this.patch<CreateContactResponse>(
-      `/contacts/${contactId}/accept`
+      `/contacts/${contactId}/accept`,
+      undefined,
+      this.idempotencyHeaders(idempotencyKey)
     );
   }
 
   /**
    * Reject contact request
    */
-  async rejectContact(contactId: string): Promise<{ message: string }> {
-    return this.patch<{ message: string }>(`/contacts/${contactId}/reject`);
+  async rejectContact(
+    contactId: string,
+    idempotencyKey?: string
+  ): Promise<{ message: string }> {
+    return this.patch<{ message: string }>(
+      `/contacts/${contactId}/reject`,
+      undefined,
+      this.idempotencyHeaders(idempotencyKey)
+    );
   }
 
   /**
    * Block contact
    */
-  async blockContact(contactId: string): Promise<CreateContactResponse> {
-    return this.patch<CreateContactResponse>(`/contacts/${contactId}/block`);
+  async blockContact(
+    contactId: string,
+    idempotencyKey?: string
+  ): Promise<CreateContactResponse> {
+    return this.patch<CreateContactResponse>(
+      `/contacts/${contactId}/block`,
+      undefined,
+      this.idempotencyHeaders(idempotencyKey)
+    );
   }
 
   /**
    * Delete contact
    */
-  async deleteContact(contactId: string): Promise<{ message: string }> {
-    return this.delete<{ message: string }>(`/contacts/${contactId}`);
+  async deleteContact(
+    contactId: string,
+    idempotencyKey?: string
+  ): Promise<{ message: string }> {
+    return this.delete<{ message: string }>(
+      `/contacts/${contactId}`,
+      this.idempotencyHeaders(idempotencyKey)
+    );
   }
 
   // ==================== Chat API ====================
@@ -381,6 +573,150 @@ export class ApiClient {
     return this.post<{ chat: ChatWithParticipant }>('/chats', data);
   }
 
+  // ==================== Group API ====================
+
+  /**
+   * Create a group chat with accepted contacts
+   */
+  async createGroup(
+    data: CreateGroupRequest
+  ): Promise<{ chat: ChatWithParticipant }> {
+    return this.post<{ chat: ChatWithParticipant }>('/chats/groups', data);
+  }
+
+  /**
+   * Get group metadata and members
+   */
+  async getGroup(chatId: string): Promise<{ group: GroupInfo }> {
+    return this.get<{ group: GroupInfo }>(`/chats/groups/${chatId}`);
+  }
+
+  /**
+   * Update group title or avatar (admins only)
+   */
+  async updateGroup(
+    chatId: string,
+    data: UpdateGroupRequest
+  ): Promise<{ group: GroupInfo }> {
+    return this.patch<{ group: GroupInfo }>(`/chats/groups/${chatId}`, data);
+  }
+
+  /**
+   * Invite contacts to a group (admins only)
+   */
+  async addGroupMembers(
+    chatId: string,
+    userIds: string[]
+  ): Promise<{ added: string[] }> {
+    return this.post<{ added: string[] }>(`/chats/groups/${chatId}/members`, {
+      userIds,
+    });
+  }
+
+  /**
+   * Change a group member's role (admins only)
+   */
+  async setGroupMemberRole(
+    chatId: string,
+    userId: string,
+    role: GroupMemberRole
+  ): Promise<{ message: string }> {
+    return this.patch<{ message: string }>(
+      `/chats/groups/${chatId}/members/${userId}`,
+      { role }
+    );
+  }
+
+  /**
+   * Remove a member from a group (admins only)
+   */
+  async removeGroupMember(
+    chatId: string,
+    userId: string
+  ): Promise<{ message: string }> {
+    return this.delete<{ message: string }>(
+      `/chats/groups/${chatId}/members/${userId}`
+    );
+  }
+
+  /**
+   * Leave a group
+   */
+  async leaveGroup(chatId: string): Promise<{ message: string }> {
+    return this.post<{ message: string }>(`/chats/groups/${chatId}/leave`);
+  }
+
+  // ==================== Attachment API ====================
+
+  /**
+   * Start a resumable attachment upload
+   */
+  async createUpload(data: CreateUploadRequest): Promise<ApiAttachment> {
+    return this.post<ApiAttachment>('/attachments/uploads', data);
+  }
+
+  /**
+   * Get the state of an upload (to resume it)
+   */
+  async getUpload(attachmentId: string): Promise<ApiAttachment> {
+    return this.get<ApiAttachment>(`/attachments/uploads/${attachmentId}`);
+  }
+
+  /**
+   * Upload one chunk of an attachment
+   */
+  async uploadChunk(
+    attachmentId: string,
+    offset: number,
+    chunk: Blob
+  ): Promise<ApiAttachment> {
+    const response = await this.requestRaw(
+      `/attachments/uploads/${attachmentId}?offset=${offset}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk,
+      }
+    );
+    return response.json();
+  }
+
+  /**
+   * Complete an upload once all chunks were sent
+   */
+  async completeUpload(attachmentId: string): Promise<ApiAttachment> {
+    return this.post<ApiAttachment>(
+      `/attachments/uploads/${attachmentId}/complete`
+    );
+  }
+
+  /**
+   * Download an attachment (or its thumbnail)
+   */
+  async downloadAttachment(
+    attachmentId: string,
+    thumbnail = false
+  ): Promise<Blob> {
+    const response = await this.requestRaw(
+      `/attachments/${attachmentId}${thumbnail ? '/thumbnail' : ''}`,
+      { method: 'GET' }
+    );
+    return response.blob();
+  }
+
+  /**
+   * Delete an attachment (or cancel an upload)
+   */
+  async deleteAttachment(
+    attachmentId: string,
+    idempotencyKey?: string
+  ): Promise<{ message: string }> {
+    return this.delete<{ message: string }>(
+      `/attachments/${attachmentId}`,
+      this.idempotencyHeaders(idempotencyKey)
+    );
+  }
+
   // ==================== Call API ====================
 
   /**
@@ -397,6 +733,53 @@ export class ApiClient {
     return this.get<GetCallHistoryResponse>(`/calls?${queryParams.toString()}`);
   }
 
+  /**
+   * End a call (sets its end time and duration)
+   */
+  async endCall(callId: string, idempotencyKey?: string): Promise<CallResponse> {
+    return this.patch<CallResponse>(
+      `/calls/${callId}/end`,
+      undefined,
+      this.idempotencyHeaders(idempotencyKey)
+    );
+  }
+
+  /**
+   * Mark a call as missed (not answered in time)
+   */
+  async markCallMissed(
+    callId: string,
+    idempotencyKey?: string
+  ): Promise<CallResponse> {
+    return this.patch<CallResponse>(
+      `/calls/${callId}/missed`,
+      undefined,
+      this.idempotencyHeaders(idempotencyKey)
+    );
+  }
+
+  /**
+   * Import calls recorded locally while the server was unreachable
+   * (idempotent, see `ImportCallsResponse`)
+   */
+  async importCalls(data: ImportCallsRequest): Promise<ImportCallsResponse> {
+    return this.post<ImportCallsResponse>('/calls/import', data);
+  }
+
+  /**
+   * Get ICE servers for peer-to-peer connections
+   */
+  async getIceServers(): Promise<IceServersResponse> {
+    return this.get<IceServersResponse>('/ice-servers');
+  }
+
+  /**
+   * Get WebTorrent trackers for Emergency mode signaling
+   */
+  async getTrackers(): Promise<TrackerListResponse> {
+    return this.get<TrackerListResponse>('/trackers');
+  }
+
   // ==================== LiveKit API ====================
 
   /**
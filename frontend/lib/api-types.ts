@@ -142,6 +142,34 @@ export interface ApiResponse<T> {
   error?: ApiErrorResponse;
 }
 
+// ==================== Key Directory API Types ====================
+
+/**
+ * Public identity key of a user's device
+ */
+export interface DeviceKey {
+  deviceId: string;
+  identityKey: string; // Base64 SPKI-encoded ECDH P-256 public key
+  signingKey: string | null; // Base64 SPKI-encoded ECDSA P-256 public key
+  updatedAt: string;
+}
+
+/**
+ * Publish device key request
+ */
+export interface PublishDeviceKeyRequest {
+  identityKey: string;
+  signingKey?: string;
+}
+
+/**
+ * Get device keys response
+ */
+export interface GetDeviceKeysResponse {
+  userId: string;
+  devices: DeviceKey[];
+}
+
 // ==================== Contact API Types ====================
 
 /**
@@ -220,6 +248,40 @@ export interface ChatParticipant {
   lastSeenAt: string;
 }
 
+/**
+ * Chat type enum
+ */
+export type ChatType = 'DIRECT' | 'GROUP';
+
+/**
+ * Group member role enum
+ */
+export type GroupMemberRole = 'ADMIN' | 'MEMBER';
+
+/**
+ * Group member with profile data
+ */
+export interface GroupMember {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  isOnline: boolean;
+  lastSeenAt: string;
+  role: GroupMemberRole;
+  joinedAt: string;
+}
+
+/**
+ * Group chat metadata
+ */
+export interface GroupInfo {
+  title: string;
+  avatarUrl: string | null;
+  createdById: string | null;
+  members: GroupMember[];
+}
+
 /**
  * Chat with participant data
  */
@@ -227,11 +289,12 @@ export interface ChatWithParticipant {
   id: string;
   createdAt: string;
   updatedAt: string;
-  lastMessage: string | null;
+  type: ChatType;
   lastMessageAt: string | null;
   lastMessageBy: string | null;
   unreadCount: number;
-  participant: ChatParticipant;
+  participant: ChatParticipant | null; // Other user of a DIRECT chat
+  group: GroupInfo | null; // Metadata and members of a GROUP chat
 }
 
 /**
@@ -241,6 +304,59 @@ export interface GetChatsResponse {
   chats: ChatWithParticipant[];
 }
 
+/**
+ * Create group request
+ */
+export interface CreateGroupRequest {
+  title: string;
+  avatarUrl?: string | null;
+  memberIds: string[];
+}
+
+/**
+ * Update group request
+ */
+export interface UpdateGroupRequest {
+  title?: string;
+  avatarUrl?: string | null;
+}
+
+// ==================== Attachment API Types ====================
+
+/**
+ * Attachment upload state
+ */
+export type AttachmentStatus = 'UPLOADING' | 'READY';
+
+/**
+ * Attachment metadata (also describes an upload session)
+ */
+export interface ApiAttachment {
+  id: string;
+  chatId: string;
+  uploaderId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: AttachmentStatus;
+  receivedBytes: number; // Resume point of an unfinished upload
+  chunkSize: number; // Maximum size of a single chunk
+  width: number | null;
+  height: number | null;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+/**
+ * Create upload request
+ */
+export interface CreateUploadRequest {
+  chatId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
 // ==================== Call API Types ====================
 
 /**
@@ -307,6 +423,60 @@ export interface GetCallHistoryResponse {
  calls: CallWithParticipant[];
 }
 
+/**
+ * Call recorded locally in Emergency mode, for import
+ */
+export interface ImportedCall {
+  id: string; // Generated by the caller, shared with the receiver
+  callerId: string;
+  receiverId: string;
+  type: CallType;
+  status: 'ENDED' | 'MISSED' | 'REJECTED' | 'CANCELLED'; // Calls that are over
+  mode: CallMode;
+  startedAt: string | null;
+  endedAt: string | null;
+  duration: number | null;
+  createdAt: string;
+}
+
+/**
+ * Import calls request
+ */
+export interface ImportCallsRequest {
+  calls: ImportedCall[];
+}
+
+/**
+ * Import calls response
+ */
+export interface ImportCallsResponse {
+  imported: string[]; // Stored now or before (e.g. by the other participant)
+  rejected: string[]; // Can never be imported
+}
+
+/**
+ * Call record response (end or missed)
+ */
+export interface CallResponse {
+  call: Omit<CallWithParticipant, 'participant' | 'direction'>;
+}
+
+/**
+ * ICE servers response (STUN, and TURN with temporary credentials)
+ */
+export interface IceServersResponse {
+  iceServers: RTCIceServer[];
+}
+
+/**
+ * WebTorrent trackers for Emergency mode signaling (the own tracker's URL
+ * carries an announce token valid until `expiresAt`)
+ */
+export interface TrackerListResponse {
+  trackers: string[];
+  expiresAt: string;
+}
+
 // ==================== Push Notifications Types ====================
 
 /**
@@ -332,6 +502,7 @@ export interface PushSubscriptionData {
 */
 export interface SubscribeToPushRequest {
  subscription: PushSubscriptionData;
+ deviceId?: string; // One subscription per device; replaces the previous one
 }
 
 /**
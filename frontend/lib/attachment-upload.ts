@@ -0,0 +1,126 @@
+/**
+ * Attachment Upload
+ *
+ * Resumable, chunked upload of chat attachments.
+ * Chunks are sent in order; when a chunk fails (network drop, server
+ * restart, conflicting retry) the upload re-reads its state from the server
+ * and continues from the last received byte instead of starting over.
+ *
+ * @module lib/attachment-upload
+ */
+
+import type { ApiClient } from './api-client';
+import type { ApiAttachment, ApiErrorResponse } from './api-types';
+
+/**
+ * Consecutive failed attempts before an upload is given up
+ */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Delay before the first retry (doubles on each attempt)
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Whether an error is worth retrying (network error, server error, conflict)
+ */
+function isRetryable(error: unknown): boolean {
+  const statusCode = (error as ApiErrorResponse | undefined)?.statusCode;
+  return (
+    statusCode === undefined ||
+    statusCode === 0 ||
+    statusCode === 409 ||
+    statusCode >= 500
+  );
+}
+
+/**
+ * Wait before retrying; while offline, wait until the browser is back online
+ */
+async function waitForRetry(attempt: number): Promise<void> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    await new Promise<void>((resolve) => {
+      window.addEventListener('online', () => resolve(), { once: true });
+    });
+    return;
+  }
+
+  await new Promise((resolve) =>
+    setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt)
+  );
+}
+
+/**
+ * Start an upload session for a file
+ *
+ * @param apiClient - Authenticated API client
+ * @param chatId - Chat the file is shared in
+ * @param file - File to upload
+ * @returns Upload session
+ * @throws ApiErrorResponse if the server refuses the file (size, type)
+ */
+export async function startUpload(
+  apiClient: ApiClient,
+  chatId: string,
+  file: File
+): Promise<ApiAttachment> {
+  return apiClient.createUpload({
+    chatId,
+    fileName: file.name,
+    // Drop parameters such as `;codecs=opus`
+    mimeType: file.type.split(';')[0] || 'application/octet-stream',
+    size: file.size,
+  });
+}
+
+/**
+ * Send the content of a file to an upload session and complete it
+ *
+ * @param apiClient - Authenticated API client
+ * @param session - Upload session from `startUpload`
+ * @param file - File being uploaded
+ * @param onProgress - Called with the uploaded fraction (0-1)
+ * @returns Completed attachment
+ * @throws ApiErrorResponse if the upload fails permanently
+ */
+export async function continueUpload(
+  apiClient: ApiClient,
+  session: ApiAttachment,
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<ApiAttachment> {
+  let offset = session.receivedBytes;
+  let attempt = 0;
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + session.chunkSize);
+
+    try {
+      const state = await apiClient.uploadChunk(session.id, offset, chunk);
+      offset = state.receivedBytes;
+      attempt = 0;
+      onProgress?.(offset / file.size);
+    } catch (error) {
+      attempt += 1;
+      if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      console.warn(
+        `[Upload] Chunk at ${offset} failed (attempt ${attempt}), resuming`,
+        error
+      );
+      await waitForRetry(attempt - 1);
+
+      // Resume from what the server actually stored
+      try {
+        offset = (await apiClient.getUpload(session.id)).receivedBytes;
+      } catch {
+        // Still unreachable: retry the same chunk
+      }
+    }
+  }
+
+  return apiClient.completeUpload(session.id);
+}
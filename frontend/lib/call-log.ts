@@ -0,0 +1,151 @@
+/**
+ * Call Log
+ *
+ * Records calls that do not reach the server (P2P calls in Emergency mode,
+ * offline calls set up through QR codes) in the Dexie.js `calls` table,
+ * with their real mode. They are marked for upload and imported by the
+ * server once it is reachable again (see `SyncManager.uploadLocalCalls`);
+ * calls recorded in Normal mode come from the server.
+ *
+ * The caller generates the call ID and shares it with the receiver, so
+ * both records of a call are one call on the server.
+ *
+ * @module lib/call-log
+ */
+
+import { db, type DBCall, type DBCallParticipant } from './db';
+import type { ImportedCall } from './api-types';
+
+/**
+ * Calls still ringing or in progress after this long were interrupted
+ * (e.g. the app was closed) and are uploaded as missed or ended
+ */
+const STALE_CALL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Call to record
+ */
+export interface LocalCallStart {
+  id?: string; // Shared by the caller; generated if missing
+  userId: string; // Current user
+  participant: DBCallParticipant;
+  type: 'AUDIO' | 'VIDEO';
+  direction: 'INCOMING' | 'OUTGOING';
+  mode: DBCall['mode'];
+}
+
+/**
+ * Generate the ID of a call (shared with the receiver)
+ */
+export function createCallId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Record a call that starts ringing
+ *
+ * @param call - Call to record
+ * @returns Call ID
+ */
+export async function recordCallStart(call: LocalCallStart): Promise<string> {
+  const id = call.id ?? createCallId();
+  const isOutgoing = call.direction === 'OUTGOING';
+
+  await db.calls.put({
+    id,
+    callerId: isOutgoing ? call.userId : call.participant.id,
+    receiverId: isOutgoing ? call.participant.id : call.userId,
+    type: call.type,
+    status: 'RINGING',
+    direction: call.direction,
+    mode: call.mode,
+    startedAt: null,
+    endedAt: null,
+    duration: null,
+    createdAt: new Date(),
+    participant: call.participant,
+    pendingUpload: true,
+  });
+
+  return id;
+}
+
+/**
+ * Record that a call was answered
+ *
+ * @param callId - Call ID
+ */
+export async function recordCallAnswered(callId: string): Promise<void> {
+  await db.calls.update(callId, { status: 'ANSWERED', startedAt: new Date() });
+}
+
+/**
+ * Record the end of a call
+ *
+ * @param callId - Call ID
+ * @param status - How it ended; by default ended if answered, else missed
+ */
+export async function recordCallEnd(
+  callId: string,
+  status?: 'MISSED' | 'REJECTED'
+): Promise<void> {
+  await db.transaction('rw', db.calls, async () => {
+    const call = await db.calls.get(callId);
+    if (!call || call.endedAt) return;
+
+    const endedAt = new Date();
+    await db.calls.update(callId, {
+      status: status ?? (call.startedAt ? 'ENDED' : 'MISSED'),
+      endedAt,
+      duration: call.startedAt
+        ? Math.floor((endedAt.getTime() - call.startedAt.getTime()) / 1000)
+        : 0,
+    });
+  });
+}
+
+/**
+ * Get the recorded calls that can be uploaded
+ *
+ * Calls that are still ringing or in progress are left out, unless they
+ * are stale.
+ *
+ * @returns Calls in the format of the import endpoint
+ */
+export async function getCallsForUpload(): Promise<ImportedCall[]> {
+  const staleBefore = Date.now() - STALE_CALL_MS;
+  const calls = await db.calls.filter((call) => !!call.pendingUpload).toArray();
+
+  return calls
+    .filter((call) => !!call.endedAt || call.createdAt.getTime() < staleBefore)
+    .map((call) => ({
+      id: call.id,
+      callerId: call.callerId,
+      receiverId: call.receiverId,
+      type: call.type,
+      status: call.endedAt
+        ? (call.status as ImportedCall['status'])
+        : call.startedAt
+          ? 'ENDED'
+          : 'MISSED',
+      mode: call.mode,
+      startedAt: call.startedAt?.toISOString() ?? null,
+      endedAt: call.endedAt?.toISOString() ?? null,
+      duration: call.duration,
+      createdAt: call.createdAt.toISOString(),
+    }));
+}
+
+/**
+ * Clear the upload mark of calls the server has handled
+ *
+ * @param callIds - IDs of imported (or rejected) calls
+ */
+export async function markCallsUploaded(callIds: string[]): Promise<void> {
+  await db.calls
+    .where('id')
+    .anyOf(callIds)
+    .modify((call) => {
+      delete call.pendingUpload;
+    });
+}
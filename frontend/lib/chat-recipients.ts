@@ -0,0 +1,115 @@
+/**
+ * Chat Recipients
+ *
+ * Addresses message events (messages, edits, unsends, reactions) to the
+ * other users of a chat.
+ *
+ * In a 1-on-1 chat the event names the participant (`to`) and carries one
+ * envelope. In a group chat it carries one envelope per other member
+ * (`envelopes`, by user ID); the server checks the membership and delivers
+ * each member their own envelope.
+ *
+ * @module lib/chat-recipients
+ */
+
+import { e2eEncryption, RecipientKeysError } from './e2e-encryption';
+import type { Chat } from '@/store/chats-store';
+
+/**
+ * Other users of a chat
+ */
+export type ChatRecipients =
+  | { type: 'DIRECT'; participantId: string }
+  | { type: 'GROUP'; memberIds: string[] };
+
+/**
+ * Encrypted fields of a message event: `to` and the envelope under `field`
+ * for a 1-on-1 chat, `envelopes` for a group
+ */
+export type EncryptedFields<K extends string> =
+  | ({ to: string } & Record<K, string>)
+  | { envelopes: Record<string, string> };
+
+/**
+ * Get the users a chat's events are sent to
+ *
+ * @param chat - Chat
+ * @param userId - Current user (excluded from group members)
+ * @returns Recipients, or null if the chat has neither participant nor group
+ */
+export function getChatRecipients(
+  chat: Pick<Chat, 'participant' | 'group'>,
+  userId: string
+): ChatRecipients | null {
+  if (chat.group) {
+    return {
+      type: 'GROUP',
+      memberIds: chat.group.members
+        .map((member) => member.id)
+        .filter((memberId) => memberId !== userId),
+    };
+  }
+
+  if (chat.participant) {
+    return { type: 'DIRECT', participantId: chat.participant.id };
+  }
+
+  return null;
+}
+
+/**
+ * Get the addressing fields of an event without content (e.g. unsend)
+ *
+ * @param recipients - Chat recipients
+ * @returns `to` for a 1-on-1 chat, nothing for a group (all members)
+ */
+export function getRecipientFields(recipients: ChatRecipients): {
+  to?: string;
+} {
+  return recipients.type === 'DIRECT' ? { to: recipients.participantId } : {};
+}
+
+/**
+ * Encrypt a plaintext for the recipients of a chat
+ *
+ * @param recipients - Chat recipients
+ * @param field - Event field of a 1-on-1 envelope (e.g. `message`)
+ * @param plaintext - Plaintext to encrypt
+ * @returns Addressing and encrypted fields of the event
+ * @throws RecipientKeysError if no recipient has encryption keys
+ */
+export async function encryptForRecipients<K extends string>(
+  recipients: ChatRecipients,
+  field: K,
+  plaintext: string
+): Promise<EncryptedFields<K>> {
+  if (recipients.type === 'DIRECT') {
+    const envelope = await e2eEncryption.encrypt(
+      recipients.participantId,
+      plaintext
+    );
+    return { to: recipients.participantId, [field]: envelope } as {
+      to: string;
+    } & Record<K, string>;
+  }
+
+  // One at a time: encryption advances each member's ratchet. Members
+  // without keys miss the event; any other failure (e.g. the key directory
+  // is unreachable) fails the whole event, so it is retried for everybody.
+  const envelopes: Record<string, string> = {};
+  let keysError: RecipientKeysError | null = null;
+  for (const memberId of recipients.memberIds) {
+    try {
+      envelopes[memberId] = await e2eEncryption.encrypt(memberId, plaintext);
+    } catch (error) {
+      if (!(error instanceof RecipientKeysError)) throw error;
+      console.warn(`[ChatRecipients] Cannot encrypt for ${memberId}:`, error);
+      keysError = error;
+    }
+  }
+
+  if (Object.keys(envelopes).length === 0 && keysError) {
+    throw keysError;
+  }
+  return { envelopes };
+}
@@ -0,0 +1,327 @@
+/**
+ * Connectivity Monitor
+ *
+ * Decides between Normal and Emergency mode from several signals instead
+ * of a single health check:
+ *
+ * - Health check latency, averaged over the last checks (a failed check
+ *   counts as the worst latency)
+ * - Socket.io connection state, when a connection is expected
+ * - Share of recent API requests that could not reach the server
+ * - `navigator.onLine`: offline switches to Emergency right away
+ *
+ * The signals are combined into a score from 0 to 100. The mode only
+ * changes after the score has been past a threshold for several checks
+ * in a row, and the thresholds for leaving and returning to Normal mode
+ * are apart (hysteresis), so a single slow response does not bounce the
+ * app between modes.
+ *
+ * Every input is passed in (see `ConnectivityInputs`) and checks run on
+ * the global timers, so the monitor can be driven with fake ones; the real
+ * inputs are wired up in lib/emergency-detector.
+ *
+ * @module lib/connectivity-monitor
+ */
+
+import type {
+  AppMode,
+  ConnectivitySample,
+  ModeTransition,
+} from '@/store/app-store';
+
+/**
+ * Below this score, Normal mode switches to Emergency mode
+ */
+export const EMERGENCY_THRESHOLD = 40;
+
+/**
+ * At or above this score, Emergency mode switches back to Normal mode
+ */
+export const NORMAL_THRESHOLD = 70;
+
+/**
+ * Checks in a row the score must be past a threshold to switch
+ */
+const CONSECUTIVE_CHECKS = 2;
+
+/**
+ * Health checks the latency is averaged over
+ */
+const HEALTH_WINDOW = 3;
+
+/**
+ * Latencies up to this count as fully healthy (ms)
+ */
+const GOOD_LATENCY_MS = 1000;
+
+/**
+ * Latency from which a response counts as barely healthy (ms)
+ */
+const SLOW_LATENCY_MS = 5000;
+
+/**
+ * Health of a barely healthy response (0-1)
+ */
+const SLOW_LATENCY_HEALTH = 0.2;
+
+/**
+ * Weights of the signals in the score
+ */
+const HEALTH_WEIGHT = 0.5;
+const SOCKET_WEIGHT = 0.2;
+const REQUEST_WEIGHT = 0.3;
+
+/**
+ * Request outcomes older than this are forgotten (ms)
+ */
+const REQUEST_WINDOW_MS = 60 * 1000;
+
+/**
+ * Fewer recent requests than this give no failure rate
+ */
+const MIN_REQUESTS = 3;
+
+/**
+ * Inputs of the connectivity monitor
+ */
+export interface ConnectivityInputs {
+  /** Check the API, returning the latency (ms) or null if unreachable */
+  checkHealth: () => Promise<number | null>;
+  /** Whether the device has a network */
+  isOnline: () => boolean;
+  /** Socket.io connection state, null when no connection is expected */
+  isSocketConnected: () => boolean | null;
+  /** Share of recent requests that failed (0-1), null without requests */
+  getRequestFailureRate: () => number | null;
+  /** Current mode */
+  getMode: () => AppMode;
+  /** Current time (ms) */
+  now: () => number;
+}
+
+/**
+ * Outputs of the connectivity monitor
+ */
+export interface ConnectivityCallbacks {
+  /** Called after every check */
+  onSample: (sample: ConnectivitySample) => void;
+  /** Called when the mode should change */
+  onTransition: (transition: ModeTransition) => void;
+}
+
+/**
+ * Health of a single health check (0-1)
+ */
+function getLatencyHealth(latency: number | null): number {
+  if (latency === null) return 0;
+  if (latency <= GOOD_LATENCY_MS) return 1;
+  if (latency >= SLOW_LATENCY_MS) return SLOW_LATENCY_HEALTH;
+
+  const slowness =
+    (latency - GOOD_LATENCY_MS) / (SLOW_LATENCY_MS - GOOD_LATENCY_MS);
+  return 1 - slowness * (1 - SLOW_LATENCY_HEALTH);
+}
+
+/**
+ * Combine the signals into a score
+ *
+ * Signals that are not available (no health check yet, no connection
+ * expected, no recent requests) are left out and the others weigh more.
+ *
+ * @param latencies - Recent health check latencies (null for failures)
+ * @param isSocketConnected - Socket.io connection state
+ * @param requestFailureRate - Share of recent requests that failed
+ * @returns Score from 0 to 100
+ */
+export function computeConnectivityScore(
+  latencies: (number | null)[],
+  isSocketConnected: boolean | null,
+  requestFailureRate: number | null
+): number {
+  const signals: [number, number][] = [];
+
+  if (latencies.length > 0) {
+    const health =
+      latencies.map(getLatencyHealth).reduce((sum, value) => sum + value, 0) /
+      latencies.length;
+    signals.push([health, HEALTH_WEIGHT]);
+  }
+  if (isSocketConnected !== null) {
+    signals.push([isSocketConnected ? 1 : 0, SOCKET_WEIGHT]);
+  }
+  if (requestFailureRate !== null) {
+    signals.push([1 - requestFailureRate, REQUEST_WEIGHT]);
+  }
+
+  const totalWeight = signals.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight === 0) return 100;
+
+  const score =
+    signals.reduce((sum, [value, weight]) => sum + value * weight, 0) /
+    totalWeight;
+  return Math.round(score * 100);
+}
+
+/**
+ * Monitors connectivity and decides when to switch modes
+ */
+export class ConnectivityMonitor {
+  private latencies: (number | null)[] = [];
+  private consecutiveChecks = 0;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isChecking = false;
+
+  constructor(
+    private readonly inputs: ConnectivityInputs,
+    private readonly callbacks: ConnectivityCallbacks,
+    private readonly interval: number
+  ) {}
+
+  /**
+   * Check right away, then periodically
+   */
+  start(): void {
+    if (this.intervalId) return;
+
+    this.intervalId = setInterval(() => {
+      this.check();
+    }, this.interval);
+    this.check();
+  }
+
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Run a check and switch modes if needed
+   *
+   * Also called on events that may change connectivity (network or
+   * Socket.io connection lost); skipped while a check is running.
+   */
+  async check(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const isOnline = this.inputs.isOnline();
+      const latency = isOnline ? await this.inputs.checkHealth() : null;
+      this.latencies = [...this.latencies, latency].slice(-HEALTH_WINDOW);
+
+      const isSocketConnected = this.inputs.isSocketConnected();
+      const requestFailureRate = this.inputs.getRequestFailureRate();
+      const score = isOnline
+        ? computeConnectivityScore(
+            this.latencies,
+            isSocketConnected,
+            requestFailureRate
+          )
+        : 0;
+
+      this.callbacks.onSample({
+        score,
+        healthLatency: latency,
+        isOnline,
+        isSocketConnected,
+        requestFailureRate,
+        checkedAt: this.inputs.now(),
+      });
+
+      this.updateMode(score, isOnline);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Apply the hysteresis to a new score
+   */
+  private updateMode(score: number, isOnline: boolean): void {
+    const mode = this.inputs.getMode();
+
+    if (mode === 'Normal' && !isOnline) {
+      this.transition('Emergency', score, 'offline');
+      return;
+    }
+
+    const isPastThreshold =
+      mode === 'Normal'
+        ? score < EMERGENCY_THRESHOLD
+        : score >= NORMAL_THRESHOLD;
+    this.consecutiveChecks = isPastThreshold ? this.consecutiveChecks + 1 : 0;
+
+    if (this.consecutiveChecks >= CONSECUTIVE_CHECKS) {
+      if (mode === 'Normal') {
+        this.transition('Emergency', score, 'degraded');
+      } else {
+        this.transition('Normal', score, 'recovered');
+      }
+    }
+  }
+
+  private transition(
+    to: AppMode,
+    score: number,
+    reason: ModeTransition['reason']
+  ): void {
+    this.consecutiveChecks = 0;
+    this.callbacks.onTransition({
+      from: this.inputs.getMode(),
+      to,
+      at: this.inputs.now(),
+      score,
+      reason,
+    });
+  }
+}
+
+/**
+ * Recent outcomes of API requests: whether each reached the server
+ */
+export class RequestOutcomeWindow {
+  private outcomes: { at: number; ok: boolean }[] = [];
+
+  constructor(
+    private readonly windowMs: number = REQUEST_WINDOW_MS,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  /**
+   * Record the outcome of a request
+   *
+   * @param ok - Whether the server was reached
+   */
+  record(ok: boolean): void {
+    this.prune();
+    this.outcomes.push({ at: this.now(), ok });
+  }
+
+  /**
+   * Get the share of recent requests that failed
+   *
+   * @returns Failure rate (0-1), or null with too few recent requests
+   */
+  getFailureRate(): number | null {
+    this.prune();
+    if (this.outcomes.length < MIN_REQUESTS) return null;
+
+    const failures = this.outcomes.filter((outcome) => !outcome.ok).length;
+    return failures / this.outcomes.length;
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.windowMs;
+    this.outcomes = this.outcomes.filter((outcome) => outcome.at > cutoff);
+  }
+}
+
+/**
+ * Outcomes of the API client's requests
+ */
+export const requestOutcomes = new RequestOutcomeWindow();
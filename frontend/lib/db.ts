@@ -1,4 +1,5 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
+import { getMessageTokens } from './search-tokens';
 
 /**
  * User interface for offline storage
@@ -28,19 +29,99 @@ export interface DBContact {
   updatedAt: Date;
 }
 
+/**
+ * Attachment metadata of a message (content is downloaded from the API)
+ */
+export interface DBAttachment {
+  id: string; // Attachment ID on the server
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+  width: number | null; // Image dimensions
+  height: number | null;
+  hasThumbnail: boolean;
+  duration?: number; // Seconds (voice messages)
+  waveform?: number[]; // Peak levels 0-100 (voice messages)
+}
+
+/**
+ * Locally stored attachment content (voice messages, playable offline)
+ */
+export interface DBAttachmentBlob {
+  id: string; // Attachment ID
+  blob: Blob;
+  mimeType: string;
+  createdAt: Date;
+}
+
+/**
+ * Earlier version of an edited message
+ */
+export interface DBMessageRevision {
+  content: string;
+  createdAt: Date; // When this version was written
+}
+
+/**
+ * Quote of the message a reply refers to, as sent by the replying user
+ */
+export interface DBReplyQuote {
+  senderId: string; // Author of the quoted message
+  snippet: string; // Short preview of the quoted message
+}
+
 /**
  * Message interface for offline storage
  */
 export interface DBMessage {
   id: string;
   senderId: string;
-  receiverId: string;
+  receiverId: string; // Other participant, or the group chat ID
+  groupId?: string; // Group chat ID of a group message
   content: string;
   type: 'TEXT' | 'IMAGE' | 'VIDEO' | 'AUDIO' | 'FILE';
   status: 'SENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
   createdAt: Date;
   updatedAt: Date;
   localOnly?: boolean; // True if message hasn't been synced to server
+  decryptionFailed?: boolean; // True if an incoming message could not be decrypted
+  attachment?: DBAttachment; // File of IMAGE / VIDEO / AUDIO / FILE messages
+  editedAt?: Date; // Time of the latest edit
+  editHistory?: DBMessageRevision[]; // Earlier versions, oldest first
+  deletedAt?: Date; // Set when the author unsent the message (content is cleared)
+  replyToId?: string; // ID of the message this one replies to
+  replyQuote?: DBReplyQuote; // Quote shown even if the original is not stored
+}
+
+/**
+ * Emoji reaction of a user to a message (one per user and message)
+ */
+export interface DBReaction {
+  messageId: string;
+  userId: string; // Reacting user
+  chatId: string;
+  peerId: string; // Other participant of the chat (receives own reactions), or the group chat ID
+  emoji: string; // Empty for a removed reaction
+  reactedAt: Date;
+  pending?: 1; // Own reaction not yet sent to the server
+}
+
+/**
+ * Entry of the full-text search index: a word (token) of a message
+ */
+export interface DBSearchToken {
+  token: string; // Normalized word (see lib/search-tokens)
+  messageId: string;
+}
+
+/**
+ * Get the search index entries of a message
+ */
+function getSearchEntries(message: DBMessage): DBSearchToken[] {
+  return getMessageTokens(message).map((token) => ({
+    token,
+    messageId: message.id,
+  }));
 }
 
 /**
@@ -58,6 +139,18 @@ export interface DBCall {
   endedAt: Date | null;
   duration: number | null;
   createdAt: Date;
+  participant?: DBCallParticipant; // Other user, as known when recorded
+  pendingUpload?: boolean; // Recorded locally (P2P), not imported by the server yet
+}
+
+/**
+ * Other participant of a call
+ */
+export interface DBCallParticipant {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarUrl: string | null;
 }
 
 /**
@@ -87,7 +180,7 @@ export interface DBRoomParticipant {
 }
 
 /**
- * Sync queue interface for offline operations
+ * Sync queue interface for offline operations (see lib/sync-queue)
  */
 export interface DBSyncQueue {
   id?: number;
@@ -95,10 +188,61 @@ export interface DBSyncQueue {
   entity: 'USER' | 'CONTACT' | 'MESSAGE' | 'CALL' | 'ROOM';
   entityId: string;
   data: unknown;
+  idempotencyKey: string; // Sent with the action so a replay is applied once
   createdAt: Date;
   attempts: number;
   lastAttempt: Date | null;
   error: string | null;
+  failed?: 1; // Rejected by the server; kept until retried or discarded
+}
+
+/**
+ * This device's end-to-end encryption identity (single row, id 'self')
+ */
+export interface DBDeviceIdentity {
+  id: 'self';
+  deviceId: string;
+  privateKey: CryptoKey; // Non-extractable ECDH P-256 private key
+  publicKey: string; // Base64 SPKI-encoded public key
+  signingPrivateKey?: CryptoKey; // Non-extractable ECDSA P-256 key (P2P signaling)
+  signingKey?: string; // Base64 SPKI-encoded signing public key
+  createdAt: Date;
+}
+
+/**
+ * Public keys of a contact's device, cached by the contacts sync for
+ * authenticating P2P signaling while the key directory is unreachable
+ */
+export interface DBPeerDeviceKey {
+  userId: string;
+  deviceId: string;
+  identityKey: string; // Base64 SPKI-encoded ECDH P-256 public key
+  signingKey: string | null; // Base64 SPKI-encoded ECDSA P-256 public key
+  updatedAt: Date; // Last time the device published its keys
+}
+
+/**
+ * Outgoing ratchet chain towards one peer device
+ */
+export interface DBSendingChain {
+  peerDeviceId: string;
+  peerUserId: string;
+  ephemeralKey: string; // Base64 SPKI public key that started the chain
+  chainKey: string; // Base64 current chain key
+  counter: number; // Index of the next message
+  createdAt: Date;
+}
+
+/**
+ * Incoming ratchet chain from one peer device
+ */
+export interface DBReceivingChain {
+  id: string; // `${peerDeviceId}:${ephemeralKey}`
+  peerDeviceId: string;
+  chainKey: string; // Base64 current chain key
+  counter: number; // Index of the next expected message
+  skippedKeys: Record<number, string>; // Message keys of out-of-order messages
+  updatedAt: Date;
 }
 
 /**
@@ -113,6 +257,13 @@ class SvazAppDatabase extends Dexie {
   rooms!: EntityTable<DBRoom, 'id'>;
   roomParticipants!: EntityTable<DBRoomParticipant, 'id'>;
   syncQueue!: EntityTable<DBSyncQueue, 'id'>;
+  deviceIdentity!: EntityTable<DBDeviceIdentity, 'id'>;
+  sendingChains!: EntityTable<DBSendingChain, 'peerDeviceId'>;
+  receivingChains!: EntityTable<DBReceivingChain, 'id'>;
+  peerDeviceKeys!: Table<DBPeerDeviceKey, [string, string]>;
+  attachmentBlobs!: EntityTable<DBAttachmentBlob, 'id'>;
+  reactions!: Table<DBReaction, [string, string]>;
+  searchIndex!: Table<DBSearchToken, [string, string]>;
 
   constructor() {
     super('svazapp');
@@ -147,6 +298,81 @@ class SvazAppDatabase extends Dexie {
       // Indexes: id (auto-increment primary), entity, createdAt, attempts
       syncQueue: '++id, entity, createdAt, attempts, lastAttempt',
     });
+
+    this.version(2).stores({
+      // End-to-end encryption identity of this device (single row)
+      deviceIdentity: 'id',
+
+      // Ratchet chains per peer device
+      // Indexes: peerDeviceId (primary), peerUserId
+      sendingChains: 'peerDeviceId, peerUserId',
+
+      // Indexes: id (primary), peerDeviceId, updatedAt
+      receivingChains: 'id, peerDeviceId, updatedAt',
+    });
+
+    this.version(3).stores({
+      // Attachment content kept for offline use
+      // Indexes: id (primary, attachment ID), createdAt
+      attachmentBlobs: 'id, createdAt',
+    });
+
+    this.version(4).stores({
+      // Emoji reactions
+      // Indexes: [messageId+userId] (primary), messageId, pending
+      reactions: '[messageId+userId], messageId, pending',
+    });
+
+    this.version(5)
+      .stores({
+        // Full-text search index (inverted: word -> messages)
+        // Indexes: [token+messageId] (primary), messageId
+        searchIndex: '[token+messageId], messageId',
+      })
+      .upgrade(async (tx) => {
+        // Index the messages stored before search existed
+        const messages: DBMessage[] = await tx.table('messages').toArray();
+        await tx
+          .table('searchIndex')
+          .bulkPut(messages.flatMap((message) => getSearchEntries(message)));
+      });
+
+    this.version(6).stores({
+      // Messages table: compound indexes for paging through a chat by time
+      // Indexes: + [senderId+receiverId+createdAt], [receiverId+createdAt]
+      messages:
+        'id, senderId, receiverId, createdAt, status, [senderId+receiverId], localOnly, [senderId+receiverId+createdAt], [receiverId+createdAt]',
+    });
+
+    this.version(7).stores({
+      // Sync queue table: idempotency keys and permanent failures
+      // Indexes: id (auto-increment primary), idempotencyKey (unique), entity, createdAt, failed
+      syncQueue: '++id, &idempotencyKey, entity, createdAt, failed',
+    });
+
+    this.version(8).stores({
+      // Device keys of contacts
+      // Indexes: [userId+deviceId] (primary), userId
+      peerDeviceKeys: '[userId+deviceId], userId',
+    });
+  }
+
+  /**
+   * Replace the search index entries of messages
+   *
+   * Call after saving messages, in the same transaction (which must include
+   * the searchIndex table) so the index never misses a stored message.
+   */
+  async indexMessages(messages: DBMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    await this.searchIndex
+      .where('messageId')
+      .anyOf(messages.map((message) => message.id))
+      .delete();
+    await this.searchIndex.bulkPut(
+      messages.flatMap((message) => getSearchEntries(message))
+    );
   }
 
   /**
@@ -160,6 +386,13 @@ class SvazAppDatabase extends Dexie {
     await this.rooms.clear();
     await this.roomParticipants.clear();
     await this.syncQueue.clear();
+    await this.deviceIdentity.clear();
+    await this.sendingChains.clear();
+    await this.receivingChains.clear();
+    await this.peerDeviceKeys.clear();
+    await this.attachmentBlobs.clear();
+    await this.reactions.clear();
+    await this.searchIndex.clear();
   }
 
   /**
@@ -212,7 +445,10 @@ class SvazAppDatabase extends Dexie {
     await this.transaction('rw', this.tables, async () => {
       if (data.users) await this.users.bulkPut(data.users);
       if (data.contacts) await this.contacts.bulkPut(data.contacts);
-      if (data.messages) await this.messages.bulkPut(data.messages);
+      if (data.messages) {
+        await this.messages.bulkPut(data.messages);
+        await this.indexMessages(data.messages);
+      }
       if (data.calls) await this.calls.bulkPut(data.calls);
       if (data.rooms) await this.rooms.bulkPut(data.rooms);
       if (data.roomParticipants)
@@ -0,0 +1,804 @@
+/**
+ * Device Link
+ *
+ * Moves the chat history stored on this device (messages and calls) to
+ * another device of the same user, without it passing through the server.
+ *
+ * 1. The device with the history shows a one-time link code.
+ * 2. The new device enters it. From the code, both derive a session ID
+ *    (the only part the server sees) and an AES-GCM key.
+ * 3. They connect over WebRTC, signaling through the server
+ *    (`device-link-signal`), and the history is streamed over a data
+ *    channel. Every frame is encrypted with the one-time key, so even a
+ *    server tampering with the signaling cannot read the history.
+ * 4. The new device acknowledges each batch and remembers how far it got,
+ *    so an interrupted transfer continues where it stopped when the same
+ *    code is entered again.
+ *
+ * @module lib/device-link
+ */
+
+import { db, type DBCall, type DBMessage } from './db';
+import { socketManager } from './socket-manager';
+
+/**
+ * Characters of a link code (Crockford's base32: no I, L, O or U)
+ */
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Characters in a link code (80 bits)
+ */
+const CODE_LENGTH = 16;
+
+/**
+ * Tables transferred, in order
+ */
+const LINK_TABLES = ['messages', 'calls'] as const;
+
+type LinkTable = (typeof LINK_TABLES)[number];
+
+/**
+ * Records sent per batch
+ */
+const BATCH_SIZE = 200;
+
+/**
+ * Largest data channel message (bytes); larger frames are split
+ */
+const CHUNK_SIZE = 16 * 1024;
+
+/**
+ * Sending pauses while more than this is buffered in the data channel
+ */
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+
+/**
+ * How long the new device waits for the connection
+ */
+const CONNECT_TIMEOUT_MS = 30000;
+
+/**
+ * Fields revived as dates when a batch is received
+ */
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'editedAt',
+  'deletedAt',
+  'startedAt',
+  'endedAt',
+]);
+
+/**
+ * localStorage key of the progress of an interrupted transfer
+ */
+const PROGRESS_STORAGE_KEY = 'device-link-progress';
+
+/**
+ * Public STUN server used when the API does not provide ICE servers
+ */
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+];
+
+/**
+ * Status of a device link session
+ */
+export type DeviceLinkStatus =
+  | 'waiting' // Waiting for the other device
+  | 'connecting'
+  | 'transferring'
+  | 'interrupted' // Connection lost; can be resumed with the same code
+  | 'complete'
+  | 'failed';
+
+/**
+ * Progress of a device link session
+ */
+export interface DeviceLinkProgress {
+  status: DeviceLinkStatus;
+  transferred: number; // Records received by the new device
+  total: number; // Records to transfer (0 until known)
+  error?: string;
+}
+
+/**
+ * Running device link session
+ */
+export interface DeviceLinkSession {
+  cancel: () => void; // Stop the session and tell the other device
+}
+
+/**
+ * Signal relayed by the server between the two devices
+ */
+interface LinkSignal {
+  sessionId: string;
+  type: 'join' | 'offer' | 'answer' | 'ice-candidate' | 'cancel';
+  sdp?: string;
+  candidate?: RTCIceCandidateInit;
+}
+
+/**
+ * Message exchanged over the data channel
+ */
+type LinkMessage =
+  // New device -> device with the history
+  | { type: 'resume'; table: LinkTable | null; after: string | null }
+  | { type: 'ack'; table: LinkTable; lastId: string; received: number }
+  // Device with the history -> new device
+  | { type: 'manifest'; total: number }
+  | { type: 'batch'; table: LinkTable; items: unknown[]; lastId: string }
+  | { type: 'complete' };
+
+/**
+ * Progress of a transfer, saved by the new device after each batch
+ */
+interface SavedProgress {
+  sessionId: string;
+  table: LinkTable | null; // Table of the last batch received
+  after: string | null; // ID of the last record received
+  received: number;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Create a random link code
+ *
+ * @returns Link code, formatted for display (XXXX-XXXX-XXXX-XXXX)
+ */
+export function createLinkCode(): string {
+  const values = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  const code = Array.from(values, (value) => CODE_ALPHABET[value % 32]).join(
+    ''
+  );
+  return code.match(/.{4}/g)!.join('-');
+}
+
+/**
+ * Normalize a link code typed by the user
+ *
+ * Spaces, dashes and case are ignored; O, I and L are read as 0, 1 and 1.
+ *
+ * @param input - Code as typed
+ * @returns Code without separators, or null if it is not a valid code
+ */
+export function normalizeLinkCode(input: string): string | null {
+  const code = input
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  if (code.length !== CODE_LENGTH) return null;
+  return Array.from(code).every((char) => CODE_ALPHABET.includes(char))
+    ? code
+    : null;
+}
+
+/**
+ * Derive the session ID and the encryption key of a link code
+ */
+async function deriveLinkSecrets(
+  code: string
+): Promise<{ sessionId: string; key: CryptoKey }> {
+  const normalized = normalizeLinkCode(code);
+  if (!normalized) throw new Error('Invalid link code');
+
+  const material = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(normalized),
+    'HKDF',
+    false,
+    ['deriveBits', 'deriveKey']
+  );
+  const params = (info: string): HkdfParams => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(0),
+    info: textEncoder.encode(info),
+  });
+
+  const sessionBits = await crypto.subtle.deriveBits(
+    params('svazapp-device-link-session'),
+    material,
+    128
+  );
+  const key = await crypto.subtle.deriveKey(
+    params('svazapp-device-link-key'),
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  const sessionId = Array.from(new Uint8Array(sessionBits), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+  return { sessionId, key };
+}
+
+/**
+ * Send a signal to the user's other devices
+ *
+ * @throws Error if the server rejects it (e.g. no other device is online)
+ */
+async function sendSignal(
+  sessionId: string,
+  signal: Omit<LinkSignal, 'sessionId'>
+): Promise<void> {
+  const ack = await socketManager.emitWithAck<{
+    success: boolean;
+    error?: string;
+  }>('device-link-signal', { sessionId, ...signal });
+
+  if (!ack.success) {
+    throw new Error(ack.error || 'Failed to reach the other device');
+  }
+}
+
+/**
+ * Check that an event payload is a signal of a session
+ */
+function isLinkSignal(data: unknown, sessionId: string): data is LinkSignal {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as LinkSignal).sessionId === sessionId &&
+    typeof (data as LinkSignal).type === 'string'
+  );
+}
+
+/**
+ * Load the saved progress of a session
+ */
+function loadProgress(sessionId: string): SavedProgress {
+  try {
+    const stored = localStorage.getItem(PROGRESS_STORAGE_KEY);
+    if (stored) {
+      const progress = JSON.parse(stored) as SavedProgress;
+      if (progress.sessionId === sessionId) return progress;
+    }
+  } catch (err) {
+    console.error('[DeviceLink] Error loading progress:', err);
+  }
+  return { sessionId, table: null, after: null, received: 0 };
+}
+
+/**
+ * Read the next batch of a table
+ */
+function readBatch(
+  table: LinkTable,
+  after: string | null
+): Promise<Array<{ id: string }>> {
+  const records = db.table<{ id: string }, string>(table);
+  const collection =
+    after === null ? records.orderBy(':id') : records.where(':id').above(after);
+  return collection.limit(BATCH_SIZE).toArray();
+}
+
+/**
+ * Save a received batch
+ *
+ * Records already stored are kept when they are as recent as the received
+ * ones (messages edited or deleted on this device after the other one
+ * went offline, for example).
+ */
+async function saveBatch(table: LinkTable, items: unknown[]): Promise<void> {
+  if (table === 'messages') {
+    const messages = items as DBMessage[];
+    const existing = await db.messages.bulkGet(messages.map((m) => m.id));
+    const updated = messages.filter(
+      (message, index) =>
+        !existing[index] ||
+        existing[index]!.updatedAt.getTime() < message.updatedAt.getTime()
+    );
+
+    await db.transaction('rw', db.messages, db.searchIndex, async () => {
+      await db.messages.bulkPut(updated);
+      await db.indexMessages(updated);
+    });
+    return;
+  }
+
+  const calls = items as DBCall[];
+  const existing = await db.calls.bulkGet(calls.map((call) => call.id));
+  await db.calls.bulkPut(calls.filter((_, index) => !existing[index]));
+}
+
+/**
+ * Encrypted, framed messaging over a data channel
+ *
+ * Each message is JSON, encrypted with AES-GCM under a random IV and split
+ * into chunks of at most CHUNK_SIZE bytes. The first byte of a chunk is 1
+ * if more chunks of the same message follow.
+ */
+class SecureChannel {
+  private parts: Uint8Array[] = [];
+  private receiving: Promise<void> = Promise.resolve();
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private channel: RTCDataChannel,
+    private key: CryptoKey,
+    private onMessage: (message: LinkMessage) => Promise<void> | void,
+    private onError: (error: Error) => void
+  ) {
+    channel.binaryType = 'arraybuffer';
+    channel.onmessage = (event: MessageEvent) => {
+      this.receive(new Uint8Array(event.data as ArrayBuffer));
+    };
+  }
+
+  /**
+   * Encrypt and send a message (messages are sent in call order)
+   */
+  send(message: LinkMessage): Promise<void> {
+    this.sending = this.sending.then(() => this.sendNow(message));
+    return this.sending;
+  }
+
+  private async sendNow(message: LinkMessage): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      textEncoder.encode(JSON.stringify(message))
+    );
+
+    const frame = new Uint8Array(iv.length + ciphertext.byteLength);
+    frame.set(iv);
+    frame.set(new Uint8Array(ciphertext), iv.length);
+
+    const partSize = CHUNK_SIZE - 1;
+    for (let offset = 0; offset < frame.length; offset += partSize) {
+      await this.waitForBuffer();
+      const part = frame.subarray(offset, offset + partSize);
+      const chunk = new Uint8Array(part.length + 1);
+      chunk[0] = offset + partSize < frame.length ? 1 : 0;
+      chunk.set(part, 1);
+      this.channel.send(chunk);
+    }
+  }
+
+  /**
+   * Wait until the data channel has room in its send buffer
+   */
+  private waitForBuffer(): Promise<void> {
+    if (this.channel.bufferedAmount <= MAX_BUFFERED_AMOUNT) {
+      return Promise.resolve();
+    }
+
+    this.channel.bufferedAmountLowThreshold = MAX_BUFFERED_AMOUNT / 2;
+    return new Promise((resolve) => {
+      this.channel.addEventListener('bufferedamountlow', () => resolve(), {
+        once: true,
+      });
+    });
+  }
+
+  /**
+   * Collect a chunk; handle the message once all its chunks arrived
+   */
+  private receive(chunk: Uint8Array): void {
+    this.parts.push(chunk.subarray(1));
+    if (chunk[0] === 1) return;
+
+    const frame = new Uint8Array(
+      this.parts.reduce((length, part) => length + part.length, 0)
+    );
+    let offset = 0;
+    this.parts.forEach((part) => {
+      frame.set(part, offset);
+      offset += part.length;
+    });
+    this.parts = [];
+
+    // Messages are decrypted and handled one at a time, in order
+    this.receiving = this.receiving
+      .then(async () => {
+        let plaintext: ArrayBuffer;
+        try {
+          plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: frame.subarray(0, 12) },
+            this.key,
+            frame.subarray(12)
+          );
+        } catch {
+          throw new Error('The other device used a different link code');
+        }
+
+        const message = JSON.parse(
+          textDecoder.decode(plaintext),
+          (key, value) =>
+            DATE_FIELDS.has(key) && typeof value === 'string'
+              ? new Date(value)
+              : value
+        ) as LinkMessage;
+        await this.onMessage(message);
+      })
+      .catch((error: Error) => {
+        this.receiving = new Promise(() => {}); // Ignore further messages
+        this.onError(error);
+      });
+  }
+}
+
+/**
+ * WebRTC connection between the two devices
+ */
+class LinkConnection {
+  private pc: RTCPeerConnection;
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+
+  constructor(
+    private sessionId: string,
+    iceServers: RTCIceServer[],
+    onChannel: (channel: RTCDataChannel) => void,
+    onClosed: () => void
+  ) {
+    this.pc = new RTCPeerConnection({
+      iceServers: iceServers.length > 0 ? iceServers : FALLBACK_ICE_SERVERS,
+    });
+
+    this.pc.onicecandidate = (event) => {
+      if (!event.candidate) return;
+      sendSignal(this.sessionId, {
+        type: 'ice-candidate',
+        candidate: event.candidate.toJSON(),
+      }).catch((err) => {
+        console.error('[DeviceLink] Failed to send ICE candidate:', err);
+      });
+    };
+
+    this.pc.onconnectionstatechange = () => {
+      if (
+        this.pc.connectionState === 'failed' ||
+        this.pc.connectionState === 'disconnected'
+      ) {
+        onClosed();
+      }
+    };
+
+    this.pc.ondatachannel = (event) => onChannel(event.channel);
+  }
+
+  /**
+   * Create the data channel and send the offer (device with the history)
+   */
+  async offer(): Promise<RTCDataChannel> {
+    const channel = this.pc.createDataChannel('history', { ordered: true });
+    const offer = await this.pc.createOffer();
+    await this.pc.setLocalDescription(offer);
+    await sendSignal(this.sessionId, { type: 'offer', sdp: offer.sdp });
+    return channel;
+  }
+
+  /**
+   * Handle an offer, answer or ICE candidate of the other device
+   */
+  async handleSignal(signal: LinkSignal): Promise<void> {
+    if (signal.type === 'offer' && signal.sdp) {
+      await this.pc.setRemoteDescription({ type: 'offer', sdp: signal.sdp });
+      await this.addPendingCandidates();
+      const answer = await this.pc.createAnswer();
+      await this.pc.setLocalDescription(answer);
+      await sendSignal(this.sessionId, { type: 'answer', sdp: answer.sdp });
+    } else if (signal.type === 'answer' && signal.sdp) {
+      await this.pc.setRemoteDescription({ type: 'answer', sdp: signal.sdp });
+      await this.addPendingCandidates();
+    } else if (signal.type === 'ice-candidate' && signal.candidate) {
+      if (this.pc.remoteDescription) {
+        await this.pc.addIceCandidate(signal.candidate);
+      } else {
+        this.pendingCandidates.push(signal.candidate);
+      }
+    }
+  }
+
+  private async addPendingCandidates(): Promise<void> {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+    for (const candidate of candidates) {
+      await this.pc.addIceCandidate(candidate);
+    }
+  }
+
+  close(): void {
+    this.pc.onconnectionstatechange = null;
+    this.pc.close();
+  }
+}
+
+/**
+ * Offer this device's history to a new device
+ *
+ * Waits for the device entering the code until cancelled; a device that
+ * lost the connection can join again and continue.
+ *
+ * @param code - Link code shown to the user
+ * @param iceServers - ICE servers (a public STUN server if empty)
+ * @param onProgress - Called when the status or progress changes
+ * @returns Session, to cancel
+ */
+export async function startLinkSource(
+  code: string,
+  iceServers: RTCIceServer[],
+  onProgress: (progress: DeviceLinkProgress) => void
+): Promise<DeviceLinkSession> {
+  const { sessionId, key } = await deriveLinkSecrets(code);
+  let progress: DeviceLinkProgress = {
+    status: 'waiting',
+    transferred: 0,
+    total: 0,
+  };
+  let connection: LinkConnection | null = null;
+
+  const report = (update: Partial<DeviceLinkProgress>) => {
+    progress = { ...progress, ...update };
+    onProgress(progress);
+  };
+
+  const closeConnection = () => {
+    connection?.close();
+    connection = null;
+  };
+
+  /**
+   * Send the next batch after a record, moving on to the next tables
+   */
+  const sendNext = async (
+    channel: SecureChannel,
+    table: LinkTable | null,
+    after: string | null
+  ) => {
+    let index = table ? LINK_TABLES.indexOf(table) : 0;
+    let cursor = after;
+
+    for (; index < LINK_TABLES.length; index++, cursor = null) {
+      const items = await readBatch(LINK_TABLES[index], cursor);
+      if (items.length > 0) {
+        await channel.send({
+          type: 'batch',
+          table: LINK_TABLES[index],
+          items,
+          lastId: items[items.length - 1].id,
+        });
+        return;
+      }
+    }
+
+    await channel.send({ type: 'complete' });
+    report({ status: 'complete', transferred: progress.total });
+  };
+
+  const serve = (dataChannel: RTCDataChannel) => {
+    const channel: SecureChannel = new SecureChannel(
+      dataChannel,
+      key,
+      async (message) => {
+        if (message.type === 'resume') {
+          const counts = await Promise.all(
+            LINK_TABLES.map((table) => db.table(table).count())
+          );
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          await channel.send({ type: 'manifest', total });
+          report({ status: 'transferring', total });
+          await sendNext(channel, message.table, message.after);
+        } else if (message.type === 'ack') {
+          report({ transferred: message.received });
+          await sendNext(channel, message.table, message.lastId);
+        }
+      },
+      (error) => {
+        closeConnection();
+        report({ status: 'failed', error: error.message });
+      }
+    );
+  };
+
+  const handleSignal = (...args: unknown[]) => {
+    const signal = args[0];
+    if (!isLinkSignal(signal, sessionId)) return;
+
+    if (signal.type === 'join') {
+      // A new device, or the same one reconnecting
+      closeConnection();
+      const current = new LinkConnection(
+        sessionId,
+        iceServers,
+        () => {},
+        () => {
+          if (connection !== current) return;
+          closeConnection();
+          if (progress.status !== 'complete') {
+            report({ status: 'interrupted' });
+          }
+        }
+      );
+      connection = current;
+      report({ status: 'connecting', error: undefined });
+
+      current
+        .offer()
+        .then(serve)
+        .catch((err) => {
+          console.error('[DeviceLink] Failed to connect:', err);
+          closeConnection();
+          report({ status: 'failed', error: 'Failed to connect' });
+        });
+      return;
+    }
+
+    if (signal.type === 'cancel') {
+      closeConnection();
+      if (progress.status !== 'complete') report({ status: 'interrupted' });
+      return;
+    }
+
+    connection?.handleSignal(signal).catch((err) => {
+      console.error('[DeviceLink] Failed to handle signal:', err);
+    });
+  };
+
+  socketManager.on('device-link-signal', handleSignal);
+  report({});
+
+  return {
+    cancel: () => {
+      socketManager.off('device-link-signal', handleSignal);
+      if (connection) {
+        sendSignal(sessionId, { type: 'cancel' }).catch(() => {});
+      }
+      closeConnection();
+    },
+  };
+}
+
+/**
+ * Copy the history of another device to this device
+ *
+ * If a transfer with the same code was interrupted, it continues after
+ * the last batch received.
+ *
+ * @param code - Link code shown on the other device
+ * @param iceServers - ICE servers (a public STUN server if empty)
+ * @param onProgress - Called when the status or progress changes
+ * @returns Session, to cancel
+ * @throws Error if the code is invalid or no other device is online
+ */
+export async function startLinkTarget(
+  code: string,
+  iceServers: RTCIceServer[],
+  onProgress: (progress: DeviceLinkProgress) => void
+): Promise<DeviceLinkSession> {
+  const { sessionId, key } = await deriveLinkSecrets(code);
+  const saved = loadProgress(sessionId);
+  let progress: DeviceLinkProgress = {
+    status: 'connecting',
+    transferred: saved.received,
+    total: 0,
+  };
+  let closed = false;
+
+  const report = (update: Partial<DeviceLinkProgress>) => {
+    progress = { ...progress, ...update };
+    onProgress(progress);
+  };
+
+  const handleMessage = async (
+    channel: SecureChannel,
+    message: LinkMessage
+  ) => {
+    if (message.type === 'manifest') {
+      report({ status: 'transferring', total: message.total });
+    } else if (message.type === 'batch') {
+      await saveBatch(message.table, message.items);
+
+      saved.table = message.table;
+      saved.after = message.lastId;
+      saved.received += message.items.length;
+      localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(saved));
+      report({ transferred: saved.received });
+
+      await channel.send({
+        type: 'ack',
+        table: message.table,
+        lastId: message.lastId,
+        received: saved.received,
+      });
+    } else if (message.type === 'complete') {
+      localStorage.removeItem(PROGRESS_STORAGE_KEY);
+      report({
+        status: 'complete',
+        transferred: Math.max(saved.received, progress.total),
+      });
+      close();
+    }
+  };
+
+  const connection = new LinkConnection(
+    sessionId,
+    iceServers,
+    (dataChannel) => {
+      const channel: SecureChannel = new SecureChannel(
+        dataChannel,
+        key,
+        (message) => handleMessage(channel, message),
+        (error) => {
+          close();
+          report({ status: 'failed', error: error.message });
+        }
+      );
+
+      const resume = () => {
+        channel
+          .send({ type: 'resume', table: saved.table, after: saved.after })
+          .catch((err) => {
+            console.error('[DeviceLink] Failed to start transfer:', err);
+          });
+      };
+      if (dataChannel.readyState === 'open') resume();
+      else dataChannel.onopen = resume;
+    },
+    () => {
+      close();
+      if (progress.status !== 'complete') report({ status: 'interrupted' });
+    }
+  );
+
+  const handleSignal = (...args: unknown[]) => {
+    const signal = args[0];
+    if (!isLinkSignal(signal, sessionId)) return;
+
+    if (signal.type === 'cancel') {
+      close();
+      if (progress.status !== 'complete') report({ status: 'interrupted' });
+      return;
+    }
+
+    connection.handleSignal(signal).catch((err) => {
+      console.error('[DeviceLink] Failed to handle signal:', err);
+    });
+  };
+
+  const timeout = setTimeout(() => {
+    if (progress.status !== 'connecting') return;
+    close();
+    report({
+      status: 'failed',
+      error: 'Could not connect to the other device',
+    });
+  }, CONNECT_TIMEOUT_MS);
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    clearTimeout(timeout);
+    socketManager.off('device-link-signal', handleSignal);
+    connection.close();
+  }
+
+  socketManager.on('device-link-signal', handleSignal);
+  report({});
+
+  try {
+    await sendSignal(sessionId, { type: 'join' });
+  } catch (err) {
+    close();
+    throw err;
+  }
+
+  return {
+    cancel: () => {
+      if (closed) return;
+      close();
+      sendSignal(sessionId, { type: 'cancel' }).catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,829 @@
+/**
+ * End-to-End Encryption Manager
+ *
+ * Encrypts 1:1 chat messages so the server only ever relays ciphertext.
+ *
+ * How it works:
+ * 1. Every device generates an ECDH P-256 identity key pair. The private key
+ *    is non-extractable and stays in Dexie.js; the public key is published
+ *    to the key directory (`PUT /users/me/keys/:deviceId`).
+ * 2. To write to a peer device, the sender starts a chain with a fresh
+ *    ephemeral key: the chain key is derived with HKDF from
+ *    ECDH(ephemeral, peer identity) || ECDH(sender identity, peer identity),
+ *    which also authenticates the sender device.
+ * 3. Each message advances the chain with HMAC (symmetric ratchet) and is
+ *    sealed with AES-GCM under its own message key. Used keys are discarded,
+ *    so a leaked chain key does not expose earlier messages.
+ * 4. Receiving a message from a device drops the sending chain towards it,
+ *    so the next reply starts a new chain with a new ephemeral key.
+ *
+ * A message is encrypted separately for every device of the recipient and
+ * travels as one envelope. Keys are trusted as served by the directory.
+ *
+ * Devices also publish an ECDSA P-256 signing key, and the identity keys
+ * serve P2P signaling (see lib/signaling-crypto) through `sign` and
+ * `deriveDeviceSecret`.
+ *
+ * Web Crypto only; all chain updates run under a cross-tab lock.
+ *
+ * @module lib/e2e-encryption
+ */
+
+import {
+  db,
+  type DBDeviceIdentity,
+  type DBReceivingChain,
+  type DBSendingChain,
+} from './db';
+
+/**
+ * Envelope format version
+ */
+const ENVELOPE_VERSION = 1;
+
+/**
+ * ECDH curve parameters
+ */
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+/**
+ * Signing key parameters
+ */
+const ECDSA_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+/**
+ * Messages sent on one chain before a new ephemeral key is used
+ */
+const MAX_CHAIN_LENGTH = 100;
+
+/**
+ * Maximum number of message keys skipped for out-of-order delivery
+ */
+const MAX_SKIP = 1000;
+
+/**
+ * Receiving chains kept per peer device (older chains are deleted)
+ */
+const MAX_RECEIVING_CHAINS_PER_DEVICE = 5;
+
+/**
+ * How long a user's device list is cached (ms)
+ */
+const DIRECTORY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Web Locks name guarding the ratchet state
+ */
+const LOCK_NAME = 'svazapp-e2ee';
+
+/**
+ * Error of a recipient without published device keys (encrypting for them
+ * fails until they publish keys)
+ */
+export class RecipientKeysError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipientKeysError';
+  }
+}
+
+/**
+ * Public key of a peer device (from the key directory)
+ */
+export interface PeerDeviceKey {
+  deviceId: string;
+  identityKey: string;
+}
+
+/**
+ * Key directory access (backed by the API client)
+ */
+export interface KeyDirectory {
+  publishDeviceKey: (
+    deviceId: string,
+    identityKey: string,
+    signingKey: string
+  ) => Promise<void>;
+  getDeviceKeys: (userId: string) => Promise<PeerDeviceKey[]>;
+}
+
+/**
+ * Ciphertext for one recipient device
+ */
+interface EncryptedPayload {
+  ephemeralKey: string;
+  counter: number;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Message envelope sent as the `message` field of `message-send`
+ */
+interface EncryptedEnvelope {
+  version: number;
+  senderDeviceId: string;
+  recipients: Record<string, EncryptedPayload>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function concatBytes(a: ArrayBuffer, b: ArrayBuffer): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(a.byteLength + b.byteLength);
+  result.set(new Uint8Array(a), 0);
+  result.set(new Uint8Array(b), a.byteLength);
+  return result;
+}
+
+/**
+ * Check that parsed JSON looks like an envelope
+ */
+function isEnvelope(data: unknown): data is EncryptedEnvelope {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    (data as { version: unknown }).version === ENVELOPE_VERSION &&
+    typeof (data as { senderDeviceId: unknown }).senderDeviceId === 'string' &&
+    !!(data as { recipients: unknown }).recipients &&
+    typeof (data as { recipients: unknown }).recipients === 'object'
+  );
+}
+
+/**
+ * E2E Encryption Manager
+ *
+ * Owns this device's identity and the ratchet chains to peer devices.
+ */
+export class E2EEncryptionManager {
+  private directory: KeyDirectory | null = null;
+  private identity: DBDeviceIdentity | null = null;
+  private deviceCache = new Map<
+    string,
+    { devices: PeerDeviceKey[]; fetchedAt: number }
+  >();
+  private localQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Set the key directory used to publish and look up device keys
+   *
+   * @param directory - Key directory implementation
+   */
+  configure(directory: KeyDirectory): void {
+    this.directory = directory;
+  }
+
+  /**
+   * Ensure this device has identity and signing keys and publish them
+   *
+   * Safe to call on every start: the directory upserts by device ID.
+   *
+   * @returns This device's ID
+   */
+  async initialize(): Promise<string> {
+    const identity = await this.getIdentity();
+    await this.requireDirectory().publishDeviceKey(
+      identity.deviceId,
+      identity.publicKey,
+      identity.signingKey!
+    );
+    console.log('[E2EE] Device key published:', identity.deviceId);
+    return identity.deviceId;
+  }
+
+  /**
+   * Encrypt a message for every device of a user
+   *
+   * @param recipientUserId - Recipient user ID
+   * @param plaintext - Message text
+   * @returns Serialized envelope
+   * @throws RecipientKeysError if the recipient has no published device keys
+   */
+  async encrypt(recipientUserId: string, plaintext: string): Promise<string> {
+    const devices = await this.getPeerDevices(recipientUserId, false);
+    if (devices.length === 0) {
+      throw new RecipientKeysError('Recipient has no encryption keys yet');
+    }
+
+    return this.withLock(async () => {
+      const identity = await this.getIdentity();
+      const recipients: Record<string, EncryptedPayload> = {};
+
+      for (const device of devices) {
+        recipients[device.deviceId] = await this.encryptForDevice(
+          identity,
+          recipientUserId,
+          device,
+          plaintext
+        );
+      }
+
+      const envelope: EncryptedEnvelope = {
+        version: ENVELOPE_VERSION,
+        senderDeviceId: identity.deviceId,
+        recipients,
+      };
+      return JSON.stringify(envelope);
+    });
+  }
+
+  /**
+   * Decrypt an envelope received from a user
+   *
+   * @param senderUserId - Sender user ID (as verified by the server)
+   * @param serialized - Serialized envelope
+   * @returns Message text
+   * @throws Error if the envelope is malformed, not addressed to this
+   * device, or fails authentication
+   */
+  async decrypt(senderUserId: string, serialized: string): Promise<string> {
+    let envelope: unknown;
+    try {
+      envelope = JSON.parse(serialized);
+    } catch {
+      throw new Error('Message is not encrypted');
+    }
+    if (!isEnvelope(envelope)) {
+      throw new Error('Message is not encrypted');
+    }
+
+    const identity = await this.getIdentity();
+    const payload = envelope.recipients[identity.deviceId];
+    if (!payload) {
+      throw new Error('Message was not encrypted for this device');
+    }
+
+    const senderDevice = await this.findPeerDevice(
+      senderUserId,
+      envelope.senderDeviceId
+    );
+
+    return this.withLock(async () => {
+      const plaintext = await this.decryptFromDevice(
+        identity,
+        senderDevice,
+        payload
+      );
+
+      // Reply on a fresh chain (new ephemeral key) after hearing from the peer
+      await db.sendingChains.delete(senderDevice.deviceId);
+
+      return plaintext;
+    });
+  }
+
+  /**
+   * Sign data with this device's signing key
+   *
+   * @param data - Data to sign
+   * @returns ECDSA P-256 / SHA-256 signature
+   */
+  async sign(data: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+    const identity = await this.getIdentity();
+    return crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      identity.signingPrivateKey!,
+      data
+    );
+  }
+
+  /**
+   * Derive key material shared with a peer device
+   *
+   * Static ECDH of the two identity keys: both devices get the same secret
+   * without exchanging anything, and no one else can. Messaging does not
+   * use it; it keys protocols that need a long-lived pairwise secret.
+   *
+   * @param identityKey - Peer device's public identity key
+   * @returns HKDF key to derive the protocol's keys from
+   */
+  async deriveDeviceSecret(identityKey: string): Promise<CryptoKey> {
+    const identity = await this.getIdentity();
+    const secret = await this.ecdh(
+      identity.privateKey,
+      await this.importPublicKey(identityKey)
+    );
+    return crypto.subtle.importKey('raw', secret, 'HKDF', false, [
+      'deriveBits',
+      'deriveKey',
+    ]);
+  }
+
+  /**
+   * Get this device's ID
+   */
+  async getDeviceId(): Promise<string> {
+    return (await this.getIdentity()).deviceId;
+  }
+
+  /**
+   * Forget cached directory entries (e.g. after logout)
+   */
+  reset(): void {
+    this.identity = null;
+    this.deviceCache.clear();
+  }
+
+  /**
+   * Encrypt one message for one peer device, advancing the sending chain
+   */
+  private async encryptForDevice(
+    identity: DBDeviceIdentity,
+    peerUserId: string,
+    device: PeerDeviceKey,
+    plaintext: string
+  ): Promise<EncryptedPayload> {
+    let chain = await db.sendingChains.get(device.deviceId);
+
+    if (!chain || chain.counter >= MAX_CHAIN_LENGTH) {
+      chain = await this.createSendingChain(identity, peerUserId, device);
+    }
+
+    const { messageKey, nextChainKey } = await this.stepChain(
+      fromBase64(chain.chainKey)
+    );
+    const counter = chain.counter;
+
+    await db.sendingChains.put({
+      ...chain,
+      chainKey: toBase64(nextChainKey),
+      counter: counter + 1,
+    });
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const aesKey = await crypto.subtle.importKey(
+      'raw',
+      messageKey,
+      'AES-GCM',
+      false,
+      ['encrypt']
+    );
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this.associatedData(
+          identity.deviceId,
+          device.deviceId,
+          chain.ephemeralKey,
+          counter
+        ),
+      },
+      aesKey,
+      encoder.encode(plaintext)
+    );
+
+    return {
+      ephemeralKey: chain.ephemeralKey,
+      counter,
+      iv: toBase64(iv),
+      ciphertext: toBase64(ciphertext),
+    };
+  }
+
+  /**
+   * Decrypt one payload from a peer device, advancing the receiving chain
+   */
+  private async decryptFromDevice(
+    identity: DBDeviceIdentity,
+    senderDevice: PeerDeviceKey,
+    payload: EncryptedPayload
+  ): Promise<string> {
+    const chainId = `${senderDevice.deviceId}:${payload.ephemeralKey}`;
+    let chain = await db.receivingChains.get(chainId);
+    const isNewChain = !chain;
+
+    if (!chain) {
+      chain = await this.createReceivingChain(
+        identity,
+        senderDevice,
+        payload.ephemeralKey,
+        chainId
+      );
+    }
+
+    let messageKey: Uint8Array<ArrayBuffer>;
+    const skippedKeys = { ...chain.skippedKeys };
+    let chainKey = fromBase64(chain.chainKey);
+    let counter = chain.counter;
+
+    if (payload.counter < counter) {
+      // Out-of-order message: its key was stored when we skipped past it
+      const skipped = skippedKeys[payload.counter];
+      if (!skipped) {
+        throw new Error('Message key already used or unknown');
+      }
+      messageKey = fromBase64(skipped);
+      delete skippedKeys[payload.counter];
+    } else {
+      if (payload.counter - counter > MAX_SKIP) {
+        throw new Error('Too many skipped messages');
+      }
+
+      // Store keys of messages that have not arrived yet
+      while (counter < payload.counter) {
+        const step = await this.stepChain(chainKey);
+        skippedKeys[counter] = toBase64(step.messageKey);
+        chainKey = step.nextChainKey;
+        counter++;
+      }
+
+      const step = await this.stepChain(chainKey);
+      messageKey = step.messageKey;
+      chainKey = step.nextChainKey;
+      counter++;
+    }
+
+    const aesKey = await crypto.subtle.importKey(
+      'raw',
+      messageKey,
+      'AES-GCM',
+      false,
+      ['decrypt']
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(payload.iv),
+        additionalData: this.associatedData(
+          senderDevice.deviceId,
+          identity.deviceId,
+          payload.ephemeralKey,
+          payload.counter
+        ),
+      },
+      aesKey,
+      fromBase64(payload.ciphertext)
+    );
+
+    // Only persist the advanced chain once the message authenticated
+    await db.receivingChains.put({
+      ...chain,
+      chainKey: toBase64(chainKey),
+      counter,
+      skippedKeys: this.trimSkippedKeys(skippedKeys),
+      updatedAt: new Date(),
+    });
+
+    if (isNewChain) {
+      await this.pruneReceivingChains(senderDevice.deviceId);
+    }
+
+    return decoder.decode(plaintext);
+  }
+
+  /**
+   * Start a sending chain towards a peer device with a new ephemeral key
+   */
+  private async createSendingChain(
+    identity: DBDeviceIdentity,
+    peerUserId: string,
+    device: PeerDeviceKey
+  ): Promise<DBSendingChain> {
+    const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, false, [
+      'deriveBits',
+    ]);
+    const ephemeralKey = toBase64(
+      await crypto.subtle.exportKey('spki', ephemeral.publicKey)
+    );
+    const peerIdentity = await this.importPublicKey(device.identityKey);
+
+    const chainKey = await this.deriveChainKey(
+      await this.ecdh(ephemeral.privateKey, peerIdentity),
+      await this.ecdh(identity.privateKey, peerIdentity),
+      identity.deviceId,
+      device.deviceId
+    );
+
+    return {
+      peerDeviceId: device.deviceId,
+      peerUserId,
+      ephemeralKey,
+      chainKey: toBase64(chainKey),
+      counter: 0,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Start a receiving chain for a new ephemeral key of a peer device
+   */
+  private async createReceivingChain(
+    identity: DBDeviceIdentity,
+    senderDevice: PeerDeviceKey,
+    ephemeralKey: string,
+    chainId: string
+  ): Promise<DBReceivingChain> {
+    const chainKey = await this.deriveChainKey(
+      await this.ecdh(
+        identity.privateKey,
+        await this.importPublicKey(ephemeralKey)
+      ),
+      await this.ecdh(
+        identity.privateKey,
+        await this.importPublicKey(senderDevice.identityKey)
+      ),
+      senderDevice.deviceId,
+      identity.deviceId
+    );
+
+    return {
+      id: chainId,
+      peerDeviceId: senderDevice.deviceId,
+      chainKey: toBase64(chainKey),
+      counter: 0,
+      skippedKeys: {},
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Keep only the most recently used receiving chains of a peer device
+   */
+  private async pruneReceivingChains(peerDeviceId: string): Promise<void> {
+    const chains = await db.receivingChains
+      .where('peerDeviceId')
+      .equals(peerDeviceId)
+      .sortBy('updatedAt');
+    const stale = chains.slice(
+      0,
+      Math.max(0, chains.length - MAX_RECEIVING_CHAINS_PER_DEVICE)
+    );
+    if (stale.length > 0) {
+      await db.receivingChains.bulkDelete(stale.map((c) => c.id));
+    }
+  }
+
+  /**
+   * Derive a message key and the next chain key from a chain key
+   */
+  private async stepChain(chainKey: Uint8Array<ArrayBuffer>): Promise<{
+    messageKey: Uint8Array<ArrayBuffer>;
+    nextChainKey: Uint8Array<ArrayBuffer>;
+  }> {
+    const hmacKey = await crypto.subtle.importKey(
+      'raw',
+      chainKey,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const messageKey = await crypto.subtle.sign(
+      'HMAC',
+      hmacKey,
+      new Uint8Array([0x01])
+    );
+    const nextChainKey = await crypto.subtle.sign(
+      'HMAC',
+      hmacKey,
+      new Uint8Array([0x02])
+    );
+
+    return {
+      messageKey: new Uint8Array(messageKey),
+      nextChainKey: new Uint8Array(nextChainKey),
+    };
+  }
+
+  /**
+   * Derive the initial chain key from the two ECDH secrets
+   */
+  private async deriveChainKey(
+    ephemeralSecret: ArrayBuffer,
+    identitySecret: ArrayBuffer,
+    senderDeviceId: string,
+    recipientDeviceId: string
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const ikm = await crypto.subtle.importKey(
+      'raw',
+      concatBytes(ephemeralSecret, identitySecret),
+      'HKDF',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: encoder.encode(
+          `svazapp-e2ee-v${ENVELOPE_VERSION}|${senderDeviceId}|${recipientDeviceId}`
+        ),
+      },
+      ikm,
+      256
+    );
+
+    return new Uint8Array(bits);
+  }
+
+  private async ecdh(
+    privateKey: CryptoKey,
+    publicKey: CryptoKey
+  ): Promise<ArrayBuffer> {
+    return crypto.subtle.deriveBits(
+      { name: 'ECDH', public: publicKey },
+      privateKey,
+      256
+    );
+  }
+
+  private async importPublicKey(spki: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+      'spki',
+      fromBase64(spki),
+      ECDH_PARAMS,
+      true,
+      []
+    );
+  }
+
+  /**
+   * Bind the ciphertext to its routing header
+   */
+  private associatedData(
+    senderDeviceId: string,
+    recipientDeviceId: string,
+    ephemeralKey: string,
+    counter: number
+  ): Uint8Array<ArrayBuffer> {
+    return encoder.encode(
+      `${senderDeviceId}|${recipientDeviceId}|${ephemeralKey}|${counter}`
+    );
+  }
+
+  /**
+   * Keep only the newest skipped keys
+   */
+  private trimSkippedKeys(
+    skippedKeys: Record<number, string>
+  ): Record<number, string> {
+    const indexes = Object.keys(skippedKeys)
+      .map(Number)
+      .sort((a, b) => a - b);
+    if (indexes.length <= MAX_SKIP) return skippedKeys;
+
+    const trimmed: Record<number, string> = {};
+    indexes.slice(-MAX_SKIP).forEach((index) => {
+      trimmed[index] = skippedKeys[index];
+    });
+    return trimmed;
+  }
+
+  /**
+   * Load or create this device's identity
+   */
+  private async getIdentity(): Promise<DBDeviceIdentity> {
+    if (this.identity) return this.identity;
+
+    const stored = await db.deviceIdentity.get('self');
+    if (stored) {
+      this.identity = stored.signingPrivateKey
+        ? stored
+        : await this.addSigningKey();
+      return this.identity;
+    }
+
+    const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, false, [
+      'deriveBits',
+    ]);
+    const identity: DBDeviceIdentity = {
+      id: 'self',
+      deviceId: crypto.randomUUID().replace(/-/g, ''),
+      privateKey: keyPair.privateKey,
+      publicKey: toBase64(
+        await crypto.subtle.exportKey('spki', keyPair.publicKey)
+      ),
+      ...(await this.generateSigningKey()),
+      createdAt: new Date(),
+    };
+
+    // Another tab may have created the identity concurrently: keep the first
+    await db.deviceIdentity.add(identity).catch(() => undefined);
+    this.identity = (await db.deviceIdentity.get('self')) ?? identity;
+    console.log('[E2EE] Created device identity:', this.identity.deviceId);
+    return this.identity;
+  }
+
+  /**
+   * Give an identity created before signing keys existed a signing key
+   */
+  private async addSigningKey(): Promise<DBDeviceIdentity> {
+    const signing = await this.generateSigningKey();
+
+    // Another tab may have added one concurrently: keep the first
+    return db.transaction('rw', db.deviceIdentity, async () => {
+      const identity = (await db.deviceIdentity.get('self'))!;
+      if (identity.signingPrivateKey) return identity;
+
+      await db.deviceIdentity.update('self', signing);
+      return { ...identity, ...signing };
+    });
+  }
+
+  /**
+   * Generate a signing key pair (the private key is non-extractable)
+   */
+  private async generateSigningKey(): Promise<
+    Pick<DBDeviceIdentity, 'signingPrivateKey' | 'signingKey'>
+  > {
+    const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, false, [
+      'sign',
+      'verify',
+    ]);
+    return {
+      signingPrivateKey: keyPair.privateKey,
+      signingKey: toBase64(
+        await crypto.subtle.exportKey('spki', keyPair.publicKey)
+      ),
+    };
+  }
+
+  /**
+   * Get a user's devices from the directory (cached)
+   */
+  private async getPeerDevices(
+    userId: string,
+    forceRefresh: boolean
+  ): Promise<PeerDeviceKey[]> {
+    const cached = this.deviceCache.get(userId);
+    if (
+      !forceRefresh &&
+      cached &&
+      Date.now() - cached.fetchedAt < DIRECTORY_CACHE_TTL_MS
+    ) {
+      return cached.devices;
+    }
+
+    const devices = await this.requireDirectory().getDeviceKeys(userId);
+    this.deviceCache.set(userId, { devices, fetchedAt: Date.now() });
+    return devices;
+  }
+
+  /**
+   * Find a specific device of a user, refreshing the cache once if needed
+   */
+  private async findPeerDevice(
+    userId: string,
+    deviceId: string
+  ): Promise<PeerDeviceKey> {
+    let device = (await this.getPeerDevices(userId, false)).find(
+      (d) => d.deviceId === deviceId
+    );
+    if (!device) {
+      device = (await this.getPeerDevices(userId, true)).find(
+        (d) => d.deviceId === deviceId
+      );
+    }
+    if (!device) {
+      throw new Error('Unknown sender device');
+    }
+    return device;
+  }
+
+  private requireDirectory(): KeyDirectory {
+    if (!this.directory) {
+      throw new Error('Key directory not configured');
+    }
+    return this.directory;
+  }
+
+  /**
+   * Run ratchet updates one at a time, across tabs when supported
+   */
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      // The lock is held until the returned promise settles
+      return navigator.locks.request(LOCK_NAME, fn) as unknown as Promise<T>;
+    }
+
+    const result = this.localQueue.then(fn, fn);
+    this.localQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const e2eEncryption = new E2EEncryptionManager();
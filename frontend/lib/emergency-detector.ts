@@ -1,4 +1,7 @@
 import { useAppStore } from '@/store/app-store';
+import { useAuthStore } from '@/store/auth-store';
+import { ConnectivityMonitor, requestOutcomes } from './connectivity-monitor';
+import { socketManager } from './socket-manager';
 
 /**
  * Health check timeout in milliseconds
@@ -10,20 +13,16 @@ const HEALTH_CHECK_TIMEOUT = 5000;
  */
 const CHECK_INTERVAL = 10000;
 
-/**
- * Retry delays in milliseconds (exponential backoff)
- */
-const RETRY_DELAYS = [1000, 2000, 4000];
-
 /**
  * Checks if the API server is reachable
- * 
- * @returns Promise<boolean> - true if server is reachable, false otherwise
+ *
+ * @returns Promise<number | null> - Response time in milliseconds, or null if unreachable
  */
-async function checkHealth(): Promise<boolean> {
+async function checkHealth(): Promise<number | null> {
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT);
+    const startedAt = Date.now();
 
     const response = await fetch('/api/health', {
       method: 'GET',
@@ -33,100 +32,103 @@ async function checkHealth(): Promise<boolean> {
 
     clearTimeout(timeoutId);
 
-    return response.ok;
+    return response.ok ? Date.now() - startedAt : null;
   } catch {
     // Network error, timeout, or server unreachable
-    return false;
+    return null;
   }
 }
 
 /**
- * Performs health check with exponential backoff retry
- * 
- * @returns Promise<boolean> - true if server is reachable after retries, false otherwise
+ * Gets the Socket.io connection state, if a connection is expected
+ *
+ * The connection is only made in Normal mode when authenticated (see
+ * hooks/use-socket); otherwise its state says nothing about the server.
+ *
+ * @returns boolean | null - Connection state, or null if no connection is expected
  */
-async function checkHealthWithRetry(): Promise<boolean> {
-  // First attempt
-  const firstAttempt = await checkHealth();
-  if (firstAttempt) {
-    return true;
-  }
+function getSocketState(): boolean | null {
+  const { mode } = useAppStore.getState();
+  const { isAuthenticated } = useAuthStore.getState();
 
-  // Retry with exponential backoff
-  for (const delay of RETRY_DELAYS) {
-    await new Promise((resolve) => setTimeout(resolve, delay));
-    
-    const retryAttempt = await checkHealth();
-    if (retryAttempt) {
-      return true;
-    }
+  if (mode !== 'Normal' || !isAuthenticated) {
+    return null;
   }
 
-  // All retries failed
-  return false;
+  return socketManager.getConnectionStatus();
 }
 
 /**
  * Starts the emergency mode detector
- * 
- * Continuously monitors API health and updates the app store mode state.
- * - On app start: Immediate health check
- * - Every 10 seconds: Background health check
- * - On fetch error: Retry 3 times with exponential backoff (1s, 2s, 4s)
- * - After 3 failures: Switch to Emergency mode
- * - On success after Emergency: Switch back to Normal mode
- * 
+ *
+ * Monitors connectivity (see lib/connectivity-monitor) and updates the app
+ * store: the latest connectivity sample after every check, and the mode,
+ * with an entry in the transition timeline, when the monitor switches.
+ * - On app start: Immediate check
+ * - Every 10 seconds: Background check
+ * - On network or Socket.io connection loss: Immediate check
+ * - When offline: Switch to Emergency mode right away
+ * - Score below the Emergency threshold for 2 checks: Switch to Emergency mode
+ * - Score above the Normal threshold for 2 checks: Switch back to Normal mode
+ *
  * @param interval - Check interval in milliseconds (default: 10000)
  * @returns Cleanup function to stop the detector
- * 
+ *
  * @example
  * ```typescript
  * const cleanup = startEmergencyDetector();
- * 
+ *
  * // Later, when component unmounts:
  * cleanup();
  * ```
  */
 export function startEmergencyDetector(interval: number = CHECK_INTERVAL): () => void {
-  let intervalId: NodeJS.Timeout | null = null;
-  let isRunning = true;
-
-  /**
-   * Performs a single health check cycle
-   */
-  async function performCheck() {
-    if (!isRunning) {
-      return;
-    }
-
-    const isReachable = await checkHealthWithRetry();
-    
-    // Update app store
-    useAppStore.getState().setApiReachable(isReachable);
-
-    if (isReachable) {
-      console.log('[EmergencyDetector] API is reachable - Normal mode');
-    } else {
-      console.warn('[EmergencyDetector] API is unreachable - Emergency mode');
-    }
-  }
-
-  // Immediate check on start
-  performCheck();
+  const monitor = new ConnectivityMonitor(
+    {
+      checkHealth,
+      isOnline: () => navigator.onLine,
+      isSocketConnected: getSocketState,
+      getRequestFailureRate: () => requestOutcomes.getFailureRate(),
+      getMode: () => useAppStore.getState().mode,
+      now: () => Date.now(),
+    },
+    {
+      onSample: (sample) => {
+        useAppStore.getState().setConnectivity(sample);
+      },
+      onTransition: (transition) => {
+        // Update app store
+        useAppStore.getState().transitionMode(transition);
+
+        if (transition.to === 'Normal') {
+          console.log(
+            `[EmergencyDetector] Connectivity recovered (score ${transition.score}) - Normal mode`
+          );
+        } else {
+          console.warn(
+            `[EmergencyDetector] Connectivity lost (${transition.reason}, score ${transition.score}) - Emergency mode`
+          );
+        }
+      },
+    },
+    interval
+  );
+
+  const handleConnectivityChange = () => {
+    monitor.check();
+  };
 
-  // Set up periodic checks
-  intervalId = setInterval(() => {
-    performCheck();
-  }, interval);
+  window.addEventListener('online', handleConnectivityChange);
+  window.addEventListener('offline', handleConnectivityChange);
+  socketManager.on('disconnect', handleConnectivityChange);
+  monitor.start();
 
   // Return cleanup function
   return () => {
-    isRunning = false;
-    if (intervalId) {
-      clearInterval(intervalId);
-      intervalId = null;
-    }
+    monitor.stop();
+    window.removeEventListener('online', handleConnectivityChange);
+    window.removeEventListener('offline', handleConnectivityChange);
+    socketManager.off('disconnect', handleConnectivityChange);
     console.log('[EmergencyDetector] Stopped');
   };
 }
-
@@ -0,0 +1,257 @@
+/**
+ * Message Body
+ *
+ * Format of the plaintext inside an end-to-end encrypted message.
+ *
+ * Text messages are sent as the plain text itself. Messages that carry more
+ * than text (attachments, replies, ...) are sent as a JSON object tagged with
+ * `BODY_MARKER`, so text that merely looks like JSON is never misread.
+ *
+ * Replies carry a short quote of the original message, so the recipient can
+ * show it even if they no longer have (or never had) the original.
+ *
+ * @module lib/message-body
+ */
+
+import type { DBAttachment, DBMessage, DBReplyQuote } from './db';
+
+/**
+ * Tag identifying a structured message body (value is the format version)
+ */
+const BODY_MARKER = 'svaz.message';
+
+/**
+ * Maximum length of a reply quote (characters)
+ */
+const MAX_QUOTE_LENGTH = 140;
+
+/**
+ * Message a reply refers to, with its quote
+ */
+export interface MessageReply extends DBReplyQuote {
+  id: string; // Quoted message ID
+}
+
+/**
+ * Decoded message body
+ */
+export interface MessageBody {
+  type: DBMessage['type'];
+  content: string; // Text, or caption of an attachment
+  attachment?: DBAttachment;
+  replyTo?: MessageReply;
+}
+
+/**
+ * Validate attachment metadata received from another client
+ */
+function isAttachment(data: unknown): data is DBAttachment {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { id: unknown }).id === 'string' &&
+    typeof (data as { fileName: unknown }).fileName === 'string' &&
+    typeof (data as { mimeType: unknown }).mimeType === 'string' &&
+    typeof (data as { size: unknown }).size === 'number' &&
+    typeof (data as { hasThumbnail: unknown }).hasThumbnail === 'boolean'
+  );
+}
+
+/**
+ * Validate voice message metadata (duration and waveform)
+ */
+function isVoiceMetadata(
+  data: object
+): data is { duration: number; waveform: number[] } {
+  const { duration, waveform } = data as {
+    duration?: unknown;
+    waveform?: unknown;
+  };
+
+  return (
+    typeof duration === 'number' &&
+    Number.isFinite(duration) &&
+    duration >= 0 &&
+    Array.isArray(waveform) &&
+    waveform.length <= 256 &&
+    waveform.every((level) => typeof level === 'number')
+  );
+}
+
+/**
+ * Validate a reply quote received from another client
+ */
+function isMessageReply(data: unknown): data is MessageReply {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { id: unknown }).id === 'string' &&
+    typeof (data as { senderId: unknown }).senderId === 'string' &&
+    typeof (data as { snippet: unknown }).snippet === 'string'
+  );
+}
+
+/**
+ * Encode a message body into the plaintext to encrypt
+ *
+ * @param body - Message body
+ * @returns Plaintext
+ */
+export function encodeMessageBody(body: MessageBody): string {
+  if (body.type === 'TEXT' && !body.attachment && !body.replyTo) {
+    return body.content;
+  }
+
+  return JSON.stringify({ [BODY_MARKER]: 1, ...body });
+}
+
+/**
+ * Decode a decrypted plaintext into a message body
+ *
+ * @param plaintext - Decrypted plaintext
+ * @returns Message body (plain text if the plaintext is not structured)
+ */
+export function decodeMessageBody(plaintext: string): MessageBody {
+  if (plaintext.startsWith('{')) {
+    try {
+      const data = JSON.parse(plaintext);
+
+      if (data && data[BODY_MARKER] === 1) {
+        const attachment = isAttachment(data.attachment)
+          ? {
+              id: data.attachment.id,
+              fileName: data.attachment.fileName,
+              mimeType: data.attachment.mimeType,
+              size: data.attachment.size,
+              width: data.attachment.width ?? null,
+              height: data.attachment.height ?? null,
+              hasThumbnail: data.attachment.hasThumbnail,
+              ...(isVoiceMetadata(data.attachment)
+                ? {
+                    duration: data.attachment.duration,
+                    waveform: data.attachment.waveform,
+                  }
+                : {}),
+            }
+          : undefined;
+
+        const replyTo = isMessageReply(data.replyTo)
+          ? {
+              id: data.replyTo.id,
+              senderId: data.replyTo.senderId,
+              snippet: data.replyTo.snippet.slice(0, MAX_QUOTE_LENGTH),
+            }
+          : undefined;
+
+        return {
+          type: attachment
+            ? attachmentMessageType(attachment.mimeType)
+            : 'TEXT',
+          content: typeof data.content === 'string' ? data.content : '',
+          attachment,
+          replyTo,
+        };
+      }
+    } catch {
+      // Not JSON: plain text
+    }
+  }
+
+  return { type: 'TEXT', content: plaintext };
+}
+
+/**
+ * Get the message type for an attachment's MIME type
+ *
+ * @param mimeType - MIME type
+ * @returns Message type
+ */
+export function attachmentMessageType(mimeType: string): DBMessage['type'] {
+  if (mimeType.startsWith('image/')) return 'IMAGE';
+  if (mimeType.startsWith('video/')) return 'VIDEO';
+  if (mimeType.startsWith('audio/')) return 'AUDIO';
+  return 'FILE';
+}
+
+/**
+ * Get the chat list preview of a message
+ *
+ * @param message - Stored message
+ * @returns Preview text
+ */
+export function getMessagePreview(
+  message: Pick<
+    DBMessage,
+    'type' | 'content' | 'attachment' | 'decryptionFailed' | 'deletedAt'
+  >
+): string {
+  if (message.deletedAt) {
+    return 'Message deleted';
+  }
+
+  if (message.decryptionFailed) {
+    return 'Unable to decrypt message';
+  }
+
+  if (message.content || !message.attachment) {
+    return message.content;
+  }
+
+  switch (message.type) {
+    case 'IMAGE':
+      return '📷 Photo';
+    case 'VIDEO':
+      return '🎥 Video';
+    case 'AUDIO':
+      return message.attachment.waveform ? '🎤 Voice message' : '🎵 Audio';
+    default:
+      return `📎 ${message.attachment.fileName}`;
+  }
+}
+
+/**
+ * Build the reply reference to a stored message
+ *
+ * @param message - Message being replied to
+ * @returns Reply with a short quote of the message
+ */
+export function createMessageReply(
+  message: Pick<
+    DBMessage,
+    | 'id'
+    | 'senderId'
+    | 'type'
+    | 'content'
+    | 'attachment'
+    | 'decryptionFailed'
+    | 'deletedAt'
+  >
+): MessageReply {
+  const preview = getMessagePreview(message).replace(/\s+/g, ' ').trim();
+
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    snippet:
+      preview.length > MAX_QUOTE_LENGTH
+        ? `${preview.slice(0, MAX_QUOTE_LENGTH - 1)}…`
+        : preview,
+  };
+}
+
+/**
+ * Get the stored message fields of a reply
+ *
+ * @param replyTo - Reply from a message body
+ * @returns `replyToId` and `replyQuote`, or nothing if not a reply
+ */
+export function getReplyFields(
+  replyTo: MessageReply | undefined
+): Pick<DBMessage, 'replyToId' | 'replyQuote'> {
+  if (!replyTo) return {};
+
+  return {
+    replyToId: replyTo.id,
+    replyQuote: { senderId: replyTo.senderId, snippet: replyTo.snippet },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Message Editing Rules
+ *
+ * Which sent messages can still be edited or unsent. The same rules are
+ * applied by the recipient, so an edit arriving after the window (or for a
+ * message the sender did not write) is ignored.
+ *
+ * The edit window is configured with `NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES`
+ * (default 15 minutes, 0 disables editing). Unsending has no time limit.
+ *
+ * @module lib/message-edit
+ */
+
+import type { DBMessage } from './db';
+
+/**
+ * Default edit window (minutes)
+ */
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Allowed difference between the sender's and the recipient's clocks (ms)
+ */
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+/**
+ * Time after sending during which a message can be edited (ms)
+ */
+export const MESSAGE_EDIT_WINDOW_MS = (() => {
+  const minutes = Number(process.env.NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES);
+  return (
+    (Number.isFinite(minutes) && minutes >= 0
+      ? minutes
+      : DEFAULT_EDIT_WINDOW_MINUTES) *
+    60 *
+    1000
+  );
+})();
+
+type EditableMessage = Pick<
+  DBMessage,
+  | 'senderId'
+  | 'type'
+  | 'status'
+  | 'createdAt'
+  | 'attachment'
+  | 'decryptionFailed'
+  | 'deletedAt'
+>;
+
+/**
+ * Whether the user can edit one of their messages
+ *
+ * Only text messages that reached the server can be edited.
+ *
+ * @param message - Stored message
+ * @param userId - Current user ID
+ * @param now - Current time (ms)
+ * @returns True if the Edit action should be offered
+ */
+export function canEditMessage(
+  message: EditableMessage,
+  userId: string,
+  now: number = Date.now()
+): boolean {
+  return (
+    message.senderId === userId &&
+    message.type === 'TEXT' &&
+    !message.attachment &&
+    !message.decryptionFailed &&
+    !message.deletedAt &&
+    message.status !== 'SENDING' &&
+    message.status !== 'FAILED' &&
+    now - message.createdAt.getTime() <= MESSAGE_EDIT_WINDOW_MS
+  );
+}
+
+/**
+ * Whether the user can unsend one of their messages
+ *
+ * @param message - Stored message
+ * @param userId - Current user ID
+ * @returns True if the Delete action should be offered
+ */
+export function canDeleteMessage(
+  message: EditableMessage,
+  userId: string
+): boolean {
+  return (
+    message.senderId === userId &&
+    !message.deletedAt &&
+    message.status !== 'SENDING'
+  );
+}
+
+/**
+ * Whether a received edit is within the edit window (recipient side)
+ *
+ * @param message - Stored message
+ * @param editedAt - Edit time reported by the sender
+ * @param now - Current time (ms)
+ * @returns True if the edit can be applied
+ */
+export function isEditInWindow(
+  message: Pick<DBMessage, 'createdAt'>,
+  editedAt: Date,
+  now: number = Date.now()
+): boolean {
+  const sinceSent = editedAt.getTime() - message.createdAt.getTime();
+
+  return (
+    !isNaN(sinceSent) &&
+    sinceSent >= 0 &&
+    sinceSent <= MESSAGE_EDIT_WINDOW_MS + CLOCK_SKEW_MS &&
+    editedAt.getTime() <= now + CLOCK_SKEW_MS
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * Message Search
+ *
+ * Full-text search across the message history stored on this device.
+ *
+ * Messages are end-to-end encrypted, so the server cannot search them.
+ * Instead an inverted index (word -> messages) is kept in Dexie.js next to
+ * the messages and updated whenever messages are saved, edited or deleted
+ * (see `db.indexMessages`). Every word of a query must match the beginning
+ * of a word of the message.
+ *
+ * @module lib/message-search
+ */
+
+import Dexie from 'dexie';
+import { db, type DBMessage } from './db';
+import { normalizeWord, tokenizeQuery, WORD_PATTERN } from './search-tokens';
+
+/**
+ * Above this number of matches, results are found by walking the messages
+ * newest first instead of loading and sorting every match
+ */
+const MAX_SORTED_MATCHES = 5000;
+
+/**
+ * Part of a text, marked if it matches a query word
+ */
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+/**
+ * Find the IDs of messages with a word starting with a token
+ */
+async function findMessageIds(token: string): Promise<Set<string>> {
+  const keys = await db.searchIndex
+    .where('[token+messageId]')
+    .between([token, Dexie.minKey], [`${token}\uffff`, Dexie.maxKey])
+    .primaryKeys();
+
+  return new Set(keys.map(([, messageId]) => messageId));
+}
+
+/**
+ * Search the local message history
+ *
+ * @param query - Words to find (words shorter than 2 characters are ignored)
+ * @param limit - Maximum number of results
+ * @returns Matching messages, newest first
+ */
+export async function searchMessages(
+  query: string,
+  limit: number = 50
+): Promise<DBMessage[]> {
+  // Longest words first: they usually match the fewest messages
+  const tokens = tokenizeQuery(query).sort((a, b) => b.length - a.length);
+  if (tokens.length === 0) return [];
+
+  let ids = await findMessageIds(tokens[0]);
+  for (const token of tokens.slice(1)) {
+    if (ids.size === 0) return [];
+    const tokenIds = await findMessageIds(token);
+    ids = new Set(Array.from(ids).filter((id) => tokenIds.has(id)));
+  }
+  if (ids.size === 0) return [];
+
+  const isVisible = (message: DBMessage) =>
+    ids.has(message.id) && !message.deletedAt;
+
+  if (ids.size > MAX_SORTED_MATCHES) {
+    return db.messages
+      .orderBy('createdAt')
+      .reverse()
+      .filter(isVisible)
+      .limit(limit)
+      .toArray();
+  }
+
+  const messages = await db.messages.bulkGet(Array.from(ids));
+  return messages
+    .filter((message): message is DBMessage => !!message && isVisible(message))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Split a text into the words matching a query and the rest
+ *
+ * @param text - Text to highlight
+ * @param query - Search query
+ * @returns Segments in order; joined, they give back the text
+ */
+export function highlightMatches(
+  text: string,
+  query: string
+): HighlightSegment[] {
+  const tokens = tokenizeQuery(query);
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = normalizeWord(match[0]);
+    if (!tokens.some((token) => word.startsWith(token))) continue;
+
+    const start = match.index ?? 0;
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), isMatch: false });
+    }
+    segments.push({ text: match[0], isMatch: true });
+    position = start + match[0].length;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), isMatch: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Shorten a text around its first query match
+ *
+ * @param text - Message text
+ * @param query - Search query
+ * @param maxLength - Maximum length of the snippet (without ellipses)
+ * @returns Snippet, with "…" where text was cut
+ */
+export function getSearchSnippet(
+  text: string,
+  query: string,
+  maxLength: number = 120
+): string {
+  if (text.length <= maxLength) return text;
+
+  const segments = highlightMatches(text, query);
+  const firstMatch = segments.findIndex((segment) => segment.isMatch);
+  const matchStart = segments
+    .slice(0, Math.max(firstMatch, 0))
+    .reduce((length, segment) => length + segment.text.length, 0);
+  const start = Math.max(0, Math.min(matchStart - 30, text.length - maxLength));
+  const end = start + maxLength;
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${
+    end < text.length ? '…' : ''
+  }`;
+}
@@ -0,0 +1,516 @@
+/**
+ * P2P Chat
+ *
+ * Carries chat messages, receipts and typing indicators over WebRTC data
+ * channels in Emergency mode, when the server cannot relay them.
+ *
+ * The user joins a WebTorrent swarm per accepted contact (see
+ * lib/webtorrent-signaling) and exchanges the SDP of a SimplePeer data
+ * channel through it; the user with the lower ID makes the offer. While a
+ * channel is open:
+ *
+ * - It is the Socket.io fallback transport: receipts and typing indicators
+ *   emitted while disconnected go to the peer, and the peer's events are
+ *   dispatched to Socket.io listeners as if the server had relayed them, so
+ *   the usual hooks store and apply them.
+ * - Queued messages of 1-on-1 chats (see lib/sync-queue) are sent to the
+ *   peer, encrypted as for the server. A message counts as sent once the
+ *   peer's DELIVERED (or READ) receipt comes back; otherwise it stays queued
+ *   and the server relays it after returning to Normal mode. Messages are
+ *   stored under their ID, so one that arrives both ways is stored once.
+ *
+ * Group chats, edits, unsends and reactions wait for the server.
+ *
+ * @module lib/p2p-chat
+ */
+
+import type SimplePeer from 'simple-peer';
+import { socketManager, type FallbackTransport } from './socket-manager';
+import type {
+  SignalingMessage,
+  WebTorrentSignalingManager,
+} from './webtorrent-signaling';
+
+/**
+ * How long a peer has to confirm a message
+ */
+const DELIVERY_TIMEOUT_MS = 15000;
+
+/**
+ * How long a data channel may take to open before it is retried
+ */
+const CONNECT_TIMEOUT_MS = 30000;
+
+/**
+ * Delay before offering a new data channel after one closed
+ */
+const RECONNECT_DELAY_MS = 10000;
+
+/**
+ * Message fields sent to a peer (as in `message-send`)
+ */
+export interface P2PChatMessage {
+  chatId: string;
+  messageId: string;
+  message: string; // Envelope encrypted for the peer
+  timestamp: string;
+}
+
+/**
+ * Frame sent over a data channel
+ */
+type P2PChatFrame =
+  | ({ type: 'message' } & P2PChatMessage)
+  | { type: 'receipt'; messageIds: string[]; status: 'DELIVERED' | 'READ' }
+  | { type: 'typing-start' | 'typing-stop'; chatId: string };
+
+/**
+ * Message sent to a peer, waiting for its receipt
+ */
+interface PendingDelivery {
+  peerId: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+type PeerOpenListener = (peerId: string) => void;
+
+/**
+ * Validate a frame received from a peer
+ */
+function isChatFrame(data: unknown): data is P2PChatFrame {
+  if (!data || typeof data !== 'object') return false;
+  const frame = data as Record<string, unknown>;
+
+  switch (frame.type) {
+    case 'message':
+      return (
+        typeof frame.chatId === 'string' &&
+        typeof frame.messageId === 'string' &&
+        typeof frame.message === 'string' &&
+        typeof frame.timestamp === 'string'
+      );
+    case 'receipt':
+      return (
+        Array.isArray(frame.messageIds) &&
+        frame.messageIds.every((id) => typeof id === 'string') &&
+        (frame.status === 'DELIVERED' || frame.status === 'READ')
+      );
+    case 'typing-start':
+    case 'typing-stop':
+      return typeof frame.chatId === 'string';
+    default:
+      return false;
+  }
+}
+
+/**
+ * P2P Chat Manager
+ *
+ * Owns the signaling swarms and the data channels to contacts.
+ */
+export class P2PChatManager implements FallbackTransport {
+  private userId: string | null = null;
+  private signaling: WebTorrentSignalingManager | null = null;
+  private createPeer: ((initiator: boolean) => SimplePeer.Instance) | null =
+    null;
+  private swarmPeerIds: Set<string> = new Set();
+  private peers: Map<string, SimplePeer.Instance> = new Map();
+  private openPeers: Set<string> = new Set();
+  private reconnectTimers: Map<string, ReturnType<typeof setTimeout>> =
+    new Map();
+  private deliveries: Map<string, PendingDelivery> = new Map(); // By message ID
+  private openListeners: Set<PeerOpenListener> = new Set();
+
+  /**
+   * Start signaling and become the Socket.io fallback transport
+   *
+   * WebTorrent and SimplePeer are loaded here, so they are only downloaded
+   * once Emergency mode is entered.
+   *
+   * @param userId - Current user
+   */
+  async start(userId: string): Promise<void> {
+    if (this.userId) return;
+    this.userId = userId;
+
+    const [{ WebTorrentSignalingManager }, { default: Peer }] =
+      await Promise.all([
+        import('./webtorrent-signaling'),
+        import('simple-peer'),
+      ]);
+    if (this.userId !== userId) return; // Stopped meanwhile
+
+    const signaling = new WebTorrentSignalingManager({
+      userId,
+      peerId: '',
+      onSignal: (message, peerId) => this.handleSignal(message, peerId),
+      onPeerConnected: (peerId) => this.handleSwarmPeer(peerId),
+      onError: (error) => {
+        console.error('[P2PChat] Signaling error:', error);
+      },
+    });
+    await signaling.init();
+    if (this.userId !== userId) {
+      await signaling.destroy();
+      return;
+    }
+
+    this.signaling = signaling;
+    this.createPeer = (initiator) => new Peer({ initiator });
+    socketManager.setFallbackTransport(this);
+    console.log('[P2PChat] Started');
+
+    await this.joinSwarms();
+  }
+
+  /**
+   * Close every data channel and leave the swarms
+   */
+  async stop(): Promise<void> {
+    const signaling = this.signaling;
+    this.userId = null;
+    this.signaling = null;
+    this.createPeer = null;
+    this.swarmPeerIds.clear();
+    socketManager.setFallbackTransport(null);
+
+    this.reconnectTimers.forEach((timer) => clearTimeout(timer));
+    this.reconnectTimers.clear();
+
+    const peers = Array.from(this.peers.values());
+    this.peers.clear();
+    this.openPeers.clear();
+    peers.forEach((peer) => peer.destroy());
+
+    this.deliveries.forEach((delivery) => {
+      clearTimeout(delivery.timer);
+      delivery.reject(new Error('P2P chat stopped'));
+    });
+    this.deliveries.clear();
+
+    if (signaling) {
+      await signaling.destroy();
+      console.log('[P2PChat] Stopped');
+    }
+  }
+
+  /**
+   * Join the swarms of contacts (swarms already joined are kept)
+   *
+   * Can be called before `start` has finished; the swarms are joined once
+   * signaling is ready.
+   *
+   * @param peerIds - User IDs of the contacts
+   */
+  async connect(peerIds: string[]): Promise<void> {
+    peerIds.forEach((peerId) => this.swarmPeerIds.add(peerId));
+    await this.joinSwarms();
+  }
+
+  /**
+   * Join the swarms of the contacts passed to `connect`
+   */
+  private async joinSwarms(): Promise<void> {
+    for (const peerId of Array.from(this.swarmPeerIds)) {
+      if (!this.signaling) return;
+
+      try {
+        await this.signaling.joinSwarm(peerId);
+      } catch (error) {
+        console.error(`[P2PChat] Failed to join swarm of ${peerId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check if a data channel to a peer is open
+   */
+  isOpen(peerId: string): boolean {
+    return this.openPeers.has(peerId);
+  }
+
+  /**
+   * Subscribe to data channels opening
+   *
+   * @param listener - Called with the peer's user ID
+   * @returns Unsubscribe function
+   */
+  onPeerOpen(listener: PeerOpenListener): () => void {
+    this.openListeners.add(listener);
+    return () => {
+      this.openListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a message to a peer and wait for its receipt
+   *
+   * @param peerId - Recipient
+   * @param message - Message encrypted for the recipient
+   * @throws Error if no data channel is open or the peer does not confirm
+   *   the message in time
+   */
+  sendMessage(peerId: string, message: P2PChatMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      // A retry replaces the earlier attempt
+      const previous = this.deliveries.get(message.messageId);
+      if (previous) {
+        clearTimeout(previous.timer);
+        previous.reject(new Error('Message sent again'));
+      }
+
+      const timer = setTimeout(() => {
+        this.deliveries.delete(message.messageId);
+        reject(new Error('Peer did not confirm the message'));
+      }, DELIVERY_TIMEOUT_MS);
+      this.deliveries.set(message.messageId, {
+        peerId,
+        resolve,
+        reject,
+        timer,
+      });
+
+      if (!this.send(peerId, { type: 'message', ...message })) {
+        clearTimeout(timer);
+        this.deliveries.delete(message.messageId);
+        reject(new Error('No data channel to the peer'));
+      }
+    });
+  }
+
+  /**
+   * Send an event the server would relay (see FallbackTransport)
+   *
+   * Receipts and typing indicators addressed (`to`) to a peer with an open
+   * data channel are sent; other events are left to the server.
+   */
+  emit(event: string, data?: unknown): boolean {
+    const payload = (data ?? {}) as {
+      to?: unknown;
+      chatId?: unknown;
+      messageIds?: unknown;
+    };
+    if (typeof payload.to !== 'string') return false;
+
+    switch (event) {
+      case 'message-delivered':
+      case 'message-read':
+        if (!Array.isArray(payload.messageIds)) return false;
+        return this.send(payload.to, {
+          type: 'receipt',
+          messageIds: payload.messageIds,
+          status: event === 'message-read' ? 'READ' : 'DELIVERED',
+        });
+
+      case 'typing-start':
+      case 'typing-stop':
+        if (typeof payload.chatId !== 'string') return false;
+        return this.send(payload.to, { type: event, chatId: payload.chatId });
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Send a frame over an open data channel
+   *
+   * @returns True if the frame was sent
+   */
+  private send(peerId: string, frame: P2PChatFrame): boolean {
+    const peer = this.peers.get(peerId);
+    if (!peer || !this.openPeers.has(peerId)) return false;
+
+    try {
+      peer.send(JSON.stringify(frame));
+      return true;
+    } catch (error) {
+      console.error(`[P2PChat] Failed to send to ${peerId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if this user offers the data channel to a peer
+   */
+  private isInitiator(peerId: string): boolean {
+    return !!this.userId && this.userId < peerId;
+  }
+
+  /**
+   * Offer a data channel when the peer shows up in its swarm
+   */
+  private handleSwarmPeer(peerId: string): void {
+    if (this.isInitiator(peerId) && !this.peers.has(peerId)) {
+      this.openPeer(peerId, true);
+    }
+  }
+
+  /**
+   * Apply a signal of a peer's data channel
+   */
+  private handleSignal(message: SignalingMessage, peerId: string): void {
+    if (message.type !== 'chat-signal' || message.callerId !== peerId) {
+      return;
+    }
+
+    const { signal } = message;
+    let peer = this.peers.get(peerId);
+
+    // A new offer means the peer started over
+    if (signal.type === 'offer' && !this.isInitiator(peerId)) {
+      peer?.destroy();
+      peer = this.openPeer(peerId, false) ?? undefined;
+    }
+
+    peer?.signal(signal);
+  }
+
+  /**
+   * Create a data channel to a peer
+   *
+   * @param initiator - Whether this side makes the offer
+   */
+  private openPeer(
+    peerId: string,
+    initiator: boolean
+  ): SimplePeer.Instance | null {
+    if (!this.createPeer || !this.signaling) return null;
+
+    const signaling = this.signaling;
+    const peer = this.createPeer(initiator);
+    this.peers.set(peerId, peer);
+
+    const connectTimer = setTimeout(() => {
+      if (!this.openPeers.has(peerId)) {
+        peer.destroy();
+      }
+    }, CONNECT_TIMEOUT_MS);
+
+    peer.on('signal', (signal) => {
+      signaling
+        .sendSignal(
+          { type: 'chat-signal', signal, callerId: this.userId ?? '' },
+          peerId
+        )
+        .catch((error) => {
+          console.warn(`[P2PChat] Failed to signal ${peerId}:`, error);
+        });
+    });
+
+    peer.on('connect', () => {
+      clearTimeout(connectTimer);
+      if (this.peers.get(peerId) !== peer) return;
+
+      console.log(`[P2PChat] Data channel to ${peerId} open`);
+      this.openPeers.add(peerId);
+      this.openListeners.forEach((listener) => listener(peerId));
+    });
+
+    peer.on('data', (chunk: string | Uint8Array) => {
+      this.handleData(peerId, chunk);
+    });
+
+    peer.on('close', () => {
+      clearTimeout(connectTimer);
+      this.handleClose(peerId, peer);
+    });
+
+    peer.on('error', (error) => {
+      // Followed by `close`
+      console.warn(`[P2PChat] Data channel to ${peerId} failed:`, error);
+    });
+
+    return peer;
+  }
+
+  /**
+   * Forget a closed data channel and offer a new one later
+   */
+  private handleClose(peerId: string, peer: SimplePeer.Instance): void {
+    if (this.peers.get(peerId) !== peer) return; // Already replaced
+
+    this.peers.delete(peerId);
+    this.openPeers.delete(peerId);
+
+    this.deliveries.forEach((delivery, messageId) => {
+      if (delivery.peerId !== peerId) return;
+      clearTimeout(delivery.timer);
+      this.deliveries.delete(messageId);
+      delivery.reject(new Error('Data channel closed'));
+    });
+
+    if (this.isInitiator(peerId) && !this.reconnectTimers.has(peerId)) {
+      this.reconnectTimers.set(
+        peerId,
+        setTimeout(() => {
+          this.reconnectTimers.delete(peerId);
+          if (!this.peers.has(peerId)) {
+            this.openPeer(peerId, true);
+          }
+        }, RECONNECT_DELAY_MS)
+      );
+    }
+  }
+
+  /**
+   * Dispatch a frame received from a peer as the matching server event
+   */
+  private handleData(peerId: string, chunk: string | Uint8Array): void {
+    let frame: unknown;
+    try {
+      frame = JSON.parse(
+        typeof chunk === 'string' ? chunk : new TextDecoder().decode(chunk)
+      );
+    } catch {
+      frame = null;
+    }
+
+    if (!isChatFrame(frame)) {
+      console.error(`[P2PChat] Invalid frame from ${peerId}`);
+      return;
+    }
+
+    switch (frame.type) {
+      case 'message':
+        socketManager.dispatch('message-received', {
+          from: peerId,
+          chatId: frame.chatId,
+          messageId: frame.messageId,
+          message: frame.message,
+          timestamp: frame.timestamp,
+        });
+        return;
+
+      case 'receipt':
+        frame.messageIds.forEach((messageId) => {
+          const delivery = this.deliveries.get(messageId);
+          if (delivery?.peerId !== peerId) return;
+          clearTimeout(delivery.timer);
+          this.deliveries.delete(messageId);
+          delivery.resolve();
+        });
+        socketManager.dispatch('message-status', {
+          from: peerId,
+          messageIds: frame.messageIds,
+          status: frame.status,
+        });
+        return;
+
+      case 'typing-start':
+      case 'typing-stop':
+        socketManager.dispatch(frame.type, {
+          from: peerId,
+          chatId: frame.chatId,
+        });
+        return;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const p2pChat = new P2PChatManager();
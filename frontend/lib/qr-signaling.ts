@@ -0,0 +1,215 @@
+/**
+ * QR Signaling
+ *
+ * Exchanges the offer and answer of a call through QR codes, for when no
+ * server or tracker is reachable and two devices are next to each other
+ * (same LAN or hotspot):
+ *
+ * 1. The caller gathers its ICE candidates up front (no trickle ICE), so
+ *    the offer is complete, then shows it as an animated QR code.
+ * 2. The callee scans it and shows its complete answer the same way.
+ * 3. The caller scans the answer and the devices connect directly.
+ *
+ * A signal is JSON, compressed (deflate) and base64url-encoded, then split
+ * into frames of one QR code each. A frame is
+ * `SVZ1:<session>:<index>:<total>:<chunk>`; the session ID keeps frames of
+ * different codes apart. Frames are shown in a loop, so the scanner can
+ * start at any frame and collects them in any order.
+ *
+ * @module lib/qr-signaling
+ */
+
+/**
+ * Frame prefix (format version)
+ */
+const FRAME_PREFIX = 'SVZ1';
+
+/**
+ * Characters of payload per frame (a frame fits a version 8 QR code)
+ */
+const CHUNK_LENGTH = 120;
+
+/**
+ * Largest signal accepted when decoding (bytes, decompressed)
+ */
+const MAX_SIGNAL_SIZE = 64 * 1024;
+
+/**
+ * Offer or answer exchanged through QR codes
+ */
+export interface QRSignal {
+  type: 'offer' | 'answer';
+  callId: string; // Generated by the caller (see lib/call-log)
+  sdp: string; // Including all ICE candidates
+  callType: 'AUDIO' | 'VIDEO';
+  user: { id: string; username: string; displayName: string }; // Sender
+}
+
+/**
+ * Progress of collecting the frames of a signal
+ */
+export interface QRScanProgress {
+  received: number;
+  total: number;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Check that decoded JSON is a signal
+ */
+function isQRSignal(data: unknown): data is QRSignal {
+  const signal = data as Partial<QRSignal> | null;
+  return (
+    !!signal &&
+    (signal.type === 'offer' || signal.type === 'answer') &&
+    typeof signal.callId === 'string' &&
+    typeof signal.sdp === 'string' &&
+    (signal.callType === 'AUDIO' || signal.callType === 'VIDEO') &&
+    !!signal.user &&
+    typeof signal.user.id === 'string' &&
+    typeof signal.user.username === 'string' &&
+    typeof signal.user.displayName === 'string'
+  );
+}
+
+/**
+ * Encode a signal as QR code frames
+ *
+ * @param signal - Offer or answer
+ * @returns Frame texts, one QR code each
+ */
+export async function encodeQRSignal(signal: QRSignal): Promise<string[]> {
+  const compressed = await transform(
+    new TextEncoder().encode(JSON.stringify(signal)),
+    new CompressionStream('deflate-raw')
+  );
+  const payload = toBase64Url(compressed);
+
+  const sessionId = toBase64Url(crypto.getRandomValues(new Uint8Array(3)));
+  const total = Math.ceil(payload.length / CHUNK_LENGTH);
+  return Array.from(
+    { length: total },
+    (_, index) =>
+      `${FRAME_PREFIX}:${sessionId}:${index}:${total}:${payload.slice(
+        index * CHUNK_LENGTH,
+        (index + 1) * CHUNK_LENGTH
+      )}`
+  );
+}
+
+/**
+ * Collects scanned frames until a signal is complete
+ */
+export class QRSignalCollector {
+  private sessionId: string | null = null;
+  private chunks: (string | undefined)[] = [];
+
+  /**
+   * Add a scanned QR code
+   *
+   * Frames of another code (e.g. the device's own, seen in a mirror)
+   * restart the collection; texts that are not frames are ignored.
+   *
+   * @param text - Text of the QR code
+   * @returns Progress, or null if the text is not a frame
+   */
+  add(text: string): QRScanProgress | null {
+    const [prefix, sessionId, indexText, totalText, chunk] = text.split(':');
+    const index = Number(indexText);
+    const total = Number(totalText);
+    if (
+      prefix !== FRAME_PREFIX ||
+      !sessionId ||
+      chunk === undefined ||
+      !Number.isInteger(total) ||
+      !Number.isInteger(index) ||
+      total < 1 ||
+      index < 0 ||
+      index >= total
+    ) {
+      return null;
+    }
+
+    if (sessionId !== this.sessionId || total !== this.chunks.length) {
+      this.sessionId = sessionId;
+      this.chunks = new Array(total).fill(undefined);
+    }
+    this.chunks[index] = chunk;
+
+    return { received: this.chunks.filter(Boolean).length, total };
+  }
+
+  /**
+   * Check if every frame has been scanned
+   */
+  isComplete(): boolean {
+    return this.chunks.length > 0 && this.chunks.every(Boolean);
+  }
+
+  /**
+   * Decode the collected signal
+   *
+   * @returns The signal
+   * @throws Error if frames are missing or the data is not a signal
+   */
+  async decode(): Promise<QRSignal> {
+    if (!this.isComplete()) {
+      throw new Error('QR code not completely scanned');
+    }
+
+    let signal: unknown;
+    try {
+      const json = await transform(
+        fromBase64Url(this.chunks.join('')),
+        new DecompressionStream('deflate-raw')
+      );
+      if (json.length > MAX_SIGNAL_SIZE) throw new Error('Signal too large');
+      signal = JSON.parse(new TextDecoder().decode(json));
+    } catch {
+      signal = null;
+    }
+
+    if (!isQRSignal(signal)) {
+      throw new Error('Not a call code');
+    }
+    return signal;
+  }
+
+  /**
+   * Forget the collected frames
+   */
+  reset(): void {
+    this.sessionId = null;
+    this.chunks = [];
+  }
+}
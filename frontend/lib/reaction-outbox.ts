@@ -0,0 +1,141 @@
+/**
+ * Reaction Outbox
+ *
+ * Sends the user's own emoji reactions to the other participant (or the
+ * other members of a group chat).
+ *
+ * Reactions are saved in Dexie.js first and marked `pending`, so reactions
+ * made offline (or in Emergency mode, without the server) survive reloads
+ * and are sent once the Socket.io connection is back. Each reaction is
+ * encrypted like a message; the server relays it, or queues it for an
+ * offline recipient. Reactions in a group wait until the group's members
+ * are known (chat list loaded).
+ *
+ * @module lib/reaction-outbox
+ */
+
+import { db, type DBReaction } from './db';
+import {
+  encryptForRecipients,
+  getChatRecipients,
+  type ChatRecipients,
+} from './chat-recipients';
+import { socketManager } from './socket-manager';
+import { useChatsStore } from '@/store/chats-store';
+
+/**
+ * Flush in progress (flushes never run concurrently)
+ */
+let flushInProgress: Promise<void> | null = null;
+
+/**
+ * Get the users a reaction is sent to
+ *
+ * @returns Recipients, or null while the members of its group are unknown
+ */
+function getReactionRecipients(reaction: DBReaction): ChatRecipients | null {
+  // 1-on-1 chat: peerId is the other participant
+  if (reaction.peerId !== reaction.chatId) {
+    return { type: 'DIRECT', participantId: reaction.peerId };
+  }
+
+  const chat = useChatsStore
+    .getState()
+    .chats.find((item) => item.id === reaction.chatId);
+  return chat?.group ? getChatRecipients(chat, reaction.userId) : null;
+}
+
+/**
+ * Encrypt and send one pending reaction
+ *
+ * @returns True once the server accepted the reaction
+ */
+async function sendReaction(
+  reaction: DBReaction,
+  recipients: ChatRecipients
+): Promise<boolean> {
+  try {
+    const encrypted = await encryptForRecipients(
+      recipients,
+      'reaction',
+      reaction.emoji
+    );
+    const ack = await socketManager.emitWithAck<{
+      success: boolean;
+      error?: string;
+    }>('message-react', {
+      ...encrypted,
+      chatId: reaction.chatId,
+      messageId: reaction.messageId,
+      reactedAt: reaction.reactedAt.toISOString(),
+    });
+
+    if (!ack.success) {
+      throw new Error(ack.error);
+    }
+    return true;
+  } catch (error) {
+    console.error('[ReactionOutbox] Failed to send reaction:', error);
+    return false;
+  }
+}
+
+/**
+ * Send all pending reactions, oldest first
+ *
+ * Stops at the first failure; the remaining reactions stay pending until
+ * the next flush. Reactions in groups whose members are unknown are skipped.
+ */
+async function flush(): Promise<void> {
+  const pending = await db.reactions.where('pending').equals(1).toArray();
+  pending.sort((a, b) => a.reactedAt.getTime() - b.reactedAt.getTime());
+
+  for (const reaction of pending) {
+    if (!socketManager.getConnectionStatus()) return;
+
+    const recipients = getReactionRecipients(reaction);
+    if (!recipients) continue;
+    if (!(await sendReaction(reaction, recipients))) return;
+
+    const key: [string, string] = [reaction.messageId, reaction.userId];
+    await db.transaction('rw', db.reactions, async () => {
+      // Changed again while sending: the newer version is still pending
+      const current = await db.reactions.get(key);
+      if (
+        !current ||
+        current.reactedAt.getTime() !== reaction.reactedAt.getTime()
+      ) {
+        return;
+      }
+
+      if (current.emoji) {
+        await db.reactions.update(key, { pending: undefined });
+      } else {
+        await db.reactions.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Send pending reactions (no-op while disconnected)
+ *
+ * Reactions changed during a flush are sent by a follow-up flush.
+ */
+export async function flushReactions(): Promise<void> {
+  while (flushInProgress) {
+    await flushInProgress;
+  }
+
+  if (!socketManager.getConnectionStatus()) return;
+
+  flushInProgress = flush()
+    .catch((error) => {
+      console.error('[ReactionOutbox] Failed to flush reactions:', error);
+    })
+    .finally(() => {
+      flushInProgress = null;
+    });
+
+  await flushInProgress;
+}
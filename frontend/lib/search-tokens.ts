@@ -0,0 +1,92 @@
+/**
+ * Search Tokens
+ *
+ * Tokenizer of the local full-text message search.
+ *
+ * Text is split into words made of letters and digits of any script (Latin,
+ * Cyrillic, ...). Words are lowercased and stripped of diacritics, so
+ * "Café" matches "cafe" and "ёлка" matches "елка" (й also matches и).
+ *
+ * @module lib/search-tokens
+ */
+
+import type { DBMessage } from './db';
+
+/**
+ * Longest indexed word; longer words are indexed by their beginning
+ */
+export const MAX_TOKEN_LENGTH = 32;
+
+/**
+ * Shortest word of a query (shorter ones would match most messages)
+ */
+export const MIN_QUERY_TOKEN_LENGTH = 2;
+
+/**
+ * A word: letters and digits, in any script
+ */
+export const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Normalize a word for the index (lowercase, no diacritics)
+ *
+ * @param word - Word of a message or query
+ * @returns Index token
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .slice(0, MAX_TOKEN_LENGTH);
+}
+
+/**
+ * Split text into its distinct index tokens
+ *
+ * @param text - Text to tokenize
+ * @returns Distinct tokens, in order of first appearance
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    tokens.add(normalizeWord(match[0]));
+  }
+  return Array.from(tokens);
+}
+
+/**
+ * Tokenize a search query
+ *
+ * @param query - Query typed by the user
+ * @returns Tokens to look up (each matches words starting with it)
+ */
+export function tokenizeQuery(query: string): string[] {
+  return tokenize(query).filter(
+    (token) => token.length >= MIN_QUERY_TOKEN_LENGTH
+  );
+}
+
+/**
+ * Get the index tokens of a stored message
+ *
+ * The text and the file name of an attachment are indexed; deleted
+ * messages and messages that could not be decrypted have no tokens.
+ *
+ * @param message - Stored message
+ * @returns Distinct tokens
+ */
+export function getMessageTokens(
+  message: Pick<
+    DBMessage,
+    'content' | 'attachment' | 'deletedAt' | 'decryptionFailed'
+  >
+): string[] {
+  if (message.deletedAt || message.decryptionFailed) return [];
+
+  return tokenize(
+    message.attachment && !message.attachment.waveform
+      ? `${message.content} ${message.attachment.fileName}`
+      : message.content
+  );
+}
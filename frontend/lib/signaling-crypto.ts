@@ -0,0 +1,344 @@
+/**
+ * Signaling Crypto
+ *
+ * Protects P2P signaling in Emergency mode (see lib/webtorrent-signaling).
+ * Anyone who knows a swarm's info hash can join it, so neither the swarm
+ * nor its messages may reveal or trust more than the two devices share:
+ *
+ * - Every pair of devices derives a secret from their identity keys
+ *   (static ECDH, see `e2eEncryption.deriveDeviceSecret`). The info hash of
+ *   their swarm and the key its messages are encrypted with are derived
+ *   from that secret and the current epoch, so swarms are unlinkable to
+ *   user IDs and to each other, and change every epoch.
+ * - Every message is encrypted (AES-GCM) and signed with the sender
+ *   device's signing key. Messages that do not verify against the peer
+ *   device's signing key are dropped, as are stale ones and repeats of a
+ *   message already received (replays).
+ *
+ * Peer keys come from the local cache filled by the contacts sync, as the
+ * key directory is unreachable when signaling goes peer-to-peer; devices
+ * without a cached signing key cannot be signaled.
+ *
+ * @module lib/signaling-crypto
+ */
+
+import { db } from './db';
+import { e2eEncryption } from './e2e-encryption';
+
+/**
+ * Frame format version
+ */
+const FRAME_VERSION = 1;
+
+/**
+ * Lifetime of a swarm (info hash and key)
+ */
+const EPOCH_MS = 60 * 60 * 1000;
+
+/**
+ * Near the end of an epoch, the next one is joined too (and the previous
+ * one is kept at the start), so clocks that are a little off still meet
+ */
+const EPOCH_OVERLAP_MS = 5 * 60 * 1000;
+
+/**
+ * Messages older (or further in the future) than this are dropped
+ */
+const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Devices per peer that are signaled (most recently seen first)
+ */
+const MAX_DEVICES_PER_PEER = 3;
+
+/**
+ * Lengths in a frame (bytes)
+ */
+const INFO_HASH_LENGTH = 20;
+const SIGNATURE_LENGTH = 64; // ECDSA P-256, r || s
+const IV_LENGTH = 12;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Swarm shared with one device of a peer during one epoch
+ */
+export interface SignalingChannel {
+  peerUserId: string;
+  peerDeviceId: string;
+  epoch: number;
+  infoHash: string; // 40-character hex string
+  key: CryptoKey; // AES-GCM
+  peerSigningKey: CryptoKey; // ECDSA public key of the peer device
+}
+
+/**
+ * Plaintext of a frame
+ */
+interface SignalPlaintext {
+  sentAt: number;
+  message: unknown;
+}
+
+// IVs of the frames received per channel (by info hash), with their send
+// time; kept while a repeat would still pass the age check
+const seenFrames = new Map<string, Map<string, number>>();
+
+// Derived per peer device; identity keys are part of the cache key, so a
+// device that republished different keys is derived again
+const deviceSecrets = new Map<string, Promise<CryptoKey>>();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    ''
+  );
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Get the epochs whose swarms should be joined now
+ *
+ * @param now - Current time (ms)
+ * @returns The current epoch, and a neighbouring one near its boundaries
+ */
+export function getSignalingEpochs(now: number = Date.now()): number[] {
+  const epoch = Math.floor(now / EPOCH_MS);
+  const epochs = [epoch];
+  if (now - epoch * EPOCH_MS < EPOCH_OVERLAP_MS) {
+    epochs.push(epoch - 1);
+  }
+  if ((epoch + 1) * EPOCH_MS - now < EPOCH_OVERLAP_MS) {
+    epochs.push(epoch + 1);
+  }
+  return epochs;
+}
+
+/**
+ * Derive the channels to a peer's devices for some epochs
+ *
+ * @param peerUserId - Peer user ID
+ * @param epochs - Epochs (see `getSignalingEpochs`)
+ * @returns One channel per device with a cached signing key and epoch
+ */
+export async function getSignalingChannels(
+  peerUserId: string,
+  epochs: number[]
+): Promise<SignalingChannel[]> {
+  const devices = (
+    await db.peerDeviceKeys.where('userId').equals(peerUserId).toArray()
+  )
+    .filter((device) => !!device.signingKey)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, MAX_DEVICES_PER_PEER);
+  if (devices.length === 0) return [];
+
+  const ownDeviceId = await e2eEncryption.getDeviceId();
+  const channels: SignalingChannel[] = [];
+
+  for (const device of devices) {
+    const cacheKey = `${device.deviceId}:${device.identityKey}`;
+    let secret = deviceSecrets.get(cacheKey);
+    if (!secret) {
+      secret = e2eEncryption.deriveDeviceSecret(device.identityKey);
+      deviceSecrets.set(cacheKey, secret);
+      secret.catch(() => deviceSecrets.delete(cacheKey));
+    }
+
+    const peerSigningKey = await crypto.subtle.importKey(
+      'spki',
+      fromBase64(device.signingKey!),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+
+    // Both devices sort the IDs the same way, so they derive the same swarm
+    const pair = [ownDeviceId, device.deviceId].sort().join('|');
+    for (const epoch of epochs) {
+      const material = await secret;
+      const params = (purpose: string): HkdfParams => ({
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0),
+        info: textEncoder.encode(
+          `svazapp-signaling-${purpose}|${pair}|${epoch}`
+        ),
+      });
+
+      const infoHashBits = await crypto.subtle.deriveBits(
+        params('swarm'),
+        material,
+        INFO_HASH_LENGTH * 8
+      );
+      const key = await crypto.subtle.deriveKey(
+        params('key'),
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+
+      channels.push({
+        peerUserId,
+        peerDeviceId: device.deviceId,
+        epoch,
+        infoHash: toHex(new Uint8Array(infoHashBits)),
+        key,
+        peerSigningKey,
+      });
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Encrypt and sign a message for a channel
+ *
+ * Frame: version (1 byte) || signature || IV || ciphertext; the signature
+ * covers the info hash, IV and ciphertext.
+ *
+ * @param channel - Channel to send on
+ * @param message - Message (JSON-serializable)
+ * @returns Frame
+ */
+export async function sealSignal(
+  channel: SignalingChannel,
+  message: unknown
+): Promise<Uint8Array> {
+  const plaintext: SignalPlaintext = { sentAt: Date.now(), message };
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      channel.key,
+      textEncoder.encode(JSON.stringify(plaintext))
+    )
+  );
+
+  const signature = new Uint8Array(
+    await e2eEncryption.sign(signedData(channel, iv, ciphertext))
+  );
+
+  const frame = new Uint8Array(
+    1 + SIGNATURE_LENGTH + IV_LENGTH + ciphertext.length
+  );
+  frame[0] = FRAME_VERSION;
+  frame.set(signature, 1);
+  frame.set(iv, 1 + SIGNATURE_LENGTH);
+  frame.set(ciphertext, 1 + SIGNATURE_LENGTH + IV_LENGTH);
+  return frame;
+}
+
+/**
+ * Verify and decrypt a frame received on a channel
+ *
+ * @param channel - Channel the frame arrived on
+ * @param frame - Frame (see `sealSignal`)
+ * @returns The message, or null if the frame is malformed, not signed by
+ *   the peer device, undecryptable, stale or already received
+ */
+export async function openSignal(
+  channel: SignalingChannel,
+  frame: Uint8Array
+): Promise<unknown | null> {
+  if (
+    frame.length <= 1 + SIGNATURE_LENGTH + IV_LENGTH ||
+    frame[0] !== FRAME_VERSION
+  ) {
+    return null;
+  }
+
+  const signature = frame.slice(1, 1 + SIGNATURE_LENGTH);
+  const iv = frame.slice(
+    1 + SIGNATURE_LENGTH,
+    1 + SIGNATURE_LENGTH + IV_LENGTH
+  );
+  const ciphertext = frame.slice(1 + SIGNATURE_LENGTH + IV_LENGTH);
+
+  try {
+    const verified = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      channel.peerSigningKey,
+      signature,
+      signedData(channel, iv, ciphertext)
+    );
+    if (!verified) return null;
+
+    const plaintext = JSON.parse(
+      textDecoder.decode(
+        await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv },
+          channel.key,
+          ciphertext
+        )
+      )
+    ) as SignalPlaintext;
+
+    if (
+      typeof plaintext.sentAt !== 'number' ||
+      Math.abs(Date.now() - plaintext.sentAt) > MAX_MESSAGE_AGE_MS
+    ) {
+      return null;
+    }
+    if (!markFrameSeen(channel, iv, plaintext.sentAt)) return null;
+    return plaintext.message;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a frame as received, forgetting frames too old to be accepted
+ *
+ * @returns False if the frame was received before
+ */
+function markFrameSeen(
+  channel: SignalingChannel,
+  iv: Uint8Array,
+  sentAt: number
+): boolean {
+  const now = Date.now();
+  for (const [infoHash, frames] of seenFrames) {
+    for (const [id, time] of frames) {
+      if (now - time > MAX_MESSAGE_AGE_MS) frames.delete(id);
+    }
+    if (frames.size === 0) seenFrames.delete(infoHash);
+  }
+
+  let frames = seenFrames.get(channel.infoHash);
+  if (!frames) {
+    frames = new Map();
+    seenFrames.set(channel.infoHash, frames);
+  }
+
+  const id = toHex(iv);
+  if (frames.has(id)) return false;
+  frames.set(id, sentAt);
+  return true;
+}
+
+/**
+ * Data covered by a frame's signature
+ */
+function signedData(
+  channel: SignalingChannel,
+  iv: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array<ArrayBuffer> {
+  const infoHash = textEncoder.encode(channel.infoHash);
+  const data = new Uint8Array(infoHash.length + iv.length + ciphertext.length);
+  data.set(infoHash);
+  data.set(iv, infoHash.length);
+  data.set(ciphertext, infoHash.length + iv.length);
+  return data;
+}
@@ -4,7 +4,8 @@
  * Singleton class that manages Socket.io connection for real-time communication.
  * Handles connection lifecycle, authentication, event management, and reconnection logic.
  *
- * Only connects in Normal mode. Disconnects in Emergency mode.
+ * Only connects in Normal mode. Disconnects in Emergency mode, where a
+ * fallback transport (see lib/p2p-chat) may carry some events instead.
  *
  * @module lib/socket-manager
  */
@@ -16,6 +17,18 @@ import { io, Socket } from 'socket.io-client';
  */
 type SocketEventCallback = (...args: unknown[]) => void;
 
+/**
+ * Transport for events while Socket.io is disconnected
+ */
+export interface FallbackTransport {
+  /**
+   * Send an event addressed to another user
+   *
+   * @returns True if the transport sent the event
+   */
+  emit(event: string, data?: unknown): boolean;
+}
+
 /**
  * Socket Manager
  *
@@ -27,6 +40,7 @@ export class SocketManager {
   private isConnected: boolean = false;
   private listeners: Map<string, Set<SocketEventCallback>> = new Map();
   private currentToken: string | null = null;
+  private fallbackTransport: FallbackTransport | null = null;
 
   /**
    * Private constructor (singleton pattern)
@@ -46,10 +60,12 @@ export class SocketManager {
   /**
    * Connect to Socket.io server
    *
+   * The server verifies the token during the handshake and joins the
+   * socket to the authenticated user's room, so no explicit join is needed.
+   *
    * @param token - JWT access token for authentication
-   * @param userId - User ID to join room
    */
-  public connect(token: string, userId: string): void {
+  public connect(token: string): void {
     // Don't reconnect if already connected with same token
     if (this.socket && this.isConnected && this.currentToken === token) {
       return;
@@ -85,13 +101,13 @@ export class SocketManager {
     });
 
     // Setup event handlers
-    this.setupEventHandlers(userId);
+    this.setupEventHandlers();
   }
 
   /**
    * Setup Socket.io event handlers
    */
-  private setupEventHandlers(userId: string): void {
+  private setupEventHandlers(): void {
     if (!this.socket) return;
 
     // Connection events
@@ -99,11 +115,6 @@ export class SocketManager {
       console.log('[Socket.io] Connected');
       this.isConnected = true;
 
-      // Join user's room
-      if (this.socket) {
-        this.socket.emit('join', userId);
-      }
-
       // Emit to all listeners
       this.emitToListeners('connect');
     });
@@ -142,6 +153,39 @@ export class SocketManager {
       this.emitToListeners('message-received', data);
     });
 
+    // Delivery/read receipts for messages this user sent
+    this.socket.on('message-status', (data) => {
+      this.emitToListeners('message-status', data);
+    });
+
+    // Messages queued while this user was offline
+    this.socket.on('messages-pending', (data) => {
+      this.emitToListeners('messages-pending', data);
+    });
+
+    // Messages edited or unsent by their author
+    this.socket.on('message-edited', (data) => {
+      this.emitToListeners('message-edited', data);
+    });
+
+    this.socket.on('message-deleted', (data) => {
+      this.emitToListeners('message-deleted', data);
+    });
+
+    // Emoji reactions of the other participant (or group members)
+    this.socket.on('message-reaction', (data) => {
+      this.emitToListeners('message-reaction', data);
+    });
+
+    // Group chat metadata and membership changes
+    this.socket.on('group-updated', (data) => {
+      this.emitToListeners('group-updated', data);
+    });
+
+    this.socket.on('group-removed', (data) => {
+      this.emitToListeners('group-removed', data);
+    });
+
     // Typing events
     this.socket.on('typing-start', (data) => {
       this.emitToListeners('typing-start', data);
@@ -156,6 +200,11 @@ export class SocketManager {
       this.emitToListeners('chat-read', data);
     });
 
+    // Presence events (pushed by server for accepted contacts)
+    this.socket.on('presence-changed', (data) => {
+      this.emitToListeners('presence-changed', data);
+    });
+
     // Call events
     this.socket.on('call-incoming', (data) => {
       this.emitToListeners('call-incoming', data);
@@ -173,6 +222,14 @@ export class SocketManager {
       this.emitToListeners('call-ended', data);
     });
 
+    this.socket.on('call-missed', (data) => {
+      this.emitToListeners('call-missed', data);
+    });
+
+    this.socket.on('call-answered-elsewhere', (data) => {
+      this.emitToListeners('call-answered-elsewhere', data);
+    });
+
     // WebRTC signaling events
     this.socket.on('signal-offer', (data) => {
       this.emitToListeners('signal-offer', data);
@@ -185,6 +242,11 @@ export class SocketManager {
     this.socket.on('signal-ice-candidate', (data) => {
       this.emitToListeners('signal-ice-candidate', data);
     });
+
+    // Device link signaling (between two devices of the same user)
+    this.socket.on('device-link-signal', (data) => {
+      this.emitToListeners('device-link-signal', data);
+    });
   }
 
   /**
@@ -217,7 +279,8 @@ export class SocketManager {
   }
 
   /**
-   * Emit event to server
+   * Emit event to server (or through the fallback transport while
+   * disconnected)
    *
    * @param event - Event name
    * @param data - Event data
@@ -225,6 +288,8 @@ export class SocketManager {
   public emit(event: string, data?: unknown): void {
     if (this.socket && this.isConnected) {
       this.socket.emit(event, data);
+    } else if (this.fallbackTransport?.emit(event, data)) {
+      return;
     } else {
       console.warn(
         `[Socket.io] Cannot emit ${event}: not connected`
@@ -232,6 +297,27 @@ export class SocketManager {
     }
   }
 
+  /**
+   * Emit event to server and wait for its acknowledgement
+   *
+   * @param event - Event name
+   * @param data - Event data
+   * @param timeoutMs - How long to wait for the acknowledgement
+   * @returns Acknowledgement sent by the server
+   * @throws Error if not connected or the server does not answer in time
+   */
+  public emitWithAck<T>(
+    event: string,
+    data?: unknown,
+    timeoutMs: number = 10000
+  ): Promise<T> {
+    if (!this.socket || !this.isConnected) {
+      return Promise.reject(new Error(`Cannot emit ${event}: not connected`));
+    }
+
+    return this.socket.timeout(timeoutMs).emitWithAck(event, data);
+  }
+
   /**
    * Subscribe to event
    *
@@ -261,6 +347,26 @@ export class SocketManager {
     }
   }
 
+  /**
+   * Set the transport used by `emit` while disconnected
+   *
+   * @param transport - Fallback transport, or null to remove it
+   */
+  public setFallbackTransport(transport: FallbackTransport | null): void {
+    this.fallbackTransport = transport;
+  }
+
+  /**
+   * Deliver an event received over another transport to listeners, as if
+   * the server had sent it
+   *
+   * @param event - Event name
+   * @param args - Event data
+   */
+  public dispatch(event: string, ...args: unknown[]): void {
+    this.emitToListeners(event, ...args);
+  }
+
   /**
    * Get connection status
    */
@@ -1,5 +1,19 @@
-import { db, type DBUser, type DBContact, type DBCall, type DBMessage } from './db';
+import {
+  db,
+  type DBUser,
+  type DBContact,
+  type DBCall,
+  type DBMessage,
+  type DBPeerDeviceKey,
+} from './db';
 import { apiClient } from './api-client';
+import { getCallsForUpload, markCallsUploaded } from './call-log';
+import { saveTrackerList } from './tracker-list';
+
+/**
+ * Calls uploaded per import request (the API's limit)
+ */
+const CALL_IMPORT_BATCH_SIZE = 100;
 
 /**
  * Sync Manager
@@ -87,12 +101,66 @@ export class SyncManager {
       });
 
       console.log(`[SyncManager] ${dbContacts.length} contacts synced to IndexedDB`);
+
+      await this.syncContactKeys(
+        dbContacts
+          .filter((contact) => contact.status === 'ACCEPTED')
+          .map((contact) => contact.contactId)
+      );
     } catch (error) {
       console.error('[SyncManager] Failed to sync contacts:', error);
       throw error;
     }
   }
 
+  /**
+   * Cache the device keys of accepted contacts
+   *
+   * P2P signaling in Emergency mode authenticates contacts with these keys
+   * (see lib/signaling-crypto), when the key directory is unreachable. Keys
+   * of a contact that cannot be fetched now are kept as they were; keys of
+   * former contacts are removed.
+   *
+   * @param contactIds - User IDs of accepted contacts
+   */
+  private async syncContactKeys(contactIds: string[]): Promise<void> {
+    const results = await Promise.allSettled(
+      contactIds.map((userId) => apiClient.getDeviceKeys(userId))
+    );
+
+    const fetched = new Map<string, DBPeerDeviceKey[]>();
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(
+          `[SyncManager] Failed to fetch device keys of ${contactIds[index]}:`,
+          result.reason
+        );
+        return;
+      }
+      fetched.set(
+        contactIds[index],
+        result.value.devices.map((device) => ({
+          userId: contactIds[index],
+          deviceId: device.deviceId,
+          identityKey: device.identityKey,
+          signingKey: device.signingKey,
+          updatedAt: new Date(device.updatedAt),
+        }))
+      );
+    });
+
+    await db.transaction('rw', db.peerDeviceKeys, async () => {
+      await db.peerDeviceKeys
+        .filter(
+          (key) => !contactIds.includes(key.userId) || fetched.has(key.userId)
+        )
+        .delete();
+      await db.peerDeviceKeys.bulkPut(Array.from(fetched.values()).flat());
+    });
+
+    console.log(`[SyncManager] Device keys of ${fetched.size} contacts cached`);
+  }
+
   /**
    * NOTE: Messages are NOT synced from API
    *
@@ -105,11 +173,39 @@ export class SyncManager {
     console.log('[SyncManager] Messages are not synced from API (Socket.io only)');
   }
 
+  /**
+   * Upload calls recorded locally in Emergency mode (see lib/call-log)
+   *
+   * The import is idempotent, so a batch whose response was lost is simply
+   * uploaded again.
+   */
+  async uploadLocalCalls(): Promise<void> {
+    const calls = await getCallsForUpload();
+
+    for (let i = 0; i < calls.length; i += CALL_IMPORT_BATCH_SIZE) {
+      const batch = calls.slice(i, i + CALL_IMPORT_BATCH_SIZE);
+      const response = await apiClient.importCalls({ calls: batch });
+      await markCallsUploaded([...response.imported, ...response.rejected]);
+
+      if (response.rejected.length > 0) {
+        console.warn('[SyncManager] Calls rejected by the server:', response.rejected);
+      }
+    }
+
+    if (calls.length > 0) {
+      console.log(`[SyncManager] ${calls.length} local calls uploaded`);
+    }
+  }
+
   /**
    * Sync call history from API to IndexedDB
+   *
+   * Local calls are uploaded first, so the history includes them.
    */
   async syncCallHistory(): Promise<void> {
     try {
+      await this.uploadLocalCalls();
+
       const response = await apiClient.getCallHistory();
       
       const dbCalls: DBCall[] = response.calls.map((call) => ({
@@ -119,11 +215,17 @@ export class SyncManager {
         type: call.type,
         status: call.status,
         direction: call.direction,
-        mode: 'NORMAL',
+        mode: call.mode,
         startedAt: call.startedAt ? new Date(call.startedAt) : null,
         endedAt: call.endedAt ? new Date(call.endedAt) : null,
         duration: call.duration,
         createdAt: new Date(call.createdAt),
+        participant: {
+          id: call.participant.id,
+          username: call.participant.username,
+          displayName: call.participant.displayName || call.participant.username,
+          avatarUrl: call.participant.avatarUrl,
+        },
       }));
 
       await db.calls.bulkPut(dbCalls);
@@ -134,6 +236,19 @@ export class SyncManager {
     }
   }
 
+  /**
+   * Fetch the WebTorrent tracker list and cache it for Emergency mode
+   */
+  async syncTrackers(): Promise<void> {
+    try {
+      saveTrackerList(await apiClient.getTrackers());
+      console.log('[SyncManager] Tracker list cached');
+    } catch (error) {
+      console.error('[SyncManager] Failed to sync tracker list:', error);
+      throw error;
+    }
+  }
+
   /**
    * Perform full sync of all data from API to IndexedDB
    * 
@@ -147,6 +262,7 @@ export class SyncManager {
         this.syncUser(),
         this.syncContacts(),
         this.syncCallHistory(),
+        this.syncTrackers(),
       ]);
 
       console.log('[SyncManager] Full sync complete');
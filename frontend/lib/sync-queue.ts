@@ -0,0 +1,545 @@
+/**
+ * Sync Queue
+ *
+ * Offline outbox for the user's mutating actions: messages (send, edit,
+ * unsend), contact requests and answers, call-record updates and profile
+ * edits.
+ *
+ * Every action is saved in the Dexie.js `syncQueue` table first and then
+ * replayed in order, as soon as the Socket.io connection (messages) or the
+ * API (everything else) is reachable:
+ *
+ * - A failed attempt is retried with exponential backoff; later actions
+ *   wait, so the order is kept. Reconnecting retries right away.
+ * - Each action has an idempotency key, sent as the `Idempotency-Key`
+ *   header (API) or carried by the message ID (Socket.io), so an action
+ *   whose response was lost is not applied twice.
+ * - An action the server rejects, or whose content cannot be encrypted
+ *   (e.g. the recipient has no keys yet), is marked `failed` and skipped;
+ *   it stays in the queue so the UI can show it, until retried or
+ *   discarded.
+ * - Only one tab drains the queue at a time (Web Locks API). Outcomes are
+ *   broadcast to every tab, so each can update its state.
+ * - In Emergency mode, messages of 1-on-1 chats go over the P2P data
+ *   channel to the participant when one is open (see lib/p2p-chat).
+ *
+ * @module lib/sync-queue
+ */
+
+import { db, type DBSyncQueue } from './db';
+import type { ApiClient } from './api-client';
+import type { ApiErrorResponse, UpdateUserRequest } from './api-types';
+import {
+  encryptForRecipients,
+  getRecipientFields,
+  type ChatRecipients,
+} from './chat-recipients';
+import { RecipientKeysError } from './e2e-encryption';
+import { p2pChat } from './p2p-chat';
+import { socketManager } from './socket-manager';
+
+/**
+ * Delay before the first retry; doubled after each failed attempt
+ */
+const BASE_RETRY_DELAY_MS = 1000;
+
+/**
+ * Longest delay between two attempts
+ */
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Name of the Web Lock held while draining the queue
+ */
+const LOCK_NAME = 'svazapp-sync-queue';
+
+/**
+ * BroadcastChannel on which outcomes are shared between tabs
+ */
+const CHANNEL_NAME = 'svazapp-sync-queue';
+
+/**
+ * Action saved in the queue
+ */
+export type SyncAction =
+  | {
+      type: 'message-send';
+      chatId: string;
+      messageId: string;
+      recipients: ChatRecipients;
+      body: string; // Encoded message body (see lib/message-body)
+      timestamp: string;
+    }
+  | {
+      type: 'message-edit';
+      chatId: string;
+      messageId: string;
+      recipients: ChatRecipients;
+      body: string;
+      editedAt: string;
+    }
+  | {
+      type: 'message-delete';
+      chatId: string;
+      messageId: string;
+      recipients: ChatRecipients;
+      deletedAt: string;
+      attachmentId?: string; // Removed from the server after the unsend
+    }
+  | { type: 'contact-request'; contactId: string }
+  | {
+      type: 'contact-accept' | 'contact-reject' | 'contact-block';
+      contactId: string;
+    }
+  | { type: 'call-end' | 'call-missed'; callId: string }
+  | { type: 'profile-update'; userId: string; data: UpdateUserRequest };
+
+/**
+ * Queued action as stored
+ */
+export type SyncEntry = DBSyncQueue & { data: SyncAction };
+
+/**
+ * Outcome of an action, broadcast to every tab
+ */
+export type SyncEvent =
+  | { type: 'completed'; entry: SyncEntry; result: unknown }
+  | { type: 'failed'; entry: SyncEntry; error: string };
+
+type SyncEventListener = (event: SyncEvent) => void;
+
+/**
+ * Error of an action the server rejected (retrying would fail again)
+ */
+class SyncRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncRejectedError';
+  }
+}
+
+/**
+ * Entity and operation of each action type
+ */
+const ACTION_TARGETS: Record<
+  SyncAction['type'],
+  Pick<DBSyncQueue, 'entity' | 'operation'>
+> = {
+  'message-send': { entity: 'MESSAGE', operation: 'CREATE' },
+  'message-edit': { entity: 'MESSAGE', operation: 'UPDATE' },
+  'message-delete': { entity: 'MESSAGE', operation: 'DELETE' },
+  'contact-request': { entity: 'CONTACT', operation: 'CREATE' },
+  'contact-accept': { entity: 'CONTACT', operation: 'UPDATE' },
+  'contact-reject': { entity: 'CONTACT', operation: 'DELETE' },
+  'contact-block': { entity: 'CONTACT', operation: 'UPDATE' },
+  'call-end': { entity: 'CALL', operation: 'UPDATE' },
+  'call-missed': { entity: 'CALL', operation: 'UPDATE' },
+  'profile-update': { entity: 'USER', operation: 'UPDATE' },
+};
+
+let apiClient: ApiClient | null = null;
+let flushInProgress: Promise<void> | null = null;
+let flushRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<SyncEventListener>();
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Get the channel shared with other tabs (created on first use)
+ */
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncEvent>) => {
+      listeners.forEach((listener) => listener(event.data));
+    };
+  }
+  return channel;
+}
+
+/**
+ * Tell this tab and the other tabs about an outcome
+ */
+function notify(event: SyncEvent): void {
+  listeners.forEach((listener) => listener(event));
+  getChannel()?.postMessage(event);
+}
+
+/**
+ * Get the ID of the entity an action changes
+ */
+function getEntityId(action: SyncAction): string {
+  switch (action.type) {
+    case 'message-send':
+    case 'message-edit':
+    case 'message-delete':
+      return action.messageId;
+    case 'contact-request':
+    case 'contact-accept':
+    case 'contact-reject':
+    case 'contact-block':
+      return action.contactId;
+    case 'call-end':
+    case 'call-missed':
+      return action.callId;
+    case 'profile-update':
+      return action.userId;
+  }
+}
+
+/**
+ * Get the delay before the next attempt of an entry
+ */
+function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Emit a Socket.io event and check the server's acknowledgement
+ *
+ * @throws SyncRejectedError if the server rejected the event
+ */
+async function emitAction(event: string, data: unknown): Promise<void> {
+  const ack = await socketManager.emitWithAck<{
+    success: boolean;
+    error?: string;
+  }>(event, data);
+
+  if (!ack.success) {
+    throw new SyncRejectedError(ack.error || 'Rejected by the server');
+  }
+}
+
+/**
+ * Run an API request, turning client errors into rejections
+ *
+ * 4xx responses are permanent, except timeouts, rate limiting, conflicts
+ * (the same key still in progress) and expired sessions.
+ */
+async function callApi<T>(request: (client: ApiClient) => Promise<T>) {
+  if (!apiClient) {
+    throw new Error('API client not configured');
+  }
+
+  try {
+    return await request(apiClient);
+  } catch (error) {
+    const { statusCode = 0, message } = error as ApiErrorResponse;
+    if (
+      statusCode >= 400 &&
+      statusCode < 500 &&
+      ![401, 408, 409, 429].includes(statusCode)
+    ) {
+      throw new SyncRejectedError(message || 'Rejected by the server');
+    }
+    throw new Error(message || 'Request failed');
+  }
+}
+
+/**
+ * Encrypt an action's content for the chat's recipients
+ *
+ * Missing keys and WebCrypto failures are permanent: retrying would fail
+ * again and hold up the later actions.
+ *
+ * @throws SyncRejectedError if the content cannot be encrypted
+ */
+async function encryptAction<K extends string>(
+  recipients: ChatRecipients,
+  field: K,
+  plaintext: string
+) {
+  try {
+    return await encryptForRecipients(recipients, field, plaintext);
+  } catch (error) {
+    if (error instanceof RecipientKeysError || error instanceof DOMException) {
+      throw new SyncRejectedError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Perform an action
+ *
+ * @returns Response of the server, passed on in the `completed` event
+ */
+async function perform(entry: SyncEntry): Promise<unknown> {
+  const action = entry.data;
+  const key = entry.idempotencyKey;
+
+  switch (action.type) {
+    case 'message-send': {
+      // Encrypted when sent: the recipients' sessions may change meanwhile
+      const encrypted = await encryptAction(
+        action.recipients,
+        'message',
+        action.body
+      );
+      const fields = {
+        chatId: action.chatId,
+        messageId: action.messageId,
+        timestamp: action.timestamp,
+      };
+
+      if (
+        'to' in encrypted &&
+        !socketManager.getConnectionStatus() &&
+        p2pChat.isOpen(encrypted.to)
+      ) {
+        // Confirmed by the peer's receipt, which also set the status
+        await p2pChat.sendMessage(encrypted.to, {
+          ...fields,
+          message: encrypted.message,
+        });
+        return null;
+      }
+
+      await emitAction('message-send', { ...encrypted, ...fields });
+      // Receipts may have moved it further already (FAILED: retried)
+      const message = await db.messages.get(action.messageId);
+      if (message?.status === 'SENDING' || message?.status === 'FAILED') {
+        await db.messages.update(action.messageId, {
+          status: 'SENT',
+          updatedAt: new Date(),
+        });
+      }
+      return null;
+    }
+
+    case 'message-edit': {
+      const encrypted = await encryptAction(
+        action.recipients,
+        'message',
+        action.body
+      );
+      await emitAction('message-edit', {
+        ...encrypted,
+        chatId: action.chatId,
+        messageId: action.messageId,
+        editedAt: action.editedAt,
+      });
+      return null;
+    }
+
+    case 'message-delete':
+      await emitAction('message-delete', {
+        ...getRecipientFields(action.recipients),
+        chatId: action.chatId,
+        messageId: action.messageId,
+        deletedAt: action.deletedAt,
+      });
+      if (action.attachmentId) {
+        const attachmentId = action.attachmentId;
+        await callApi((client) =>
+          client.deleteAttachment(attachmentId, `${key}:attachment`)
+        );
+      }
+      return null;
+
+    case 'contact-request':
+      return callApi((client) =>
+        client.createContactRequest({ contactId: action.contactId }, key)
+      );
+
+    case 'contact-accept':
+      return callApi((client) => client.acceptContact(action.contactId, key));
+
+    case 'contact-reject':
+      return callApi((client) => client.rejectContact(action.contactId, key));
+
+    case 'contact-block':
+      return callApi((client) => client.blockContact(action.contactId, key));
+
+    case 'call-end':
+      return callApi((client) => client.endCall(action.callId, key));
+
+    case 'call-missed':
+      return callApi((client) => client.markCallMissed(action.callId, key));
+
+    case 'profile-update':
+      return callApi((client) => client.updateCurrentUser(action.data, key));
+  }
+}
+
+/**
+ * Schedule a flush when the next entry is due
+ */
+function scheduleRetry(delay: number): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushSyncQueue();
+  }, delay);
+}
+
+/**
+ * Replay the queued actions in order
+ *
+ * Stops at an entry that is waiting for its next attempt (or fails again);
+ * rejected entries are marked failed and skipped.
+ */
+async function drain(ignoreBackoff: boolean): Promise<void> {
+  for (;;) {
+    const entry = (await db.syncQueue
+      .orderBy('id')
+      .filter((item) => !item.failed)
+      .first()) as SyncEntry | undefined;
+    if (!entry) return;
+
+    if (!ignoreBackoff && entry.lastAttempt) {
+      const dueAt = entry.lastAttempt.getTime() + getRetryDelay(entry.attempts);
+      if (dueAt > Date.now()) {
+        scheduleRetry(dueAt - Date.now());
+        return;
+      }
+    }
+    ignoreBackoff = false;
+
+    try {
+      const result = await perform(entry);
+      await db.syncQueue.delete(entry.id!);
+      notify({ type: 'completed', entry, result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = entry.attempts + 1;
+
+      if (error instanceof SyncRejectedError) {
+        console.error(`[SyncQueue] ${entry.data.type} rejected:`, message);
+        await db.syncQueue.update(entry.id!, {
+          attempts,
+          lastAttempt: new Date(),
+          error: message,
+          failed: 1,
+        });
+        notify({ type: 'failed', entry, error: message });
+        continue;
+      }
+
+      console.warn(`[SyncQueue] ${entry.data.type} failed, will retry:`, error);
+      await db.syncQueue.update(entry.id!, {
+        attempts,
+        lastAttempt: new Date(),
+        error: message,
+      });
+      scheduleRetry(getRetryDelay(attempts));
+      return;
+    }
+  }
+}
+
+/**
+ * Set the API client used to replay API actions
+ *
+ * @param client - Client with the user's tokens
+ */
+export function setSyncApiClient(client: ApiClient | null): void {
+  apiClient = client;
+}
+
+/**
+ * Save an action in the queue and start replaying it
+ *
+ * @param action - Action to perform
+ * @returns Saved entry (its idempotency key identifies the action)
+ */
+export async function enqueueSyncAction(
+  action: SyncAction
+): Promise<SyncEntry> {
+  const entry: SyncEntry = {
+    ...ACTION_TARGETS[action.type],
+    entityId: getEntityId(action),
+    data: action,
+    idempotencyKey: crypto.randomUUID(),
+    createdAt: new Date(),
+    attempts: 0,
+    lastAttempt: null,
+    error: null,
+  };
+  entry.id = await db.syncQueue.add(entry);
+
+  flushSyncQueue();
+  return entry;
+}
+
+/**
+ * Replay queued actions
+ *
+ * Waits for a flush already running in this tab, or for another tab to
+ * release the queue. Without the Web Locks API, only flushes of this tab
+ * are serialized.
+ *
+ * @param options.ignoreBackoff - Retry the first entry now (e.g. after
+ *   reconnecting) instead of waiting for its next attempt
+ */
+export async function flushSyncQueue(
+  options: { ignoreBackoff?: boolean } = {}
+): Promise<void> {
+  if (flushInProgress) {
+    // Actions queued during the flush are picked up by its loop; one more
+    // pass covers those queued after its last read
+    flushRequested = true;
+    return flushInProgress;
+  }
+
+  const run = () =>
+    drain(!!options.ignoreBackoff).catch((error) => {
+      console.error('[SyncQueue] Failed to flush queue:', error);
+    });
+
+  flushInProgress = (async () => {
+    do {
+      flushRequested = false;
+      if (typeof navigator !== 'undefined' && navigator.locks) {
+        await navigator.locks.request(LOCK_NAME, run);
+      } else {
+        await run();
+      }
+    } while (flushRequested);
+  })().finally(() => {
+    flushInProgress = null;
+  });
+
+  return flushInProgress;
+}
+
+/**
+ * Retry a failed action (it is replayed in its original position)
+ *
+ * @param id - Queue entry ID
+ */
+export async function retrySyncAction(id: number): Promise<void> {
+  await db.syncQueue.update(id, {
+    failed: undefined,
+    attempts: 0,
+    lastAttempt: null,
+    error: null,
+  });
+  await flushSyncQueue({ ignoreBackoff: true });
+}
+
+/**
+ * Drop a failed action
+ *
+ * @param id - Queue entry ID
+ */
+export async function discardSyncAction(id: number): Promise<void> {
+  await db.syncQueue.delete(id);
+}
+
+/**
+ * Subscribe to outcomes of actions (of every tab)
+ *
+ * @param listener - Called when an action completed or was rejected
+ * @returns Unsubscribe function
+ */
+export function onSyncEvent(listener: SyncEventListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Tracker List
+ *
+ * WebTorrent trackers used for Emergency mode signaling. The list is
+ * fetched from the API (see SyncManager) while it is reachable and cached in
+ * localStorage, since it is needed exactly when the API is not.
+ *
+ * Until a list has been fetched, the trackers of
+ * `NEXT_PUBLIC_WEBTORRENT_TRACKERS` are used, or else the deployment's own
+ * tracker next to the API (without an announce token).
+ *
+ * @module lib/tracker-list
+ */
+
+import type { TrackerListResponse } from './api-types';
+
+/**
+ * localStorage key of the cached list
+ */
+const STORAGE_KEY = 'webtorrent-trackers';
+
+/**
+ * Refresh the list this long before its announce token expires
+ */
+const REFRESH_BEFORE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Read the cached list
+ */
+function readTrackerList(): TrackerListResponse | null {
+  if (typeof localStorage === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const list = stored ? (JSON.parse(stored) as TrackerListResponse) : null;
+    return list && Array.isArray(list.trackers) ? list : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the trackers to use when no list has been fetched yet
+ */
+function getDefaultTrackers(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_WEBTORRENT_TRACKERS || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  if (configured.length > 0) return configured;
+
+  // The tracker is served by the API (`/api/tracker`)
+  const apiUrl = new URL(
+    `${process.env.NEXT_PUBLIC_API_URL || '/api'}/tracker`,
+    typeof window !== 'undefined' ? window.location.href : 'http://localhost'
+  );
+  apiUrl.protocol = apiUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+  return [apiUrl.toString()];
+}
+
+/**
+ * Get the WebTorrent trackers
+ *
+ * @returns Tracker URLs (the cached list, or the defaults)
+ */
+export function getTrackers(): string[] {
+  const list = readTrackerList();
+  return list && list.trackers.length > 0
+    ? list.trackers
+    : getDefaultTrackers();
+}
+
+/**
+ * Check if the list should be fetched again (missing, or its announce token
+ * expires soon)
+ */
+export function isTrackerListStale(): boolean {
+  const list = readTrackerList();
+  if (!list) return true;
+
+  const expiresAt = new Date(list.expiresAt).getTime();
+  return isNaN(expiresAt) || expiresAt - Date.now() < REFRESH_BEFORE_EXPIRY_MS;
+}
+
+/**
+ * Cache a list fetched from the API
+ *
+ * @param list - Tracker list response
+ */
+export function saveTrackerList(list: TrackerListResponse): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.error('[TrackerList] Failed to cache tracker list:', error);
+  }
+}
@@ -74,3 +74,20 @@ export function formatRelativeTime(date: Date): string {
     return date.toLocaleDateString();
   }
 }
+
+/**
+ * Format a file size to a human-readable string
+ * @param bytes - Size in bytes
+ * @returns Formatted string like "512 B", "1.2 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  } else if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  } else if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  } else {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+}
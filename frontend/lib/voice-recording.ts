@@ -0,0 +1,123 @@
+/**
+ * Voice Recording Utilities
+ *
+ * Format selection and analysis of voice messages recorded with
+ * MediaRecorder: duration and a compact waveform summary that is sent
+ * with the message, so the player can draw it without decoding the audio.
+ *
+ * @module lib/voice-recording
+ */
+
+/**
+ * Number of bars in a waveform summary
+ */
+export const WAVEFORM_BARS = 48;
+
+/**
+ * Recording formats in order of preference (Opus first)
+ */
+const RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/webm',
+  'audio/mp4', // Safari
+];
+
+/**
+ * Analysed voice recording
+ */
+export interface VoiceRecording {
+  blob: Blob;
+  duration: number; // Seconds
+  waveform: number[]; // WAVEFORM_BARS peak levels, 0-100
+}
+
+/**
+ * Get the best recording format supported by this browser
+ *
+ * @returns MIME type, or undefined to let the browser choose
+ */
+export function getRecordingMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return RECORDING_MIME_TYPES.find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+}
+
+/**
+ * Compute duration and waveform of a recording
+ *
+ * MediaRecorder output often lacks a duration header, so the audio is
+ * decoded once here. If decoding fails, `fallbackDuration` (measured while
+ * recording) and a flat waveform are used.
+ *
+ * @param blob - Recorded audio
+ * @param fallbackDuration - Recording time in seconds
+ * @returns Recording with duration and waveform
+ */
+export async function analyzeRecording(
+  blob: Blob,
+  fallbackDuration: number
+): Promise<VoiceRecording> {
+  const AudioContextClass =
+    window.AudioContext ||
+    (window as unknown as { webkitAudioContext?: typeof AudioContext })
+      .webkitAudioContext;
+
+  if (!AudioContextClass) {
+    return {
+      blob,
+      duration: fallbackDuration,
+      waveform: new Array(WAVEFORM_BARS).fill(0),
+    };
+  }
+
+  const context = new AudioContextClass();
+
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = audio.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+
+    // Peak level per bucket
+    const peaks: number[] = [];
+    for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * bucketSize);
+      for (let i = bar * bucketSize; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    // Normalise so quiet recordings still show a shape
+    const loudest = Math.max(...peaks) || 1;
+
+    return {
+      blob,
+      duration: audio.duration,
+      waveform: peaks.map((peak) => Math.round((peak / loudest) * 100)),
+    };
+  } catch (error) {
+    console.warn('[VoiceRecording] Failed to analyse recording:', error);
+    return {
+      blob,
+      duration: fallbackDuration,
+      waveform: new Array(WAVEFORM_BARS).fill(0),
+    };
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
+/**
+ * Format seconds as m:ss
+ *
+ * @param seconds - Duration in seconds
+ * @returns Formatted duration
+ */
+export function formatVoiceDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`;
+}
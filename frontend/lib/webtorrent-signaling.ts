@@ -1,6 +1,13 @@
 import WebTorrent from 'webtorrent';
 import SimplePeer from 'simple-peer';
-import { createHash } from 'crypto';
+import { getTrackers } from './tracker-list';
+import {
+  getSignalingChannels,
+  getSignalingEpochs,
+  openSignal,
+  sealSignal,
+  type SignalingChannel,
+} from './signaling-crypto';
 
 /**
  * WebTorrent P2P Signaling Manager
@@ -9,12 +16,24 @@ import { createHash } from 'crypto';
  * and signaling in Emergency Mode when servers are unavailable.
  *
  * How it works:
- * 1. Create deterministic "info hash" from user IDs (sorted)
+ * 1. Derive a secret "info hash" per device of the peer from the identity
+ *    keys of the two devices (see lib/signaling-crypto); it changes every
+ *    epoch and reveals no user ID
  * 2. Join torrent swarm using this info hash
- * 3. Exchange WebRTC SDP offers/answers via torrent wire protocol
+ * 3. Exchange WebRTC SDP offers/answers via torrent wire protocol, each
+ *    message encrypted to the peer device and signed; messages that do not
+ *    verify are dropped
  * 4. Establish direct P2P connection using SimplePeer
+ *
+ * A manager can be in several swarms at once (one per peer device), e.g. to
+ * keep chat data channels to every contact in Emergency Mode.
  */
 
+/**
+ * How often swarms are checked for a new epoch (and new device keys)
+ */
+const ROTATION_INTERVAL_MS = 60 * 1000;
+
 /**
  * WebTorrent Wire Protocol Extension
  * Extended type for WebTorrent wire with signaling support
@@ -35,20 +54,44 @@ interface WebTorrentTorrentWithWires extends Omit<WebTorrent.Torrent, 'on'> {
   on(event: string, callback: (...args: unknown[]) => void): void;
 }
 
+/**
+ * Joined swarm and the channel it belongs to
+ */
+interface Swarm {
+  channel: SignalingChannel;
+  torrent: WebTorrentTorrentWithWires;
+}
+
 export type SignalingMessage =
   | { type: 'offer'; sdp: string; callerId: string }
   | { type: 'answer'; sdp: string; callerId: string }
-  | { type: 'ice-candidate'; candidate: RTCIceCandidateInit; callerId: string };
+  | { type: 'ice-candidate'; candidate: RTCIceCandidateInit; callerId: string }
+  | { type: 'chat-signal'; signal: SimplePeer.SignalData; callerId: string };
 
 export interface WebTorrentSignalingOptions {
   userId: string;
   peerId: string;
-  onSignal?: (message: SignalingMessage) => void;
+  onSignal?: (message: SignalingMessage, peerId: string) => void;
   onPeerConnected?: (peerId: string) => void;
   onPeerDisconnected?: (peerId: string) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * Check that a decrypted message is a signaling message from the peer
+ */
+function isSignalingMessage(
+  message: unknown,
+  peerId: string
+): message is SignalingMessage {
+  return (
+    !!message &&
+    typeof message === 'object' &&
+    typeof (message as { type: unknown }).type === 'string' &&
+    (message as { callerId: unknown }).callerId === peerId
+  );
+}
+
 /**
  * WebTorrent Signaling Manager
  *
@@ -56,7 +99,9 @@ export interface WebTorrentSignalingOptions {
  */
 export class WebTorrentSignalingManager {
   private client: WebTorrent.Instance | null = null;
-  private torrent: WebTorrentTorrentWithWires | null = null;
+  private swarms: Map<string, Swarm> = new Map(); // By info hash
+  private swarmPeerIds: Set<string> = new Set();
+  private rotationTimer: ReturnType<typeof setInterval> | null = null;
   private options: WebTorrentSignalingOptions;
   private peers: Map<string, SimplePeer.Instance> = new Map();
 
@@ -93,10 +138,11 @@ export class WebTorrentSignalingManager {
   }
 
   /**
-   * Join signaling swarm for a specific peer
+   * Join signaling swarms for a specific peer
    *
-   * Creates a deterministic info hash from user IDs to ensure
-   * both peers join the same swarm.
+   * Joins one swarm per device of the peer whose keys are cached. Swarms
+   * follow epoch changes and newly cached devices until the peer's swarms
+   * are left.
    *
    * @param peerId - ID of the peer to connect to
    */
@@ -105,47 +151,82 @@ export class WebTorrentSignalingManager {
       throw new Error('WebTorrent client not initialized');
     }
 
-    // Create deterministic info hash from user IDs (sorted)
-    const infoHash = this.createInfoHash(this.options.userId, peerId);
+    this.swarmPeerIds.add(peerId);
+    if (!this.rotationTimer) {
+      this.rotationTimer = setInterval(() => {
+        this.swarmPeerIds.forEach((id) => {
+          this.updateSwarms(id).catch((error) => {
+            console.error('[WebTorrentSignaling] Failed to rotate swarms:', error);
+          });
+        });
+      }, ROTATION_INTERVAL_MS);
+    }
+
+    await this.updateSwarms(peerId);
+  }
+
+  /**
+   * Join the peer's swarms of the current epochs and leave older ones
+   */
+  private async updateSwarms(peerId: string): Promise<void> {
+    const channels = await getSignalingChannels(peerId, getSignalingEpochs());
+    if (!this.client || !this.swarmPeerIds.has(peerId)) return; // Left meanwhile
+
+    if (channels.length === 0) {
+      console.warn(
+        `[WebTorrentSignaling] No signaling keys cached for peer ${peerId}`
+      );
+    }
+
+    const current = new Set(channels.map((channel) => channel.infoHash));
+    const stale = Array.from(this.swarms.entries())
+      .filter(([infoHash, swarm]) => swarm.channel.peerUserId === peerId && !current.has(infoHash))
+      .map(([infoHash]) => infoHash);
+    await Promise.all(stale.map((infoHash) => this.destroySwarm(infoHash)));
+
+    channels
+      .filter((channel) => !this.swarms.has(channel.infoHash))
+      .forEach((channel) => this.addSwarm(channel));
+  }
+
+  /**
+   * Join the swarm of a channel
+   */
+  private addSwarm(channel: SignalingChannel): void {
+    const peerId = channel.peerUserId;
 
     console.log(
-      `[WebTorrentSignaling] Joining swarm for peer ${peerId} (infoHash: ${infoHash})`
+      `[WebTorrentSignaling] Joining swarm for peer ${peerId} (device ${channel.peerDeviceId}, epoch ${channel.epoch})`
     );
 
     try {
       // Create or join torrent swarm
       // We use a magnet link with the info hash
-      const magnetURI = `magnet:?xt=urn:btih:${infoHash}`;
+      const magnetURI = `magnet:?xt=urn:btih:${channel.infoHash}`;
 
       // Type assertion: WebTorrent.Torrent has wires property at runtime
       // Using unknown intermediate type for safe type assertion
-      this.torrent = this.client.add(magnetURI, {
-        announce: [
-          // Public WebTorrent trackers
-          'wss://tracker.openwebtorrent.com',
-          'wss://tracker.btorrent.xyz',
-          'wss://tracker.webtorrent.dev',
-        ],
+      const torrent = this.client!.add(magnetURI, {
+        // Deployment's own tracker (and any configured extra trackers)
+        announce: getTrackers(),
       }) as unknown as WebTorrentTorrentWithWires;
+      this.swarms.set(channel.infoHash, { channel, torrent });
 
-      this.torrent.on('wire', (wire: WebTorrentWire) => {
+      torrent.on('wire', (wire: WebTorrentWire) => {
         console.log('[WebTorrentSignaling] New wire connection');
+        this.options.onPeerConnected?.(peerId);
 
         // Listen for signaling messages on the wire
         wire.on('extended', (ext: string, buf: Buffer) => {
           if (ext === 'signaling') {
-            try {
-              const message = JSON.parse(buf.toString()) as SignalingMessage;
-              console.log('[WebTorrentSignaling] Received signaling message:', message);
-              this.options.onSignal?.(message);
-            } catch (error) {
-              console.error('[WebTorrentSignaling] Failed to parse signaling message:', error);
-            }
+            this.receiveSignal(channel, buf).catch((error) => {
+              console.error('[WebTorrentSignaling] Failed to handle signaling message:', error);
+            });
           }
         });
       });
 
-      this.torrent.on('error', (...args: unknown[]) => {
+      torrent.on('error', (...args: unknown[]) => {
         // Type guard: validate error parameter
         const err = args[0];
         console.error('[WebTorrentSignaling] Torrent error:', err);
@@ -160,23 +241,49 @@ export class WebTorrentSignalingManager {
     }
   }
 
+  /**
+   * Verify and decrypt a signaling message, dropping it unless it comes
+   * from the channel's peer device
+   */
+  private async receiveSignal(channel: SignalingChannel, buf: Buffer): Promise<void> {
+    const message = await openSignal(channel, new Uint8Array(buf));
+    if (!isSignalingMessage(message, channel.peerUserId)) {
+      console.warn('[WebTorrentSignaling] Dropped unauthenticated signaling message');
+      return;
+    }
+
+    console.log('[WebTorrentSignaling] Received signaling message:', message.type);
+    this.options.onSignal?.(message, channel.peerUserId);
+  }
+
   /**
    * Send signaling message to peer
    *
+   * The message is encrypted and signed for each swarm (peer device).
+   *
    * @param message - Signaling message to send
+   * @param peerId - Peer whose swarms to send to (all swarms if omitted)
    */
-  async sendSignal(message: SignalingMessage): Promise<void> {
-    if (!this.torrent) {
+  async sendSignal(message: SignalingMessage, peerId?: string): Promise<void> {
+    const swarms = Array.from(this.swarms.values()).filter(
+      (swarm) => !peerId || swarm.channel.peerUserId === peerId
+    );
+    if (swarms.length === 0) {
       throw new Error('Not connected to swarm');
     }
 
-    console.log('[WebTorrentSignaling] Sending signaling message:', message);
+    console.log('[WebTorrentSignaling] Sending signaling message:', message.type);
 
     try {
-      // Send message to all wires in the swarm
-      this.torrent.wires.forEach((wire: WebTorrentWire) => {
-        wire.extended('signaling', Buffer.from(JSON.stringify(message)));
-      });
+      // Send message to all wires in the swarms
+      for (const { channel, torrent } of swarms) {
+        if (torrent.wires.length === 0) continue;
+
+        const frame = Buffer.from(await sealSignal(channel, message));
+        torrent.wires.forEach((wire: WebTorrentWire) => {
+          wire.extended('signaling', frame);
+        });
+      }
     } catch (error) {
       console.error('[WebTorrentSignaling] Failed to send signaling message:', error);
       throw error;
@@ -184,32 +291,58 @@ export class WebTorrentSignalingManager {
   }
 
   /**
-   * Leave swarm and disconnect
+   * Leave swarms and disconnect
+   *
+   * @param peerId - Peer whose swarms to leave (all swarms if omitted)
    */
-  async leaveSwarm(): Promise<void> {
-    if (this.torrent) {
-      console.log('[WebTorrentSignaling] Leaving swarm...');
+  async leaveSwarm(peerId?: string): Promise<void> {
+    if (peerId) {
+      this.swarmPeerIds.delete(peerId);
+    } else {
+      this.swarmPeerIds.clear();
+    }
+    if (this.swarmPeerIds.size === 0 && this.rotationTimer) {
+      clearInterval(this.rotationTimer);
+      this.rotationTimer = null;
+    }
 
-      try {
-        await new Promise<void>((resolve, reject) => {
-          // WebTorrent destroy() accepts options object or callback
-          // Using options object with callback
-          this.torrent!.destroy({}, (err: string | Error) => {
-            if (err) {
-              const error = typeof err === 'string' ? new Error(err) : err;
-              console.error('[WebTorrentSignaling] Error destroying torrent:', error);
-              reject(error);
-            } else {
-              console.log('[WebTorrentSignaling] Left swarm successfully');
-              this.torrent = null;
-              resolve();
-            }
-          });
+    const infoHashes = Array.from(this.swarms.entries())
+      .filter(([, swarm]) => !peerId || swarm.channel.peerUserId === peerId)
+      .map(([infoHash]) => infoHash);
+
+    for (const infoHash of infoHashes) {
+      await this.destroySwarm(infoHash);
+    }
+  }
+
+  /**
+   * Leave one swarm
+   */
+  private async destroySwarm(infoHash: string): Promise<void> {
+    const swarm = this.swarms.get(infoHash);
+    if (!swarm) return;
+
+    console.log('[WebTorrentSignaling] Leaving swarm...');
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        // WebTorrent destroy() accepts options object or callback
+        // Using options object with callback
+        swarm.torrent.destroy({}, (err: string | Error) => {
+          if (err) {
+            const error = typeof err === 'string' ? new Error(err) : err;
+            console.error('[WebTorrentSignaling] Error destroying torrent:', error);
+            reject(error);
+          } else {
+            console.log('[WebTorrentSignaling] Left swarm successfully');
+            this.swarms.delete(infoHash);
+            resolve();
+          }
         });
-      } catch (error) {
-        console.error('[WebTorrentSignaling] Failed to leave swarm:', error);
-        throw error;
-      }
+      });
+    } catch (error) {
+      console.error('[WebTorrentSignaling] Failed to leave swarm:', error);
+      throw error;
     }
   }
 
@@ -225,7 +358,7 @@ export class WebTorrentSignalingManager {
     });
     this.peers.clear();
 
-    // Leave swarm
+    // Leave swarms
     await this.leaveSwarm();
 
     // Destroy client
@@ -250,40 +383,22 @@ export class WebTorrentSignalingManager {
     }
   }
 
-  /**
-   * Create deterministic info hash from two user IDs
-   *
-   * This ensures both peers generate the same info hash
-   * and join the same swarm.
-   *
-   * @param userId1 - First user ID
-   * @param userId2 - Second user ID
-   * @returns Info hash (40-character hex string)
-   */
-  private createInfoHash(userId1: string, userId2: string): string {
-    // Sort user IDs to ensure deterministic hash
-    const sortedIds = [userId1, userId2].sort();
-    const combined = sortedIds.join(':');
-
-    // Create SHA-1 hash (required for BitTorrent info hash)
-    const hash = createHash('sha1');
-    hash.update(combined);
-
-    return hash.digest('hex');
-  }
-
   /**
    * Get number of connected peers in swarm
    */
   getPeerCount(): number {
-    return this.torrent?.wires.length ?? 0;
+    let count = 0;
+    this.swarms.forEach(({ torrent }) => {
+      count += torrent.wires.length;
+    });
+    return count;
   }
 
   /**
    * Check if connected to swarm
    */
   isConnected(): boolean {
-    return this.torrent !== null && this.torrent.wires.length > 0;
+    return this.getPeerCount() > 0;
   }
 }
 
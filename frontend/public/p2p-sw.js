@@ -1,13 +1,43 @@
 /**
  * Custom Service Worker for P2P Call Handling
  *
- * This Service Worker runs independently from the next-pwa generated sw.js
- * and handles incoming P2P calls when the app is closed.
+ * Keeps incoming calls the app receives while it is in the background, and
+ * raises a notification to accept or decline them. It runs next to the
+ * next-pwa generated sw.js, in its own scope, so the two do not replace
+ * each other.
+ *
+ * Messages from the app:
+ * - `register-calls`: calls are delivered for this user; signing out
+ *   (`unregister-calls`) or another user drops pending calls
+ * - `incoming-call`: an incoming call with its offer
+ * - `p2p-signaling`: a WebTorrent signaling message (offers only)
+ * - `dismiss-call`: the call was answered, declined or cancelled in the app
+ *
+ * Accepting, or clicking the notification, focuses the app (or opens it)
+ * and tells it to resume the pending call; declining drops the call and
+ * tells the open windows. Pending calls expire when the caller stops
+ * ringing.
+ *
+ * Push subscriptions are made on this worker's registration: server pushes
+ * (incoming and missed calls, contact requests, messages while no device of
+ * the user is connected) are shown as notifications that open their page.
  */
 
 const PENDING_CALLS_DB = 'svazapp-pending-calls';
 const PENDING_CALLS_STORE = 'pendingCalls';
-const DB_VERSION = 1;
+const SETTINGS_STORE = 'settings';
+const DB_VERSION = 2;
+
+/**
+ * Pending calls expire after this long (the caller's ring timeout).
+ * Keep in sync with hooks/use-service-worker-calls.
+ */
+const PENDING_CALL_TTL_MS = 30 * 1000;
+
+/**
+ * Page opened for a call when the app is not open
+ */
+const CALL_URL = '/home';
 
 /**
  * Open IndexedDB for pending calls
@@ -26,102 +56,250 @@ function openPendingCallsDB() {
         const store = db.createObjectStore(PENDING_CALLS_STORE, { keyPath: 'id' });
         store.createIndex('timestamp', 'timestamp', { unique: false });
       }
+
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+      }
     };
   });
 }
 
 /**
- * Store pending call in IndexedDB
+ * Run a request on a store of the pending calls DB
  */
-async function storePendingCall(call) {
+async function runRequest(storeName, mode, createRequest) {
   const db = await openPendingCallsDB();
-  const tx = db.transaction(PENDING_CALLS_STORE, 'readwrite');
-  const store = tx.objectStore(PENDING_CALLS_STORE);
-  store.put(call);
+  const tx = db.transaction(storeName, mode);
+  const request = createRequest(tx.objectStore(storeName));
 
   return new Promise((resolve, reject) => {
-    tx.oncomplete = () => resolve();
+    tx.oncomplete = () => resolve(request.result);
     tx.onerror = () => reject(tx.error);
   });
 }
 
 /**
- * Remove pending call from IndexedDB
+ * Store pending call in IndexedDB
+ */
+async function storePendingCall(call) {
+  await runRequest(PENDING_CALLS_STORE, 'readwrite', (store) => store.put(call));
+}
+
+/**
+ * Get all pending calls from IndexedDB
+ */
+async function getPendingCalls() {
+  return runRequest(PENDING_CALLS_STORE, 'readonly', (store) => store.getAll());
+}
+
+/**
+ * Remove pending call from IndexedDB and close its notification
  */
 async function removePendingCall(callId) {
-  const db = await openPendingCallsDB();
-  const tx = db.transaction(PENDING_CALLS_STORE, 'readwrite');
-  const store = tx.objectStore(PENDING_CALLS_STORE);
-  store.delete(callId);
+  await runRequest(PENDING_CALLS_STORE, 'readwrite', (store) => store.delete(callId));
 
-  return new Promise((resolve, reject) => {
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
+  const notifications = await self.registration.getNotifications({
+    tag: `call-${callId}`,
   });
+  notifications.forEach((notification) => notification.close());
 }
 
 /**
- * Handle incoming P2P call signaling message
+ * Remove pending calls that expired, or all of them
  */
-async function handleIncomingP2PCall(message) {
-  if (message.type !== 'offer') {
-    return;
+async function prunePendingCalls(removeAll = false) {
+  const expiredBefore = Date.now() - PENDING_CALL_TTL_MS;
+  const calls = await getPendingCalls();
+
+  for (const call of calls) {
+    if (removeAll || new Date(call.timestamp).getTime() < expiredBefore) {
+      await removePendingCall(call.id);
+    }
   }
+}
 
-  console.log('[P2P SW] Incoming P2P call from:', message.callerId);
+/**
+ * Get the user calls are delivered for
+ */
+async function getRegisteredUserId() {
+  const setting = await runRequest(SETTINGS_STORE, 'readonly', (store) =>
+    store.get('userId')
+  );
+  return setting ? setting.value : null;
+}
 
-  // Try to fetch caller name from IndexedDB
-  let callerName = message.callerId;
-  try {
-    const db = await openDB('svazapp-db', 1);
-    const user = await db.get('users', message.callerId);
-    if (user) {
-      callerName = user.displayName || user.username || message.callerId;
-    }
-  } catch (error) {
-    console.error('[P2P SW] Failed to fetch caller name:', error);
+/**
+ * Set (or clear) the user calls are delivered for
+ */
+async function setRegisteredUserId(userId) {
+  if ((await getRegisteredUserId()) !== userId) {
+    await prunePendingCalls(true);
   }
 
-  // Detect call type from SDP (check for video media)
-  let callType = 'AUDIO';
-  if (message.sdp && message.sdp.sdp) {
-    const sdpString = message.sdp.sdp;
-    if (sdpString.includes('m=video')) {
-      callType = 'VIDEO';
-    }
+  await runRequest(SETTINGS_STORE, 'readwrite', (store) =>
+    userId ? store.put({ key: 'userId', value: userId }) : store.delete('userId')
+  );
+}
+
+/**
+ * Get the name of a user from the app's IndexedDB
+ */
+async function getUserName(userId) {
+  return new Promise((resolve) => {
+    const request = indexedDB.open('svazapp');
+
+    request.onerror = () => resolve(null);
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('users')) {
+        db.close();
+        resolve(null);
+        return;
+      }
+
+      const get = db.transaction('users', 'readonly').objectStore('users').get(userId);
+      get.onsuccess = () => {
+        db.close();
+        resolve(get.result ? get.result.displayName || get.result.username : null);
+      };
+      get.onerror = () => {
+        db.close();
+        resolve(null);
+      };
+    };
+  });
+}
+
+/**
+ * Store an incoming call and show its notification
+ */
+async function handleIncomingCall(call) {
+  if (!(await getRegisteredUserId())) {
+    console.log('[P2P SW] No user registered for calls, ignoring call');
+    return;
   }
 
-  // Store pending call in IndexedDB
-  const pendingCall = {
-    id: `call-${Date.now()}`,
-    callerId: message.callerId,
-    callerName: callerName,
-    type: callType,
-    offer: message.sdp,
-    timestamp: new Date().toISOString(),
-  };
+  await prunePendingCalls();
+  await storePendingCall(call);
 
-  await storePendingCall(pendingCall);
+  // A visible window shows the incoming call itself
+  const windowClients = await self.clients.matchAll({
+    type: 'window',
+    includeUncontrolled: true,
+  });
+  if (windowClients.some((client) => client.visibilityState === 'visible')) {
+    return;
+  }
 
-  // Show notification
   await self.registration.showNotification('Incoming Call', {
-    body: `${pendingCall.callerName} is calling...`,
+    body: `${call.callerName} is calling...`,
     icon: '/icon-192x192.png',
     badge: '/icon-192x192.png',
-    tag: `call-${pendingCall.id}`,
+    tag: `call-${call.id}`,
     requireInteraction: true,
     actions: [
       { action: 'accept', title: 'Accept' },
-      { action: 'reject', title: 'Reject' },
+      { action: 'reject', title: 'Decline' },
     ],
     data: {
       type: 'incoming-call',
-      callId: pendingCall.id,
-      callerId: pendingCall.callerId,
+      callId: call.id,
+      callerId: call.callerId,
     },
   });
 
-  console.log('[P2P SW] Notification shown for call:', pendingCall.id);
+  console.log('[P2P SW] Notification shown for call:', call.id);
+}
+
+/**
+ * Handle incoming P2P call signaling message
+ */
+async function handleIncomingP2PCall(message) {
+  if (message.type !== 'offer') {
+    return;
+  }
+
+  console.log('[P2P SW] Incoming P2P call from:', message.callerId);
+
+  const sdp = typeof message.sdp === 'string' ? message.sdp : message.sdp && message.sdp.sdp;
+  if (!sdp) {
+    return;
+  }
+
+  await handleIncomingCall({
+    id: `call-${Date.now()}`,
+    callerId: message.callerId,
+    callerName: (await getUserName(message.callerId)) || message.callerId,
+    type: sdp.includes('m=video') ? 'VIDEO' : 'AUDIO',
+    offer: sdp,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Post a message to all windows of the app
+ */
+async function postToClients(message) {
+  const windowClients = await self.clients.matchAll({
+    type: 'window',
+    includeUncontrolled: true,
+  });
+  windowClients.forEach((client) => client.postMessage(message));
+  return windowClients;
+}
+
+/**
+ * Show a notification pushed by the server
+ */
+async function handlePush(event) {
+  let notification;
+  try {
+    notification = event.data.json();
+  } catch (error) {
+    console.error('[P2P SW] Invalid push payload:', error);
+    return;
+  }
+
+  // Pushes are only sent while no device of the user is connected, and
+  // every push must show a notification (userVisibleOnly)
+  await self.registration.showNotification(notification.title, {
+    body: notification.body,
+    icon: '/icon-192x192.png',
+    badge: '/icon-192x192.png',
+    tag: notification.tag,
+    requireInteraction: notification.type === 'incoming-call',
+    data: {
+      type: 'push',
+      pushType: notification.type,
+      url: notification.url || CALL_URL,
+    },
+  });
+}
+
+/**
+ * Focus a window of the app showing a page, or open the page
+ *
+ * The app's windows are controlled by the next-pwa worker, so this worker
+ * cannot navigate them.
+ */
+async function openPage(url) {
+  const pageUrl = new URL(url, self.location.origin).href;
+  const windowClients = await self.clients.matchAll({
+    type: 'window',
+    includeUncontrolled: true,
+  });
+
+  const client = windowClients.find(
+    (windowClient) => windowClient.url === pageUrl && 'focus' in windowClient
+  );
+  if (client) {
+    await client.focus();
+    return;
+  }
+
+  if (self.clients.openWindow) {
+    await self.clients.openWindow(pageUrl);
+  }
 }
 
 /**
@@ -130,6 +308,12 @@ async function handleIncomingP2PCall(message) {
 async function handleNotificationClick(event) {
   const { data } = event.notification;
 
+  if (data && data.type === 'push') {
+    event.notification.close();
+    await openPage(data.url);
+    return;
+  }
+
   if (!data || data.type !== 'incoming-call') {
     return;
   }
@@ -139,110 +323,85 @@ async function handleNotificationClick(event) {
   event.notification.close();
 
   if (event.action === 'reject') {
-    // Remove pending call from IndexedDB
     await removePendingCall(data.callId);
+    await postToClients({
+      type: 'reject-call',
+      callId: data.callId,
+      callerId: data.callerId,
+    });
     return;
   }
 
-  // Accept action or notification body click
-  // Open app and navigate to call screen
-  const urlToOpen = new URL(`/call/${data.callId}`, self.location.origin).href;
+  // Accept action or notification body click: the app resumes the call
+  // (an expired call is not resumed, but the app still opens)
+  await prunePendingCalls();
 
-  const windowClients = await self.clients.matchAll({
-    type: 'window',
-    includeUncontrolled: true,
+  const windowClients = await postToClients({
+    type: 'accept-call',
+    callId: data.callId,
+    callerId: data.callerId,
   });
 
-  // Check if app is already open
-  for (const client of windowClients) {
-    if (client.url.startsWith(self.location.origin) && 'focus' in client) {
-      await client.focus();
-      // Send message to client to handle the call
-      client.postMessage({
-        type: 'accept-call',
-        callId: data.callId,
-        callerId: data.callerId,
-      });
-      return;
-    }
+  const client = windowClients.find((windowClient) => 'focus' in windowClient);
+  if (client) {
+    await client.focus();
+    return;
   }
 
-  // Open new window
+  // Open new window; the app resumes pending calls on load
   if (self.clients.openWindow) {
-    await self.clients.openWindow(urlToOpen);
+    await self.clients.openWindow(new URL(CALL_URL, self.location.origin).href);
+  }
+}
+
+/**
+ * Handle a message from the app
+ */
+async function handleMessage(data) {
+  switch (data.type) {
+    case 'register-calls':
+      await setRegisteredUserId(data.userId);
+      break;
+    case 'unregister-calls':
+      await setRegisteredUserId(null);
+      break;
+    case 'incoming-call':
+      await handleIncomingCall(data.call);
+      break;
+    case 'p2p-signaling':
+      await handleIncomingP2PCall(data.message);
+      break;
+    case 'dismiss-call':
+      await removePendingCall(data.callId);
+      break;
   }
 }
 
 // Event Listeners
 
-// Precache URLs - add essential resources for offline functionality
-const PRECACHE_URLS = [
-  '/',
-  '/manifest.json',
-  '/icon-192x192.png',
-  '/icon-512x512.png',
-  '/_next/static/chunks/app/layout-3275ca0684f6b05.js',
-  '/_next/static/chunks/app/(app)/layout-dbd76ffbdb1cd70d.js',
-  '/_next/static/chunks/app/page-bc82537d6ccb0e89.js',
-  '/_next/static/chunks/app/(app)/home/page-ff28eee1fa828a19.js',
-  '/_next/static/css/c384c4cae70fb27f.css',
-];
-
-const PRECACHE = 'precache-v1';
-const RUNTIME = 'runtime';
-
-self.addEventListener('install', (event) => {
+self.addEventListener('install', () => {
   console.log('[P2P SW] Installing...');
-  
-  // Precache essential resources
-  event.waitUntil(
-    caches.open(PRECACHE)
-      .then((cache) => {
-        return cache.addAll(PRECACHE_URLS);
-      })
-      .then(() => self.skipWaiting())
-  );
+  self.skipWaiting();
 });
 
 self.addEventListener('activate', (event) => {
   console.log('[P2P SW] Activating...');
-  event.waitUntil(
-    self.clients.claim()
-  );
+  event.waitUntil(self.clients.claim());
 });
 
-// Add fetch event listener to handle navigation requests
-self.addEventListener('fetch', (event) => {
-  // Only handle navigation requests (page loads)
-  if (event.request.mode === 'navigate') {
-    event.respondWith(
-      caches.match(event.request)
-        .then((response) => {
-          // Return cached response if available
-          if (response) {
-            console.log('[P2P SW] Serving from cache:', event.request.url);
-            return response;
-          }
-          
-          // If not in cache, fetch from network
-          console.log('[P2P SW] Fetching from network:', event.request.url);
-          return fetch(event.request)
-            .catch((error) => {
-              console.error('[P2P SW] Network request failed:', error);
-              
-              // If network request fails, try to serve fallback from cache
-              return caches.match('/');
-            });
-        })
-    );
- }
+self.addEventListener('message', (event) => {
+  console.log('[P2P SW] Message received:', event.data && event.data.type);
+
+  if (event.data && typeof event.data.type === 'string') {
+    event.waitUntil(handleMessage(event.data));
+  }
 });
 
-self.addEventListener('message', (event) => {
-  console.log('[P2P SW] Message received:', event.data);
+self.addEventListener('push', (event) => {
+  console.log('[P2P SW] Push received');
 
-  if (event.data && event.data.type === 'p2p-signaling') {
-    event.waitUntil(handleIncomingP2PCall(event.data.message));
+  if (event.data) {
+    event.waitUntil(handlePush(event));
   }
 });
 
@@ -250,5 +409,13 @@ self.addEventListener('notificationclick', (event) => {
   event.waitUntil(handleNotificationClick(event));
 });
 
-console.log('[P2P SW] Service Worker loaded');
+self.addEventListener('notificationclose', (event) => {
+  const { data } = event.notification;
 
+  // A dismissed call is not resumed
+  if (data && data.type === 'incoming-call') {
+    event.waitUntil(removePendingCall(data.callId));
+  }
+});
+
+console.log('[P2P SW] Service Worker loaded');
@@ -8,6 +8,37 @@ import { persist } from 'zustand/middleware';
  */
 export type AppMode = 'Normal' | 'Emergency';
 
+/**
+ * Connectivity measured by the connectivity monitor (lib/connectivity-monitor)
+ */
+export interface ConnectivitySample {
+  score: number; // 0-100
+  healthLatency: number | null; // Of the last health check, null if it failed
+  isOnline: boolean;
+  isSocketConnected: boolean | null; // null when no connection is expected
+  requestFailureRate: number | null; // null without recent requests
+  checkedAt: number;
+}
+
+/**
+ * Switch between Normal and Emergency mode
+ * - offline: the device lost its network
+ * - degraded: the connectivity score stayed below the Emergency threshold
+ * - recovered: the connectivity score stayed above the Normal threshold
+ */
+export interface ModeTransition {
+  from: AppMode;
+  to: AppMode;
+  at: number;
+  score: number;
+  reason: 'offline' | 'degraded' | 'recovered';
+}
+
+/**
+ * Number of mode transitions kept in the timeline
+ */
+const MAX_MODE_TRANSITIONS = 50;
+
 /**
  * Application state interface
  */
@@ -43,6 +74,16 @@ export interface AppState {
    */
   lastServerContact: Date | null;
 
+  /**
+   * Latest connectivity sample, null before the first check
+   */
+  connectivity: ConnectivitySample | null;
+
+  /**
+   * Mode transitions, oldest first
+   */
+  modeTransitions: ModeTransition[];
+
   /**
    * Switch to Normal mode
    */
@@ -54,29 +95,26 @@ export interface AppState {
   switchToEmergencyMode: () => void;
 
   /**
-   * Update online status
+   * Update connectivity (online, API reachability) from a sample
    */
-  setOnlineStatus: (isOnline: boolean) => void;
+  setConnectivity: (sample: ConnectivitySample) => void;
 
   /**
-   * Update API reachability status
+   * Switch mode as decided by the connectivity monitor, recording the
+   * transition in the timeline
    */
-  setApiReachable: (isReachable: boolean) => void;
+  transitionMode: (transition: ModeTransition) => void;
 
   /**
    * Update Socket.io connection status
    */
   setSocketConnected: (isConnected: boolean) => void;
-
-  /**
-   * Check and update mode based on network and API status
-   */
-  checkAndUpdateMode: () => void;
 }
 
 /**
  * Main application store
- * Manages application mode (Normal/Emergency) and connectivity status
+ * Manages application mode (Normal/Emergency) and connectivity status.
+ * The mode is switched by the connectivity monitor (lib/emergency-detector).
  */
 export const useAppStore = create<AppState>()(
   persist(
@@ -87,6 +125,8 @@ export const useAppStore = create<AppState>()(
       isSocketConnected: false,
       lastModeCheck: null,
       lastServerContact: null,
+      connectivity: null,
+      modeTransitions: [],
 
       switchToNormalMode: () => {
         set({
@@ -102,41 +142,37 @@ export const useAppStore = create<AppState>()(
         });
       },
 
-      setOnlineStatus: (isOnline: boolean) => {
-        set({ isOnline });
-        get().checkAndUpdateMode();
+      setConnectivity: (sample: ConnectivitySample) => {
+        const isReachable = sample.healthLatency !== null;
+        set({
+          connectivity: sample,
+          isOnline: sample.isOnline,
+          isApiReachable: isReachable,
+          // Update lastServerContact when API is reachable
+          ...(isReachable && { lastServerContact: new Date(sample.checkedAt) })
+        });
       },
 
-      setApiReachable: (isReachable: boolean) => {
+      transitionMode: (transition: ModeTransition) => {
         set({
-          isApiReachable: isReachable,
-          // Update lastServerContact when API becomes reachable
-          ...(isReachable && { lastServerContact: new Date() })
+          mode: transition.to,
+          lastModeCheck: transition.at,
+          modeTransitions: [...get().modeTransitions, transition].slice(
+            -MAX_MODE_TRANSITIONS
+          ),
         });
-        get().checkAndUpdateMode();
       },
 
       setSocketConnected: (isConnected: boolean) => {
         set({ isSocketConnected: isConnected });
       },
-
-      checkAndUpdateMode: () => {
-        const { isOnline, isApiReachable } = get();
-
-        // Switch to Emergency mode if offline or API unreachable
-        if (!isOnline || !isApiReachable) {
-          get().switchToEmergencyMode();
-        } else {
-          // Only switch back to Normal if both online and API reachable
-          get().switchToNormalMode();
-        }
-      },
     }),
     {
       name: 'svazapp-app-store',
       partialize: (state) => ({
         mode: state.mode,
         lastModeCheck: state.lastModeCheck,
+        modeTransitions: state.modeTransitions,
       }),
     }
   )
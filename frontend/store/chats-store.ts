@@ -2,12 +2,41 @@
  * Chats Store
  *
  * Zustand store for managing chat state.
- * Stores chat list with last message, unread count, and participant info.
+ * Stores chat list with last message, unread count, and participant info
+ * (or, for group chats, the group metadata and members).
  *
  * @module store/chats-store
  */
 
 import { create } from 'zustand';
+import { db, type DBMessage } from '@/lib/db';
+import { getMessagePreview } from '@/lib/message-body';
+import type {
+  ChatType,
+  ChatWithParticipant,
+  GroupInfo,
+  GroupMemberRole,
+} from '@/lib/api-types';
+
+/**
+ * Get the latest message of a chat from Dexie.js
+ *
+ * Messages of a group chat are stored with the group as their receiver.
+ */
+async function getLastMessage(
+  userId: string,
+  chat: Chat
+): Promise<DBMessage | undefined> {
+  const messages = chat.participant
+    ? await db.messages
+        .where('[senderId+receiverId]')
+        .equals([userId, chat.participant.id])
+        .or('[senderId+receiverId]')
+        .equals([chat.participant.id, userId])
+        .sortBy('createdAt')
+    : await db.messages.where('receiverId').equals(chat.id).sortBy('createdAt');
+  return messages[messages.length - 1];
+}
 
 /**
  * Chat participant interface
@@ -22,6 +51,30 @@ export interface ChatParticipant {
   lastSeenAt: Date;
 }
 
+/**
+ * Group member interface
+ */
+export interface GroupMember {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  isOnline: boolean;
+  lastSeenAt: Date;
+  role: GroupMemberRole;
+  joinedAt: Date;
+}
+
+/**
+ * Group chat metadata
+ */
+export interface ChatGroup {
+  title: string;
+  avatarUrl: string | null;
+  createdById: string | null;
+  members: GroupMember[]; // Oldest member first
+}
+
 /**
  * Chat interface
  */
@@ -29,11 +82,76 @@ export interface Chat {
   id: string;
   createdAt: Date;
   updatedAt: Date;
-  lastMessage: string | null;
+  type: ChatType;
+  lastMessage: string | null; // Client-side preview (messages are end-to-end encrypted)
   lastMessageAt: Date | null;
   lastMessageBy: string | null;
   unreadCount: number;
-  participant: ChatParticipant;
+  participant: ChatParticipant | null; // Other user of a 1-on-1 chat
+  group: ChatGroup | null; // Metadata and members of a group chat
+}
+
+/**
+ * Convert group metadata from the API to the store format
+ *
+ * @param group - Group metadata from the API
+ * @returns Group metadata with dates
+ */
+export function toChatGroup(group: GroupInfo): ChatGroup {
+  return {
+    title: group.title,
+    avatarUrl: group.avatarUrl,
+    createdById: group.createdById,
+    members: group.members.map((member) => ({
+      ...member,
+      lastSeenAt: new Date(member.lastSeenAt),
+      joinedAt: new Date(member.joinedAt),
+    })),
+  };
+}
+
+/**
+ * Convert a chat from the API to the store format
+ *
+ * The last message preview is filled from Dexie.js separately.
+ *
+ * @param chat - Chat from the API
+ * @returns Chat for the store
+ */
+export function toChat(chat: ChatWithParticipant): Chat {
+  return {
+    id: chat.id,
+    createdAt: new Date(chat.createdAt),
+    updatedAt: new Date(chat.updatedAt),
+    type: chat.type,
+    lastMessage: null,
+    lastMessageAt: chat.lastMessageAt ? new Date(chat.lastMessageAt) : null,
+    lastMessageBy: chat.lastMessageBy,
+    unreadCount: chat.unreadCount,
+    participant: chat.participant
+      ? {
+          id: chat.participant.id,
+          email: chat.participant.email,
+          username: chat.participant.username,
+          displayName: chat.participant.displayName,
+          avatarUrl: chat.participant.avatarUrl,
+          isOnline: chat.participant.isOnline,
+          lastSeenAt: new Date(chat.participant.lastSeenAt),
+        }
+      : null,
+    group: chat.group ? toChatGroup(chat.group) : null,
+  };
+}
+
+/**
+ * Get the name shown for a chat (participant or group title)
+ *
+ * @param chat - Chat
+ * @returns Display name
+ */
+export function getChatDisplayName(chat: Chat): string {
+  if (chat.group) return chat.group.title;
+  return chat.participant?.displayName || chat.participant?.username || '';
 }
 
 /**
@@ -74,6 +192,18 @@ export interface ChatsState {
     lastMessageBy: string
   ) => void;
 
+  /**
+   * Fill last message previews from messages stored in Dexie.js
+   */
+  hydratePreviews: (userId: string) => Promise<void>;
+
+  /**
+   * Re-read a chat's preview after a stored message changed (edit, unsend)
+   *
+   * Unlike `updateLastMessage`, the chat keeps its position in the list.
+   */
+  refreshPreview: (userId: string, chatId: string) => Promise<void>;
+
   /**
    * Increment unread count for a chat
    */
@@ -84,6 +214,20 @@ export interface ChatsState {
    */
   markAsRead: (chatId: string) => void;
 
+  /**
+   * Replace the metadata and members of a group chat
+   */
+  updateGroup: (chatId: string, group: ChatGroup) => void;
+
+  /**
+   * Update online status of a chat participant (or group member)
+   */
+  updateParticipantPresence: (
+    userId: string,
+    isOnline: boolean,
+    lastSeenAt: Date
+  ) => void;
+
   /**
    * Delete chat
    */
@@ -161,6 +305,56 @@ export const useChatsStore = create<ChatsState>((set, get) => ({
     });
   },
 
+  hydratePreviews: async (userId: string) => {
+    const chats = get().chats;
+
+    try {
+      const previews = await Promise.all(
+        chats.map(async (chat) => ({
+          chatId: chat.id,
+          last: await getLastMessage(userId, chat),
+        }))
+      );
+
+      set((state) => ({
+        chats: state.chats.map((chat) => {
+          const preview = previews.find((p) => p.chatId === chat.id);
+          if (!preview?.last) return chat;
+          return {
+            ...chat,
+            lastMessage: getMessagePreview(preview.last),
+            lastMessageBy: preview.last.senderId,
+          };
+        }),
+      }));
+    } catch (error) {
+      console.error('Failed to load chat previews from Dexie.js:', error);
+    }
+  },
+
+  refreshPreview: async (userId: string, chatId: string) => {
+    const chat = get().chats.find((c) => c.id === chatId);
+    if (!chat) return;
+
+    try {
+      const last = await getLastMessage(userId, chat);
+
+      set((state) => ({
+        chats: state.chats.map((c) =>
+          c.id === chatId
+            ? {
+                ...c,
+                lastMessage: last ? getMessagePreview(last) : null,
+                lastMessageBy: last ? last.senderId : null,
+              }
+            : c
+        ),
+      }));
+    } catch (error) {
+      console.error('Failed to refresh chat preview from Dexie.js:', error);
+    }
+  },
+
   incrementUnreadCount: (chatId: string) => {
     set((state) => {
       const updatedChats = state.chats.map((chat) => {
@@ -191,6 +385,47 @@ export const useChatsStore = create<ChatsState>((set, get) => ({
     });
   },
 
+  updateGroup: (chatId: string, group: ChatGroup) => {
+    set((state) => ({
+      chats: state.chats.map((chat) =>
+        chat.id === chatId ? { ...chat, group } : chat
+      ),
+    }));
+  },
+
+  updateParticipantPresence: (
+    userId: string,
+    isOnline: boolean,
+    lastSeenAt: Date
+  ) => {
+    set((state) => ({
+      chats: state.chats.map((chat) => {
+        if (chat.participant?.id === userId) {
+          return {
+            ...chat,
+            participant: { ...chat.participant, isOnline, lastSeenAt },
+          };
+        }
+
+        if (chat.group?.members.some((member) => member.id === userId)) {
+          return {
+            ...chat,
+            group: {
+              ...chat.group,
+              members: chat.group.members.map((member) =>
+                member.id === userId
+                  ? { ...member, isOnline, lastSeenAt }
+                  : member
+              ),
+            },
+          };
+        }
+
+        return chat;
+      }),
+    }));
+  },
+
   deleteChat: (chatId: string) => {
     set((state) => ({
       chats: state.chats.filter((chat) => chat.id !== chatId),
@@ -75,7 +75,11 @@ export interface ContactsState {
   /**
    * Update contact online status
    */
-  updateContactOnlineStatus: (userId: string, isOnline: boolean) => void;
+  updateContactOnlineStatus: (
+    userId: string,
+    isOnline: boolean,
+    lastSeen?: Date
+  ) => void;
 
   /**
    * Get accepted contacts only
@@ -161,7 +165,11 @@ export const useContactsStore = create<ContactsState>((set, get) => ({
     }));
   },
 
-  updateContactOnlineStatus: (userId: string, isOnline: boolean) => {
+  updateContactOnlineStatus: (
+    userId: string,
+    isOnline: boolean,
+    lastSeen?: Date
+  ) => {
     set((state) => ({
       contacts: state.contacts.map((c) =>
         c.contact.id === userId
@@ -170,7 +178,8 @@ export const useContactsStore = create<ContactsState>((set, get) => ({
               contact: {
                 ...c.contact,
                 isOnline,
-                lastSeen: isOnline ? c.contact.lastSeen : new Date(),
+                lastSeen:
+                  lastSeen ?? (isOnline ? c.contact.lastSeen : new Date()),
               },
             }
           : c
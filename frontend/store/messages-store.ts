@@ -8,7 +8,14 @@
  */
 
 import { create } from 'zustand';
-import { db } from '@/lib/db';
+import Dexie from 'dexie';
+import {
+  db,
+  type DBAttachment,
+  type DBMessageRevision,
+  type DBReaction,
+  type DBReplyQuote,
+} from '@/lib/db';
 
 /**
  * Message interface (matches DBMessage)
@@ -17,12 +24,146 @@ export interface Message {
   id: string;
   senderId: string;
   receiverId: string;
+  groupId?: string;
   content: string;
   type: 'TEXT' | 'IMAGE' | 'VIDEO' | 'AUDIO' | 'FILE';
   status: 'SENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
   createdAt: Date;
   updatedAt: Date;
   localOnly?: boolean;
+  decryptionFailed?: boolean;
+  attachment?: DBAttachment;
+  editedAt?: Date;
+  editHistory?: DBMessageRevision[];
+  deletedAt?: Date;
+  replyToId?: string;
+  replyQuote?: DBReplyQuote;
+}
+
+/**
+ * Order of delivery states; receipts never move a message backwards
+ */
+const STATUS_RANK: Record<Message['status'], number> = {
+  FAILED: 0,
+  SENDING: 1,
+  SENT: 2,
+  DELIVERED: 3,
+  READ: 4,
+};
+
+/**
+ * Number of messages loaded at once (the newest page, then older pages)
+ */
+export const MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * Conversation whose messages are loaded
+ */
+export interface ChatQuery {
+  userId: string;
+  peerId: string; // Other participant, or the group chat ID
+  isGroup: boolean;
+}
+
+/**
+ * Read the messages of a chat sent in a time range, oldest first
+ *
+ * Both bounds are inclusive (null for no bound). With a `limit`, only the
+ * newest messages of the range are returned. Messages are read backwards
+ * over the compound createdAt indexes, so a page costs the same however
+ * long the conversation is.
+ */
+async function queryMessages(
+  query: ChatQuery,
+  before: Date | null,
+  after: Date | null,
+  limit?: number
+): Promise<Message[]> {
+  const readRange = async (index: string, prefix: string[]) => {
+    const collection = db.messages
+      .where(index)
+      .between(
+        [...prefix, after ?? Dexie.minKey],
+        [...prefix, before ?? Dexie.maxKey],
+        true,
+        true
+      )
+      .reverse();
+    return limit ? collection.limit(limit).toArray() : collection.toArray();
+  };
+
+  // Group messages are all stored with the group as receiver; direct
+  // messages are (senderId = userId AND receiverId = peerId) OR
+  // (senderId = peerId AND receiverId = userId)
+  const messages = query.isGroup
+    ? await readRange('[receiverId+createdAt]', [query.peerId])
+    : (
+        await Promise.all([
+          readRange('[senderId+receiverId+createdAt]', [
+            query.userId,
+            query.peerId,
+          ]),
+          readRange('[senderId+receiverId+createdAt]', [
+            query.peerId,
+            query.userId,
+          ]),
+        ])
+      ).flat();
+
+  const sorted = messages.sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  return limit ? sorted.slice(-limit) : sorted;
+}
+
+/**
+ * Check whether a message belongs to a conversation
+ */
+function isInConversation(query: ChatQuery, message: Message): boolean {
+  if (query.isGroup) return message.groupId === query.peerId;
+
+  return (
+    !message.groupId &&
+    ((message.senderId === query.userId &&
+      message.receiverId === query.peerId) ||
+      (message.senderId === query.peerId &&
+        message.receiverId === query.userId))
+  );
+}
+
+/**
+ * Read the reactions to messages, by message ID
+ */
+async function queryReactions(
+  messageIds: string[]
+): Promise<Record<string, DBReaction[]>> {
+  const reactions: Record<string, DBReaction[]> = {};
+  (await db.reactions.where('messageId').anyOf(messageIds).toArray()).forEach(
+    (reaction) => {
+      if (reaction.emoji) {
+        reactions[reaction.messageId] = withReaction(
+          reactions[reaction.messageId],
+          reaction
+        );
+      }
+    }
+  );
+  return reactions;
+}
+
+/**
+ * Replace a user's reaction in a message's reaction list
+ *
+ * Removed reactions (empty emoji) are dropped from the list.
+ */
+function withReaction(
+  reactions: DBReaction[] | undefined,
+  reaction: DBReaction
+): DBReaction[] {
+  const others = (reactions ?? []).filter(
+    (item) => item.userId !== reaction.userId
+  );
+  return reaction.emoji ? [...others, reaction] : others;
 }
 
 /**
@@ -39,6 +180,21 @@ export interface MessagesState {
    */
   currentChatId: string | null;
 
+  /**
+   * Conversation of the loaded messages (null when no chat is open)
+   */
+  chatQuery: ChatQuery | null;
+
+  /**
+   * Whether older messages than the loaded ones may be stored
+   */
+  hasOlderMessages: boolean;
+
+  /**
+   * Whether an older page is being loaded
+   */
+  isLoadingOlder: boolean;
+
   /**
    * Whether messages are being loaded
    */
@@ -50,15 +206,62 @@ export interface MessagesState {
   error: string | null;
 
   /**
-   * Load messages for a chat from Dexie.js
+   * Progress (0-1) of attachment uploads, by message ID
    */
-  loadMessages: (userId: string, participantId: string) => Promise<void>;
+  uploadProgress: Record<string, number>;
+
+  /**
+   * Own message being edited in the message input (null when composing)
+   */
+  editingMessage: Message | null;
+
+  /**
+   * Message the next sent message replies to (null for a plain message)
+   */
+  replyingTo: Message | null;
+
+  /**
+   * Emoji reactions to the loaded messages, by message ID
+   */
+  reactions: Record<string, DBReaction[]>;
+
+  /**
+   * Load the newest page of a chat's messages from Dexie.js
+   *
+   * `peerId` is the other participant, or the chat ID of a group chat.
+   */
+  loadMessages: (
+    userId: string,
+    peerId: string,
+    isGroup?: boolean
+  ) => Promise<void>;
+
+  /**
+   * Load the page of messages before the oldest loaded one
+   *
+   * With `until`, every message back to that time is loaded instead (e.g.
+   * to show the original of a reply).
+   */
+  loadOlderMessages: (until?: Date) => Promise<void>;
+
+  /**
+   * Make sure a message of the current chat is loaded, loading older pages
+   * back to it if needed
+   *
+   * @returns True if the message is loaded
+   */
+  ensureMessageLoaded: (messageId: string) => Promise<boolean>;
 
   /**
    * Add a new message (save to Dexie.js)
    */
   addMessage: (message: Message) => Promise<void>;
 
+  /**
+   * Save received messages (idempotent) and show those for the current chat
+   */
+  receiveMessages: (messages: Message[]) => Promise<void>;
+
   /**
    * Update message status
    */
@@ -67,6 +270,93 @@ export interface MessagesState {
     status: Message['status']
   ) => Promise<void>;
 
+  /**
+   * Update fields of a stored message (e.g. attachment metadata)
+   */
+  updateMessage: (
+    messageId: string,
+    changes: Partial<Omit<Message, 'id'>>
+  ) => Promise<void>;
+
+  /**
+   * Set or clear (null) the upload progress of a message's attachment
+   */
+  setUploadProgress: (messageId: string, progress: number | null) => void;
+
+  /**
+   * Apply a delivery receipt to several messages
+   *
+   * Only moves messages forward (SENT → DELIVERED → READ). When
+   * `recipientId` is given, only messages addressed to that user change;
+   * group messages take the receipt of any member.
+   */
+  applyReceipt: (
+    messageIds: string[],
+    status: 'DELIVERED' | 'READ',
+    recipientId?: string
+  ) => Promise<void>;
+
+  /**
+   * Replace the content of a message, keeping the previous version
+   *
+   * Edits older than the current version are ignored, as are edits to
+   * deleted messages. When `authorId` is given, only that user's messages
+   * change.
+   *
+   * @returns The updated message, or null if the edit was not applied
+   */
+  applyEdit: (
+    messageId: string,
+    content: string,
+    editedAt: Date,
+    authorId?: string
+  ) => Promise<Message | null>;
+
+  /**
+   * Turn a message into a "deleted" tombstone (content, attachment and
+   * edit history are dropped). When `authorId` is given, only that user's
+   * messages change.
+   *
+   * @returns The updated message, or null if nothing changed
+   */
+  applyDelete: (
+    messageId: string,
+    deletedAt: Date,
+    authorId?: string
+  ) => Promise<Message | null>;
+
+  /**
+   * Start (message) or stop (null) editing an own message
+   *
+   * Editing and replying are exclusive: starting one cancels the other.
+   */
+  setEditingMessage: (message: Message | null) => void;
+
+  /**
+   * Start (message) or stop (null) replying to a message
+   */
+  setReplyingTo: (message: Message | null) => void;
+
+  /**
+   * Set (emoji) or remove (null) the current user's reaction to a message
+   *
+   * The reaction is saved as pending; it is sent by the reaction outbox.
+   */
+  setReaction: (
+    reaction: Pick<DBReaction, 'messageId' | 'userId' | 'chatId' | 'peerId'>,
+    emoji: string | null
+  ) => Promise<void>;
+
+  /**
+   * Save a reaction received from another user of the chat
+   *
+   * Reactions older than the stored one from the same user are ignored;
+   * an empty emoji removes the reaction.
+   *
+   * @returns True if the reaction was applied
+   */
+  receiveReaction: (reaction: DBReaction) => Promise<boolean>;
+
   /**
    * Clear messages (when leaving chat)
    */
@@ -88,29 +378,41 @@ export interface MessagesState {
  *
  * Manages messages for the current chat with Dexie.js integration.
  */
-export const useMessagesStore = create<MessagesState>((set) => ({
+export const useMessagesStore = create<MessagesState>((set, get) => ({
   messages: [],
   currentChatId: null,
+  chatQuery: null,
+  hasOlderMessages: false,
+  isLoadingOlder: false,
   isLoading: false,
   error: null,
+  uploadProgress: {},
+  editingMessage: null,
+  replyingTo: null,
+  reactions: {},
 
-  loadMessages: async (userId: string, participantId: string) => {
+  loadMessages: async (userId: string, peerId: string, isGroup = false) => {
     set({ isLoading: true, error: null });
 
     try {
-      // Load messages from Dexie.js where:
-      // (senderId = userId AND receiverId = participantId) OR
-      // (senderId = participantId AND receiverId = userId)
-      const messages = await db.messages
-        .where('[senderId+receiverId]')
-        .equals([userId, participantId])
-        .or('[senderId+receiverId]')
-        .equals([participantId, userId])
-        .sortBy('createdAt');
+      const chatQuery: ChatQuery = { userId, peerId, isGroup };
+
+      // One extra message tells whether there are older ones
+      const page = await queryMessages(
+        chatQuery,
+        null,
+        null,
+        MESSAGES_PAGE_SIZE + 1
+      );
+      const messages = page.slice(-MESSAGES_PAGE_SIZE);
+      const reactions = await queryReactions(messages.map((msg) => msg.id));
 
       set({
         messages,
-        currentChatId: `${userId}-${participantId}`,
+        reactions,
+        currentChatId: isGroup ? peerId : `${userId}-${peerId}`,
+        chatQuery,
+        hasOlderMessages: page.length > MESSAGES_PAGE_SIZE,
         isLoading: false,
       });
     } catch (error) {
@@ -122,10 +424,88 @@ export const useMessagesStore = create<MessagesState>((set) => ({
     }
   },
 
+  loadOlderMessages: async (until?: Date) => {
+    const { chatQuery, messages, hasOlderMessages, isLoadingOlder } = get();
+    if (!chatQuery || !hasOlderMessages || isLoadingOlder) return;
+    if (messages.length === 0) return;
+
+    set({ isLoadingOlder: true });
+
+    try {
+      // The cursor is inclusive: messages sent at the same time as the
+      // oldest loaded one are read again and skipped
+      const oldest = messages[0].createdAt;
+      const loadedIds = new Set(messages.map((msg) => msg.id));
+      const tied = messages.filter(
+        (msg) => msg.createdAt.getTime() === oldest.getTime()
+      ).length;
+
+      const older = (
+        until
+          ? await queryMessages(chatQuery, oldest, until)
+          : await queryMessages(
+              chatQuery,
+              oldest,
+              null,
+              MESSAGES_PAGE_SIZE + 1 + tied
+            )
+      ).filter((msg) => !loadedIds.has(msg.id));
+
+      // Loading until a time leaves finding out about older messages to
+      // the next page
+      const hasOlder = !!until || older.length > MESSAGES_PAGE_SIZE;
+      const page = until ? older : older.slice(-MESSAGES_PAGE_SIZE);
+      const reactions = await queryReactions(page.map((msg) => msg.id));
+
+      set((state) =>
+        // Another chat was opened meanwhile
+        state.chatQuery !== chatQuery
+          ? state
+          : {
+              messages: [...page, ...state.messages],
+              reactions: { ...reactions, ...state.reactions },
+              hasOlderMessages: hasOlder,
+              isLoadingOlder: false,
+            }
+      );
+    } catch (error) {
+      console.error('Failed to load older messages from Dexie.js:', error);
+      set({ isLoadingOlder: false });
+    }
+  },
+
+  ensureMessageLoaded: async (messageId: string) => {
+    const isLoaded = () => get().messages.some((msg) => msg.id === messageId);
+    if (isLoaded()) return true;
+
+    const { chatQuery, messages } = get();
+    if (!chatQuery || messages.length === 0) return false;
+
+    try {
+      const stored = await db.messages.get(messageId);
+      if (
+        !stored ||
+        !isInConversation(chatQuery, stored) ||
+        stored.createdAt > messages[0].createdAt
+      ) {
+        return false;
+      }
+
+      await get().loadOlderMessages(stored.createdAt);
+      return isLoaded();
+    } catch (error) {
+      console.error('Failed to find message in Dexie.js:', error);
+      return false;
+    }
+  },
+
   addMessage: async (message: Message) => {
     try {
-      // Save to Dexie.js
-      await db.messages.add(message);
+      // Save to Dexie.js (with its search index entries)
+      await db.transaction('rw', db.messages, db.searchIndex, async () => {
+        await db.messages.add(message);
+        await db.indexMessages([message]);
+      });
 
       // Add to state
       set((state) => ({
@@ -137,6 +517,45 @@ export const useMessagesStore = create<MessagesState>((set) => ({
     }
   },
 
+  receiveMessages: async (messages: Message[]) => {
+    if (messages.length === 0) return;
+
+    try {
+      // bulkPut: redelivered messages overwrite their earlier copy
+      await db.transaction('rw', db.messages, db.searchIndex, async () => {
+        await db.messages.bulkPut(messages);
+        await db.indexMessages(messages);
+      });
+
+      set((state) => {
+        if (!state.currentChatId) return state;
+
+        const existingIds = new Set(state.messages.map((msg) => msg.id));
+        // Messages older than the loaded page come with the older pages
+        const oldest = state.hasOlderMessages
+          ? state.messages[0]?.createdAt
+          : undefined;
+        const forCurrentChat = messages.filter(
+          (msg) =>
+            !existingIds.has(msg.id) &&
+            (!oldest || msg.createdAt >= oldest) &&
+            state.currentChatId ===
+              (msg.groupId ?? `${msg.receiverId}-${msg.senderId}`)
+        );
+        if (forCurrentChat.length === 0) return state;
+
+        return {
+          messages: [...state.messages, ...forCurrentChat].sort(
+            (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+          ),
+        };
+      });
+    } catch (error) {
+      console.error('Failed to save received messages to Dexie.js:', error);
+      throw error;
+    }
+  },
+
   updateMessageStatus: async (
     messageId: string,
     status: Message['status']
@@ -161,11 +580,259 @@ export const useMessagesStore = create<MessagesState>((set) => ({
     }
   },
 
+  updateMessage: async (
+    messageId: string,
+    changes: Partial<Omit<Message, 'id'>>
+  ) => {
+    try {
+      const updatedAt = new Date();
+      await db.messages.update(messageId, { ...changes, updatedAt });
+
+      set((state) => ({
+        messages: state.messages.map((msg) =>
+          msg.id === messageId ? { ...msg, ...changes, updatedAt } : msg
+        ),
+      }));
+    } catch (error) {
+      console.error('Failed to update message in Dexie.js:', error);
+    }
+  },
+
+  setUploadProgress: (messageId: string, progress: number | null) => {
+    set((state) => {
+      const uploadProgress = { ...state.uploadProgress };
+      if (progress === null) {
+        delete uploadProgress[messageId];
+      } else {
+        uploadProgress[messageId] = progress;
+      }
+      return { uploadProgress };
+    });
+  },
+
+  applyReceipt: async (
+    messageIds: string[],
+    status: 'DELIVERED' | 'READ',
+    recipientId?: string
+  ) => {
+    if (messageIds.length === 0) return;
+
+    try {
+      const now = new Date();
+      const stored = await db.messages.bulkGet(messageIds);
+      const updated = stored.filter(
+        (msg): msg is Message =>
+          !!msg &&
+          (!recipientId || msg.receiverId === recipientId || !!msg.groupId) &&
+          STATUS_RANK[msg.status] < STATUS_RANK[status]
+      );
+      if (updated.length === 0) return;
+
+      await db.messages.bulkPut(
+        updated.map((msg) => ({ ...msg, status, updatedAt: now }))
+      );
+
+      const updatedIds = new Set(updated.map((msg) => msg.id));
+      set((state) => ({
+        messages: state.messages.map((msg) =>
+          updatedIds.has(msg.id) ? { ...msg, status, updatedAt: now } : msg
+        ),
+      }));
+    } catch (error) {
+      console.error('Failed to apply message receipt in Dexie.js:', error);
+    }
+  },
+
+  applyEdit: async (
+    messageId: string,
+    content: string,
+    editedAt: Date,
+    authorId?: string
+  ) => {
+    try {
+      const stored = await db.messages.get(messageId);
+      if (
+        !stored ||
+        stored.deletedAt ||
+        (authorId && stored.senderId !== authorId) ||
+        (stored.editedAt && stored.editedAt >= editedAt)
+      ) {
+        return null;
+      }
+
+      const updated: Message = {
+        ...stored,
+        content,
+        editedAt,
+        editHistory: [
+          ...(stored.editHistory ?? []),
+          {
+            content: stored.content,
+            createdAt: stored.editedAt ?? stored.createdAt,
+          },
+        ],
+        updatedAt: new Date(),
+      };
+      await db.transaction('rw', db.messages, db.searchIndex, async () => {
+        await db.messages.put(updated);
+        await db.indexMessages([updated]);
+      });
+
+      set((state) => ({
+        messages: state.messages.map((msg) =>
+          msg.id === messageId ? updated : msg
+        ),
+      }));
+
+      return updated;
+    } catch (error) {
+      console.error('Failed to apply message edit in Dexie.js:', error);
+      return null;
+    }
+  },
+
+  applyDelete: async (
+    messageId: string,
+    deletedAt: Date,
+    authorId?: string
+  ) => {
+    try {
+      const stored = await db.messages.get(messageId);
+      if (
+        !stored ||
+        stored.deletedAt ||
+        (authorId && stored.senderId !== authorId)
+      ) {
+        return null;
+      }
+
+      const updated: Message = {
+        ...stored,
+        content: '',
+        attachment: undefined,
+        editHistory: undefined,
+        deletedAt,
+        updatedAt: new Date(),
+      };
+      await db.transaction('rw', db.messages, db.searchIndex, async () => {
+        await db.messages.put(updated);
+        await db.indexMessages([updated]);
+      });
+
+      // Drop locally kept content of the attachment (voice messages)
+      if (stored.attachment) {
+        await db.attachmentBlobs.delete(stored.attachment.id);
+      }
+      await db.reactions.where('messageId').equals(messageId).delete();
+
+      set((state) => ({
+        messages: state.messages.map((msg) =>
+          msg.id === messageId ? updated : msg
+        ),
+        reactions: Object.fromEntries(
+          Object.entries(state.reactions).filter(([id]) => id !== messageId)
+        ),
+        editingMessage:
+          state.editingMessage?.id === messageId ? null : state.editingMessage,
+        replyingTo:
+          state.replyingTo?.id === messageId ? null : state.replyingTo,
+      }));
+
+      return updated;
+    } catch (error) {
+      console.error('Failed to apply message deletion in Dexie.js:', error);
+      return null;
+    }
+  },
+
+  setEditingMessage: (message: Message | null) => {
+    set((state) => ({
+      editingMessage: message,
+      replyingTo: message ? null : state.replyingTo,
+    }));
+  },
+
+  setReplyingTo: (message: Message | null) => {
+    set((state) => ({
+      replyingTo: message,
+      editingMessage: message ? null : state.editingMessage,
+    }));
+  },
+
+  setReaction: async (
+    reaction: Pick<DBReaction, 'messageId' | 'userId' | 'chatId' | 'peerId'>,
+    emoji: string | null
+  ) => {
+    const updated: DBReaction = {
+      ...reaction,
+      emoji: emoji ?? '',
+      reactedAt: new Date(),
+      pending: 1,
+    };
+
+    try {
+      await db.reactions.put(updated);
+
+      set((state) => ({
+        reactions: {
+          ...state.reactions,
+          [reaction.messageId]: withReaction(
+            state.reactions[reaction.messageId],
+            updated
+          ),
+        },
+      }));
+    } catch (error) {
+      console.error('Failed to save reaction to Dexie.js:', error);
+      throw error;
+    }
+  },
+
+  receiveReaction: async (reaction: DBReaction) => {
+    try {
+      const stored = await db.reactions.get([
+        reaction.messageId,
+        reaction.userId,
+      ]);
+      if (stored && stored.reactedAt >= reaction.reactedAt) {
+        return false;
+      }
+
+      // Removals are kept (empty emoji) so redeliveries are recognised
+      await db.reactions.put(reaction);
+
+      set((state) =>
+        state.messages.some((msg) => msg.id === reaction.messageId)
+          ? {
+              reactions: {
+                ...state.reactions,
+                [reaction.messageId]: withReaction(
+                  state.reactions[reaction.messageId],
+                  reaction
+                ),
+              },
+            }
+          : state
+      );
+
+      return true;
+    } catch (error) {
+      console.error('Failed to save received reaction to Dexie.js:', error);
+      return false;
+    }
+  },
+
   clearMessages: () => {
     set({
       messages: [],
+      reactions: {},
       currentChatId: null,
+      chatQuery: null,
+      hasOlderMessages: false,
+      isLoadingOlder: false,
       error: null,
+      editingMessage: null,
+      replyingTo: null,
     });
   },
 